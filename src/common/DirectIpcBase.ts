@@ -10,13 +10,103 @@ import {
   InvokeMap,
   Prettify,
   InvokeOptions,
+  InvokeAllOptions,
+  InvokeAllResult,
   TargetSelector,
+  MultiTargetSelector,
+  PoolSelector,
+  InvokeMessage,
   InvokeResponse,
   InvokeHandler,
+  InvokeStreamMessage,
+  InvokeStreamFrame,
+  InvokeCancelMessage,
+  InvokeSender,
+  WithInvokeSender,
+  InvokeStreamChunk,
+  InvokeProxy,
+  InvokeImplementation,
+  ProxyNaming,
+  ProxyOptions,
+  ExposeOptions,
+  ReliableSendOptions,
+  ReliableMessage,
+  ReliableAck,
+  DirectIpcRetentionOptions,
+  DirectIpcHeartbeatOptions,
+  HeartbeatOptions,
+  HeartbeatFrame,
+  TargetHealth,
+  DirectIpcMessage,
   WithSender,
   TypedEventEmitter,
 } from './index.js'
+import { DEFAULT_SHUTDOWN_TIMEOUT, DirectIpcCapability } from './DirectIpcCommunication.js'
 import { DirectIpcLogger } from './DirectIpcLogger.js'
+import { InvokeStreamQueue, isAsyncIterable } from './DirectIpcStream.js'
+import {
+  DeliveryTimeoutError,
+  PayloadKind,
+  PayloadValidationError,
+  PermissionDeniedError,
+  PortLostError,
+  RemoteInvokeError,
+  ShuttingDownError,
+  deserializeError,
+  serializeError,
+} from './DirectIpcErrors.js'
+import {
+  DirectIpcSchemas,
+  DirectIpcValidationOptions,
+  PayloadSchema,
+  ValidationPolicy,
+  runPayloadSchema,
+} from './DirectIpcValidation.js'
+import {
+  ChannelPermission,
+  HandleOptions,
+  ProcessMatcher,
+  isSenderAllowed,
+  matchesProcess,
+} from './DirectIpcPermissions.js'
+import { ChaosOptions, DirectIpcChaos, DirectIpcChaosOptions } from './DirectIpcChaos.js'
+import {
+  DirectIpcTap,
+  DirectIpcTapEvent,
+  DirectIpcTapOptions,
+  DirectIpcTapRecord,
+  TapOptions,
+} from './DirectIpcTap.js'
+import {
+  DirectIpcRecordingEntry,
+  DirectIpcReplay,
+  DirectIpcReplayMessage,
+  ReplayOptions,
+} from './DirectIpcRecording.js'
+import {
+  DirectIpcMiddleware,
+  DirectIpcMiddlewareContext,
+  runMiddleware,
+} from './DirectIpcMiddleware.js'
+import {
+  DirectIpcTransferable,
+  hasTransferables,
+  prepareTransfer,
+  restoreTransferredPorts,
+} from './DirectIpcTransfer.js'
+import {
+  CodecHello,
+  DirectIpcCodec,
+  DirectIpcCodecOptions,
+  decodeFrame,
+  encodeFrame,
+  negotiateCodec,
+} from './DirectIpcCodec.js'
+import {
+  DirectIpcCallOptions,
+  InvokeOptionsArgument,
+  extractCallOptions,
+} from './DirectIpcOptions.js'
 
 /**
  * Base event map for DirectIpc internal events
@@ -29,9 +119,42 @@ export type DirectIpcEventMap = {
   'map-updated': (map: DirectIpcTarget[]) => void
   'registration-complete': () => void
   'registration-failed': (error: Error) => void
+  /** A sender was refused by a channel permission (the message was dropped or the invoke rejected) */
+  'permission-denied': (
+    sender: DirectIpcTarget,
+    channel: string,
+    kind: 'message' | 'invoke'
+  ) => void
+  /** The port to a target closed or went stale; invokes waiting on it were rejected or parked */
+  'port-lost': (target: DirectIpcTarget) => void
+  /** A new port was established to a target whose port was lost */
+  'port-reconnected': (target: DirectIpcTarget) => void
+  /** A target stopped answering heartbeats (see HeartbeatOptions.missThreshold) */
+  'target-unresponsive': (target: DirectIpcTarget) => void
+  /** An unresponsive target answered a heartbeat again */
+  'target-responsive': (target: DirectIpcTarget) => void
+  /** A utility process spawned with DirectIpcMain.spawnUtility() was started (main process only) */
+  'utility-started': (target: DirectIpcTarget) => void
+  /** A spawned utility process exited with a non-zero code (main process only) */
+  'utility-crashed': (target: DirectIpcTarget, code: number) => void
+  /** A spawned utility process was started again after it exited (main process only) */
+  'utility-restarted': (target: DirectIpcTarget, restarts: number) => void
+  /** A spawned utility process exited after its last allowed restart (main process only) */
+  'utility-gave-up': (target: DirectIpcTarget, restarts: number) => void
+  /** This process started draining (see drain()); new invokes are refused from now on */
+  'shutting-down': () => void
   message: (sender: DirectIpcTarget, message: unknown) => void
 }
 
+/**
+ * How a pending invoke notifies the remote handler that it was cancelled
+ */
+export interface InvokeCancellation {
+  signal?: AbortSignal | undefined
+  /** Post an `invoke-cancel` frame to the remote process */
+  sendCancel: () => void
+}
+
 /**
  * Cached port information
  */
@@ -40,6 +163,94 @@ export interface CachedPort<TPort> {
   info: DirectIpcTarget
 }
 
+/** Default wait for an acknowledgement before sendReliable() retries (ms) */
+const DEFAULT_RELIABLE_RETRY_INTERVAL = 1000
+
+/** Default time between heartbeats (ms) */
+const DEFAULT_HEARTBEAT_INTERVAL = 1000
+
+/** Default number of unanswered heartbeats before a target is unresponsive */
+const DEFAULT_HEARTBEAT_MISS_THRESHOLD = 3
+
+/** Number of recently delivered reliable messages remembered to drop duplicates */
+const RELIABLE_DEDUPE_WINDOW = 1000
+
+/**
+ * Key that identifies a target across reloads and restarts (which may change its process ID)
+ */
+function targetIdentity(target: DirectIpcTarget): string {
+  if (target.identifier !== undefined) return `identifier:${target.identifier}`
+  if (target.webContentsId !== undefined) return `webContents:${target.webContentsId}`
+  return `process:${target.id}`
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Pick the member a sticky key maps to (rendezvous hashing)
+ * Every process picks the same member for a key, and a member leaving only moves its own keys.
+ */
+function stickyMember(members: DirectIpcTarget[], key: string): DirectIpcTarget {
+  let best = members[0]!
+  let bestScore = -1
+  for (const member of members) {
+    const score = hashString(`${key}\0${targetIdentity(member)}`)
+    if (score > bestScore) {
+      best = member
+      bestScore = score
+    }
+  }
+  return best
+}
+
+/**
+ * Convert a proxy method name to its channel name
+ * With `'camelCase'` naming, `getUser` becomes `'get-user'`; with `'exact'` it stays `'getUser'`.
+ */
+function toChannelName(method: string, naming: ProxyNaming = 'camelCase'): string {
+  if (naming === 'exact') return method
+  return method.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)
+}
+
+/**
+ * Key telling target selectors apart, with patterns kept distinct from equal strings
+ */
+function getSelectorKey(selector: object): string {
+  return Object.entries(selector)
+    .map(([key, value]) => `${key}=${value instanceof RegExp ? 'regexp' : typeof value}:${value}`)
+    .join('&')
+}
+
+/**
+ * Names of the methods of an object, including those inherited from class prototypes
+ */
+function getMethodNames(object: object): string[] {
+  const names = new Set<string>()
+  for (
+    let proto: object | null = object;
+    proto && proto !== Object.prototype;
+    proto = Object.getPrototypeOf(proto) as object | null
+  ) {
+    for (const name of Object.getOwnPropertyNames(proto)) {
+      const descriptor = Object.getOwnPropertyDescriptor(proto, name)
+      if (name !== 'constructor' && typeof descriptor?.value === 'function') {
+        names.add(name)
+      }
+    }
+  }
+  return [...names]
+}
+
 /**
  * Abstract base class for DirectIpc implementations
  * @template TMessageMap - Map of message channels to their handler function signatures (WITHOUT sender)
@@ -73,6 +284,34 @@ export abstract class DirectIpcBase<
       resolve: (value: unknown) => void
       reject: (error: Error) => void
       timeout: NodeJS.Timeout
+      /** Invoke channel, used to describe remote errors */
+      channel?: string
+      abort?: { signal: AbortSignal; listener: () => void }
+      /** Port the request was posted on, so it can be failed or re-issued when the port is lost */
+      port?: TPort
+      /** Post the request again on a replacement port (set with `retryOnReconnect`) */
+      reissue?: (port: TPort) => void
+      /** Target whose lost port the request is waiting to be re-issued to */
+      awaiting?: DirectIpcTarget
+    }
+  >()
+
+  /** Abort controllers for invoke handlers currently running in this process */
+  protected activeHandlers = new Map<string, AbortController>()
+
+  /** Streaming invokes waiting for chunks, keyed by request ID */
+  protected pendingStreams = new Map<
+    string,
+    {
+      queue: InvokeStreamQueue<unknown>
+      timeout: NodeJS.Timeout
+      /** Restart the idle timeout (called whenever a chunk arrives) */
+      restartTimeout: () => NodeJS.Timeout
+      /** Invoke channel, used to describe remote errors */
+      channel: string
+      abort?: { signal: AbortSignal; listener: () => void }
+      /** Port the request was posted on, so the stream fails when the port is lost */
+      port?: TPort
     }
   >()
 
@@ -85,14 +324,105 @@ export abstract class DirectIpcBase<
   /** This process's optional identifier */
   protected myIdentifier?: TIdentifierStrings
 
+  /** Schemas checked against received payloads, per channel */
+  protected schemas: DirectIpcSchemas<TMessageMap, TInvokeMap> = {}
+
+  /** What to do with payloads that fail validation */
+  protected validationPolicy: ValidationPolicy = 'reject'
+
+  /** Senders allowed to invoke each handler (see handle() options) */
+  protected handlerPermissions = new Map<string, ChannelPermission>()
+
+  /** Senders allowed to emit each message channel (see setMessagePermission()) */
+  protected messagePermissions = new Map<string, ChannelPermission>()
+
+  /** Identifies this instance's reliable messages (a reloaded process gets a new session) */
+  protected readonly reliableSession = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+
+  /** Sequence number of the last reliable message sent */
+  protected reliableSeq = 0
+
+  /** sendReliable() calls waiting for an acknowledgement, keyed by sequence number */
+  protected pendingAcks = new Map<number, () => void>()
+
+  /** Recently delivered reliable messages (`session:seq`), oldest first */
+  protected deliveredReliable = new Set<string>()
+
+  /** Message channels whose last sent message is replayed to targets that connect later */
+  protected retainedChannels = new Set<string>()
+
+  /** Last message sent on each retained channel to each selector, least recent first */
+  protected retainedMessages = new Map<
+    string,
+    Map<string, { target: TargetSelector<TIdentifierStrings>; message: string; args: unknown[] }>
+  >()
+
   /** Local event emitter for lifecycle events */
   public readonly localEvents: TypedEventEmitter<DirectIpcEventMap>
 
+  /** Codecs this process can use, in order of preference */
+  protected codecs: DirectIpcCodec[] = []
+
+  /** Codec negotiated for posting to each port (absent: plain structured clone) */
+  protected portCodecs = new WeakMap<object, DirectIpcCodec>()
+
+  /** Targets whose port was lost, by identity, until a new port to them is established */
+  protected lostTargets = new Map<string, DirectIpcTarget>()
+
+  /** Identities of lost targets a fresh port is currently being requested for */
+  private reconnecting = new Set<string>()
+
+  /** Established ports and the heartbeats they have not answered yet */
+  protected connectedPorts = new Map<
+    TPort,
+    { target: DirectIpcTarget; awaitingAck: boolean; missed: number }
+  >()
+
+  /** Heartbeat settings, undefined while heartbeats are off */
+  protected heartbeatOptions?: Required<HeartbeatOptions>
+
+  /** Interval posting heartbeats */
+  private heartbeatTimer: NodeJS.Timeout | undefined
+
+  /** Liveness of targets, by process ID (only tracked while heartbeats are on) */
+  protected targetHealth = new Map<number, TargetHealth>()
+
+  /** Next round-robin position, by pool name */
+  private poolCursors = new Map<string, number>()
+
+  /** Pool invokes from this process still in flight, by member process ID */
+  private poolPending = new Map<number, number>()
+
+  /** Set by drain(): invoke requests are answered with a ShuttingDownError */
+  protected shuttingDown = false
+
+  /** Called when the last running handler settles, one per drain() call waiting for it */
+  private handlersSettled = new Set<() => void>()
+
+  /** Middleware registered with use(), in order */
+  protected middleware: DirectIpcMiddleware[] = []
+
+  /** Fault injection for posted frames, undefined while off (see setChaos) */
+  protected chaos: DirectIpcChaos | undefined
+
+  /** Traffic reported to DirectIpcMain, undefined while off (see setTap) */
+  protected tap: DirectIpcTap | undefined
+
+  /** Tap settings from setTap() and from DirectIpcMain while it records */
+  private tapSettings: { local: TapOptions | false; requested: TapOptions | false } = {
+    local: false,
+    requested: false,
+  }
+
+  /** Replay started by DirectIpcMain's replayRecording() */
+  private remoteReplay: DirectIpcReplay | undefined
+
   // ===== CONSTRUCTOR =====
 
   constructor() {
     super()
     this.localEvents = new EventEmitter() as TypedEventEmitter<DirectIpcEventMap>
+    this.localEvents.on('target-added', (target) => void this.replayRetainedToNewTarget(target))
   }
 
   // ===== ABSTRACT METHODS (must be implemented by subclasses) =====
@@ -105,15 +435,23 @@ export abstract class DirectIpcBase<
 
   /**
    * Send message via a port
-   * Different port types have different APIs
+   * Different port types have different APIs (and accept different transferables)
    */
-  protected abstract postMessageToPort(port: TPort, message: unknown): void
+  protected abstract postMessageToPort(
+    port: TPort,
+    message: unknown,
+    transfer?: DirectIpcTransferable[]
+  ): void
 
   /**
    * Set up message listener on a port
    * MessagePort uses onmessage, MessagePortMain uses on('message')
+   * The handler also receives the ports transferred with the message.
    */
-  protected abstract setupPortListener(port: TPort, handler: (data: unknown) => void): void
+  protected abstract setupPortListener(
+    port: TPort,
+    handler: (data: unknown, ports: readonly unknown[]) => void
+  ): void
 
   /**
    * Get or request a port for a target
@@ -142,12 +480,17 @@ export abstract class DirectIpcBase<
    */
   public abstract closeAllPorts(): void
 
+  /**
+   * Hand a batch of tap events to DirectIpcMain (see setTap())
+   */
+  protected abstract reportTap(events: DirectIpcTapEvent[]): void
+
   /**
    * Send a message to target(s)
    * Base implementation handles common validation, subclasses override for specifics
    */
   public abstract send<T extends keyof TMessageMap>(
-    target: TargetSelector<TIdentifierStrings>,
+    target: TargetSelector<TIdentifierStrings> | PoolSelector,
     message: T,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any -- 'any' used in conditional type for parameter extraction
     ...args: TMessageMap[T] extends (...args: infer P) => any ? P : never
@@ -157,13 +500,29 @@ export abstract class DirectIpcBase<
    * Invoke a handler on a remote process
    */
   public abstract invoke<T extends keyof TInvokeMap>(
-    target: Omit<TargetSelector<TIdentifierStrings>, 'allIdentifiers' | 'allUrls'>,
+    target: Omit<TargetSelector<TIdentifierStrings>, 'allIdentifiers' | 'allUrls'> | PoolSelector,
     channel: T,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     ...args: any[]
   ): // eslint-disable-next-line @typescript-eslint/no-explicit-any
   Promise<any>
 
+  /**
+   * Get the port to a known target, requesting one from main if none is cached
+   * @param fresh - Drop the cached port and have main replace the channel
+   */
+  protected abstract getTargetPort(target: DirectIpcTarget, fresh?: boolean): Promise<TPort>
+
+  /**
+   * Invoke a handler on one known target (used by invokeAll())
+   */
+  protected abstract invokeTarget<T>(
+    target: DirectIpcTarget,
+    channel: string,
+    options: InvokeOptions | undefined,
+    args: unknown[]
+  ): Promise<T>
+
   // ===== CONCRETE METHODS (shared implementation) =====
 
   /**
@@ -178,6 +537,18 @@ export abstract class DirectIpcBase<
 
     // Detect added/removed targets
     this.emitMapChanges(oldMap, newMap)
+
+    for (const id of this.targetHealth.keys()) {
+      if (!newMap.some((t) => t.id === id)) this.targetHealth.delete(id)
+    }
+
+    // Anonymous targets that left the map cannot come back under the same identity
+    for (const [identity, target] of this.lostTargets) {
+      if (target.identifier === undefined && !newMap.some((t) => t.id === target.id)) {
+        this.lostTargets.delete(identity)
+      }
+    }
+    this.reconnectLostTargets()
   }
 
   /**
@@ -201,6 +572,12 @@ export abstract class DirectIpcBase<
       if (!newKeys.has(key)) {
         this.localEvents.emit('target-removed', target)
         this.cleanupPort(target)
+      } else if (
+        target.identifier !== undefined &&
+        newMap.some((t) => t.identifier === target.identifier && t.id !== target.id)
+      ) {
+        // Same identifier, new process (e.g. a restarted utility process): the old port is dead
+        this.cleanupPort(target)
       }
     }
   }
@@ -208,144 +585,2140 @@ export abstract class DirectIpcBase<
   /**
    * Handle an incoming invoke response
    */
-  protected handleInvokeResponse(response: InvokeResponse): void {
+  protected handleInvokeResponse(response: InvokeResponse, sender: DirectIpcTarget): void {
     const { requestId, success, data, error } = response
 
     this.log.silly?.('DirectIpcBase::handleInvokeResponse - handling response')
 
-    const pending = this.pendingInvokes.get(requestId)
+    // Clean up
+    const pending = this.removePendingInvoke(requestId)
     if (!pending) {
       this.log.warn?.('DirectIpcBase::handleInvokeResponse - No pending request')
       return
     }
 
-    // Clean up
-    clearTimeout(pending.timeout)
-    this.pendingInvokes.delete(requestId)
-
-    // Resolve or reject
-    if (success) {
+    // Resolve or reject; an invalid result rejects under every policy so the invoke settles
+    const invalid =
+      success && pending.channel ? this.validatePayload('result', pending.channel, data) : undefined
+    if (invalid) {
+      pending.reject(invalid)
+    } else if (success) {
       pending.resolve(data)
     } else {
-      pending.reject(new Error(error ?? 'Unknown error in invoke response'))
+      pending.reject(
+        new RemoteInvokeError(
+          pending.channel ?? 'unknown',
+          sender,
+          deserializeError(error ?? 'Unknown error in invoke response')
+        )
+      )
     }
   }
 
   /**
-   * Register a handler for invoke calls on a specific channel
+   * Handle data received on a port from another process
+   * Dispatches invoke requests/responses and emits regular messages to listeners
+   * @param port - Port the data arrived on (used to reply to invoke requests)
    */
-  handle<T extends keyof TInvokeMap>(channel: T, handler: WithSender<TInvokeMap>[T]): void {
-    this.log.silly?.('DirectIpcBase::handle - Registering handler for channel')
-    if (this.handlers.has(channel as string)) {
-      this.log.warn?.(
-        `DirectIpcBase::handle - Handler already exists for ${channel as string}, replacing`
-      )
+  protected handlePortData(
+    port: TPort | undefined,
+    data: unknown,
+    sender: DirectIpcTarget,
+    ports: readonly unknown[] = []
+  ): void {
+    if (!data || typeof data !== 'object') {
+      this.log.warn?.('DirectIpcBase::handlePortData - Ignoring non-object port data')
+      return
+    }
+    if (ports.length > 0) {
+      this.handlePortData(port, this.restorePorts(data, ports), sender)
+      return
+    }
+    if ('codec' in data) {
+      const codec = this.codecs.find((candidate) => candidate.name === data.codec)
+      if (!codec) {
+        this.dropUndecodableFrame(port, data, sender, `Unknown codec "${String(data.codec)}"`)
+        return
+      }
+      let decoded: object
+      try {
+        decoded = decodeFrame(codec, data)
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+        this.dropUndecodableFrame(port, data, sender, `Codec "${codec.name}" failed: ${reason}`)
+        return
+      }
+      this.handlePortData(port, decoded, sender)
+      return
+    }
+
+    this.tap?.frame('received', sender, data)
+
+    if ('type' in data) {
+      if (data.type === 'invoke-response') {
+        this.handleInvokeResponse(data as InvokeResponse, sender)
+        return
+      }
+      if (data.type === 'invoke' || data.type === 'invoke-stream') {
+        if (!port) {
+          this.log.warn?.('DirectIpcBase::handlePortData - No port to respond to invoke request')
+          return
+        }
+        if (data.type === 'invoke') {
+          void this.handleInvokeRequest(port, data as InvokeMessage, sender)
+        } else {
+          void this.handleInvokeStreamRequest(port, data as InvokeStreamMessage, sender)
+        }
+        return
+      }
+      if (data.type === 'reliable-message') {
+        this.handleReliableMessage(port, data as ReliableMessage, sender)
+        return
+      }
+      if (data.type === 'reliable-ack') {
+        this.handleReliableAck(data as ReliableAck)
+        return
+      }
+      if (data.type === 'invoke-cancel') {
+        this.handleInvokeCancel(data as InvokeCancelMessage, sender)
+        return
+      }
+      if (data.type === 'heartbeat' || data.type === 'heartbeat-ack') {
+        if (port) this.handleHeartbeat(port, data as HeartbeatFrame)
+        return
+      }
+      if (data.type === 'codec-hello') {
+        if (port) this.handleCodecHello(port, data as CodecHello)
+        return
+      }
+      if (
+        data.type === 'invoke-stream-chunk' ||
+        data.type === 'invoke-stream-end' ||
+        data.type === 'invoke-stream-error'
+      ) {
+        this.handleInvokeStreamFrame(data as InvokeStreamFrame, sender)
+        return
+      }
+    }
+
+    if ('message' in data) {
+      this.receiveMessage(sender, data as DirectIpcMessage<TMessageMap>)
     }
-    this.handlers.set(channel as string, handler as InvokeHandler)
   }
 
   /**
-   * Remove a handler for a specific channel
+   * Drop a frame whose payload could not be decoded
+   * Invoke requests are answered with an error, and invokes or streams waiting for the frame
+   * fail, so neither end is left waiting for a timeout.
    */
-  removeHandler<T extends keyof TInvokeMap>(channel: T): void {
-    this.log.silly?.(`DirectIpcBase::removeHandler - Removing handler for ${channel as string}`)
-    this.handlers.delete(channel as string)
+  private dropUndecodableFrame(
+    port: TPort | undefined,
+    frame: object,
+    sender: DirectIpcTarget,
+    reason: string
+  ): void {
+    this.log.warn?.(`DirectIpcBase::handlePortData - Dropping undecodable frame: ${reason}`)
+    const type = 'type' in frame ? frame.type : undefined
+    const requestId =
+      'requestId' in frame && typeof frame.requestId === 'string' ? frame.requestId : undefined
+    if (requestId === undefined) return
+
+    const error = new Error(`DirectIpc - Could not decode payload: ${reason}`)
+    if (type === 'invoke' && port) {
+      const response: InvokeResponse = {
+        type: 'invoke-response',
+        requestId,
+        success: false,
+        error: serializeError(error),
+      }
+      this.postToPort(port, response)
+    } else if (type === 'invoke-stream' && port) {
+      this.postStreamFrame(port, {
+        type: 'invoke-stream-error',
+        requestId,
+        error: serializeError(error),
+      })
+    } else if (type === 'invoke-response') {
+      this.removePendingInvoke(requestId)?.reject(error)
+    } else if (type === 'invoke-stream-chunk') {
+      const pending = this.pendingStreams.get(requestId)
+      if (pending) {
+        // Left pending so invokeStream() cancels the remote handler when it unwinds
+        clearTimeout(pending.timeout)
+        pending.queue.fail(error)
+      }
+    }
   }
 
   /**
-   * Get the current array of all registered target processes
+   * Put ports transferred with a frame back in place of their placeholders
    */
-  getMap(): DirectIpcTarget[] {
-    return [...this.map]
+  private restorePorts(data: object, ports: readonly unknown[]): object {
+    if ('args' in data && Array.isArray(data.args)) {
+      return { ...data, args: restoreTransferredPorts(data.args, ports) }
+    }
+    if ('type' in data && data.type === 'invoke-response' && 'data' in data) {
+      return { ...data, data: restoreTransferredPorts([data.data], ports)[0] }
+    }
+    return data
   }
 
   /**
-   * Get this process's identifier
-   * @returns The identifier string or undefined if not set
+   * Post a frame whose arguments may include transfer() values or ports
    */
-  getMyIdentifier(): TIdentifierStrings | undefined {
-    return this.myIdentifier
+  protected postArgs<TFrame extends { args: unknown[] }>(port: TPort, frame: TFrame): void {
+    const { values, transfer } = prepareTransfer(frame.args)
+    this.postFrame(port, { ...frame, args: values }, transfer)
   }
 
   /**
-   * Set the default timeout for invoke calls
+   * Post a frame carrying a payload, encoded with the codec negotiated for the port
+   * Frames that transfer values skip the codec, since encoding would copy what must be moved.
    */
-  setDefaultTimeout(ms: number): void {
-    this.defaultTimeout = ms
+  protected postFrame(port: TPort, frame: object, transfer: DirectIpcTransferable[] = []): void {
+    const codec = transfer.length === 0 ? this.portCodecs.get(port as object) : undefined
+    this.postToPort(port, codec ? encodeFrame(codec, frame) : frame, transfer, frame)
   }
 
   /**
-   * Get the current default timeout
+   * Post on a port, through the tap and the chaos layer while they are on
+   * Frames posted before the port is established (codec announcements) are never touched.
    */
-  getDefaultTimeout(): number {
-    return this.defaultTimeout
+  private postToPort(
+    port: TPort,
+    message: unknown,
+    transfer: DirectIpcTransferable[] = [],
+    frame: unknown = message
+  ): void {
+    const target = this.connectedPorts.get(port)?.target
+    if (target) this.tap?.frame('sent', target, frame)
+    if (!this.chaos || !target) {
+      this.postMessageToPort(port, message, transfer)
+      return
+    }
+    this.chaos.post(port as object, target, frame, () =>
+      this.postMessageToPort(port, message, transfer)
+    )
   }
 
   /**
-   * Clean up all pending invokes (useful for testing or shutdown)
+   * Refuse to transfer the same values to several targets
+   * A transferred object is detached after the first post, so it cannot be fanned out.
    */
-  clearPendingInvokes(): void {
-    for (const [, pending] of this.pendingInvokes.entries()) {
-      clearTimeout(pending.timeout)
-      pending.reject(new Error('DirectIpc cleared all pending invokes'))
+  protected assertTransferTargets(count: number, args: unknown[]): void {
+    if (count > 1 && hasTransferables(args)) {
+      throw new Error(
+        'DirectIpc - Transferred values and ports can only be sent to a single target'
+      )
     }
-    this.pendingInvokes.clear()
   }
 
   /**
-   * Create invoke request ID
+   * Emit a regular DirectIpc message to local listeners
    */
-  protected createInvokeRequestId(): string {
-    return `${++this.requestIdCounter}-${Date.now()}`
+  protected receiveMessage(sender: DirectIpcTarget, data: DirectIpcMessage<TMessageMap>): void {
+    const { message, args } = data
+    if (!isSenderAllowed(this.messagePermissions.get(String(message)), sender)) {
+      this.log.warn?.(
+        `DirectIpcBase::receiveMessage - Sender #${sender.id} is not allowed to send ${String(message)}`
+      )
+      this.localEvents.emit('permission-denied', sender, String(message), 'message')
+      return
+    }
+    if (this.middleware.length === 0) {
+      this.emitMessage(sender, data)
+      return
+    }
+
+    const ctx: DirectIpcMiddlewareContext = {
+      direction: 'incoming',
+      kind: 'message',
+      channel: String(message),
+      args: args || [],
+      sender,
+      state: {},
+    }
+    runMiddleware([...this.middleware], ctx, async () => {
+      this.emitMessage(sender, { ...data, args: ctx.args } as DirectIpcMessage<TMessageMap>)
+    }).catch((error: unknown) => {
+      this.log.error?.(
+        `DirectIpcBase::receiveMessage - Middleware error on ${String(message)}:`,
+        error
+      )
+    })
   }
 
   /**
-   * Create invoke promise with timeout
+   * Validate a received message and emit it to listeners
    */
-  protected createInvokePromise<T>(
-    requestId: string,
-    timeoutMs: number,
-    channel: string
-  ): Promise<T> {
-    return new Promise<T>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        this.pendingInvokes.delete(requestId)
-        reject(new Error(`DirectIpc invoke timeout after ${timeoutMs}ms: ${channel}`))
-      }, timeoutMs)
+  private emitMessage(sender: DirectIpcTarget, data: DirectIpcMessage<TMessageMap>): void {
+    const { message, args } = data
+    if (this.validatePayload('message', String(message), args || [])) return
 
-      this.pendingInvokes.set(requestId, {
-        resolve: resolve as (value: unknown) => void,
-        reject,
-        timeout,
-      })
+    this.localEvents.emit('message', sender, data)
+    // Type assertion needed due to complex generic type manipulation
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ;(this.emit as any)(message, sender, ...(args || []))
+  }
+
+  /**
+   * Send a message and wait until the receiver acknowledges it
+   * Unlike send(), a message lost to a closed port (e.g. the target reloaded or navigated)
+   * is retried over a freshly requested port until it is acknowledged or the deadline passes.
+   * The receiver drops retried duplicates, so listeners run at most once per message.
+   * With allIdentifiers/allUrls, each matching target is delivered to independently.
+   *
+   * @throws DeliveryTimeoutError if a target did not acknowledge before the deadline
+   *
+   * @example
+   * await directIpc.sendReliable(
+   *   { identifier: 'output' },
+   *   'save-settings',
+   *   settings,
+   *   withOptions({ deadline: 10000 })
+   * )
+   */
+  async sendReliable<T extends keyof TMessageMap>(
+    target: TargetSelector<TIdentifierStrings>,
+    message: T,
+    ...args: [
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      ...params: TMessageMap[T] extends (...args: infer P) => any ? P : never,
+      options?: DirectIpcCallOptions<ReliableSendOptions>,
+    ]
+  ): Promise<void> {
+    const { options: sendOptions = {}, args: invokeArgs } = extractCallOptions<ReliableSendOptions>(
+      args,
+      false
+    )
+    return this.runOutgoing('message', target, String(message), invokeArgs, (middlewareArgs) =>
+      this.dispatchReliable(target, String(message), middlewareArgs, sendOptions)
+    )
+  }
+
+  /**
+   * Deliver a reliable message once it has passed through the middleware
+   */
+  private async dispatchReliable(
+    target: TargetSelector<TIdentifierStrings>,
+    message: string,
+    args: unknown[],
+    options: ReliableSendOptions
+  ): Promise<void> {
+    if ('allIdentifiers' in target || 'allUrls' in target) {
+      const targets = this.findTargets(target)
+      if (targets.length === 0) {
+        this.log.warn?.(`DirectIpcBase::sendReliable - No targets found for pattern`)
+        return
+      }
+      await Promise.all(
+        targets.map((t) =>
+          this.deliverReliable(
+            t.identifier !== undefined
+              ? { identifier: t.identifier as TIdentifierStrings }
+              : { webContentsId: t.webContentsId! },
+            message,
+            args,
+            options
+          )
+        )
+      )
+      return
+    }
+
+    await this.deliverReliable(target, message, args, options)
+  }
+
+  /**
+   * Post a reliable message to a single target until it is acknowledged
+   * The target is looked up again on every attempt, so it may disappear and come back
+   * (e.g. during a reload) while the message is being retried.
+   */
+  private async deliverReliable(
+    target: Omit<TargetSelector<TIdentifierStrings>, 'allIdentifiers' | 'allUrls'>,
+    message: string,
+    args: unknown[],
+    options: ReliableSendOptions
+  ): Promise<void> {
+    const seq = ++this.reliableSeq
+    const frame: ReliableMessage = {
+      type: 'reliable-message',
+      session: this.reliableSession,
+      seq,
+      message,
+      args,
+    }
+    const deadline = Date.now() + (options.deadline ?? this.defaultTimeout)
+    const retryInterval = options.retryInterval ?? DEFAULT_RELIABLE_RETRY_INTERVAL
+
+    let acked = false
+    let onAck = () => {}
+    const ack = new Promise<void>((resolve) => {
+      onAck = () => {
+        acked = true
+        resolve()
+      }
     })
+    this.pendingAcks.set(seq, onAck)
+
+    let attempts = 0
+    try {
+      while (!acked && Date.now() < deadline) {
+        const resolved = this.findTargets(target as TargetSelector<TIdentifierStrings>)[0]
+        if (resolved) {
+          try {
+            // The previous attempt went unanswered: assume the port is dead and ask for a new one
+            const port = await this.getTargetPort(resolved, attempts > 0)
+            if (acked) break
+            attempts++
+            this.postFrame(port, frame)
+          } catch (error) {
+            this.log.debug?.(`DirectIpcBase::sendReliable - Attempt failed for ${message}`, error)
+          }
+        }
+
+        const wait = Math.min(retryInterval, deadline - Date.now())
+        if (wait > 0) {
+          let timer: NodeJS.Timeout | undefined
+          await Promise.race([ack, new Promise((resolve) => (timer = setTimeout(resolve, wait)))])
+          clearTimeout(timer)
+        }
+      }
+    } finally {
+      this.pendingAcks.delete(seq)
+    }
+
+    if (!acked) {
+      throw new DeliveryTimeoutError(message, attempts)
+    }
   }
 
   /**
-   * Extract InvokeOptions from args array
+   * Acknowledge a reliable message and emit it unless it is a retried duplicate
    */
-  protected extractInvokeOptions(args: unknown[]): {
-    options?: InvokeOptions
-    invokeArgs: unknown[]
-  } {
-    if (args.length === 0) {
-      return { invokeArgs: args }
+  protected handleReliableMessage(
+    port: TPort | undefined,
+    frame: ReliableMessage,
+    sender: DirectIpcTarget
+  ): void {
+    const { session, seq, message, args } = frame
+    if (port) {
+      const ack: ReliableAck = { type: 'reliable-ack', session, seq }
+      try {
+        this.postToPort(port, ack)
+      } catch (error) {
+        this.log.warn?.('DirectIpcBase::handleReliableMessage - Failed to send ack', error)
+      }
+    }
+
+    const key = `${session}:${seq}`
+    if (this.deliveredReliable.has(key)) {
+      this.log.silly?.(`DirectIpcBase::handleReliableMessage - Dropping duplicate ${message}`)
+      return
+    }
+    this.deliveredReliable.add(key)
+    if (this.deliveredReliable.size > RELIABLE_DEDUPE_WINDOW) {
+      const oldest = this.deliveredReliable.values().next().value
+      if (oldest !== undefined) this.deliveredReliable.delete(oldest)
+    }
+
+    this.receiveMessage(sender, { message, args } as unknown as DirectIpcMessage<TMessageMap>)
+  }
+
+  /**
+   * Settle the sendReliable() call waiting for this acknowledgement
+   */
+  protected handleReliableAck(ack: ReliableAck): void {
+    if (ack.session !== this.reliableSession) return
+    this.pendingAcks.get(ack.seq)?.()
+  }
+
+  /**
+   * Handle an incoming invoke request and post the response back on the same port
+   */
+  protected async handleInvokeRequest(
+    port: TPort,
+    request: InvokeMessage,
+    sender: DirectIpcTarget
+  ): Promise<void> {
+    const { channel, requestId, args } = request
+
+    this.log.silly?.(`DirectIpcBase::handleInvokeRequest - handling invoke on ${channel}`)
+
+    if (this.shuttingDown) {
+      const response: InvokeResponse = {
+        type: 'invoke-response',
+        requestId,
+        success: false,
+        error: serializeError(new ShuttingDownError(channel)),
+      }
+      this.postToPort(port, response)
+      return
+    }
+
+    const handler = this.handlers.get(channel)
+    if (!handler) {
+      this.log.error?.(`DirectIpcBase::handleInvokeRequest - No handler for channel: ${channel}`)
+      const response: InvokeResponse = {
+        type: 'invoke-response',
+        requestId,
+        success: false,
+        error: serializeError(new Error(`No handler registered for channel: ${channel}`)),
+      }
+      this.postToPort(port, response)
+      return
     }
 
-    const lastArg = args[args.length - 1]
-    const isOptionsObject =
-      lastArg != null &&
-      typeof lastArg === 'object' &&
-      !Array.isArray(lastArg) &&
-      'timeout' in lastArg
+    if (!this.isInvokeAllowed(channel, sender)) {
+      const response: InvokeResponse = {
+        type: 'invoke-response',
+        requestId,
+        success: false,
+        error: serializeError(new PermissionDeniedError(channel, sender)),
+      }
+      this.postToPort(port, response)
+      return
+    }
 
-    if (isOptionsObject) {
-      return {
-        options: lastArg as InvokeOptions,
-        invokeArgs: args.slice(0, -1),
+    // Invalid args are answered under every policy so the caller's invoke settles
+    const invalid = this.validatePayload('args', channel, args)
+    if (invalid) {
+      const response: InvokeResponse = {
+        type: 'invoke-response',
+        requestId,
+        success: false,
+        error: serializeError(invalid),
       }
+      this.postToPort(port, response)
+      return
     }
 
-    return { invokeArgs: args }
+    const invokeSender = this.beginHandler(sender, requestId)
+    const { signal } = invokeSender
+
+    try {
+      const result = await this.callHandler(handler, invokeSender, channel, args)
+      if (isAsyncIterable(result)) {
+        throw new Error(`Handler for channel ${channel} returns a stream, use invokeStream()`)
+      }
+      if (signal.aborted) {
+        this.log.silly?.(`DirectIpcBase::handleInvokeRequest - ${channel} was cancelled`)
+        return
+      }
+      const {
+        values: [data],
+        transfer,
+      } = prepareTransfer([result])
+      const response: InvokeResponse = {
+        type: 'invoke-response',
+        requestId,
+        success: true,
+        data,
+      }
+      this.postFrame(port, response, transfer)
+    } catch (error) {
+      if (signal.aborted) {
+        this.log.silly?.(`DirectIpcBase::handleInvokeRequest - ${channel} was cancelled`)
+        return
+      }
+      this.log.error?.('DirectIpcBase::handleInvokeRequest - Handler error', error)
+      const response: InvokeResponse = {
+        type: 'invoke-response',
+        requestId,
+        success: false,
+        error: serializeError(error),
+      }
+      this.postToPort(port, response)
+    } finally {
+      this.endHandler(sender, requestId)
+    }
+  }
+
+  /**
+   * Handle an incoming streaming invoke request
+   * Async-iterable results are forwarded chunk by chunk; plain results become a single chunk
+   */
+  protected async handleInvokeStreamRequest(
+    port: TPort,
+    request: InvokeStreamMessage,
+    sender: DirectIpcTarget
+  ): Promise<void> {
+    const { channel, requestId, args } = request
+
+    this.log.silly?.(`DirectIpcBase::handleInvokeStreamRequest - handling stream on ${channel}`)
+
+    if (this.shuttingDown) {
+      this.postStreamFrame(port, {
+        type: 'invoke-stream-error',
+        requestId,
+        error: serializeError(new ShuttingDownError(channel)),
+      })
+      return
+    }
+
+    const handler = this.handlers.get(channel)
+    if (!handler) {
+      this.log.error?.(
+        `DirectIpcBase::handleInvokeStreamRequest - No handler for channel: ${channel}`
+      )
+      this.postStreamFrame(port, {
+        type: 'invoke-stream-error',
+        requestId,
+        error: serializeError(new Error(`No handler registered for channel: ${channel}`)),
+      })
+      return
+    }
+
+    if (!this.isInvokeAllowed(channel, sender)) {
+      this.postStreamFrame(port, {
+        type: 'invoke-stream-error',
+        requestId,
+        error: serializeError(new PermissionDeniedError(channel, sender)),
+      })
+      return
+    }
+
+    const invalid = this.validatePayload('args', channel, args)
+    if (invalid) {
+      this.postStreamFrame(port, {
+        type: 'invoke-stream-error',
+        requestId,
+        error: serializeError(invalid),
+      })
+      return
+    }
+
+    const invokeSender = this.beginHandler(sender, requestId)
+    const { signal } = invokeSender
+
+    try {
+      const result = await this.callHandler(handler, invokeSender, channel, args)
+      if (isAsyncIterable(result)) {
+        for await (const chunk of result) {
+          // Breaking out of the loop calls return() on the handler's generator
+          if (signal.aborted) break
+          this.postStreamFrame(port, { type: 'invoke-stream-chunk', requestId, data: chunk })
+        }
+      } else if (!signal.aborted) {
+        this.postStreamFrame(port, { type: 'invoke-stream-chunk', requestId, data: result })
+      }
+      if (signal.aborted) {
+        this.log.silly?.(`DirectIpcBase::handleInvokeStreamRequest - ${channel} was cancelled`)
+        return
+      }
+      this.postStreamFrame(port, { type: 'invoke-stream-end', requestId })
+    } catch (error) {
+      if (signal.aborted) {
+        this.log.silly?.(`DirectIpcBase::handleInvokeStreamRequest - ${channel} was cancelled`)
+        return
+      }
+      this.log.error?.('DirectIpcBase::handleInvokeStreamRequest - Handler error', error)
+      this.postStreamFrame(port, {
+        type: 'invoke-stream-error',
+        requestId,
+        error: serializeError(error),
+      })
+    } finally {
+      this.endHandler(sender, requestId)
+    }
+  }
+
+  /**
+   * Check a sender against the handler's permission, reporting refusals on localEvents
+   */
+  private isInvokeAllowed(channel: string, sender: DirectIpcTarget): boolean {
+    if (isSenderAllowed(this.handlerPermissions.get(channel), sender)) {
+      return true
+    }
+    this.log.warn?.(
+      `DirectIpcBase::isInvokeAllowed - Sender #${sender.id} is not allowed to invoke ${channel}`
+    )
+    this.localEvents.emit('permission-denied', sender, channel, 'invoke')
+    return false
+  }
+
+  /**
+   * Track a running handler and build the sender object passed to it
+   */
+  private beginHandler(sender: DirectIpcTarget, requestId: string): InvokeSender {
+    const controller = new AbortController()
+    this.activeHandlers.set(`${sender.id}:${requestId}`, controller)
+    return { ...sender, signal: controller.signal }
+  }
+
+  /**
+   * Stop tracking a handler once it has settled
+   */
+  private endHandler(sender: DirectIpcTarget, requestId: string): void {
+    this.activeHandlers.delete(`${sender.id}:${requestId}`)
+    if (this.activeHandlers.size === 0) this.handlersSettled.forEach((settle) => settle())
+  }
+
+  /**
+   * Handle a cancel frame from the invoking process by aborting the running handler
+   */
+  protected handleInvokeCancel(message: InvokeCancelMessage, sender: DirectIpcTarget): void {
+    const key = `${sender.id}:${message.requestId}`
+    const controller = this.activeHandlers.get(key)
+    if (!controller) {
+      this.log.silly?.('DirectIpcBase::handleInvokeCancel - No running handler')
+      return
+    }
+
+    this.log.silly?.('DirectIpcBase::handleInvokeCancel - Aborting handler')
+    this.activeHandlers.delete(key)
+    controller.abort(new Error('DirectIpc invoke cancelled by caller'))
+    if (this.activeHandlers.size === 0) this.handlersSettled.forEach((settle) => settle())
+  }
+
+  /**
+   * Post a stream frame back to the invoking process
+   */
+  private postStreamFrame(port: TPort, frame: InvokeStreamFrame): void {
+    this.postFrame(port, frame)
+  }
+
+  /**
+   * Handle a chunk/end/error frame for a streaming invoke started by this process
+   */
+  protected handleInvokeStreamFrame(frame: InvokeStreamFrame, sender: DirectIpcTarget): void {
+    const pending = this.pendingStreams.get(frame.requestId)
+    if (!pending) {
+      this.log.silly?.('DirectIpcBase::handleInvokeStreamFrame - No pending stream')
+      return
+    }
+
+    clearTimeout(pending.timeout)
+
+    if (frame.type === 'invoke-stream-chunk') {
+      const invalid = this.validatePayload('result', pending.channel, frame.data)
+      if (invalid && this.validationPolicy === 'reject') {
+        // Left pending so invokeStream() cancels the remote handler when it unwinds
+        pending.queue.fail(invalid)
+        return
+      }
+      pending.timeout = pending.restartTimeout()
+      if (!invalid) pending.queue.push(frame.data)
+      return
+    }
+
+    this.removePendingStream(frame.requestId)
+    if (frame.type === 'invoke-stream-end') {
+      pending.queue.end()
+    } else {
+      pending.queue.fail(
+        new RemoteInvokeError(pending.channel, sender, deserializeError(frame.error))
+      )
+    }
+  }
+
+  /**
+   * Invoke a streaming handler on a remote process
+   * The remote handler may be an async generator; each yielded value arrives as one chunk.
+   * The `timeout` option is an idle timeout: it is reset every time a chunk arrives.
+   * Breaking out of the loop stops listening for further chunks.
+   *
+   * @example
+   * for await (const hit of directIpc.invokeStream({ identifier: 'search-worker' }, 'search', 'foo')) {
+   *   showHit(hit)
+   * }
+   */
+  async *invokeStream<T extends keyof TInvokeMap>(
+    target: Omit<TargetSelector<TIdentifierStrings>, 'allIdentifiers' | 'allUrls'>,
+    channel: T,
+    ...args: [
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      ...params: TInvokeMap[T] extends (...args: infer P) => any ? P : never,
+      options?: InvokeOptionsArgument,
+    ]
+  ): AsyncGenerator<InvokeStreamChunk<TInvokeMap[T]>, void, undefined> {
+    const { options, invokeArgs } = this.extractInvokeOptions(args)
+    options?.signal?.throwIfAborted()
+
+    let started: { requestId: string; sendCancel: () => void } | undefined
+    try {
+      const stream = await this.runOutgoing<
+        AsyncIterable<InvokeStreamChunk<TInvokeMap[T]>> | undefined
+      >(
+        'invoke',
+        target as TargetSelector<TIdentifierStrings>,
+        String(channel),
+        invokeArgs,
+        async (middlewareArgs) => {
+          const { queue, ...request } = await this.startInvokeStream<
+            InvokeStreamChunk<TInvokeMap[T]>
+          >(target, String(channel), options, middlewareArgs)
+          started = request
+          return queue
+        }
+      )
+      // Middleware that short-circuited without a result ends the stream right away
+      if (stream) yield* stream
+    } finally {
+      // Consumer stopped iterating before the stream completed, or middleware threw after it
+      // started: tell the handler to stop
+      if (started && this.removePendingStream(started.requestId)) {
+        started.sendCancel()
+      }
+    }
+  }
+
+  /**
+   * Start a stream once the call has passed through the middleware
+   */
+  private async startInvokeStream<TChunk>(
+    target: Omit<TargetSelector<TIdentifierStrings>, 'allIdentifiers' | 'allUrls'>,
+    channel: string,
+    options: InvokeOptions | undefined,
+    args: unknown[]
+  ): Promise<{ queue: InvokeStreamQueue<TChunk>; requestId: string; sendCancel: () => void }> {
+    const port = await this.getPort(this.toPortSelector(target))
+
+    const requestId = this.createInvokeRequestId()
+    const timeoutMs = options?.timeout ?? this.defaultTimeout
+    const sendCancel = () => this.postInvokeCancel(port, requestId)
+
+    const queue = this.createInvokeStream<TChunk>(requestId, timeoutMs, channel, {
+      signal: options?.signal,
+      sendCancel,
+    })
+    const pending = this.pendingStreams.get(requestId)
+    if (pending) pending.port = port
+
+    const message: InvokeStreamMessage = {
+      type: 'invoke-stream',
+      channel,
+      requestId,
+      args,
+    }
+    this.postArgs(port, message)
+
+    return { queue, requestId, sendCancel }
+  }
+
+  /**
+   * Invoke a handler on every process matching an allIdentifiers/allUrls selector
+   * Never rejects because a target failed: each target's outcome is reported in the results,
+   * in the order the targets were found. With mode 'first' or 'quorum', invokes still in flight
+   * are cancelled once enough targets have fulfilled, or once too many have failed to get there.
+   *
+   * @example
+   * const results = await directIpc.invokeAll(
+   *   { allIdentifiers: /^editor/ },
+   *   'get-state',
+   *   withOptions({ timeout: 2000, concurrency: 4 })
+   * )
+   * for (const result of results) {
+   *   if (result.status === 'fulfilled') collect(result.target.identifier, result.value)
+   * }
+   */
+  async invokeAll<T extends keyof TInvokeMap>(
+    target: MultiTargetSelector<TIdentifierStrings> | PoolSelector,
+    channel: T,
+    ...args: [
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      ...params: TInvokeMap[T] extends (...args: infer P) => any ? P : never,
+      options?: InvokeOptionsArgument<InvokeAllOptions>,
+    ]
+  ): Promise<
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    InvokeAllResult<TInvokeMap[T] extends (...args: any[]) => infer R ? Awaited<R> : unknown>[]
+  > {
+    const { options, args: invokeArgs } = extractCallOptions<InvokeAllOptions>(args, true)
+    const { mode = 'all', concurrency = Infinity, quorum, signal } = options ?? {}
+    signal?.throwIfAborted()
+
+    if (mode === 'quorum' && !(quorum !== undefined && quorum >= 1)) {
+      throw new Error('DirectIpcBase::invokeAll - quorum mode needs a quorum of at least 1')
+    }
+    if (!(concurrency >= 1)) {
+      throw new Error('DirectIpcBase::invokeAll - concurrency must be at least 1')
+    }
+
+    return this.runOutgoing('invoke', target, String(channel), invokeArgs, (middlewareArgs) =>
+      this.dispatchInvokeAll(target, String(channel), options ?? {}, middlewareArgs)
+    ) as Promise<
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      InvokeAllResult<TInvokeMap[T] extends (...args: any[]) => infer R ? Awaited<R> : unknown>[]
+    >
+  }
+
+  /**
+   * Invoke every matching target once the call has passed through the middleware
+   */
+  private async dispatchInvokeAll(
+    target: MultiTargetSelector<TIdentifierStrings> | PoolSelector,
+    channel: string,
+    options: InvokeAllOptions,
+    args: unknown[]
+  ): Promise<InvokeAllResult<unknown>[]> {
+    const { mode = 'all', concurrency = Infinity, quorum, signal, ...invokeOptions } = options
+    const targets = 'pool' in target ? this.poolMembers(target.pool) : this.findTargets(target)
+    if (targets.length === 0) {
+      this.log.warn?.(`DirectIpcBase::invokeAll - No targets found for "${channel}"`)
+      return []
+    }
+
+    // One controller cancels every remaining invoke, on the caller's abort or early completion
+    const controller = new AbortController()
+    const forwardAbort = () => controller.abort(signal?.reason)
+    signal?.addEventListener('abort', forwardAbort, { once: true })
+
+    const needed = mode === 'all' ? targets.length : mode === 'first' ? 1 : quorum!
+    const results: InvokeAllResult<unknown>[] = []
+    let fulfilled = 0
+    let rejected = 0
+    let next = 0
+
+    const settle = (index: number, result: InvokeAllResult<unknown>) => {
+      results[index] = result
+      if (result.status === 'fulfilled') fulfilled++
+      else rejected++
+      if (mode !== 'all' && (fulfilled >= needed || rejected > targets.length - needed)) {
+        controller.abort()
+      }
+    }
+
+    const worker = async () => {
+      while (next < targets.length && !controller.signal.aborted) {
+        const index = next++
+        const t = targets[index]!
+        try {
+          const value = await this.invokeTarget(
+            t,
+            channel,
+            { ...invokeOptions, signal: controller.signal },
+            args
+          )
+          settle(index, { target: t, status: 'fulfilled', value })
+        } catch (reason) {
+          settle(index, { target: t, status: 'rejected', reason })
+        }
+      }
+    }
+
+    try {
+      const workerCount = Math.min(concurrency, targets.length)
+      await Promise.all(Array.from({ length: workerCount }, worker))
+    } finally {
+      signal?.removeEventListener('abort', forwardAbort)
+    }
+
+    // Targets that were never started because the call completed early or was aborted
+    return targets.map(
+      (t, index) =>
+        results[index] ?? { target: t, status: 'rejected', reason: controller.signal.reason }
+    )
+  }
+
+  // ===== CHAOS =====
+
+  /**
+   * Start, reconfigure or stop (with `false`) fault injection
+   * Frames this process posts on established ports are dropped, delayed or reordered as
+   * configured. Random choices come from `options.seed`, so a run can be reproduced; the seed
+   * in use is logged. For tests and dev builds only.
+   */
+  public setChaos(options: ChaosOptions | false): void {
+    this.chaos?.release()
+    this.chaos = options ? new DirectIpcChaos(options) : undefined
+    if (this.chaos) {
+      this.log.warn?.(`DirectIpc - Chaos enabled (seed ${this.chaos.seed})`)
+    }
+  }
+
+  /**
+   * Apply chaos options passed to a constructor or instance()
+   */
+  protected configureChaos(options: DirectIpcChaosOptions): void {
+    if (options.chaos) {
+      this.setChaos(options.chaos)
+    }
+  }
+
+  /**
+   * Close the ports to matching targets as if the connection had died
+   * Both ends see the port as lost, invokes waiting on it fail (or wait, with
+   * `retryOnReconnect`), and a fresh port is requested right away.
+   * @returns The number of ports closed
+   */
+  public forceClosePorts(matcher: ProcessMatcher = {}): number {
+    const targets = [...this.connectedPorts.values()]
+      .map(({ target }) => target)
+      .filter((target) => matchesProcess(matcher, target))
+    for (const target of targets) {
+      this.log.warn?.(`DirectIpc - Chaos closing the port to ${targetIdentity(target)}`)
+      this.getTargetPort(target, true).catch((error: unknown) => {
+        this.log.warn?.('DirectIpcBase::forceClosePorts - Failed to reconnect', error)
+      })
+    }
+    return targets.length
+  }
+
+  // ===== TAP =====
+
+  /**
+   * Start or stop reporting this process's traffic to DirectIpcMain
+   * While on, messages and invokes posted and received on ports (with invoke durations and
+   * errors) and ports being established and lost show up in DirectIpcMain's getTapLog() and
+   * inspector window. Meant for debugging: every frame ends up in a report to main.
+   * With `{ payloads: true }`, message and invoke payloads are reported too, copied as JSON.
+   */
+  public setTap(enabled: boolean | TapOptions): void {
+    this.tapSettings.local = enabled === true ? {} : enabled
+    this.updateTap()
+  }
+
+  /**
+   * Tap as DirectIpcMain asks while it records
+   * Kept apart from setTap(), so a process tapping on its own keeps doing so afterwards.
+   */
+  protected handleTapRequest(request: TapOptions | false): void {
+    this.tapSettings.requested = request
+    this.updateTap()
+  }
+
+  /**
+   * Start, reconfigure or stop the tap from the local and requested settings
+   */
+  private updateTap(): void {
+    const { local, requested } = this.tapSettings
+    if (!local && !requested) {
+      this.tap = undefined
+      return
+    }
+    this.tap ??= new DirectIpcTap((events) => this.reportTap(events))
+    this.tap.payloads = Boolean((local && local.payloads) || (requested && requested.payloads))
+  }
+
+  /**
+   * Apply tap options passed to a constructor or instance()
+   */
+  protected configureTap(options: DirectIpcTapOptions): void {
+    if (options.tap !== undefined) {
+      this.setTap(options.tap)
+    }
+  }
+
+  // ===== REPLAY =====
+
+  /**
+   * Replay what a recorded process received, as if it arrived again
+   * Recorded messages are emitted to this process's listeners with their recorded sender and
+   * timing, through permissions, middleware and validation like live ones. Until stop() is
+   * called, invoke() calls are answered with the responses the recorded process got on the
+   * same channel, in order, without reaching the network; once those run out, invokes go out
+   * as usual. Redacted payloads are replayed as they were written.
+   *
+   * @throws Error if this process has no identifier and `options.process` is not given
+   *
+   * @example
+   * const recording = await readRecording('bug-1234.jsonl')
+   * const replay = directIpc.replay(recording, { speed: 0 })
+   * await replay.done
+   */
+  public replay(
+    recording: DirectIpcRecordingEntry[],
+    options: ReplayOptions = {}
+  ): DirectIpcReplay {
+    let matcher = options.process
+    if (!matcher) {
+      // Matching every recorded process would replay all of their traffic here
+      if (this.myIdentifier === undefined) {
+        throw new Error('DirectIpcBase::replay - Pass options.process without an identifier')
+      }
+      matcher = { identifier: this.myIdentifier }
+    }
+    const speed = options.speed ?? 1
+    const received = recording.filter(
+      (entry): entry is DirectIpcTapRecord =>
+        entry.kind !== 'map-update' &&
+        entry.direction === 'received' &&
+        entry.channel !== undefined &&
+        matchesProcess(matcher, entry.process)
+    )
+    const messages = received.filter((entry) => entry.kind === 'message')
+
+    const responses = new Map<string, DirectIpcTapRecord[]>()
+    if (options.invokes !== false) {
+      for (const entry of received) {
+        if (entry.kind !== 'invoke-response') continue
+        responses.set(entry.channel!, [...(responses.get(entry.channel!) ?? []), entry])
+      }
+    }
+    const removeMiddleware =
+      responses.size === 0
+        ? () => {}
+        : this.use((ctx, next) => {
+            if (ctx.direction !== 'outgoing' || ctx.kind !== 'invoke') return next()
+            const response = responses.get(ctx.channel)?.shift()
+            if (!response) return next()
+            if (response.error !== undefined) {
+              throw new RemoteInvokeError(ctx.channel, response.peer, new Error(response.error))
+            }
+            ctx.result = response.result
+          })
+
+    let timer: NodeJS.Timeout | undefined
+    let finish!: () => void
+    const done = new Promise<void>((resolve) => (finish = resolve))
+    const start = messages[0]?.time ?? 0
+    const begin = Date.now()
+    let index = 0
+
+    const emitDue = () => {
+      while (index < messages.length) {
+        const entry = messages[index]!
+        const wait = speed > 0 ? (entry.time - start) / speed - (Date.now() - begin) : 0
+        if (wait > 0) {
+          timer = setTimeout(emitDue, wait)
+          return
+        }
+        index++
+        this.receiveMessage(entry.peer, {
+          message: entry.channel,
+          args: Array.isArray(entry.args) ? entry.args : [],
+        } as DirectIpcMessage<TMessageMap>)
+      }
+      finish()
+    }
+    queueMicrotask(emitDue)
+
+    return {
+      done,
+      stop: () => {
+        index = messages.length
+        clearTimeout(timer)
+        removeMiddleware()
+        finish()
+      },
+    }
+  }
+
+  /**
+   * Replay this process's part of a recording as DirectIpcMain asks, or stop
+   */
+  protected handleReplayRequest(message: DirectIpcReplayMessage): void {
+    this.remoteReplay?.stop()
+    this.remoteReplay =
+      'entries' in message ? this.replay(message.entries, message.options) : undefined
+  }
+
+  // ===== MIDDLEWARE =====
+
+  /**
+   * Add middleware around send(), invoke() and the messages and invokes this process receives
+   * Middleware runs in the order it was added, Koa-style: code before `await next()` sees the
+   * call on its way in, code after it sees `ctx.result` on its way out. Outgoing middleware
+   * runs once per send(), sendReliable(), invoke(), invokeAll() or invokeStream() call, before
+   * targets are resolved; incoming middleware runs after channel permissions and before payload
+   * validation and listeners or the handler.
+   *
+   * @returns A function that removes the middleware
+   *
+   * @example
+   * directIpc.use(async (ctx, next) => {
+   *   const start = performance.now()
+   *   await next()
+   *   console.log(`${ctx.direction} ${ctx.channel} took ${performance.now() - start}ms`)
+   * })
+   */
+  public use(middleware: DirectIpcMiddleware): () => void {
+    this.middleware.push(middleware)
+    return () => {
+      const index = this.middleware.indexOf(middleware)
+      if (index !== -1) this.middleware.splice(index, 1)
+    }
+  }
+
+  /**
+   * Run an outgoing message or invoke through the middleware
+   * @param dispatch - Sends or invokes with the (possibly replaced) arguments
+   * @returns The invoke result, or the result set by middleware that short-circuited
+   */
+  protected async runOutgoing<T>(
+    kind: DirectIpcMiddlewareContext['kind'],
+    target: TargetSelector | PoolSelector,
+    channel: string,
+    args: unknown[],
+    dispatch: (args: unknown[]) => Promise<T>
+  ): Promise<T> {
+    if (this.middleware.length === 0) {
+      return dispatch(args)
+    }
+    const ctx: DirectIpcMiddlewareContext = {
+      direction: 'outgoing',
+      kind,
+      channel,
+      args,
+      target,
+      state: {},
+    }
+    await runMiddleware([...this.middleware], ctx, async () => {
+      ctx.result = await dispatch(ctx.args)
+    })
+    return ctx.result as T
+  }
+
+  /**
+   * Call an invoke handler through the middleware
+   */
+  private async callHandler(
+    handler: InvokeHandler,
+    sender: InvokeSender,
+    channel: string,
+    args: unknown[]
+  ): Promise<unknown> {
+    if (this.middleware.length === 0) {
+      return handler(sender, ...args)
+    }
+    const ctx: DirectIpcMiddlewareContext = {
+      direction: 'incoming',
+      kind: 'invoke',
+      channel,
+      args,
+      sender,
+      state: {},
+    }
+    await runMiddleware([...this.middleware], ctx, async () => {
+      ctx.result = await handler(sender, ...ctx.args)
+    })
+    return ctx.result
+  }
+
+  // ===== POOLS =====
+
+  /**
+   * Members of a pool in the current map, in the same order in every process
+   */
+  protected poolMembers(pool: string): DirectIpcTarget[] {
+    return this.map
+      .filter(
+        (t) => t.pool === pool && (t.identifier === undefined || t.identifier !== this.myIdentifier)
+      )
+      .sort((a, b) => (a.identifier ?? '').localeCompare(b.identifier ?? '') || a.id - b.id)
+  }
+
+  /**
+   * Pick the pool member a single request goes to
+   * @throws {Error} If the pool has no members in the map
+   */
+  protected pickPoolMember(selector: PoolSelector): DirectIpcTarget {
+    const members = this.poolMembers(selector.pool)
+    if (members.length === 0) {
+      throw new Error(`DirectIpcBase::pickPoolMember - No members in pool "${selector.pool}"`)
+    }
+    if (selector.balance === 'sticky') {
+      return stickyMember(members, selector.key)
+    }
+
+    const cursor = this.poolCursors.get(selector.pool) ?? 0
+    this.poolCursors.set(selector.pool, (cursor + 1) % members.length)
+    const rotated = members.map((_, i) => members[(cursor + i) % members.length]!)
+    if (selector.balance !== 'least-pending') {
+      return rotated[0]!
+    }
+    // Ties go to the member whose turn it is, so idle pools still rotate
+    const pending = (member: DirectIpcTarget) => this.poolPending.get(member.id) ?? 0
+    return rotated.reduce((best, member) => (pending(member) < pending(best) ? member : best))
+  }
+
+  /**
+   * Invoke a handler on one member of a pool
+   */
+  protected async invokePool<T>(
+    selector: PoolSelector,
+    channel: string,
+    options: InvokeOptions | undefined,
+    args: unknown[]
+  ): Promise<T> {
+    const member = this.pickPoolMember(selector)
+    this.poolPending.set(member.id, (this.poolPending.get(member.id) ?? 0) + 1)
+    try {
+      return await this.invokeTarget<T>(member, channel, options, args)
+    } finally {
+      const remaining = (this.poolPending.get(member.id) ?? 1) - 1
+      if (remaining > 0) {
+        this.poolPending.set(member.id, remaining)
+      } else {
+        this.poolPending.delete(member.id)
+      }
+    }
+  }
+
+  /**
+   * Send a message to one member of a pool, or to every member with `broadcast`
+   */
+  protected async sendToPool(
+    selector: PoolSelector,
+    message: string,
+    args: unknown[]
+  ): Promise<void> {
+    const broadcast = 'broadcast' in selector && selector.broadcast === true
+    const members = broadcast ? this.poolMembers(selector.pool) : [this.pickPoolMember(selector)]
+    if (members.length === 0) {
+      this.log.warn?.(`DirectIpcBase::sendToPool - No members in pool "${selector.pool}"`)
+      return
+    }
+
+    this.assertTransferTargets(members.length, args)
+    for (const member of members) {
+      const port = await this.getTargetPort(member)
+      this.postArgs(port, { message, args })
+    }
+  }
+
+  /**
+   * Tell the remote process to cancel an in-flight invoke or stream
+   */
+
+  protected postInvokeCancel(port: TPort, requestId: string): void {
+    const message: InvokeCancelMessage = { type: 'invoke-cancel', requestId }
+    try {
+      this.postToPort(port, message)
+    } catch (error) {
+      this.log.warn?.('DirectIpcBase::postInvokeCancel - Failed to send cancel', error)
+    }
+  }
+
+  /**
+   * Convert a single-target selector to the shape accepted by getPort()
+   */
+  protected toPortSelector(
+    target: Omit<TargetSelector<TIdentifierStrings>, 'allIdentifiers' | 'allUrls'>
+  ): {
+    webContentsId?: number
+    identifier?: TIdentifierStrings | RegExp
+    url?: string | RegExp
+  } {
+    if ('webContentsId' in target) {
+      return { webContentsId: (target as { webContentsId: number }).webContentsId }
+    } else if ('identifier' in target) {
+      return { identifier: (target as { identifier: TIdentifierStrings | RegExp }).identifier }
+    } else if ('url' in target) {
+      return { url: (target as { url: string | RegExp }).url }
+    }
+    throw new Error('DirectIpcBase::toPortSelector - Invalid target selector')
+  }
+
+  /**
+   * Register a handler for invoke calls on a specific channel
+   */
+  handle<T extends keyof TInvokeMap>(
+    channel: T,
+    handler: WithInvokeSender<TInvokeMap>[T],
+    options: HandleOptions = {}
+  ): void {
+    this.log.silly?.('DirectIpcBase::handle - Registering handler for channel')
+    if (this.handlers.has(channel as string)) {
+      this.log.warn?.(
+        `DirectIpcBase::handle - Handler already exists for ${channel as string}, replacing`
+      )
+    }
+    this.handlers.set(channel as string, handler as InvokeHandler)
+    if (options.allow) {
+      this.handlerPermissions.set(channel as string, options.allow)
+    } else {
+      this.handlerPermissions.delete(channel as string)
+    }
+  }
+
+  /**
+   * Restrict which senders may emit a message channel
+   * Messages from other senders are dropped before reaching any listener and reported
+   * as 'permission-denied' on localEvents. Pass undefined to lift the restriction.
+   */
+  setMessagePermission<T extends keyof TMessageMap>(
+    channel: T,
+    allow: ChannelPermission | undefined
+  ): void {
+    if (allow) {
+      this.messagePermissions.set(channel as string, allow)
+    } else {
+      this.messagePermissions.delete(channel as string)
+    }
+  }
+
+  /**
+   * Remove a handler for a specific channel
+   */
+  removeHandler<T extends keyof TInvokeMap>(channel: T): void {
+    this.log.silly?.(`DirectIpcBase::removeHandler - Removing handler for ${channel as string}`)
+    this.handlers.delete(channel as string)
+    this.handlerPermissions.delete(channel as string)
+  }
+
+  /**
+   * Create an object whose methods invoke the target's handlers
+   * By default method names are the camelCase form of kebab-case channels, so
+   * `proxy.heavyComputation(nums)` invokes `'heavy-computation'`. Pass `naming: 'exact'` to
+   * name methods like their channels instead, e.g. for a `'getUser'` channel. Each method
+   * accepts InvokeOptions as an optional last argument, like invoke().
+   *
+   * @example
+   * const worker = directIpc.proxy<WorkerInvokes>({ identifier: 'compute-worker' })
+   * const sum = await worker.heavyComputation(nums, { timeout: 5000 })
+   */
+  proxy<TProxyMap extends InvokeMap = TInvokeMap>(
+    target: Exclude<TargetSelector<TIdentifierStrings>, MultiTargetSelector<TIdentifierStrings>>,
+    options: ProxyOptions<'exact'> & { naming: 'exact' }
+  ): InvokeProxy<TProxyMap, 'exact'>
+  proxy<TProxyMap extends InvokeMap = TInvokeMap>(
+    target: Exclude<TargetSelector<TIdentifierStrings>, MultiTargetSelector<TIdentifierStrings>>,
+    options?: ProxyOptions<'camelCase'>
+  ): InvokeProxy<TProxyMap>
+  proxy<TProxyMap extends InvokeMap = TInvokeMap>(
+    target: Exclude<TargetSelector<TIdentifierStrings>, MultiTargetSelector<TIdentifierStrings>>,
+    options: ProxyOptions = {}
+  ): InvokeProxy<TProxyMap> | InvokeProxy<TProxyMap, 'exact'> {
+    const methods = new Map<string, (...args: unknown[]) => Promise<unknown>>()
+    return new Proxy({} as InvokeProxy<TProxyMap>, {
+      get: (_object, property) => {
+        // Not a thenable, so a proxy can be returned from async functions
+        if (typeof property !== 'string' || property === 'then') return undefined
+        let method = methods.get(property)
+        if (!method) {
+          const channel = toChannelName(property, options.naming) as keyof TInvokeMap
+          method = (...args: unknown[]) => this.invoke(target, channel, ...args)
+          methods.set(property, method)
+        }
+        return method
+      },
+    })
+  }
+
+  /**
+   * Register every method of an object as an invoke handler
+   * The inverse of proxy(), with the same `naming`: by default `heavyComputation()` handles
+   * `'heavy-computation'`. Methods are called with the invoke arguments (without the sender)
+   * and `this` set to the object; use handle() for handlers that need the sender or its abort
+   * signal.
+   *
+   * @returns A function that removes the registered handlers
+   */
+  expose<TExposeMap extends InvokeMap = TInvokeMap>(
+    implementation: InvokeImplementation<TExposeMap, 'exact'>,
+    options: ExposeOptions<'exact'> & { naming: 'exact' }
+  ): () => void
+  expose<TExposeMap extends InvokeMap = TInvokeMap>(
+    implementation: InvokeImplementation<TExposeMap>,
+    options?: ExposeOptions<'camelCase'>
+  ): () => void
+  expose<TExposeMap extends InvokeMap = TInvokeMap>(
+    implementation: InvokeImplementation<TExposeMap, ProxyNaming>,
+    options: ExposeOptions = {}
+  ): () => void {
+    const { naming, ...handleOptions } = options
+    const methods = implementation as unknown as Record<string, (...args: unknown[]) => unknown>
+    const channels = getMethodNames(implementation).map((name) => {
+      const method = methods[name]!
+      const channel = toChannelName(name, naming) as keyof TInvokeMap
+      this.handle(
+        channel,
+        ((_sender: InvokeSender, ...args: unknown[]) =>
+          method.apply(implementation, args)) as WithInvokeSender<TInvokeMap>[keyof TInvokeMap],
+        handleOptions
+      )
+      return channel
+    })
+    return () => {
+      for (const channel of channels) {
+        this.removeHandler(channel)
+      }
+    }
+  }
+
+  /**
+   * Get the current array of all registered target processes
+   */
+  getMap(): DirectIpcTarget[] {
+    if (!this.heartbeatOptions) return [...this.map]
+    return this.map.map((target) => {
+      const health = this.targetHealth.get(target.id)
+      return health ? { ...target, health } : target
+    })
+  }
+
+  /**
+   * Whether a target announced a protocol feature when it registered
+   * The map is checked first: a utility process's announcement can arrive after a port to it.
+   */
+  protected supports(target: DirectIpcTarget, capability: DirectIpcCapability): boolean {
+    const current = this.map.find((t) => t.id === target.id) ?? target
+    return current.capabilities?.includes(capability) ?? false
+  }
+
+  /**
+   * Get this process's identifier
+   * @returns The identifier string or undefined if not set
+   */
+  getMyIdentifier(): TIdentifierStrings | undefined {
+    return this.myIdentifier
+  }
+
+  /**
+   * Register schemas for received payloads
+   * Merged with previously registered schemas; a channel's new entry replaces its old one.
+   */
+  setSchemas(schemas: DirectIpcSchemas<TMessageMap, TInvokeMap>): void {
+    this.schemas = {
+      messages: { ...this.schemas.messages, ...schemas.messages } as NonNullable<
+        typeof schemas.messages
+      >,
+      invokes: { ...this.schemas.invokes, ...schemas.invokes } as NonNullable<
+        typeof schemas.invokes
+      >,
+    }
+  }
+
+  /**
+   * Set what happens to payloads that fail validation (default 'reject')
+   */
+  setValidationPolicy(policy: ValidationPolicy): void {
+    this.validationPolicy = policy
+  }
+
+  /**
+   * Choose which message channels are retained
+   * The last message sent on a retained channel to each target selector is remembered and
+   * replayed to the targets that selector matches once they connect: when a port to one is first
+   * established, or when it joins the map. A target matched by several selectors gets the most
+   * recent of their messages. Values of channels that are no longer retained are forgotten.
+   */
+  public setRetainedChannels(channels: (keyof TMessageMap)[]): void {
+    this.retainedChannels = new Set(channels.map(String))
+    for (const channel of this.retainedMessages.keys()) {
+      if (!this.retainedChannels.has(channel)) {
+        this.retainedMessages.delete(channel)
+      }
+    }
+  }
+
+  /**
+   * Forget the retained value of a channel, or of every channel
+   */
+  public clearRetained(channel?: keyof TMessageMap): void {
+    if (channel === undefined) {
+      this.retainedMessages.clear()
+    } else {
+      this.retainedMessages.delete(String(channel))
+    }
+  }
+
+  /**
+   * Apply retention options passed to a constructor or instance()
+   */
+  protected configureRetention(options: DirectIpcRetentionOptions<TMessageMap>): void {
+    if (options.retainedChannels) {
+      this.setRetainedChannels(options.retainedChannels)
+    }
+  }
+
+  /**
+   * Remember the last message sent on a retained channel
+   * Called by send() implementations once the message was posted, so a port established while
+   * sending replays the previous value before the new one arrives.
+   */
+  protected retainMessage(
+    target: TargetSelector<TIdentifierStrings>,
+    message: string,
+    args: unknown[]
+  ): void {
+    // Transferred values are detached once sent, so they cannot be replayed
+    if (this.retainedChannels.has(message) && !hasTransferables(args)) {
+      let sent = this.retainedMessages.get(message)
+      if (!sent) {
+        sent = new Map()
+        this.retainedMessages.set(message, sent)
+      }
+      // Re-inserted so entries stay ordered from least to most recent
+      const key = getSelectorKey(target)
+      sent.delete(key)
+      sent.set(key, { target, message, args })
+    }
+  }
+
+  /**
+   * Set up a newly established port before anything else is posted on it
+   * Called by subclasses when a port arrives: announces codecs and replays retained messages.
+   */
+  protected portEstablished(target: DirectIpcTarget, port: TPort): void {
+    this.announceCodecs(target, port)
+    this.replayRetained(target, port)
+    this.connectedPorts.set(port, { target, awaitingAck: false, missed: 0 })
+    if (this.supports(target, 'heartbeat')) this.setTargetHealth(target, 'alive')
+    this.tap?.port('port-established', target)
+
+    const identity = targetIdentity(target)
+    if (!this.lostTargets.delete(identity)) return
+    this.log.debug?.(`DirectIpcBase::portEstablished - Reconnected to ${identity}`)
+    for (const pending of this.pendingInvokes.values()) {
+      if (pending.awaiting && targetIdentity(pending.awaiting) === identity) {
+        delete pending.awaiting
+        pending.port = port
+        pending.reissue?.(port)
+      }
+    }
+    this.localEvents.emit('port-reconnected', target)
+  }
+
+  /**
+   * Report that the port to a target closed or went stale
+   * Called by subclasses when they drop a cached port. Invokes and streams waiting on the port
+   * are rejected with a PortLostError, except invokes made with `retryOnReconnect`, which are
+   * re-issued once a new port to the same target is established.
+   */
+  protected portLost(target: DirectIpcTarget, port: TPort): void {
+    this.log.debug?.(`DirectIpcBase::portLost - Lost port to ${targetIdentity(target)}`)
+    this.portCodecs.delete(port as object)
+    this.connectedPorts.delete(port)
+    this.setTargetHealth(target, 'dead')
+    this.lostTargets.set(targetIdentity(target), target)
+    this.tap?.port('port-lost', target)
+
+    for (const [requestId, pending] of [...this.pendingInvokes]) {
+      if (pending.port !== port) continue
+      if (pending.reissue) {
+        delete pending.port
+        pending.awaiting = target
+      } else {
+        this.removePendingInvoke(requestId)
+        pending.reject(new PortLostError(pending.channel ?? 'unknown', target))
+      }
+    }
+    for (const [requestId, pending] of [...this.pendingStreams]) {
+      if (pending.port !== port) continue
+      this.removePendingStream(requestId)
+      pending.queue.fail(new PortLostError(pending.channel, target))
+    }
+
+    this.localEvents.emit('port-lost', target)
+    this.reconnectLostTargets()
+  }
+
+  /**
+   * Request fresh ports to lost targets that invokes are waiting for
+   * Targets that are not in the map yet are retried on the next map update.
+   */
+  private reconnectLostTargets(): void {
+    for (const pending of this.pendingInvokes.values()) {
+      if (!pending.awaiting) continue
+      const identity = targetIdentity(pending.awaiting)
+      if (this.reconnecting.has(identity)) continue
+      const target = this.map.find(
+        (t) =>
+          targetIdentity(t) === identity &&
+          (t.identifier === undefined || t.identifier !== this.myIdentifier)
+      )
+      if (!target) continue
+
+      this.reconnecting.add(identity)
+      this.getTargetPort(target, true)
+        .catch((error: unknown) => {
+          this.log.warn?.('DirectIpcBase::reconnectLostTargets - Failed to reconnect', error)
+        })
+        .finally(() => this.reconnecting.delete(identity))
+    }
+  }
+
+  /**
+   * Replay retained messages addressed to a target over a newly established port
+   * Of each channel only the most recent message addressed to the target is replayed.
+   */
+  protected replayRetained(target: DirectIpcTarget, port: TPort): void {
+    for (const sent of this.retainedMessages.values()) {
+      const latest = [...sent.values()]
+        .reverse()
+        .find((entry) => this.isAddressedTo(entry.target, target))
+      if (!latest) continue
+      this.log.silly?.(`DirectIpcBase::replayRetained - Replaying "${latest.message}"`)
+      this.postFrame(port, { message: latest.message, args: latest.args })
+    }
+  }
+
+  /**
+   * Check whether a selector currently matches a target in the map
+   */
+  private isAddressedTo(
+    selector: TargetSelector<TIdentifierStrings>,
+    target: DirectIpcTarget
+  ): boolean {
+    if (target.identifier !== undefined && target.identifier === this.myIdentifier) return false
+    try {
+      return this.findTargets(selector).some((t) => t.id === target.id)
+    } catch {
+      // Single-target regex selectors throw once they match several targets
+      return false
+    }
+  }
+
+  /**
+   * Open a port to a target that joined the map if retained messages are addressed to it
+   */
+  private async replayRetainedToNewTarget(target: DirectIpcTarget): Promise<void> {
+    const addressed = [...this.retainedMessages.values()].some((sent) =>
+      [...sent.values()].some((entry) => this.isAddressedTo(entry.target, target))
+    )
+    if (!addressed) return
+
+    try {
+      // Retained messages are replayed when the port arrives; an existing port already had them
+      await this.getTargetPort(target)
+    } catch (error) {
+      this.log.warn?.('DirectIpcBase::replayRetained - Failed to reach new target', error)
+    }
+  }
+
+  /**
+   * Start, reconfigure or stop (with `false`) heartbeats
+   * Every established port is pinged each interval, if its target announced heartbeat support.
+   * A target that misses `missThreshold` heartbeats in a row is reported as
+   * 'target-unresponsive' and marked `unresponsive` in getMap(); it becomes `alive` again with
+   * the next answer. Targets answer heartbeats whether or not they send heartbeats themselves.
+   */
+  public setHeartbeat(options: HeartbeatOptions | false): void {
+    clearInterval(this.heartbeatTimer)
+    this.heartbeatTimer = undefined
+    if (!options) {
+      delete this.heartbeatOptions
+      this.targetHealth.clear()
+      return
+    }
+
+    this.heartbeatOptions = {
+      interval: options.interval ?? DEFAULT_HEARTBEAT_INTERVAL,
+      missThreshold: options.missThreshold ?? DEFAULT_HEARTBEAT_MISS_THRESHOLD,
+    }
+    for (const { target } of this.connectedPorts.values()) {
+      if (this.supports(target, 'heartbeat')) this.setTargetHealth(target, 'alive')
+    }
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeats(), this.heartbeatOptions.interval)
+    // Heartbeats alone should not keep a process alive
+    this.heartbeatTimer.unref?.()
+  }
+
+  /**
+   * Apply heartbeat options passed to a constructor or instance()
+   */
+  protected configureHeartbeat(options: DirectIpcHeartbeatOptions): void {
+    if (options.heartbeat) {
+      this.setHeartbeat(options.heartbeat)
+    }
+  }
+
+  /**
+   * Ping every established port, counting the previous ping if it went unanswered
+   * Only targets that announced heartbeat support are pinged.
+   */
+  protected sendHeartbeats(): void {
+    const threshold = this.heartbeatOptions?.missThreshold ?? DEFAULT_HEARTBEAT_MISS_THRESHOLD
+    const ping: HeartbeatFrame = { type: 'heartbeat' }
+    for (const [port, state] of this.connectedPorts) {
+      // Targets that cannot answer would look unresponsive, so they are not pinged
+      if (!this.supports(state.target, 'heartbeat')) continue
+      if (state.awaitingAck && ++state.missed >= threshold) {
+        this.setTargetHealth(state.target, 'unresponsive')
+      }
+      state.awaitingAck = true
+      try {
+        this.postToPort(port, ping)
+      } catch (error) {
+        this.log.debug?.('DirectIpcBase::sendHeartbeats - Failed to post heartbeat', error)
+      }
+    }
+  }
+
+  /**
+   * Answer a heartbeat, or record that a target answered ours
+   */
+  private handleHeartbeat(port: TPort, frame: HeartbeatFrame): void {
+    if (frame.type === 'heartbeat') {
+      const ack: HeartbeatFrame = { type: 'heartbeat-ack' }
+      try {
+        this.postToPort(port, ack)
+      } catch (error) {
+        this.log.debug?.('DirectIpcBase::handleHeartbeat - Failed to answer heartbeat', error)
+      }
+      return
+    }
+
+    const state = this.connectedPorts.get(port)
+    if (!state) return
+    state.awaitingAck = false
+    state.missed = 0
+    this.setTargetHealth(state.target, 'alive')
+  }
+
+  /**
+   * Record the liveness of a target and report changes to and from `unresponsive`
+   */
+  protected setTargetHealth(target: DirectIpcTarget, health: TargetHealth): void {
+    if (!this.heartbeatOptions) return
+    const previous = this.targetHealth.get(target.id)
+    if (previous === health) return
+    this.targetHealth.set(target.id, health)
+
+    if (health === 'unresponsive') {
+      this.log.warn?.(
+        `DirectIpcBase::setTargetHealth - ${target.identifier ?? `#${target.id}`} is unresponsive`
+      )
+      this.localEvents.emit('target-unresponsive', target)
+    } else if (previous === 'unresponsive' && health === 'alive') {
+      this.localEvents.emit('target-responsive', target)
+    }
+  }
+
+  /**
+   * Stop accepting invokes, let running handlers settle and flush throttled sends
+   * Invokes that arrive from now on are answered with a ShuttingDownError. Handlers still
+   * running after `timeout` are aborted through their `signal`. Messages, outgoing invokes and
+   * sends keep working. DirectIpcMain.shutdown() calls this in every process.
+   *
+   * @returns true if every handler settled before the timeout
+   */
+  public async drain(options: { timeout?: number } = {}): Promise<boolean> {
+    const timeout = options.timeout ?? DEFAULT_SHUTDOWN_TIMEOUT
+    if (!this.shuttingDown) {
+      this.shuttingDown = true
+      this.localEvents.emit('shutting-down')
+    }
+
+    let settled = true
+    if (this.activeHandlers.size > 0) {
+      this.log.debug?.(
+        `DirectIpcBase::drain - Waiting for ${this.activeHandlers.size} running handler(s)`
+      )
+      let timer: NodeJS.Timeout | undefined
+      let settle: (() => void) | undefined
+      settled = await Promise.race([
+        new Promise<boolean>((resolve) => {
+          settle = () => resolve(true)
+          this.handlersSettled.add(settle)
+        }),
+        new Promise<boolean>((resolve) => {
+          timer = setTimeout(() => resolve(false), timeout)
+        }),
+      ])
+      clearTimeout(timer)
+      this.handlersSettled.delete(settle!)
+    }
+
+    if (!settled) {
+      this.log.warn?.(
+        `DirectIpcBase::drain - Aborting ${this.activeHandlers.size} handler(s) still running after ${timeout}ms`
+      )
+      for (const controller of this.activeHandlers.values()) {
+        controller.abort(new Error('DirectIpc handler aborted by shutdown'))
+      }
+      this.activeHandlers.clear()
+    }
+
+    await this.flushThrottled()
+    return settled
+  }
+
+  /**
+   * Post throttled sends that are still waiting for their microtask
+   * Overridden by processes that have a throttled wrapper.
+   */
+  protected async flushThrottled(): Promise<void> {}
+
+  /**
+   * Choose the codecs used for payloads, in order of preference
+   * Codecs are announced to each target when a port to it is established, so set them before
+   * connecting. Payloads to a target are encoded with the first of these codecs it announced
+   * too; targets that announce none of them receive plain structured clones.
+   */
+  public setCodecs(codecs: DirectIpcCodec[]): void {
+    this.codecs = [...codecs]
+  }
+
+  /**
+   * Apply codec options passed to a constructor or instance()
+   */
+  protected configureCodecs(options: DirectIpcCodecOptions): void {
+    if (options.codecs) {
+      this.setCodecs(options.codecs)
+    }
+  }
+
+  /**
+   * Tell the other end of a new port which codecs this process can decode
+   * Processes without codecs stay silent, exactly like versions that predate codecs; targets
+   * that did not announce codec support are never sent the hello.
+   */
+  private announceCodecs(target: DirectIpcTarget, port: TPort): void {
+    if (this.codecs.length === 0 || !this.supports(target, 'codecs')) return
+    const hello: CodecHello = {
+      type: 'codec-hello',
+      codecs: this.codecs.map((codec) => codec.name),
+    }
+    try {
+      this.postToPort(port, hello)
+    } catch (error) {
+      this.log.warn?.('DirectIpcBase::announceCodecs - Failed to announce codecs', error)
+    }
+  }
+
+  /**
+   * Pick the codec for posting to a port once the other end announced its codecs
+   */
+  protected handleCodecHello(port: TPort, hello: CodecHello): void {
+    const codec = Array.isArray(hello.codecs)
+      ? negotiateCodec(this.codecs, hello.codecs)
+      : undefined
+    this.log.silly?.(`DirectIpcBase::handleCodecHello - Using ${codec?.name ?? 'structured clone'}`)
+    if (codec) {
+      this.portCodecs.set(port as object, codec)
+    } else {
+      this.portCodecs.delete(port as object)
+    }
+  }
+
+  /**
+   * Apply validation options passed to a constructor or instance()
+   */
+  protected configureValidation(
+    options: DirectIpcValidationOptions<TMessageMap, TInvokeMap>
+  ): void {
+    if (options.schemas) {
+      this.setSchemas(options.schemas)
+    }
+    if (options.onInvalidPayload) {
+      this.setValidationPolicy(options.onInvalidPayload)
+    }
+  }
+
+  /**
+   * Check a received payload against the schema registered for its channel
+   * @returns The validation error if the payload must not be delivered, undefined otherwise
+   */
+  protected validatePayload(
+    kind: PayloadKind,
+    channel: string,
+    value: unknown
+  ): PayloadValidationError | undefined {
+    let schema: PayloadSchema | undefined
+    if (kind === 'message') {
+      schema = this.schemas.messages?.[channel]
+    } else {
+      schema = this.schemas.invokes?.[channel]?.[kind]
+    }
+    if (!schema) return undefined
+
+    const issues = runPayloadSchema(schema, value)
+    if (!issues) return undefined
+
+    const error = new PayloadValidationError(channel, kind, issues)
+    if (this.validationPolicy === 'drop') {
+      this.log.silly?.(`DirectIpcBase::validatePayload - Dropped ${error.message}`)
+      return error
+    }
+
+    this.log.warn?.(`DirectIpcBase::validatePayload - ${error.message}`)
+    return this.validationPolicy === 'log' ? undefined : error
+  }
+
+  /**
+   * Set the default timeout for invoke calls
+   */
+  setDefaultTimeout(ms: number): void {
+    this.defaultTimeout = ms
+  }
+
+  /**
+   * Get the current default timeout
+   */
+  getDefaultTimeout(): number {
+    return this.defaultTimeout
+  }
+
+  /**
+   * Clean up all pending invokes (useful for testing or shutdown)
+   */
+  clearPendingInvokes(): void {
+    for (const requestId of [...this.pendingInvokes.keys()]) {
+      this.removePendingInvoke(requestId)?.reject(
+        new Error('DirectIpc cleared all pending invokes')
+      )
+    }
+
+    for (const requestId of [...this.pendingStreams.keys()]) {
+      this.removePendingStream(requestId)?.queue.fail(
+        new Error('DirectIpc cleared all pending invokes')
+      )
+    }
+  }
+
+  /**
+   * Stop tracking a pending invoke: clears its timeout and abort listener
+   * @returns The removed entry, or undefined if it was not pending
+   */
+  protected removePendingInvoke(requestId: string) {
+    const pending = this.pendingInvokes.get(requestId)
+    if (!pending) return undefined
+    clearTimeout(pending.timeout)
+    pending.abort?.signal.removeEventListener('abort', pending.abort.listener)
+    this.pendingInvokes.delete(requestId)
+    return pending
+  }
+
+  /**
+   * Stop tracking a pending stream: clears its timeout and abort listener
+   * @returns The removed entry, or undefined if it was not pending
+   */
+  protected removePendingStream(requestId: string) {
+    const pending = this.pendingStreams.get(requestId)
+    if (!pending) return undefined
+    clearTimeout(pending.timeout)
+    pending.abort?.signal.removeEventListener('abort', pending.abort.listener)
+    this.pendingStreams.delete(requestId)
+    return pending
+  }
+
+  /**
+   * Create invoke request ID
+   */
+  protected createInvokeRequestId(): string {
+    return `${++this.requestIdCounter}-${Date.now()}`
+  }
+
+  /**
+   * Create invoke promise with timeout
+   * When the timeout fires or the optional signal aborts, the remote handler is sent a cancel frame.
+   */
+  protected createInvokePromise<T>(
+    requestId: string,
+    timeoutMs: number,
+    channel: string,
+    cancellation?: InvokeCancellation
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.removePendingInvoke(requestId)
+        cancellation?.sendCancel()
+        reject(new Error(`DirectIpc invoke timeout after ${timeoutMs}ms: ${channel}`))
+      }, timeoutMs)
+
+      const signal = cancellation?.signal
+      const abort = signal
+        ? {
+            signal,
+            listener: () => {
+              this.removePendingInvoke(requestId)
+              cancellation.sendCancel()
+              reject(signal.reason ?? new Error(`DirectIpc invoke aborted: ${channel}`))
+            },
+          }
+        : undefined
+      abort?.signal.addEventListener('abort', abort.listener, { once: true })
+
+      this.pendingInvokes.set(requestId, {
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        timeout,
+        channel,
+        ...(abort ? { abort } : {}),
+      })
+    })
+  }
+
+  /**
+   * Post an invoke request on a port and wait for its response
+   * Used by every invoke() implementation so that lost ports are handled the same way.
+   */
+  protected postInvoke<T>(
+    port: TPort,
+    channel: string,
+    options: InvokeOptions | undefined,
+    args: unknown[]
+  ): Promise<T> {
+    options?.signal?.throwIfAborted()
+
+    const requestId = this.createInvokeRequestId()
+    const timeoutMs = options?.timeout ?? this.defaultTimeout
+    let current = port
+
+    const promise = this.createInvokePromise<T>(requestId, timeoutMs, channel, {
+      signal: options?.signal,
+      sendCancel: () => this.postInvokeCancel(current, requestId),
+    })
+
+    const message: InvokeMessage = {
+      type: 'invoke',
+      channel,
+      requestId,
+      args,
+    }
+    const pending = this.pendingInvokes.get(requestId)
+    if (pending) {
+      pending.port = port
+      // Transferred values are detached once sent, so they cannot be posted again
+      if (options?.retryOnReconnect && !hasTransferables(args)) {
+        pending.reissue = (replacement) => {
+          current = replacement
+          this.log.debug?.(`DirectIpcBase::postInvoke - Re-issuing ${channel}`)
+          this.postArgs(replacement, message)
+        }
+      }
+    }
+    this.postArgs(port, message)
+
+    return promise
+  }
+
+  /**
+   * Create the queue for a streaming invoke with an idle timeout
+   */
+  protected createInvokeStream<T>(
+    requestId: string,
+    timeoutMs: number,
+    channel: string,
+    cancellation?: InvokeCancellation
+  ): InvokeStreamQueue<T> {
+    const queue = new InvokeStreamQueue<T>()
+
+    const restartTimeout = () =>
+      setTimeout(() => {
+        this.removePendingStream(requestId)
+        cancellation?.sendCancel()
+        queue.fail(new Error(`DirectIpc invokeStream timeout after ${timeoutMs}ms: ${channel}`))
+      }, timeoutMs)
+
+    const signal = cancellation?.signal
+    const abort = signal
+      ? {
+          signal,
+          listener: () => {
+            this.removePendingStream(requestId)
+            cancellation.sendCancel()
+            queue.fail(signal.reason ?? new Error(`DirectIpc invokeStream aborted: ${channel}`))
+          },
+        }
+      : undefined
+    abort?.signal.addEventListener('abort', abort.listener, { once: true })
+
+    this.pendingStreams.set(requestId, {
+      queue: queue as InvokeStreamQueue<unknown>,
+      timeout: restartTimeout(),
+      restartTimeout,
+      channel,
+      ...(abort ? { abort } : {}),
+    })
+
+    return queue
+  }
+
+  /**
+   * Extract InvokeOptions from args array
+   * Only options marked with withOptions(), or a plain `{ timeout }`, are options (see
+   * extractCallOptions()).
+   */
+  protected extractInvokeOptions(args: unknown[]): {
+    options?: InvokeOptions
+    invokeArgs: unknown[]
+  } {
+    const { options, args: invokeArgs } = extractCallOptions<InvokeOptions>(args, true)
+    return options ? { options, invokeArgs } : { invokeArgs }
   }
 }
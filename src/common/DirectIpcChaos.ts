@@ -0,0 +1,147 @@
+/**
+ * Fault injection for resilience tests and dev builds (see setChaos())
+ * Frames posted on established ports can be dropped, delayed and reordered; every random
+ * choice comes from a seeded generator, so a failing run can be replayed with its seed.
+ */
+
+import { DirectIpcTarget } from './DirectIpcCommunication.js'
+import { ProcessMatcher, matchesProcess } from './DirectIpcPermissions.js'
+
+/** How long a frame held back for reordering waits for the next frame on its port (ms) */
+const REORDER_MAX_HOLD = 100
+
+/**
+ * Faults applied to the frames a process posts
+ */
+export interface ChaosEffects {
+  /** Share of frames silently dropped, from 0 to 1 */
+  dropRate?: number
+  /** Delay added to every frame in ms */
+  latency?: number
+  /** Random extra delay of up to this many ms */
+  jitter?: number
+  /** Share of frames held back and posted after the next frame on the same port, from 0 to 1 */
+  reorderRate?: number
+}
+
+/**
+ * Faults for the frames of some channels or targets
+ */
+export interface ChaosRule extends ChaosEffects {
+  /** Channel of the message or invoke; rules with a channel never match other frames */
+  channel?: string | RegExp
+  /** Process the frames are posted to */
+  target?: ProcessMatcher
+}
+
+/**
+ * Fault injection settings (see setChaos())
+ */
+export interface ChaosOptions extends ChaosEffects {
+  /** Seed for every random choice (default: random, logged when chaos is turned on) */
+  seed?: number
+  /** Overrides for matching frames; the first matching rule replaces the effects above */
+  rules?: ChaosRule[]
+  /** Delay before DirectIpcMain's map updates reach other processes in ms (main only) */
+  mapUpdateDelay?: number
+}
+
+/**
+ * Chaos options for DirectIpc constructors and instance()
+ */
+export interface DirectIpcChaosOptions {
+  /** Inject faults into the frames this process posts; off by default */
+  chaos?: ChaosOptions
+}
+
+/**
+ * Create a seeded generator of numbers in [0, 1) (mulberry32)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Get the channel of a frame, if it carries a message or an invoke
+ */
+function getFrameChannel(frame: unknown): string | undefined {
+  if (typeof frame !== 'object' || frame === null) return undefined
+  if ('message' in frame && typeof frame.message === 'string') return frame.message
+  if ('channel' in frame && typeof frame.channel === 'string') return frame.channel
+  return undefined
+}
+
+/**
+ * Applies ChaosOptions to the frames a process posts
+ */
+export class DirectIpcChaos {
+  readonly seed: number
+  private random: () => number
+  /** Frame held back for reordering, by port */
+  private held = new Map<object, { post: () => void; timer: NodeJS.Timeout }>()
+
+  constructor(readonly options: ChaosOptions) {
+    this.seed = options.seed ?? Math.floor(Math.random() * 2 ** 32)
+    this.random = createSeededRandom(this.seed)
+  }
+
+  /**
+   * Post a frame to a target, or drop, delay or hold it back
+   * @param port - Port the frame is posted on (frames are reordered per port)
+   * @param frame - The frame before encoding, to find its channel
+   */
+  post(port: object, target: DirectIpcTarget, frame: unknown, post: () => void): void {
+    const effects = this.getEffects(target, getFrameChannel(frame))
+    if (effects.dropRate && this.random() < effects.dropRate) return
+
+    const delay = (effects.latency ?? 0) + (effects.jitter ? this.random() * effects.jitter : 0)
+    const deliver = delay > 0 ? () => void setTimeout(post, delay) : post
+
+    const held = this.held.get(port)
+    if (held) {
+      this.held.delete(port)
+      clearTimeout(held.timer)
+      deliver()
+      held.post()
+      return
+    }
+    if (effects.reorderRate && this.random() < effects.reorderRate) {
+      const timer = setTimeout(() => {
+        this.held.delete(port)
+        deliver()
+      }, REORDER_MAX_HOLD)
+      this.held.set(port, { post: deliver, timer })
+      return
+    }
+    deliver()
+  }
+
+  /** Post every frame held back for reordering */
+  release(): void {
+    for (const { post, timer } of this.held.values()) {
+      clearTimeout(timer)
+      post()
+    }
+    this.held.clear()
+  }
+
+  private getEffects(target: DirectIpcTarget, channel: string | undefined): ChaosEffects {
+    const rule = this.options.rules?.find(
+      (rule) =>
+        (rule.channel === undefined ||
+          (channel !== undefined &&
+            (typeof rule.channel === 'string'
+              ? rule.channel === channel
+              : channel.search(rule.channel) !== -1))) &&
+        matchesProcess(rule.target, target)
+    )
+    return rule ?? this.options
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Pluggable serialization codecs for port payloads
+ * Codecs are negotiated per port: each process announces the codecs it can decode when a port
+ * is established, and payloads are only encoded once the other end announced the same codec.
+ * Processes that announce nothing (e.g. older versions) keep receiving plain structured clones.
+ */
+
+/**
+ * Encodes payloads before they are posted and decodes them on arrival
+ * Encoded values are still posted with structured clone, so they must be cloneable
+ * (strings, plain objects, Uint8Arrays, ...). Register a codec with the same name in every
+ * process that should use it.
+ */
+export interface DirectIpcCodec {
+  /** Name announced to other processes; codecs with the same name must be compatible */
+  readonly name: string
+  encode(value: unknown): unknown
+  decode(encoded: unknown): unknown
+}
+
+/**
+ * Codec options for DirectIpc constructors and instance()
+ */
+export interface DirectIpcCodecOptions {
+  /** Codecs this process can use, in order of preference (default: plain structured clone) */
+  codecs?: DirectIpcCodec[]
+}
+
+/**
+ * Frame posted when a port is established, listing the codecs the sender can decode
+ */
+export type CodecHello = {
+  type: 'codec-hello'
+  codecs: string[]
+}
+
+/** Key marking values the JSON and class codecs had to describe */
+const CODEC_TYPE_KEY = '__directIpcType__'
+
+/** Name of the identity codec, which never tags frames */
+const IDENTITY_CODEC_NAME = 'identity'
+
+/**
+ * Payloads are posted as-is and copied with structured clone
+ * This is what happens without any codec; listing it lets a process prefer structured clone
+ * over codecs that come later in its list.
+ */
+export const identityCodec: DirectIpcCodec = {
+  name: IDENTITY_CODEC_NAME,
+  encode: (value) => value,
+  decode: (encoded) => encoded,
+}
+
+type TaggedValue = { [CODEC_TYPE_KEY]: string; value?: unknown }
+
+function isTagged(value: unknown): value is TaggedValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Record<string, unknown>)[CODEC_TYPE_KEY] === 'string'
+  )
+}
+
+/**
+ * Payloads are posted as JSON strings
+ * `Date`, `Map`, `Set`, `BigInt` and `undefined` values are tagged and revived on arrival
+ * (properties revived to `undefined` are left out, as JSON.parse() does).
+ */
+export const jsonCodec: DirectIpcCodec = {
+  name: 'json',
+  encode: (value) =>
+    JSON.stringify(value, function (this: Record<string, unknown>, key: string, current: unknown) {
+      // Dates are already converted by toJSON() when the replacer sees them
+      const raw = this[key]
+      if (raw instanceof Date) return { [CODEC_TYPE_KEY]: 'Date', value: raw.getTime() }
+      if (raw instanceof Map) return { [CODEC_TYPE_KEY]: 'Map', value: [...raw.entries()] }
+      if (raw instanceof Set) return { [CODEC_TYPE_KEY]: 'Set', value: [...raw.values()] }
+      if (typeof raw === 'bigint') return { [CODEC_TYPE_KEY]: 'BigInt', value: raw.toString() }
+      if (raw === undefined && key !== '') return { [CODEC_TYPE_KEY]: 'undefined' }
+      return current
+    }),
+  decode: (encoded) => {
+    if (typeof encoded !== 'string') {
+      throw new TypeError('jsonCodec expects a string')
+    }
+    return JSON.parse(encoded, (_key, value: unknown) => {
+      if (!isTagged(value)) return value
+      switch (value[CODEC_TYPE_KEY]) {
+        case 'Date':
+          return new Date(value.value as number)
+        case 'Map':
+          return new Map(value.value as [unknown, unknown][])
+        case 'Set':
+          return new Set(value.value as unknown[])
+        case 'BigInt':
+          return BigInt(value.value as string)
+        case 'undefined':
+          return undefined
+        default:
+          return value
+      }
+    })
+  },
+}
+
+/**
+ * The encode/decode pair of a MessagePack library such as `@msgpack/msgpack`
+ */
+export interface MessagePackLike {
+  encode(value: unknown): Uint8Array
+  decode(data: Uint8Array): unknown
+}
+
+/**
+ * Adapt a MessagePack library to a codec
+ * No MessagePack implementation is bundled; pass the one your app already depends on.
+ *
+ * @example
+ * import { encode, decode } from '@msgpack/msgpack'
+ * const msgpackCodec = createMessagePackCodec({ encode, decode })
+ */
+export function createMessagePackCodec(
+  msgpack: MessagePackLike,
+  name: string = 'msgpack'
+): DirectIpcCodec {
+  return {
+    name,
+    encode: (value) => msgpack.encode(value),
+    decode: (encoded) => {
+      if (!(encoded instanceof Uint8Array)) {
+        throw new TypeError(`${name} codec expects a Uint8Array`)
+      }
+      return msgpack.decode(encoded)
+    },
+  }
+}
+
+/**
+ * Any class whose instances should keep their prototype across the hop
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- constructor parameters are irrelevant here
+export type DirectIpcClass = new (...args: any[]) => object
+
+/**
+ * Create a codec that restores instances of registered classes on arrival
+ * Instances are sent as their own enumerable fields and rebuilt with the registered prototype;
+ * the constructor is not called. Register the same names in every process. Instances of
+ * classes the receiver does not know arrive as plain objects.
+ *
+ * @example
+ * const classCodec = createClassCodec({ Point, Selection })
+ */
+export function createClassCodec(
+  classes: Record<string, DirectIpcClass>,
+  name: string = 'classes'
+): DirectIpcCodec {
+  const names = new Map<object, string>(
+    Object.entries(classes).map(([className, cls]) => [cls.prototype as object, className])
+  )
+
+  const encode = (value: unknown, seen: Map<object, unknown>): unknown => {
+    if (typeof value !== 'object' || value === null) return value
+    if (seen.has(value)) return seen.get(value)
+
+    if (Array.isArray(value)) {
+      const result: unknown[] = []
+      seen.set(value, result)
+      for (const item of value) result.push(encode(item, seen))
+      return result
+    }
+    if (value instanceof Map) {
+      const result = new Map<unknown, unknown>()
+      seen.set(value, result)
+      for (const [k, v] of value) result.set(encode(k, seen), encode(v, seen))
+      return result
+    }
+    if (value instanceof Set) {
+      const result = new Set<unknown>()
+      seen.set(value, result)
+      for (const item of value) result.add(encode(item, seen))
+      return result
+    }
+
+    const className = names.get(Object.getPrototypeOf(value) as object)
+    const isPlain = Object.getPrototypeOf(value) === Object.prototype
+    // Built-ins such as Date or typed arrays are left to structured clone
+    if (!className && !isPlain) return value
+
+    const fields: Record<string, unknown> = {}
+    const result = className ? { [CODEC_TYPE_KEY]: className, value: fields } : fields
+    seen.set(value, result)
+    for (const [key, field] of Object.entries(value)) fields[key] = encode(field, seen)
+    return result
+  }
+
+  const decode = (value: unknown, seen: Map<object, unknown>): unknown => {
+    if (typeof value !== 'object' || value === null) return value
+    if (seen.has(value)) return seen.get(value)
+
+    if (Array.isArray(value)) {
+      const result: unknown[] = []
+      seen.set(value, result)
+      for (const item of value) result.push(decode(item, seen))
+      return result
+    }
+    if (value instanceof Map) {
+      const result = new Map<unknown, unknown>()
+      seen.set(value, result)
+      for (const [k, v] of value) result.set(decode(k, seen), decode(v, seen))
+      return result
+    }
+    if (value instanceof Set) {
+      const result = new Set<unknown>()
+      seen.set(value, result)
+      for (const item of value) result.add(decode(item, seen))
+      return result
+    }
+    if (Object.getPrototypeOf(value) !== Object.prototype) return value
+
+    const cls = isTagged(value) ? classes[value[CODEC_TYPE_KEY]] : undefined
+    const source = isTagged(value) ? (value.value as Record<string, unknown>) : value
+    const result = (cls ? Object.create(cls.prototype as object) : {}) as Record<string, unknown>
+    seen.set(value, result)
+    for (const [key, field] of Object.entries(source)) result[key] = decode(field, seen)
+    return result
+  }
+
+  return {
+    name,
+    encode: (value) => encode(value, new Map()),
+    decode: (encoded) => decode(encoded, new Map()),
+  }
+}
+
+/**
+ * Pick the codec used to post to a process that announced the given codec names
+ * @returns The first of our codecs the other end can decode, or undefined for structured clone
+ */
+export function negotiateCodec(
+  ours: readonly DirectIpcCodec[],
+  theirs: readonly string[]
+): DirectIpcCodec | undefined {
+  const codec = ours.find((candidate) => theirs.includes(candidate.name))
+  return codec && codec.name !== IDENTITY_CODEC_NAME ? codec : undefined
+}
+
+/**
+ * Encode the payload of an outgoing frame
+ * Arguments and results are encoded; control frames are posted unchanged.
+ */
+export function encodeFrame(codec: DirectIpcCodec, frame: object): object {
+  if ('args' in frame && Array.isArray(frame.args)) {
+    return { ...frame, codec: codec.name, args: codec.encode(frame.args) }
+  }
+  if ('type' in frame && 'data' in frame && hasDataPayload(frame.type)) {
+    return { ...frame, codec: codec.name, data: codec.encode([frame.data]) }
+  }
+  return frame
+}
+
+/**
+ * Decode the payload of a frame tagged by encodeFrame()
+ */
+export function decodeFrame(codec: DirectIpcCodec, frame: object): object {
+  const rest: Record<string, unknown> = { ...frame }
+  delete rest.codec
+  if ('args' in rest) {
+    return { ...rest, args: codec.decode(rest.args) }
+  }
+  if ('data' in rest) {
+    const [data] = codec.decode(rest.data) as [unknown]
+    return { ...rest, data }
+  }
+  return rest
+}
+
+function hasDataPayload(type: unknown): boolean {
+  return type === 'invoke-response' || type === 'invoke-stream-chunk'
+}
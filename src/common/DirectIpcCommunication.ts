@@ -2,6 +2,8 @@
  * Direct IPC messages between renderer and main processes
  */
 
+import { SerializedError } from './DirectIpcErrors.js'
+
 /**
  * Process type discriminator for DirectIpc targets
  */
@@ -10,8 +12,30 @@ export enum ProcessType {
   RENDERER = 'renderer',
   /** Electron utility process (background Node.js worker) */
   UTILITY = 'utility',
+  /** Electron main process (registered by DirectIpcMain) */
+  MAIN = 'main',
 }
 
+/**
+ * Liveness of a target as seen through heartbeats
+ * - `alive`: heartbeats are answered
+ * - `unresponsive`: the last `missThreshold` heartbeats went unanswered (e.g. a hung process)
+ * - `dead`: the port to the target was lost
+ */
+export type TargetHealth = 'alive' | 'unresponsive' | 'dead'
+
+/**
+ * Optional protocol feature a process announces when it registers
+ * Frames for a feature are only posted to processes that announced it, so versions that
+ * predate the feature never receive frames they do not understand.
+ * - `codecs`: understands codec-hello frames (see DirectIpcCodec)
+ * - `heartbeat`: answers heartbeat frames (see HeartbeatOptions)
+ */
+export type DirectIpcCapability = 'codecs' | 'heartbeat'
+
+/** Protocol features this version announces */
+export const DIRECT_IPC_CAPABILITIES: readonly DirectIpcCapability[] = ['codecs', 'heartbeat']
+
 /**
  * Represents a registered process in the DirectIpc system
  */
@@ -28,6 +52,12 @@ export type DirectIpcTarget = {
   processType: ProcessType
   /** Process ID for diagnostic purposes (optional) */
   pid?: number
+  /** Pool the process belongs to (only for UTILITY type, see DirectIpcMain.spawnPool) */
+  pool?: string
+  /** Liveness, present once heartbeats are enabled (see HeartbeatOptions) */
+  health?: TargetHealth
+  /** Protocol features the process announced when it registered (none for older versions) */
+  capabilities?: DirectIpcCapability[]
 }
 
 /**
@@ -45,6 +75,36 @@ export type DirectIpcPortMessage = {
   sender: DirectIpcTarget
 }
 
+/**
+ * Options sent along with a GET_PORT request
+ */
+export type DirectIpcGetPortOptions = {
+  /** Replace an existing channel between the two processes instead of reusing it */
+  fresh?: boolean
+}
+
+/**
+ * Sent from Main when the connection policy refuses a port request.
+ * Returned from GET_PORT to renderers, posted on PORT_DENIED to utility processes.
+ */
+export type DirectIpcPortDeniedMessage = {
+  /** The target selector from the refused request */
+  target: {
+    webContentsId?: number
+    identifier?: string | RegExp
+    url?: string | RegExp
+  }
+  /** Serialized ConnectionDeniedError */
+  error: SerializedError
+}
+
+/**
+ * Default identifier under which DirectIpcMain registers the main process.
+ * Renderers and utility processes can target it with `{ identifier: 'main' }`; the `identifier`
+ * option of DirectIpcMain.instance() picks another one.
+ */
+export const DIRECT_IPC_MAIN_IDENTIFIER = 'main'
+
 /**
  * Message string to identify direct IPC messages
  * between renderer and main processes
@@ -67,12 +127,35 @@ export const DIRECT_IPC_CHANNELS = {
   MAP_UPDATE: `${DIRECT_IPC_CHANNEL}:map-update`,
   /** Main sends MessagePort to renderer */
   PORT_MESSAGE: `${DIRECT_IPC_CHANNEL}:port`,
+  /** Main refuses a port request from a utility process */
+  PORT_DENIED: `${DIRECT_IPC_CHANNEL}:port-denied`,
   /** Utility process registers with main */
   UTILITY_REGISTER: `${DIRECT_IPC_CHANNEL}:utility-register`,
   /** Utility process signals ready state */
   UTILITY_READY: `${DIRECT_IPC_CHANNEL}:utility-ready`,
+  /** Main pings a utility process, which answers on the same channel */
+  UTILITY_HEARTBEAT: `${DIRECT_IPC_CHANNEL}:utility-heartbeat`,
+  /** Main asks a process to drain before it shuts down */
+  SHUTDOWN: `${DIRECT_IPC_CHANNEL}:shutdown`,
+  /** A process reports to main that it finished draining */
+  SHUTDOWN_COMPLETE: `${DIRECT_IPC_CHANNEL}:shutdown-complete`,
+  /** A process reports tap events to main; main asks processes to tap while it records */
+  TAP: `${DIRECT_IPC_CHANNEL}:tap`,
+  /** Main asks a process to replay its part of a recording, or to stop */
+  REPLAY: `${DIRECT_IPC_CHANNEL}:replay`,
 } as const
 
+/** Default time processes get to drain when DirectIpcMain shuts them down (ms) */
+export const DEFAULT_SHUTDOWN_TIMEOUT = 5000
+
+/**
+ * Message sent from Main to a process that should drain before shutting down
+ */
+export type DirectIpcShutdownMessage = {
+  /** Time the process has to let running handlers settle (ms) */
+  timeout: number
+}
+
 /**
  * Type guard: Check if target is a renderer process
  */
@@ -90,3 +173,27 @@ export function isUtilityProcess(
 ): target is DirectIpcTarget & { pid: number } {
   return target.processType === ProcessType.UTILITY
 }
+
+/**
+ * Keep the capabilities this version knows from a registering process's announcement
+ */
+export function parseCapabilities(value: unknown): DirectIpcCapability[] {
+  if (!Array.isArray(value)) return []
+  return DIRECT_IPC_CAPABILITIES.filter((capability) => value.includes(capability))
+}
+
+/**
+ * Type guard: Check if a GET_PORT result is a denial
+ */
+export function isPortDenied(value: unknown): value is DirectIpcPortDeniedMessage {
+  return value != null && typeof value === 'object' && 'error' in value && 'target' in value
+}
+
+/**
+ * Type guard: Check if target is the main process
+ */
+export function isMainProcess(
+  target: DirectIpcTarget
+): target is DirectIpcTarget & { pid: number } {
+  return target.processType === ProcessType.MAIN
+}
@@ -0,0 +1,273 @@
+/**
+ * Error serialization for invoke/handle
+ * Errors thrown by handlers are sent as a SerializedError envelope and rehydrated
+ * on the invoking side, using the registry to restore known error classes.
+ */
+
+import { DirectIpcTarget } from './DirectIpcCommunication.js'
+import {
+  IdentifierConflictError,
+  RegistrationTimeoutError,
+  UtilityProcessNotFoundError,
+  UtilityProcessTerminatedError,
+} from '../utility/errors.js'
+
+/**
+ * Structured-clone friendly representation of an Error
+ */
+export type SerializedError = {
+  name: string
+  message: string
+  stack?: string
+  code?: string | number
+  cause?: SerializedError
+  /** Custom enumerable own properties (e.g. `identifier` on UtilityProcessNotFoundError) */
+  props?: Record<string, unknown>
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ErrorClass = new (...args: any[]) => Error
+
+/** Cause chains deeper than this are truncated */
+const MAX_CAUSE_DEPTH = 8
+
+/** Properties carried by dedicated SerializedError fields */
+const RESERVED_KEYS = new Set(['name', 'message', 'stack', 'code', 'cause'])
+
+/**
+ * Which part of a DirectIpc payload failed validation
+ */
+export type PayloadKind = 'message' | 'args' | 'result'
+
+/**
+ * Thrown when a received payload does not match the schema registered for its channel
+ */
+export class PayloadValidationError extends Error {
+  public readonly channel: string
+  public readonly kind: PayloadKind
+  public readonly issues: string[]
+
+  constructor(channel: string, kind: PayloadKind, issues: string[]) {
+    super(`Invalid ${kind} payload for channel ${channel}: ${issues.join('; ')}`)
+    this.name = 'PayloadValidationError'
+    this.channel = channel
+    this.kind = kind
+    this.issues = issues
+  }
+}
+
+/**
+ * Thrown when DirectIpcMain's connection policy refuses a port between two processes
+ */
+export class ConnectionDeniedError extends Error {
+  public readonly from: DirectIpcTarget
+  public readonly to: DirectIpcTarget
+
+  constructor(from: DirectIpcTarget, to: DirectIpcTarget) {
+    const describe = (target: DirectIpcTarget) =>
+      target.identifier ? `"${target.identifier}"` : `${target.processType} #${target.id}`
+    super(`Connection from ${describe(from)} to ${describe(to)} denied by policy`)
+    this.name = 'ConnectionDeniedError'
+    this.from = from
+    this.to = to
+  }
+}
+
+/**
+ * Thrown when a sender is not allowed to invoke a handler (see HandleOptions.allow)
+ */
+export class PermissionDeniedError extends Error {
+  public readonly channel: string
+  public readonly sender: DirectIpcTarget
+
+  constructor(channel: string, sender: DirectIpcTarget) {
+    const senderStr = sender.identifier ? `"${sender.identifier}"` : `#${sender.id}`
+    super(`Sender ${senderStr} is not allowed to invoke ${channel}`)
+    this.name = 'PermissionDeniedError'
+    this.channel = channel
+    this.sender = sender
+  }
+}
+
+/**
+ * Thrown by sendReliable() when a message was not acknowledged before its deadline
+ */
+export class DeliveryTimeoutError extends Error {
+  public readonly channel: string
+  /** Number of times the message was posted */
+  public readonly attempts: number
+
+  constructor(channel: string, attempts: number) {
+    super(`Message ${channel} was not acknowledged after ${attempts} attempt(s)`)
+    this.name = 'DeliveryTimeoutError'
+    this.channel = channel
+    this.attempts = attempts
+  }
+}
+
+/**
+ * Thrown by invoke() when the port to the target was lost before the response arrived
+ * Pass `withOptions({ retryOnReconnect: true })` to re-issue the request on a new port instead.
+ */
+export class PortLostError extends Error {
+  public readonly channel: string
+  public readonly target: DirectIpcTarget
+
+  constructor(channel: string, target: DirectIpcTarget) {
+    const targetStr = target.identifier ? `"${target.identifier}"` : `#${target.id}`
+    super(`Port to ${targetStr} was lost while waiting for ${channel}`)
+    this.name = 'PortLostError'
+    this.channel = channel
+    this.target = target
+  }
+}
+
+/**
+ * Returned to invokes that arrive while the handling process drains before shutting down
+ * See DirectIpcMain.shutdown()
+ */
+export class ShuttingDownError extends Error {
+  public readonly channel: string
+
+  constructor(channel: string) {
+    super(`Cannot handle ${channel}: the process is shutting down`)
+    this.name = 'ShuttingDownError'
+    this.channel = channel
+  }
+}
+
+/**
+ * Error classes rehydrated by name, pre-populated with built-in and library errors
+ */
+const errorRegistry = new Map<string, ErrorClass>(
+  [
+    Error,
+    TypeError,
+    RangeError,
+    SyntaxError,
+    ReferenceError,
+    EvalError,
+    URIError,
+    IdentifierConflictError,
+    UtilityProcessNotFoundError,
+    UtilityProcessTerminatedError,
+    RegistrationTimeoutError,
+    PayloadValidationError,
+    ConnectionDeniedError,
+    PermissionDeniedError,
+    DeliveryTimeoutError,
+    PortLostError,
+    ShuttingDownError,
+  ].map((errorClass): [string, ErrorClass] => [errorClass.name, errorClass])
+)
+
+/**
+ * Register an error class so errors with its name are rehydrated as instances of it
+ * Register the class in every process that should receive it. The constructor is
+ * not called; fields are restored from the serialized error.
+ * @param errorClass - Error class to register
+ * @param name - Name to match against `error.name` (defaults to the class name)
+ */
+export function registerErrorClass(errorClass: ErrorClass, name: string = errorClass.name): void {
+  errorRegistry.set(name, errorClass)
+}
+
+/**
+ * Remove an error class from the registry
+ */
+export function unregisterErrorClass(name: string): void {
+  errorRegistry.delete(name)
+}
+
+/**
+ * Check whether a value can be carried across a MessagePort
+ */
+function isCloneable(value: unknown): boolean {
+  if (typeof value === 'function' || typeof value === 'symbol') return false
+  try {
+    structuredClone(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Serialize a thrown value into a SerializedError envelope
+ * Non-Error values are converted to an `Error` with their string form as the message.
+ */
+export function serializeError(error: unknown, depth = 0): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) }
+  }
+
+  const serialized: SerializedError = { name: error.name, message: error.message }
+  if (error.stack !== undefined) serialized.stack = error.stack
+
+  const { code, cause } = error as { code?: unknown; cause?: unknown }
+  if (typeof code === 'string' || typeof code === 'number') serialized.code = code
+  if (cause !== undefined && depth < MAX_CAUSE_DEPTH) {
+    serialized.cause = serializeError(cause, depth + 1)
+  }
+
+  const props: Record<string, unknown> = {}
+  for (const key of Object.keys(error)) {
+    if (RESERVED_KEYS.has(key)) continue
+    const value = (error as unknown as Record<string, unknown>)[key]
+    if (isCloneable(value)) props[key] = value
+  }
+  if (Object.keys(props).length > 0) serialized.props = props
+
+  return serialized
+}
+
+/**
+ * Rebuild an Error from a SerializedError envelope
+ * Registered names become instances of their class; unknown names become a plain
+ * `Error` that keeps the original `name`.
+ */
+export function deserializeError(serialized: SerializedError | string): Error {
+  // Plain string errors from peers using the older protocol
+  if (typeof serialized === 'string') {
+    return new Error(serialized)
+  }
+
+  const errorClass = errorRegistry.get(serialized.name) ?? Error
+  const error = Object.create(errorClass.prototype) as Error
+
+  const define = (key: string, value: unknown) =>
+    Object.defineProperty(error, key, { value, writable: true, configurable: true })
+
+  define('message', serialized.message)
+  define('stack', serialized.stack ?? `${serialized.name}: ${serialized.message}`)
+  if (error.name !== serialized.name) error.name = serialized.name
+  if (serialized.cause) define('cause', deserializeError(serialized.cause))
+  if (serialized.props) Object.assign(error, serialized.props)
+  if (serialized.code !== undefined) {
+    ;(error as Error & { code?: string | number }).code = serialized.code
+  }
+
+  return error
+}
+
+/**
+ * Rejection reason for invokes whose remote handler threw
+ * `cause` holds the rehydrated remote error, so `error.cause instanceof MyError` works
+ * for registered classes.
+ */
+export class RemoteInvokeError extends Error {
+  /** Process whose handler threw */
+  public readonly target: DirectIpcTarget
+  /** Invoke channel */
+  public readonly channel: string
+  /** The rehydrated remote error */
+  public readonly cause: Error
+
+  constructor(channel: string, target: DirectIpcTarget, cause: Error) {
+    super(cause.message)
+    this.name = 'RemoteInvokeError'
+    this.channel = channel
+    this.target = target
+    this.cause = cause
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Koa-style middleware around send(), invoke() and the messages and invokes a process receives
+ */
+
+import { DirectIpcTarget } from './DirectIpcCommunication.js'
+import { Awaitable, PoolSelector, TargetSelector } from './DirectIpcTypes.js'
+
+/**
+ * A message or invoke passing through the middleware chain
+ * Middleware may replace `args` before calling `next()` and `result` after it. Not calling
+ * `next()` short-circuits: outgoing messages are not sent, incoming messages are not emitted
+ * and invokes resolve with `result` without reaching the remote process or the handler.
+ */
+export interface DirectIpcMiddlewareContext {
+  /** `outgoing` for messages and invokes from this process, `incoming` for what it receives */
+  direction: 'incoming' | 'outgoing'
+  /**
+   * `message` for send(), sendReliable() and received messages, `invoke` for invoke(),
+   * invokeAll(), invokeStream() and handler calls
+   */
+  kind: 'message' | 'invoke'
+  channel: string
+  /** Arguments without the sender or invoke options */
+  args: unknown[]
+  /** Process that sent the message or invoke (incoming only) */
+  sender?: DirectIpcTarget
+  /** Selector the message or invoke is addressed to (outgoing only) */
+  target?: TargetSelector | PoolSelector
+  /**
+   * Value the invoke resolves with, set once `next()` returns: the per-target results for
+   * invokeAll(), the stream of chunks for invokeStream()
+   */
+  result?: unknown
+  /** Free-form state shared by the middleware handling this call */
+  state: Record<string, unknown>
+}
+
+/**
+ * Middleware registered with use()
+ * Call `next()` at most once; errors thrown here reject the send or invoke, or are returned
+ * to the invoking process for incoming invokes.
+ */
+export type DirectIpcMiddleware = (
+  ctx: DirectIpcMiddlewareContext,
+  next: () => Promise<void>
+) => Awaitable<void>
+
+/**
+ * Run a context through the middleware in order, ending with `final`
+ */
+export async function runMiddleware(
+  middleware: readonly DirectIpcMiddleware[],
+  ctx: DirectIpcMiddlewareContext,
+  final: () => Promise<void>
+): Promise<void> {
+  let last = -1
+  const dispatch = async (index: number): Promise<void> => {
+    if (index <= last) {
+      throw new Error('DirectIpc middleware called next() more than once')
+    }
+    last = index
+    const current = middleware[index]
+    if (!current) return final()
+    await current(ctx, () => dispatch(index + 1))
+  }
+  await dispatch(0)
+}
@@ -0,0 +1,72 @@
+/**
+ * Call options for invoke(), invokeStream(), invokeAll() and sendReliable()
+ * Options travel as the last argument, so they are marked with withOptions() to tell them
+ * apart from a payload that happens to have the same keys.
+ */
+
+import type { InvokeOptions } from './DirectIpcTypes.js'
+
+declare const callOptionsBrand: unique symbol
+
+/**
+ * Options marked with withOptions()
+ */
+export type DirectIpcCallOptions<T extends object> = T & { readonly [callOptionsBrand]: true }
+
+/**
+ * Last argument of invoke() and invokeStream()
+ * A plain `{ timeout }` object is still read as options, as it always was; every other option
+ * has to be marked with withOptions().
+ */
+export type InvokeOptionsArgument<T extends InvokeOptions = InvokeOptions> =
+  | Pick<InvokeOptions, 'timeout'>
+  | DirectIpcCallOptions<T>
+
+/** Options objects marked with withOptions() */
+const markedOptions = new WeakSet<object>()
+
+/**
+ * Mark an object as the options of a call rather than its last payload argument
+ *
+ * @example
+ * const controller = new AbortController()
+ * await directIpc.invoke(
+ *   { identifier: 'worker' },
+ *   'kill',
+ *   { signal: 'SIGTERM' },
+ *   withOptions({ signal: controller.signal })
+ * )
+ */
+export function withOptions<T extends object>(options: T): DirectIpcCallOptions<T> {
+  if (typeof options !== 'object' || options === null) {
+    throw new TypeError('withOptions() expects an object')
+  }
+  markedOptions.add(options)
+  return options as DirectIpcCallOptions<T>
+}
+
+/**
+ * Split the options off the end of call arguments
+ * Only objects marked with withOptions() are options, plus a plain object with a `timeout` key
+ * when `legacyTimeout` is set; of that object only the timeout is used.
+ */
+export function extractCallOptions<T extends object>(
+  args: unknown[],
+  legacyTimeout: boolean
+): { options?: T; args: unknown[] } {
+  const lastArg = args[args.length - 1]
+  if (typeof lastArg !== 'object' || lastArg === null) {
+    return { args }
+  }
+
+  if (markedOptions.has(lastArg)) {
+    return { options: lastArg as T, args: args.slice(0, -1) }
+  }
+
+  if (legacyTimeout && !Array.isArray(lastArg) && 'timeout' in lastArg) {
+    const { timeout } = lastArg as InvokeOptions
+    return { options: { timeout } as T, args: args.slice(0, -1) }
+  }
+
+  return { args }
+}
@@ -0,0 +1,99 @@
+/**
+ * Sender matching for connection policies and per-channel permissions
+ */
+
+import { DirectIpcTarget, ProcessType } from './DirectIpcCommunication.js'
+
+/**
+ * Matches a process by identifier, URL origin and/or process type
+ * All given fields must match; an empty matcher matches every process.
+ */
+export type ProcessMatcher = {
+  /** Exact identifier, or a pattern tested against it */
+  identifier?: string | RegExp
+  /** Exact origin (e.g. 'https://example.com'), or a pattern tested against it */
+  origin?: string | RegExp
+  processType?: ProcessType | ProcessType[]
+}
+
+/**
+ * Which senders may use a channel
+ * A matcher, a list of matchers (any may match) or a predicate.
+ */
+export type ChannelPermission =
+  | ProcessMatcher
+  | ProcessMatcher[]
+  | ((sender: DirectIpcTarget) => boolean)
+
+/**
+ * Options for handle()
+ */
+export interface HandleOptions {
+  /** Restrict which senders may invoke this handler */
+  allow?: ChannelPermission
+}
+
+/**
+ * Get the origin of a process's URL, or undefined if it has no parseable URL
+ */
+function getOrigin(target: DirectIpcTarget): string | undefined {
+  if (!target.url) return undefined
+  try {
+    return new URL(target.url).origin
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Test a string against an exact value or pattern
+ * search() ignores and keeps `lastIndex`, so global and sticky patterns give the same answer
+ * on every call.
+ */
+function matchesValue(pattern: string | RegExp, value: string | undefined): boolean {
+  if (value === undefined) return false
+  return typeof pattern === 'string' ? pattern === value : value.search(pattern) !== -1
+}
+
+/**
+ * Check whether a process matches a ProcessMatcher
+ */
+export function matchesProcess(
+  matcher: ProcessMatcher | undefined,
+  target: DirectIpcTarget
+): boolean {
+  if (!matcher) return true
+  if (matcher.identifier !== undefined && !matchesValue(matcher.identifier, target.identifier)) {
+    return false
+  }
+  if (matcher.origin !== undefined && !matchesValue(matcher.origin, getOrigin(target))) {
+    return false
+  }
+  if (matcher.processType !== undefined) {
+    const types = Array.isArray(matcher.processType) ? matcher.processType : [matcher.processType]
+    if (!types.includes(target.processType)) return false
+  }
+  return true
+}
+
+/**
+ * Check whether a sender is allowed by a channel permission
+ * A missing permission allows everyone; a throwing predicate denies.
+ */
+export function isSenderAllowed(
+  permission: ChannelPermission | undefined,
+  sender: DirectIpcTarget
+): boolean {
+  if (!permission) return true
+  if (typeof permission === 'function') {
+    try {
+      return permission(sender) === true
+    } catch {
+      return false
+    }
+  }
+  if (Array.isArray(permission)) {
+    return permission.some((matcher) => matchesProcess(matcher, sender))
+  }
+  return matchesProcess(permission, sender)
+}
@@ -0,0 +1,189 @@
+/**
+ * Recordings of DirectIpc traffic (see DirectIpcMain's startRecording() and replay())
+ * A recording is a JSONL file: a header line followed by one DirectIpcRecordingEntry per line,
+ * oldest first. Payloads are stored as JSON, with redaction rules applied before writing.
+ */
+
+import { DirectIpcTarget } from './DirectIpcCommunication.js'
+import type { DirectIpcTapRecord } from './DirectIpcTap.js'
+import { ProcessMatcher } from './DirectIpcPermissions.js'
+import { isPortLike } from './DirectIpcTransfer.js'
+
+/** Version written in recording headers */
+export const DIRECT_IPC_RECORDING_VERSION = 1
+
+/** Value written in place of redacted payloads */
+export const REDACTED = '[REDACTED]'
+
+/**
+ * First line of a recording
+ */
+export interface DirectIpcRecordingHeader {
+  kind: 'recording'
+  version: number
+  /** When recording started (Date.now()) */
+  time: number
+  /** The main process that made the recording */
+  process: DirectIpcTarget
+}
+
+/**
+ * The process map as it was when recording started or after it changed
+ */
+export interface DirectIpcMapSnapshot {
+  kind: 'map-update'
+  time: number
+  map: DirectIpcTarget[]
+}
+
+/**
+ * One line of a recording after the header
+ */
+export type DirectIpcRecordingEntry = DirectIpcTapRecord | DirectIpcMapSnapshot
+
+/**
+ * Payloads to leave out of a recording
+ */
+export interface RedactionRule {
+  /** Channel of the messages and invokes the rule applies to */
+  channel: string | RegExp
+  /**
+   * Dot-separated paths to replace, starting at `args` or `result`, where `*` matches any key
+   * (e.g. `args.0.password`, `result.users.*.email`). Default: every argument and the result.
+   */
+  paths?: string[]
+}
+
+/**
+ * Options for startRecording()
+ */
+export interface RecordingOptions {
+  /** Payloads replaced with '[REDACTED]' before they are written */
+  redact?: RedactionRule[]
+  /** Record message and invoke payloads (default: true); without them only the traffic shows */
+  payloads?: boolean
+}
+
+/**
+ * Options for replay()
+ */
+export interface ReplayOptions {
+  /**
+   * Recorded process whose traffic is replayed (default: the one with this process's
+   * identifier; required in a process without identifier)
+   */
+  process?: ProcessMatcher
+  /** Playback speed: 1 keeps the recorded timing, 2 halves it, 0 replays without delays (default: 1) */
+  speed?: number
+  /** Answer invoke() calls with the responses the recorded process received (default: true) */
+  invokes?: boolean
+}
+
+/**
+ * A replay in progress
+ */
+export interface DirectIpcReplay {
+  /** Resolves once every recorded message was emitted, or the replay was stopped */
+  readonly done: Promise<void>
+  /** Stop emitting messages and answering invokes */
+  stop(): void
+}
+
+/**
+ * Message sent from Main to a process that should replay its part of a recording
+ */
+export type DirectIpcReplayMessage =
+  | { entries: DirectIpcRecordingEntry[]; options: ReplayOptions }
+  | { stop: true }
+
+/**
+ * Copy a payload into plain JSON values
+ * Binary data becomes arrays of bytes, Maps and Sets become arrays, ports become a placeholder
+ * and bigints become strings; payloads JSON cannot hold at all are recorded as a placeholder.
+ */
+export function toRecordable(value: unknown): unknown {
+  try {
+    const json = JSON.stringify(value, (_key, item: unknown) => {
+      if (typeof item === 'bigint') return item.toString()
+      if (item instanceof ArrayBuffer) return Array.from(new Uint8Array(item))
+      if (ArrayBuffer.isView(item)) {
+        return Array.from(new Uint8Array(item.buffer, item.byteOffset, item.byteLength))
+      }
+      if (item instanceof Map) return [...item.entries()]
+      if (item instanceof Set) return [...item.values()]
+      if (isPortLike(item)) return '[MessagePort]'
+      return item
+    })
+    return json === undefined ? undefined : (JSON.parse(json) as unknown)
+  } catch {
+    return '[Unrecordable]'
+  }
+}
+
+/**
+ * Replace the value at a path, where `*` matches every key
+ */
+function redactPath(value: unknown, path: string[]): unknown {
+  const [key, ...rest] = path
+  if (key === undefined) return REDACTED
+  if (typeof value !== 'object' || value === null) return value
+  const copy = (Array.isArray(value) ? [...value] : { ...value }) as Record<string, unknown>
+  for (const candidate of key === '*' ? Object.keys(copy) : [key]) {
+    if (candidate in copy) copy[candidate] = redactPath(copy[candidate], rest)
+  }
+  return copy
+}
+
+/**
+ * Apply redaction rules to an entry's payloads
+ * Payloads of entries whose channel is unknown (responses to invokes sent before the tap started)
+ * are redacted entirely as soon as there is any rule, since no rule can be matched against them.
+ */
+export function redactEntry(
+  entry: DirectIpcRecordingEntry,
+  rules: readonly RedactionRule[]
+): DirectIpcRecordingEntry {
+  if (entry.kind === 'map-update' || rules.length === 0) return entry
+  const channel = entry.channel
+  const rule =
+    channel !== undefined
+      ? rules.find((candidate) =>
+          typeof candidate.channel === 'string'
+            ? candidate.channel === channel
+            : channel.search(candidate.channel) !== -1
+        )
+      : undefined
+  if (channel !== undefined && !rule) return entry
+
+  let payload: Record<string, unknown> = {}
+  if ('args' in entry) payload.args = entry.args
+  if ('result' in entry) payload.result = entry.result
+  if (rule?.paths) {
+    for (const path of rule.paths) {
+      payload = redactPath(payload, path.split('.')) as Record<string, unknown>
+    }
+  } else {
+    payload = Object.fromEntries(Object.keys(payload).map((key) => [key, REDACTED]))
+  }
+  return { ...entry, ...payload }
+}
+
+/**
+ * Parse the contents of a recording file
+ * @throws Error if the header is missing or from a newer version
+ */
+export function parseRecording(text: string): DirectIpcRecordingEntry[] {
+  const [header, ...entries] = text
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line) => JSON.parse(line) as DirectIpcRecordingHeader | DirectIpcRecordingEntry)
+  if (header?.kind !== 'recording') {
+    throw new Error('DirectIpc - Not a DirectIpc recording')
+  }
+  if ((header as DirectIpcRecordingHeader).version > DIRECT_IPC_RECORDING_VERSION) {
+    throw new Error(
+      `DirectIpc - Recording version ${(header as DirectIpcRecordingHeader).version} is not supported`
+    )
+  }
+  return entries as DirectIpcRecordingEntry[]
+}
@@ -0,0 +1,545 @@
+/**
+ * Shared replicated state synchronised over DirectIpc ports
+ * One owner process holds the authoritative state; subscribers keep a replica that is
+ * seeded with a snapshot and kept up to date with JSON-patch style deltas.
+ */
+
+import { DirectIpcBase } from './DirectIpcBase.js'
+import { DIRECT_IPC_CHANNEL, DirectIpcTarget } from './DirectIpcCommunication.js'
+import { EventMap, InvokeMap, MultiTargetSelector, TargetSelector } from './DirectIpcTypes.js'
+
+/**
+ * A single change to a store's state, in JSON Patch (RFC 6902) form
+ * Paths are JSON Pointers; arrays are replaced as a whole rather than patched per index.
+ */
+export type DirectIpcStoreOperation =
+  | { op: 'add' | 'replace'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+
+/**
+ * Listener called whenever a store's state changes
+ * `operations` describes the change; a full resync is reported as a replace of the root ('').
+ */
+export type DirectIpcStoreListener<TState> = (
+  state: TState,
+  operations: DirectIpcStoreOperation[]
+) => void
+
+/**
+ * Options for a store owned by this process
+ */
+export interface DirectIpcStoreOwnerOptions<TState> {
+  /** Name shared by the owner and its subscribers */
+  name: string
+  initialState: TState
+}
+
+/**
+ * Options for a replica of a store owned by another process
+ */
+export interface DirectIpcStoreSubscriberOptions<TIdentifierStrings extends string = string> {
+  /** Name shared by the owner and its subscribers */
+  name: string
+  /** Process that owns the store */
+  owner: Exclude<TargetSelector<TIdentifierStrings>, MultiTargetSelector<TIdentifierStrings>>
+}
+
+/**
+ * Options for DirectIpcStore
+ * Pass `initialState` to own the store, or `owner` to subscribe to it.
+ */
+export type DirectIpcStoreOptions<TState, TIdentifierStrings extends string = string> =
+  | DirectIpcStoreOwnerOptions<TState>
+  | DirectIpcStoreSubscriberOptions<TIdentifierStrings>
+
+/**
+ * Snapshot returned to subscribers
+ * `state` is left out when the subscriber is already at the owner's version.
+ */
+type StoreSnapshot = { session: string; version: number; state?: unknown }
+
+/**
+ * Delta broadcast to subscribers after each write
+ */
+type StorePatch = { session: string; version: number; operations: DirectIpcStoreOperation[] }
+
+/**
+ * Untyped view of a DirectIpc client, used for the store's internal channels
+ */
+type StoreClient<TIdentifierStrings extends string> = DirectIpcBase<
+  EventMap,
+  InvokeMap,
+  TIdentifierStrings,
+  unknown
+>
+
+/**
+ * Encode a key as a JSON Pointer segment
+ */
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * Split a JSON Pointer into keys
+ */
+function parsePointer(path: string): string[] {
+  if (path === '') return []
+  if (!path.startsWith('/')) {
+    throw new Error(`DirectIpcStore - Invalid path "${path}"`)
+  }
+  return path
+    .slice(1)
+    .split('/')
+    .map((key) => key.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Describe the change from one state to another as patch operations
+ * Plain objects are compared key by key; everything else is compared as a whole.
+ */
+export function diffState(prev: unknown, next: unknown, path = ''): DirectIpcStoreOperation[] {
+  if (Object.is(prev, next)) return []
+  if (!isPlainObject(prev) || !isPlainObject(next)) {
+    if (JSON.stringify(prev) === JSON.stringify(next)) return []
+    return [{ op: 'replace', path, value: next }]
+  }
+
+  const operations: DirectIpcStoreOperation[] = []
+  for (const key of Object.keys(prev)) {
+    if (!(key in next)) {
+      operations.push({ op: 'remove', path: `${path}/${escapePointer(key)}` })
+    }
+  }
+  for (const [key, value] of Object.entries(next)) {
+    const childPath = `${path}/${escapePointer(key)}`
+    if (!(key in prev)) {
+      operations.push({ op: 'add', path: childPath, value })
+    } else {
+      operations.push(...diffState(prev[key], value, childPath))
+    }
+  }
+  return operations
+}
+
+/**
+ * Apply patch operations to a state without mutating it
+ * Objects along each changed path are copied; unchanged branches are shared.
+ */
+export function applyPatch<TState>(state: TState, operations: DirectIpcStoreOperation[]): TState {
+  let result: unknown = state
+  for (const operation of operations) {
+    const keys = parsePointer(operation.path)
+    result = applyOperation(result, keys, operation)
+  }
+  return result as TState
+}
+
+function applyOperation(
+  target: unknown,
+  keys: string[],
+  operation: DirectIpcStoreOperation
+): unknown {
+  if (keys.length === 0) {
+    if (operation.op === 'remove') {
+      throw new Error('DirectIpcStore - Cannot remove the root of the state')
+    }
+    return operation.value
+  }
+
+  const [key, ...rest] = keys as [string, ...string[]]
+  if (!isPlainObject(target)) {
+    throw new Error(`DirectIpcStore - Cannot apply "${operation.path}": parent is not an object`)
+  }
+
+  const copy = { ...target }
+  if (rest.length === 0 && operation.op === 'remove') {
+    delete copy[key]
+  } else {
+    copy[key] = applyOperation(target[key], rest, operation)
+  }
+  return copy
+}
+
+/**
+ * Check that a value received from another process is a list of patch operations
+ */
+function isOperationList(value: unknown): value is DirectIpcStoreOperation[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (operation) =>
+        isPlainObject(operation) &&
+        typeof operation['path'] === 'string' &&
+        (operation['op'] === 'remove' ||
+          ((operation['op'] === 'add' || operation['op'] === 'replace') && 'value' in operation))
+    )
+  )
+}
+
+/**
+ * Selector that addresses exactly one process
+ */
+function selectorFor<TIdentifierStrings extends string>(
+  target: DirectIpcTarget
+): TargetSelector<TIdentifierStrings> {
+  return target.webContentsId !== undefined
+    ? { webContentsId: target.webContentsId }
+    : { identifier: target.identifier as TIdentifierStrings }
+}
+
+/**
+ * ## DirectIpcStore - Replicated State
+ *
+ * A small piece of state shared by several processes. One process owns the store and holds
+ * the authoritative state; every other process creates a subscriber for the same name.
+ *
+ * - Subscribers receive a snapshot when they connect, then patch operations for each change
+ * - Writes from subscribers are proxied to the owner with invoke(), so all writes go through
+ *   one place and are applied in order
+ * - Every change bumps the owner's version; a subscriber that sees a gap (for example after
+ *   its port to the owner was re-established) fetches a fresh snapshot
+ *
+ * Works with DirectIpcRenderer, DirectIpcUtility and DirectIpcMain. State must be
+ * structured-cloneable and is treated as immutable: unchanged branches keep their identity.
+ *
+ * @template TState - Shape of the shared state
+ * @template TIdentifierStrings - Union of allowed identifier strings
+ *
+ * @example
+ * // Owner (e.g. the controller window)
+ * const selection = new DirectIpcStore(directIpc, {
+ *   name: 'selection',
+ *   initialState: { clipIds: [] as string[] },
+ * })
+ *
+ * // Subscriber (any other process)
+ * const selection = new DirectIpcStore<{ clipIds: string[] }>(directIpc, {
+ *   name: 'selection',
+ *   owner: { identifier: 'controller' },
+ * })
+ * selection.subscribe((state) => render(state.clipIds))
+ * await selection.update((state) => ({ ...state, clipIds: ['a'] }))
+ */
+export class DirectIpcStore<TState, TIdentifierStrings extends string = string> {
+  /** Name shared by the owner and its subscribers */
+  public readonly name: string
+
+  /** Whether this process holds the authoritative state */
+  public readonly isOwner: boolean
+
+  private readonly client: StoreClient<TIdentifierStrings>
+
+  /** Owner of the store (subscribers only) */
+  private readonly owner?: DirectIpcStoreSubscriberOptions<TIdentifierStrings>['owner']
+
+  /** Identifies the owner's store instance (a restarted owner starts a new session) */
+  private session: string
+
+  private version = 0
+
+  private state: TState | undefined
+
+  private listeners = new Set<DirectIpcStoreListener<TState>>()
+
+  /** Processes subscribed to this store (owner only), keyed by process id */
+  private subscribers = new Map<number, DirectIpcTarget>()
+
+  /** Snapshot request in flight (subscribers only) */
+  private syncing: Promise<void> | null = null
+
+  /** Deltas received while a snapshot request is in flight */
+  private pendingPatches: StorePatch[] = []
+
+  /** Resolves once the first snapshot was received */
+  private readonly synced: Promise<void>
+
+  private resolveSynced!: () => void
+
+  private closed = false
+
+  private readonly channels: { snapshot: string; write: string; patch: string; leave: string }
+
+  /** Event handlers registered on the client, removed by close() */
+  private readonly onPatch = (sender: DirectIpcTarget, patch: StorePatch) =>
+    this.handlePatch(sender, patch)
+  private readonly onLeave = (sender: DirectIpcTarget) => this.subscribers.delete(sender.id)
+  private readonly onTargetRemoved = (target: DirectIpcTarget) => this.subscribers.delete(target.id)
+  private readonly onOwnerSeen = (target: DirectIpcTarget) => {
+    if (this.isOwnerProcess(target)) void this.sync()
+  }
+
+  constructor(
+    client: DirectIpcBase<EventMap, InvokeMap, TIdentifierStrings, unknown>,
+    options: DirectIpcStoreOptions<TState, TIdentifierStrings>
+  ) {
+    this.client = client
+    this.name = options.name
+    this.isOwner = 'initialState' in options
+    this.session = this.isOwner
+      ? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+      : ''
+    this.synced = new Promise((resolve) => (this.resolveSynced = resolve))
+
+    const prefix = `${DIRECT_IPC_CHANNEL}:store:${options.name}`
+    this.channels = {
+      snapshot: `${prefix}:snapshot`,
+      write: `${prefix}:write`,
+      patch: `${prefix}:patch`,
+      leave: `${prefix}:leave`,
+    }
+
+    if ('initialState' in options) {
+      this.state = options.initialState
+      this.resolveSynced()
+      client.handle(this.channels.snapshot, (sender, known: unknown) =>
+        this.handleSnapshotRequest(sender, known)
+      )
+      client.handle(this.channels.write, (_sender, operations: unknown) =>
+        this.handleWrite(operations)
+      )
+      client.on(this.channels.leave, this.onLeave)
+      client.localEvents.on('target-removed', this.onTargetRemoved)
+    } else {
+      this.owner = options.owner
+      client.on(this.channels.patch, this.onPatch)
+      client.localEvents.on('target-added', this.onOwnerSeen)
+      client.localEvents.on('message-port-added', this.onOwnerSeen)
+      void this.sync()
+    }
+  }
+
+  /**
+   * Current state, or undefined while a subscriber waits for its first snapshot
+   */
+  getState(): TState | undefined {
+    return this.state
+  }
+
+  /**
+   * Version of the current state (incremented by the owner on every change)
+   */
+  getVersion(): number {
+    return this.version
+  }
+
+  /**
+   * Wait until the state is available
+   */
+  async ready(): Promise<TState> {
+    await this.synced
+    return this.state as TState
+  }
+
+  /**
+   * Listen for state changes
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: DirectIpcStoreListener<TState>): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * Replace the state
+   * Subscribers send the difference to the owner and resolve once it was applied there.
+   */
+  async set(next: TState): Promise<void> {
+    const current = await this.ready()
+    await this.write(diffState(current, next))
+  }
+
+  /**
+   * Derive the next state from the current one
+   * The recipe must return a new object rather than mutate its argument.
+   */
+  async update(recipe: (state: TState) => TState): Promise<void> {
+    const current = await this.ready()
+    await this.write(diffState(current, recipe(current)))
+  }
+
+  /**
+   * Stop synchronising
+   * An owner stops serving subscribers; a subscriber tells the owner it left.
+   */
+  close(): void {
+    if (this.closed) return
+    this.closed = true
+    this.listeners.clear()
+    if (this.isOwner) {
+      this.client.removeHandler(this.channels.snapshot)
+      this.client.removeHandler(this.channels.write)
+      this.client.off(this.channels.leave, this.onLeave)
+      this.client.localEvents.off('target-removed', this.onTargetRemoved)
+      this.subscribers.clear()
+    } else {
+      this.client.off(this.channels.patch, this.onPatch)
+      this.client.localEvents.off('target-added', this.onOwnerSeen)
+      this.client.localEvents.off('message-port-added', this.onOwnerSeen)
+      void this.client.send(this.owner!, this.channels.leave).catch(() => {})
+    }
+  }
+
+  /**
+   * Apply a change locally (owner) or send it to the owner (subscriber)
+   */
+  private async write(operations: DirectIpcStoreOperation[]): Promise<void> {
+    if (this.closed) {
+      throw new Error(`DirectIpcStore - Store "${this.name}" is closed`)
+    }
+    if (operations.length === 0) return
+
+    if (this.isOwner) {
+      this.commit(operations)
+      return
+    }
+
+    const version = (await this.client.invoke(this.owner!, this.channels.write, operations)) as
+      | number
+      | undefined
+    // The patch travels on the same port ahead of the reply; if it was missed, catch up
+    if (version !== undefined && version > this.version) {
+      await this.sync()
+    }
+  }
+
+  /**
+   * Apply operations to the authoritative state and broadcast them (owner only)
+   */
+  private commit(operations: DirectIpcStoreOperation[]): number {
+    this.state = applyPatch(this.state as TState, operations)
+    this.version++
+    const patch: StorePatch = { session: this.session, version: this.version, operations }
+    for (const subscriber of this.subscribers.values()) {
+      void this.client
+        .send(selectorFor<TIdentifierStrings>(subscriber), this.channels.patch, patch)
+        .catch(() => {})
+    }
+    this.notify(operations)
+    return this.version
+  }
+
+  private handleSnapshotRequest(sender: DirectIpcTarget, known: unknown): StoreSnapshot {
+    this.subscribers.set(sender.id, sender)
+    const upToDate =
+      isPlainObject(known) && known['session'] === this.session && known['version'] === this.version
+    return upToDate
+      ? { session: this.session, version: this.version }
+      : { session: this.session, version: this.version, state: this.state }
+  }
+
+  private handleWrite(operations: unknown): number {
+    if (this.closed) {
+      throw new Error(`DirectIpcStore - Store "${this.name}" is closed`)
+    }
+    if (!isOperationList(operations)) {
+      throw new Error(`DirectIpcStore - Invalid operations for store "${this.name}"`)
+    }
+    return operations.length === 0 ? this.version : this.commit(operations)
+  }
+
+  /**
+   * Apply a delta from the owner, or resync if one was missed (subscribers only)
+   */
+  private handlePatch(sender: DirectIpcTarget, patch: StorePatch): void {
+    if (!this.isOwnerProcess(sender)) return
+    if (this.syncing) {
+      this.pendingPatches.push(patch)
+      return
+    }
+    if (this.state === undefined) return
+    if (patch.session !== this.session || patch.version > this.version + 1) {
+      void this.sync()
+      return
+    }
+    if (patch.version <= this.version) return
+
+    this.state = applyPatch(this.state, patch.operations)
+    this.version = patch.version
+    this.notify(patch.operations)
+  }
+
+  /**
+   * Fetch a snapshot from the owner (subscribers only)
+   * Concurrent calls share one request.
+   */
+  private sync(): Promise<void> {
+    if (this.closed) return Promise.resolve()
+    this.syncing ??= this.fetchSnapshot().finally(() => {
+      this.syncing = null
+    })
+    return this.syncing
+  }
+
+  private async fetchSnapshot(): Promise<void> {
+    try {
+      const snapshot = (await this.client.invoke(this.owner!, this.channels.snapshot, {
+        session: this.session,
+        version: this.version,
+      })) as StoreSnapshot
+      if (this.closed) return
+
+      if ('state' in snapshot) {
+        this.session = snapshot.session
+        this.version = snapshot.version
+        this.state = snapshot.state as TState
+        this.resolveSynced()
+        this.notify([{ op: 'replace', path: '', value: this.state }])
+      }
+    } catch {
+      // The owner is not reachable yet; the next port to it triggers another attempt
+    }
+    this.applyPendingPatches()
+  }
+
+  /**
+   * Apply deltas that arrived while the snapshot was being fetched
+   */
+  private applyPendingPatches(): void {
+    const pending = this.pendingPatches
+    this.pendingPatches = []
+    for (const patch of pending) {
+      if (patch.session !== this.session || patch.version !== this.version + 1) continue
+      this.state = applyPatch(this.state as TState, patch.operations)
+      this.version = patch.version
+      this.notify(patch.operations)
+    }
+  }
+
+  /**
+   * Check whether a process is the store's owner (subscribers only)
+   */
+  private isOwnerProcess(target: DirectIpcTarget): boolean {
+    const owner = this.owner
+    if (!owner) return false
+    if ('webContentsId' in owner) return target.webContentsId === owner.webContentsId
+    if ('identifier' in owner) {
+      const pattern = owner.identifier
+      return (
+        target.identifier !== undefined &&
+        (pattern instanceof RegExp
+          ? target.identifier.search(pattern) !== -1
+          : target.identifier === pattern)
+      )
+    }
+    if ('url' in owner) {
+      const pattern = owner.url
+      return (
+        target.url !== undefined &&
+        (pattern instanceof RegExp ? target.url.search(pattern) !== -1 : target.url === pattern)
+      )
+    }
+    return false
+  }
+
+  private notify(operations: DirectIpcStoreOperation[]): void {
+    const state = this.state as TState
+    for (const listener of this.listeners) {
+      listener(state, operations)
+    }
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Async-iterable queue backing streaming invokes
+ * Chunks pushed from the port are buffered until the consumer pulls them
+ */
+export class InvokeStreamQueue<T> implements AsyncIterableIterator<T> {
+  /** Chunks received but not yet consumed */
+  private buffer: T[] = []
+
+  /** Pending next() call waiting for a chunk */
+  private waiting: {
+    resolve: (result: IteratorResult<T, undefined>) => void
+    reject: (error: Error) => void
+  } | null = null
+
+  /** Whether the stream has completed (no more chunks will arrive) */
+  private done = false
+
+  /** Error that terminated the stream, delivered after buffered chunks */
+  private error: Error | null = null
+
+  /**
+   * Push a chunk received from the remote handler
+   */
+  push(chunk: T): void {
+    if (this.done) return
+    if (this.waiting) {
+      const { resolve } = this.waiting
+      this.waiting = null
+      resolve({ value: chunk, done: false })
+    } else {
+      this.buffer.push(chunk)
+    }
+  }
+
+  /**
+   * Mark the stream as completed
+   */
+  end(): void {
+    if (this.done) return
+    this.done = true
+    if (this.waiting) {
+      const { resolve } = this.waiting
+      this.waiting = null
+      resolve({ value: undefined, done: true })
+    }
+  }
+
+  /**
+   * Terminate the stream with an error
+   */
+  fail(error: Error): void {
+    if (this.done) return
+    this.done = true
+    this.error = error
+    if (this.waiting) {
+      const { reject } = this.waiting
+      this.waiting = null
+      this.error = null
+      reject(error)
+    }
+  }
+
+  next(): Promise<IteratorResult<T, undefined>> {
+    if (this.buffer.length > 0) {
+      return Promise.resolve({ value: this.buffer.shift() as T, done: false })
+    }
+    if (this.error) {
+      const error = this.error
+      this.error = null
+      return Promise.reject(error)
+    }
+    if (this.done) {
+      return Promise.resolve({ value: undefined, done: true })
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+    })
+  }
+
+  return(): Promise<IteratorResult<T, undefined>> {
+    this.buffer = []
+    this.error = null
+    this.end()
+    return Promise.resolve({ value: undefined, done: true })
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this
+  }
+}
+
+/**
+ * Check whether a value is an async iterable (e.g. the result of an async generator)
+ */
+export function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    value != null &&
+    typeof (value as { [Symbol.asyncIterator]?: unknown })[Symbol.asyncIterator] === 'function'
+  )
+}
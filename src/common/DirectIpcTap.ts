@@ -0,0 +1,190 @@
+/**
+ * Traffic tap for debugging (see setTap())
+ * A tapping process reports the messages and invokes it posts and receives, and the ports it
+ * gains and loses, to DirectIpcMain, which keeps them for getTapLog() and the inspector window.
+ */
+
+import { DirectIpcTarget } from './DirectIpcCommunication.js'
+import { toRecordable } from './DirectIpcRecording.js'
+
+/** Requests kept waiting for a response to time it, before the oldest are forgotten */
+const TAP_MAX_PENDING = 1000
+
+/**
+ * Something that happened between a tapping process and a peer
+ */
+export interface DirectIpcTapEvent {
+  /** What happened (stream invokes are reported as 'invoke' and 'invoke-response' too) */
+  kind: 'message' | 'invoke' | 'invoke-response' | 'port-established' | 'port-lost'
+  /** Whether the reporting process posted or received the frame (absent for port events) */
+  direction?: 'sent' | 'received'
+  /** Message or invoke channel */
+  channel?: string
+  /** Invoke request ID, shared by a request and its response */
+  requestId?: string
+  /** Time between the request and its response in ms (responses only) */
+  duration?: number
+  /** Error message of a failed invoke (responses only) */
+  error?: string
+  /** Message or invoke arguments, as JSON (only with `payloads`) */
+  args?: unknown[]
+  /** Result of a successful invoke, as JSON (only with `payloads`) */
+  result?: unknown
+  /** Process on the other end */
+  peer: DirectIpcTarget
+  /** When it happened (Date.now()) */
+  time: number
+}
+
+/**
+ * A tap event as DirectIpcMain records it
+ */
+export interface DirectIpcTapRecord extends DirectIpcTapEvent {
+  /** Process that reported the event */
+  process: DirectIpcTarget
+}
+
+/**
+ * What a tapping process reports (see setTap())
+ */
+export interface TapOptions {
+  /** Include message and invoke payloads, copied as JSON (default: false) */
+  payloads?: boolean
+}
+
+/**
+ * Tap options for DirectIpc constructors and instance()
+ */
+export interface DirectIpcTapOptions {
+  /** Report traffic to DirectIpcMain for getTapLog() and the inspector; off by default */
+  tap?: boolean | TapOptions
+}
+
+/**
+ * Message sent from Main to ask a process to tap (or stop) while it records
+ */
+export type DirectIpcTapRequest = {
+  tap: TapOptions | false
+}
+
+/**
+ * Describe a frame for the tap, if it is a message, an invoke request or an invoke response
+ */
+function describeFrame(
+  frame: unknown
+): Pick<DirectIpcTapEvent, 'kind' | 'channel' | 'requestId' | 'error'> | undefined {
+  if (typeof frame !== 'object' || frame === null) return undefined
+  const type = 'type' in frame ? frame.type : undefined
+  const channel =
+    'channel' in frame && typeof frame.channel === 'string' ? frame.channel : undefined
+  const requestId =
+    'requestId' in frame && typeof frame.requestId === 'string' ? frame.requestId : undefined
+
+  if (type === undefined || type === 'reliable-message') {
+    return 'message' in frame && typeof frame.message === 'string'
+      ? { kind: 'message', channel: frame.message }
+      : undefined
+  }
+  if (requestId === undefined) return undefined
+  if (type === 'invoke' || type === 'invoke-stream') {
+    return channel !== undefined ? { kind: 'invoke', channel, requestId } : undefined
+  }
+  if (type === 'invoke-response' || type === 'invoke-stream-end') {
+    return 'success' in frame && frame.success === false
+      ? { kind: 'invoke-response', requestId, error: errorMessage(frame) }
+      : { kind: 'invoke-response', requestId }
+  }
+  if (type === 'invoke-stream-error') {
+    return { kind: 'invoke-response', requestId, error: errorMessage(frame) }
+  }
+  return undefined
+}
+
+/**
+ * Copy the arguments or result carried by a frame
+ */
+function getPayload(frame: object): Pick<DirectIpcTapEvent, 'args' | 'result'> {
+  if ('args' in frame && Array.isArray(frame.args)) {
+    return { args: toRecordable(frame.args) as unknown[] }
+  }
+  if ('data' in frame && 'success' in frame && frame.success === true) {
+    return { result: toRecordable(frame.data) }
+  }
+  return {}
+}
+
+/**
+ * Get the message of a serialized error carried by a frame
+ */
+function errorMessage(frame: object): string {
+  const error = 'error' in frame ? frame.error : undefined
+  if (typeof error === 'string') return error
+  if (typeof error === 'object' && error !== null && 'message' in error) {
+    return String(error.message)
+  }
+  return 'Unknown error'
+}
+
+/**
+ * Collects the tap events of a process and reports them in batches
+ * Events that happen in the same task are reported together once it ends.
+ */
+export class DirectIpcTap {
+  /** Invoke requests waiting for their response, by direction, peer and request ID */
+  private requests = new Map<string, { channel: string; time: number }>()
+  private queue: DirectIpcTapEvent[] = []
+
+  /** Include payloads in the events */
+  payloads = false
+
+  constructor(private readonly report: (events: DirectIpcTapEvent[]) => void) {}
+
+  /**
+   * Record a frame posted to or received from a peer
+   */
+  frame(direction: 'sent' | 'received', peer: DirectIpcTarget, frame: unknown): void {
+    const described = describeFrame(frame)
+    if (!described) return
+    const time = Date.now()
+    const event: DirectIpcTapEvent = { ...described, direction, peer, time }
+    if (this.payloads) Object.assign(event, getPayload(frame as object))
+
+    if (described.kind === 'invoke' && described.channel !== undefined) {
+      this.requests.set(`${direction}:${peer.id}:${described.requestId}`, {
+        channel: described.channel,
+        time,
+      })
+      if (this.requests.size > TAP_MAX_PENDING) {
+        this.requests.delete(this.requests.keys().next().value!)
+      }
+    } else if (described.kind === 'invoke-response') {
+      // A response travels the other way from its request
+      const requestDirection = direction === 'sent' ? 'received' : 'sent'
+      const key = `${requestDirection}:${peer.id}:${described.requestId}`
+      const request = this.requests.get(key)
+      if (request) {
+        this.requests.delete(key)
+        event.channel = request.channel
+        event.duration = time - request.time
+      }
+    }
+    this.push(event)
+  }
+
+  /**
+   * Record a port to a peer being established or lost
+   */
+  port(kind: 'port-established' | 'port-lost', peer: DirectIpcTarget): void {
+    this.push({ kind, peer, time: Date.now() })
+  }
+
+  private push(event: DirectIpcTapEvent): void {
+    this.queue.push(event)
+    if (this.queue.length > 1) return
+    queueMicrotask(() => {
+      const events = this.queue
+      this.queue = []
+      this.report(events)
+    })
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Transferable arguments for send(), invoke() and invoke responses
+ * Values marked with transfer() are moved to the receiving process instead of copied.
+ */
+
+/**
+ * Anything that can be listed in a transfer list
+ * Renderers can transfer ArrayBuffers, MessagePorts and other Transferables; utility
+ * processes and the main process can only transfer MessagePortMain (other values are copied).
+ */
+export type DirectIpcTransferable = Transferable | Electron.MessagePortMain
+
+/** Key of the placeholder that stands in for a transferred port argument */
+const TRANSFERRED_PORT_KEY = '__directIpcTransferredPort__'
+
+/** Transfer lists of values marked with transfer() */
+const transferLists = new WeakMap<object, DirectIpcTransferable[]>()
+
+/**
+ * Mark a value so that the listed objects are transferred rather than copied
+ * Pass the result as an argument to send() or invoke(), or return it from a handler.
+ * Transferred objects are unusable in the sending process afterwards.
+ *
+ * @example
+ * const frame = new Float32Array(4096)
+ * directIpc.send({ identifier: 'mixer' }, 'audio-frame', transfer(frame, [frame.buffer]))
+ */
+export function transfer<T>(value: T, transferables: DirectIpcTransferable[]): T {
+  if (typeof value !== 'object' || value === null) {
+    throw new TypeError('transfer() expects an object, array or port')
+  }
+  transferLists.set(value, transferables)
+  return value
+}
+
+/**
+ * Check whether a value is a MessagePort or MessagePortMain
+ */
+export function isPortLike(value: unknown): value is MessagePort | Electron.MessagePortMain {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { postMessage?: unknown }).postMessage === 'function' &&
+    typeof (value as { start?: unknown }).start === 'function' &&
+    typeof (value as { close?: unknown }).close === 'function'
+  )
+}
+
+/**
+ * Collect the transfer list for outgoing values
+ * Ports passed as values are always transferred and replaced by placeholders, because
+ * MessagePortMain only delivers ports next to the message rather than inside it.
+ */
+export function prepareTransfer(values: unknown[]): {
+  values: unknown[]
+  transfer: DirectIpcTransferable[]
+} {
+  const ports: DirectIpcTransferable[] = []
+  const others: DirectIpcTransferable[] = []
+  const add = (transferable: DirectIpcTransferable) => {
+    const list = isPortLike(transferable) ? ports : others
+    if (!list.includes(transferable)) list.push(transferable)
+  }
+
+  const prepared = values.map((value) => {
+    if (typeof value !== 'object' || value === null) return value
+    for (const transferable of transferLists.get(value) ?? []) add(transferable)
+    if (!isPortLike(value)) return value
+    add(value)
+    return { [TRANSFERRED_PORT_KEY]: ports.indexOf(value) }
+  })
+
+  // Ports go first, so placeholders index into the ports received with the message
+  return { values: prepared, transfer: [...ports, ...others] }
+}
+
+/**
+ * Check whether outgoing values would transfer anything
+ */
+export function hasTransferables(values: unknown[]): boolean {
+  return values.some(
+    (value) =>
+      isPortLike(value) || (typeof value === 'object' && value !== null && transferLists.has(value))
+  )
+}
+
+function isPortPlaceholder(value: unknown): value is { [TRANSFERRED_PORT_KEY]: number } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Record<string, unknown>)[TRANSFERRED_PORT_KEY] === 'number'
+  )
+}
+
+/**
+ * Put ports received with a message back in place of their placeholders
+ */
+export function restoreTransferredPorts(values: unknown[], ports: readonly unknown[]): unknown[] {
+  return values.map((value) =>
+    isPortPlaceholder(value) ? (ports[value[TRANSFERRED_PORT_KEY]] ?? value) : value
+  )
+}
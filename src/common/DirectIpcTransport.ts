@@ -0,0 +1,67 @@
+/**
+ * Transport interfaces between DirectIpcMain and the processes it brokers
+ * Electron's MessagePortMain, process.parentPort and UtilityProcess implement them as they
+ * are; electron-direct-ipc/node adapts Node's worker_threads and child_process to them.
+ */
+
+/**
+ * Message received on a transport port or parent transport
+ */
+export interface DirectIpcTransportEvent<TPorts = unknown> {
+  data: unknown
+  /** Ports transferred with the message */
+  ports: TPorts[]
+}
+
+/**
+ * A port DirectIpc posts frames on (shaped like Electron's MessagePortMain)
+ */
+export interface DirectIpcTransportPort {
+  postMessage(message: unknown, transfer?: DirectIpcTransportPort[]): void
+  on(event: 'message', listener: (event: DirectIpcTransportEvent) => void): unknown
+  on(event: 'close', listener: () => void): unknown
+  start(): void
+  close(): void
+}
+
+/**
+ * A child process's link to DirectIpcMain (shaped like Electron's process.parentPort)
+ * Ports handed over by DirectIpcMain arrive in `event.ports`.
+ */
+export interface DirectIpcParentTransport {
+  postMessage(message: unknown): void
+  on(
+    event: 'message',
+    listener: (event: DirectIpcTransportEvent<DirectIpcTransportPort>) => void
+  ): unknown
+  removeListener(
+    event: 'message',
+    listener: (event: DirectIpcTransportEvent<DirectIpcTransportPort>) => void
+  ): unknown
+}
+
+/**
+ * DirectIpcMain's handle on a child process (shaped like Electron's UtilityProcess)
+ */
+export interface DirectIpcChildTransport {
+  readonly pid?: number | undefined
+  postMessage(message: unknown, transfer?: DirectIpcTransportPort[]): void
+  on(event: 'message', listener: (message: unknown) => void): unknown
+  on(event: 'exit', listener: (code: number) => void): unknown
+  kill(): boolean
+}
+
+/**
+ * How DirectIpcMain connects the processes it brokers
+ * The default uses Electron's MessageChannelMain and utilityProcess.fork().
+ */
+export interface DirectIpcTransport {
+  /** Create a pair of connected ports */
+  createChannel(): { port1: DirectIpcTransportPort; port2: DirectIpcTransportPort }
+  /** Start a child process running `modulePath` (used by spawnUtility() and spawnPool()) */
+  fork?(
+    modulePath: string,
+    args: string[] | undefined,
+    options: Electron.ForkOptions | undefined
+  ): DirectIpcChildTransport
+}
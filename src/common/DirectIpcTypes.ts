@@ -3,6 +3,9 @@
  */
 
 import { DirectIpcTarget } from './DirectIpcCommunication.js'
+import { SerializedError } from './DirectIpcErrors.js'
+import type { InvokeOptionsArgument } from './DirectIpcOptions.js'
+import type { HandleOptions } from './DirectIpcPermissions.js'
 
 /**
  * Type that can be either a synchronous value or a Promise
@@ -62,8 +65,47 @@ export interface InvokeMap {
  */
 export interface InvokeOptions {
   timeout?: number
+  /**
+   * Cancels the invoke when aborted. The remote handler is notified with a cancel
+   * frame and its `sender.signal` is aborted. A timeout cancels the handler the same way.
+   */
+  signal?: AbortSignal
+  /**
+   * Post the request again on a new port if the port to the target is lost (e.g. the target
+   * reloaded) before the response arrives. Without it the invoke is rejected with a
+   * PortLostError. The handler may then run twice, so only use it for idempotent handlers.
+   */
+  retryOnReconnect?: boolean
 }
 
+/**
+ * How long invokeAll() waits before cancelling the invokes still in flight
+ * - 'all': wait for every target to settle
+ * - 'first': stop after the first fulfilled result
+ * - 'quorum': stop after `quorum` fulfilled results
+ */
+export type InvokeAllMode = 'all' | 'first' | 'quorum'
+
+/**
+ * Options for invokeAll() calls
+ * `timeout` and `signal` apply to every target; aborting `signal` cancels all of them.
+ */
+export interface InvokeAllOptions extends InvokeOptions {
+  /** Maximum number of targets invoked at once (default: all at once) */
+  concurrency?: number
+  mode?: InvokeAllMode
+  /** Number of fulfilled results needed when mode is 'quorum' */
+  quorum?: number
+}
+
+/**
+ * Outcome of invokeAll() for one target
+ * Targets cancelled because the mode completed early are rejected with an AbortError.
+ */
+export type InvokeAllResult<T> =
+  | { target: DirectIpcTarget; status: 'fulfilled'; value: T }
+  | { target: DirectIpcTarget; status: 'rejected'; reason: unknown }
+
 /**
  * Target selector for send() and invoke() methods
  * Specifies which process(es) to communicate with
@@ -77,6 +119,26 @@ export type TargetSelector<TId extends string = string> =
   | { allIdentifiers: TId | RegExp }
   | { allUrls: string | RegExp }
 
+/**
+ * Target selector addressing a pool of utility processes (see DirectIpcMain.spawnPool)
+ * invoke() and send() go to one member, picked by `balance`:
+ * - `round-robin`: members take turns (default)
+ * - `least-pending`: the member with the fewest invokes from this process still in flight
+ * - `sticky`: everything with the same `key` goes to the same member while membership is stable
+ *
+ * send() delivers to every member with `broadcast: true`; invokeAll() always does.
+ */
+export type PoolSelector =
+  | { pool: string; balance?: 'round-robin' | 'least-pending'; broadcast?: boolean }
+  | { pool: string; balance: 'sticky'; key: string }
+
+/**
+ * Target selector for invokeAll(), which fans out over every matching process
+ */
+export type MultiTargetSelector<TId extends string = string> =
+  | { allIdentifiers: TId | RegExp }
+  | { allUrls: string | RegExp }
+
 /**
  * Message format for regular DirectIpc messages
  * args is the tuple of arguments expected by the event handler (Parameters<> of the handler function)
@@ -107,9 +169,112 @@ export type InvokeResponse = {
   requestId: string
   success: boolean
   data?: unknown
-  error?: string
+  error?: SerializedError
+}
+
+/**
+ * Message format for a streaming invoke (see invokeStream())
+ */
+export type InvokeStreamMessage = {
+  type: 'invoke-stream'
+  channel: string
+  requestId: string
+  args: unknown[]
+}
+
+/**
+ * Sent by the invoking process to cancel an in-flight invoke or stream
+ * (abort signal fired, timeout elapsed, or stream consumer stopped iterating)
+ */
+export type InvokeCancelMessage = {
+  type: 'invoke-cancel'
+  requestId: string
+}
+
+/**
+ * Options for retained channels (see setRetainedChannels())
+ */
+export interface DirectIpcRetentionOptions<TMessageMap extends EventMap = EventMap> {
+  /** Channels whose last sent message is replayed to targets that connect later */
+  retainedChannels?: (keyof TMessageMap)[]
+}
+
+/**
+ * How often connected targets are pinged and when they count as unresponsive
+ */
+export interface HeartbeatOptions {
+  /** Time between heartbeats in ms (default: 1000) */
+  interval?: number
+  /** Consecutive unanswered heartbeats before a target is unresponsive (default: 3) */
+  missThreshold?: number
+}
+
+/**
+ * Heartbeat options for DirectIpc constructors and instance()
+ */
+export interface DirectIpcHeartbeatOptions {
+  /** Ping every cached port (and, in DirectIpcMain, every utility process); off by default */
+  heartbeat?: HeartbeatOptions
+}
+
+/**
+ * Options for sendReliable() calls
+ */
+export interface ReliableSendOptions {
+  /** Give up if no acknowledgement arrives within this many ms (default: the invoke timeout) */
+  deadline?: number
+  /** Wait this long for an acknowledgement before retrying over a fresh port (default: 1000) */
+  retryInterval?: number
+}
+
+/**
+ * Message sent by sendReliable()
+ * `session` identifies the sending instance and `seq` the message within it, so the receiver
+ * can acknowledge it and drop retried duplicates.
+ */
+export type ReliableMessage = {
+  type: 'reliable-message'
+  session: string
+  seq: number
+  message: string
+  args: unknown[]
+}
+
+/**
+ * Acknowledgement posted back by the receiver of a ReliableMessage
+ */
+export type ReliableAck = {
+  type: 'reliable-ack'
+  session: string
+  seq: number
+}
+
+/**
+ * Liveness ping posted on each cached port, answered with a `heartbeat-ack`
+ */
+export type HeartbeatFrame = {
+  type: 'heartbeat' | 'heartbeat-ack'
 }
 
+/**
+ * Frames sent back by the handler of a streaming invoke
+ * - `invoke-stream-chunk` carries one yielded value
+ * - `invoke-stream-end` signals that the handler completed
+ * - `invoke-stream-error` signals that the handler threw (terminates the stream)
+ */
+export type InvokeStreamFrame =
+  | { type: 'invoke-stream-chunk'; requestId: string; data: unknown }
+  | { type: 'invoke-stream-end'; requestId: string }
+  | { type: 'invoke-stream-error'; requestId: string; error: SerializedError }
+
+/**
+ * Extracts the chunk type of a streaming invoke handler
+ * e.g. `(query: string) => AsyncIterable<Hit>` yields `Hit`
+ */
+export type InvokeStreamChunk<F> =
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  F extends (...args: any[]) => AsyncIterable<infer C> ? C : unknown
+
 /**
  * Handler function type for invoke/handle pattern
  */
@@ -117,6 +282,92 @@ export type InvokeHandler<T extends InvokeMap = InvokeMap> = (
   ...args: Parameters<T[keyof T]>
 ) => Promise<ReturnType<T[keyof T]>> | ReturnType<T[keyof T]>
 
+/**
+ * Converts a kebab-case channel name to a camelCase method name
+ * e.g. `'heavy-computation'` becomes `'heavyComputation'`
+ */
+export type CamelCaseChannel<S extends string> = S extends `${infer Head}-${infer Tail}`
+  ? `${Head}${Capitalize<CamelCaseChannel<Tail>>}`
+  : S
+
+/**
+ * Converts a camelCase method name back to a kebab-case channel name
+ * e.g. `'heavyComputation'` becomes `'heavy-computation'`
+ */
+export type KebabCaseChannel<
+  S extends string,
+  Acc extends string = '',
+> = S extends `${infer C}${infer Rest}`
+  ? KebabCaseChannel<Rest, `${Acc}${C extends Lowercase<C> ? C : `-${Lowercase<C>}`}`>
+  : Acc
+
+/**
+ * How proxy() and expose() name the method of each invoke channel
+ * - `'camelCase'`: kebab-case channels become camelCase methods (`'get-user'` is `getUser()`)
+ * - `'exact'`: methods are named like their channels (`'getUser'` is `getUser()`)
+ */
+export type ProxyNaming = 'camelCase' | 'exact'
+
+/**
+ * Options for proxy()
+ */
+export interface ProxyOptions<TNaming extends ProxyNaming = ProxyNaming> {
+  /** How method names map to channels (default: 'camelCase') */
+  naming?: TNaming
+}
+
+/**
+ * Options for expose(): the handle() options of every method, plus its naming
+ */
+export interface ExposeOptions<TNaming extends ProxyNaming = ProxyNaming>
+  extends HandleOptions, ProxyOptions<TNaming> {}
+
+/**
+ * Invoke channels that can be reached through a proxy method
+ * With `'camelCase'` naming a channel qualifies when its method name converts back to the same
+ * channel, which holds for lowercase kebab-case names like `'get-user'`; with `'exact'` naming
+ * every channel does.
+ */
+export type ProxyChannel<
+  TInvokeMap extends InvokeMap,
+  TNaming extends ProxyNaming = 'camelCase',
+> = TNaming extends 'exact'
+  ? keyof TInvokeMap & string
+  : {
+      [K in keyof TInvokeMap & string]: KebabCaseChannel<CamelCaseChannel<K>> extends K ? K : never
+    }[keyof TInvokeMap & string]
+
+/**
+ * Method name of an invoke channel under the given naming
+ */
+export type ProxyMethodName<
+  K extends string,
+  TNaming extends ProxyNaming = 'camelCase',
+> = TNaming extends 'exact' ? K : CamelCaseChannel<K>
+
+/**
+ * Object returned by proxy(), with one method per invoke channel
+ * Each method takes the handler's parameters plus optional options (see withOptions()).
+ */
+export type InvokeProxy<TInvokeMap extends InvokeMap, TNaming extends ProxyNaming = 'camelCase'> = {
+  [K in ProxyChannel<TInvokeMap, TNaming> as ProxyMethodName<K, TNaming>]: (
+    ...args: [...params: Parameters<TInvokeMap[K]>, options?: InvokeOptionsArgument]
+  ) => Promise<Awaited<ReturnType<TInvokeMap[K]>>>
+}
+
+/**
+ * Object passed to expose(), with one method per invoke channel
+ * Methods receive the handler's parameters without the sender.
+ */
+export type InvokeImplementation<
+  TInvokeMap extends InvokeMap,
+  TNaming extends ProxyNaming = 'camelCase',
+> = {
+  [K in ProxyChannel<TInvokeMap, TNaming> as ProxyMethodName<K, TNaming>]: (
+    ...args: Parameters<TInvokeMap[K]>
+  ) => ReturnType<TInvokeMap[K]> | Awaited<ReturnType<TInvokeMap[K]>>
+}
+
 /**
  * Prepends 'sender: DirectIpcTarget' to every handler function in an EventMap.
  * Used to transform handler signatures when receiving messages from other processes.
@@ -125,6 +376,23 @@ export type WithSender<T extends EventMap> = {
   [K in keyof T]: (sender: DirectIpcTarget, ...args: Parameters<T[K]>) => ReturnType<T[K]>
 }
 
+/**
+ * Sender info passed as the first argument to invoke handlers.
+ * Extends DirectIpcTarget with per-invocation context.
+ */
+export type InvokeSender = DirectIpcTarget & {
+  /** Aborted when the caller cancels the invoke (AbortSignal or timeout) */
+  signal: AbortSignal
+}
+
+/**
+ * Prepends 'sender: InvokeSender' to every handler function in an InvokeMap.
+ * Used for handler signatures registered via handle().
+ */
+export type WithInvokeSender<T extends InvokeMap> = {
+  [K in keyof T]: (sender: InvokeSender, ...args: Parameters<T[K]>) => ReturnType<T[K]>
+}
+
 /**
  * Type-safe event emitter interface
  * Provides strongly-typed event registration and emission
@@ -0,0 +1,129 @@
+/**
+ * Runtime payload validation for EventMap and InvokeMap channels
+ * Schemas are checked on receive, so stale or hostile peers cannot push unexpected
+ * shapes into listeners and handlers.
+ */
+
+import { EventMap, InvokeMap } from './DirectIpcTypes.js'
+
+/**
+ * Validator function for a payload
+ * Return `true` (or an empty array) to accept the value, `false` or a list of issue
+ * messages to reject it.
+ */
+export type PayloadValidator = (value: unknown) => boolean | readonly string[]
+
+/**
+ * Minimal Standard Schema v1 interface (https://standardschema.dev)
+ * Implemented by Zod, Valibot, ArkType and others
+ */
+export interface StandardSchemaV1 {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaV1.Result | Promise<StandardSchemaV1.Result>
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export declare namespace StandardSchemaV1 {
+  type Result =
+    | { readonly value: unknown; readonly issues?: undefined }
+    | { readonly issues: ReadonlyArray<Issue> }
+
+  interface Issue {
+    readonly message: string
+    readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined
+  }
+}
+
+/**
+ * A validator function or a Standard Schema
+ */
+export type PayloadSchema = PayloadValidator | StandardSchemaV1
+
+/**
+ * Per-channel schemas
+ * - `messages[channel]` validates the args array of a message
+ * - `invokes[channel].args` validates the args array of an invoke (checked by the handler side)
+ * - `invokes[channel].result` validates the response, or each chunk of a stream
+ *   (checked by the invoking side)
+ */
+export type DirectIpcSchemas<
+  TMessageMap extends EventMap = EventMap,
+  TInvokeMap extends InvokeMap = InvokeMap,
+> = {
+  messages?: { [K in keyof TMessageMap]?: PayloadSchema }
+  invokes?: { [K in keyof TInvokeMap]?: { args?: PayloadSchema; result?: PayloadSchema } }
+}
+
+/**
+ * What to do with a payload that fails validation
+ * - `drop`: discard it silently; invokes still reject with a PayloadValidationError
+ * - `log`: log a warning and deliver it anyway
+ * - `reject`: log a warning and discard it; invokes reject with a PayloadValidationError
+ * A dropped stream chunk is skipped and the stream goes on.
+ */
+export type ValidationPolicy = 'drop' | 'log' | 'reject'
+
+/**
+ * Validation options shared by DirectIpcRenderer, DirectIpcUtility and DirectIpcMain
+ */
+export interface DirectIpcValidationOptions<
+  TMessageMap extends EventMap = EventMap,
+  TInvokeMap extends InvokeMap = InvokeMap,
+> {
+  schemas?: DirectIpcSchemas<TMessageMap, TInvokeMap>
+  /** Defaults to 'reject' */
+  onInvalidPayload?: ValidationPolicy
+}
+
+/**
+ * Check whether a value implements Standard Schema v1
+ */
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  return (
+    value != null &&
+    (typeof value === 'object' || typeof value === 'function') &&
+    '~standard' in value
+  )
+}
+
+/**
+ * Adapt a Standard Schema to a PayloadValidator
+ * Only synchronous schemas are supported; transformed output values are ignored.
+ */
+export function fromStandardSchema(schema: StandardSchemaV1): PayloadValidator {
+  return (value) => {
+    const result = schema['~standard'].validate(value)
+    if (result instanceof Promise) {
+      return ['Asynchronous schemas are not supported']
+    }
+    if (!result.issues) return true
+    return result.issues.map((issue) => {
+      const path = issue.path
+        ?.map((segment) => String(typeof segment === 'object' ? segment.key : segment))
+        .join('.')
+      return path ? `${path}: ${issue.message}` : issue.message
+    })
+  }
+}
+
+/**
+ * Run a schema against a value
+ * @returns The list of issues, or undefined if the value is valid
+ */
+export function runPayloadSchema(schema: PayloadSchema, value: unknown): string[] | undefined {
+  const validator = isStandardSchema(schema) ? fromStandardSchema(schema) : schema
+  let result: boolean | readonly string[]
+  try {
+    result = validator(value)
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)]
+  }
+  if (result === true) return undefined
+  if (result === false) return ['Invalid payload']
+  return result.length > 0 ? [...result] : undefined
+}
@@ -1,4 +1,17 @@
 export * from './DirectIpcBase'
+export * from './DirectIpcChaos'
+export * from './DirectIpcCodec'
 export * from './DirectIpcCommunication'
+export * from './DirectIpcErrors'
 export * from './DirectIpcLogger'
+export * from './DirectIpcMiddleware'
+export * from './DirectIpcOptions'
+export * from './DirectIpcPermissions'
+export * from './DirectIpcRecording'
+export * from './DirectIpcStore'
+export * from './DirectIpcStream'
+export * from './DirectIpcTap'
+export * from './DirectIpcTransfer'
+export * from './DirectIpcTransport'
 export * from './DirectIpcTypes'
+export * from './DirectIpcValidation'
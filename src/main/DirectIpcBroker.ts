@@ -0,0 +1,2555 @@
+import type { WebContents } from 'electron'
+import {
+  DEFAULT_SHUTDOWN_TIMEOUT,
+  DIRECT_IPC_CAPABILITIES,
+  DIRECT_IPC_CHANNELS,
+  DIRECT_IPC_MAIN_IDENTIFIER,
+  DirectIpcMapUpdateMessage,
+  DirectIpcPortDeniedMessage,
+  DirectIpcGetPortOptions,
+  DirectIpcPortMessage,
+  DirectIpcShutdownMessage,
+  DirectIpcTarget,
+  ProcessType,
+  TargetHealth,
+  parseCapabilities,
+} from '../common/DirectIpcCommunication.js'
+import { DirectIpcChaosOptions } from '../common/DirectIpcChaos.js'
+import {
+  DirectIpcTapEvent,
+  DirectIpcTapOptions,
+  DirectIpcTapRecord,
+  DirectIpcTapRequest,
+  TapOptions,
+} from '../common/DirectIpcTap.js'
+import {
+  DIRECT_IPC_RECORDING_VERSION,
+  DirectIpcRecordingEntry,
+  DirectIpcReplay,
+  DirectIpcReplayMessage,
+  RecordingOptions,
+  ReplayOptions,
+} from '../common/DirectIpcRecording.js'
+import { DirectIpcLogger, consoleLogger } from '../common/DirectIpcLogger.js'
+import { DirectIpcBase, CachedPort } from '../common/DirectIpcBase.js'
+import {
+  EventMap,
+  InvokeMap,
+  InvokeOptions,
+  TargetSelector,
+  PoolSelector,
+  DirectIpcRetentionOptions,
+  DirectIpcHeartbeatOptions,
+  HeartbeatOptions,
+} from '../common/DirectIpcTypes.js'
+import { DirectIpcValidationOptions } from '../common/DirectIpcValidation.js'
+import { ConnectionDeniedError, serializeError } from '../common/DirectIpcErrors.js'
+import {
+  ConnectionPolicy,
+  ConnectionRule,
+  evaluateConnectionRules,
+} from './DirectIpcConnectionPolicy.js'
+import {
+  SpawnUtilityOptions,
+  UtilityBackoffOptions,
+  resolveBackoff,
+  restartDelay,
+  shouldRestart,
+} from './DirectIpcSupervisor.js'
+import { InspectorOptions, InspectorUpdate, createInspectorHtml } from './DirectIpcInspector.js'
+import { DirectIpcRecorder } from './DirectIpcRecorder.js'
+import { IdentifierConflictError, UtilityProcessTerminatedError } from '../utility/errors.js'
+import { DirectIpcTransferable, isPortLike } from '../common/DirectIpcTransfer.js'
+import { InvokeOptionsArgument } from '../common/DirectIpcOptions.js'
+import { DirectIpcCodecOptions } from '../common/DirectIpcCodec.js'
+import {
+  DirectIpcChildTransport,
+  DirectIpcTransport,
+  DirectIpcTransportPort,
+} from '../common/DirectIpcTransport.js'
+
+export {
+  ConnectionDeniedError,
+  DeliveryTimeoutError,
+  PayloadValidationError,
+  PermissionDeniedError,
+  PortLostError,
+  RemoteInvokeError,
+  ShuttingDownError,
+  registerErrorClass,
+  unregisterErrorClass,
+} from '../common/DirectIpcErrors.js'
+export type { SerializedError } from '../common/DirectIpcErrors.js'
+export { IdentifierConflictError, UtilityProcessTerminatedError } from '../utility/errors.js'
+export { fromStandardSchema } from '../common/DirectIpcValidation.js'
+export { DirectIpcStore } from '../common/DirectIpcStore.js'
+export { transfer } from '../common/DirectIpcTransfer.js'
+export type { DirectIpcTransferable } from '../common/DirectIpcTransfer.js'
+export { withOptions } from '../common/DirectIpcOptions.js'
+export type { DirectIpcCallOptions, InvokeOptionsArgument } from '../common/DirectIpcOptions.js'
+export {
+  createClassCodec,
+  createMessagePackCodec,
+  identityCodec,
+  jsonCodec,
+} from '../common/DirectIpcCodec.js'
+export type {
+  DirectIpcClass,
+  DirectIpcCodec,
+  DirectIpcCodecOptions,
+  MessagePackLike,
+} from '../common/DirectIpcCodec.js'
+export type {
+  DirectIpcStoreListener,
+  DirectIpcStoreOperation,
+  DirectIpcStoreOptions,
+  DirectIpcStoreOwnerOptions,
+  DirectIpcStoreSubscriberOptions,
+} from '../common/DirectIpcStore.js'
+export type {
+  ChannelPermission,
+  HandleOptions,
+  ProcessMatcher,
+} from '../common/DirectIpcPermissions.js'
+export type {
+  DirectIpcMiddleware,
+  DirectIpcMiddlewareContext,
+} from '../common/DirectIpcMiddleware.js'
+export type {
+  ChaosEffects,
+  ChaosOptions,
+  ChaosRule,
+  DirectIpcChaosOptions,
+} from '../common/DirectIpcChaos.js'
+export type {
+  DirectIpcTapEvent,
+  DirectIpcTapOptions,
+  DirectIpcTapRecord,
+  TapOptions,
+} from '../common/DirectIpcTap.js'
+export type { InspectorOptions, InspectorUpdate } from './DirectIpcInspector.js'
+export { DirectIpcRecorder, readRecording } from './DirectIpcRecorder.js'
+export { parseRecording, redactEntry } from '../common/DirectIpcRecording.js'
+export type {
+  DirectIpcMapSnapshot,
+  DirectIpcRecordingEntry,
+  DirectIpcRecordingHeader,
+  DirectIpcReplay,
+  RecordingOptions,
+  RedactionRule,
+  ReplayOptions,
+} from '../common/DirectIpcRecording.js'
+export type {
+  DirectIpcChildTransport,
+  DirectIpcParentTransport,
+  DirectIpcTransport,
+  DirectIpcTransportEvent,
+  DirectIpcTransportPort,
+} from '../common/DirectIpcTransport.js'
+export type {
+  ConnectionMatcher,
+  ConnectionPolicy,
+  ConnectionRule,
+} from './DirectIpcConnectionPolicy.js'
+export type {
+  SpawnUtilityOptions,
+  UtilityBackoffOptions,
+  UtilityRestartPolicy,
+} from './DirectIpcSupervisor.js'
+export type {
+  DirectIpcSchemas,
+  PayloadSchema,
+  PayloadValidator,
+  StandardSchemaV1,
+  ValidationPolicy,
+} from '../common/DirectIpcValidation.js'
+
+/**
+ * Options for DirectIpcMain
+ */
+export interface DirectIpcMainOptions<
+  TMessageMap extends EventMap = EventMap,
+  TInvokeMap extends InvokeMap = InvokeMap,
+>
+  extends
+    DirectIpcValidationOptions<TMessageMap, TInvokeMap>,
+    DirectIpcRetentionOptions<TMessageMap>,
+    DirectIpcCodecOptions,
+    DirectIpcHeartbeatOptions,
+    DirectIpcChaosOptions,
+    DirectIpcTapOptions {
+  log?: DirectIpcLogger
+  /**
+   * Identifier the main process registers under, which renderers and utility processes then
+   * cannot claim (default: 'main'). Only used by the first instance() call.
+   */
+  identifier?: string
+  /** Default timeout for invoke calls made from the main process (ms) */
+  defaultTimeout?: number
+  /**
+   * How processes are connected and forked (default: Electron's MessageChannelMain and
+   * utilityProcess). Pass workerThreadsTransport() or childProcessTransport() from
+   * electron-direct-ipc/node to broker Node workers or child processes without Electron.
+   * Only used by the first instance() call.
+   */
+  transport?: DirectIpcTransport
+  /** See setConnectionPolicy() */
+  connectionPolicy?: ConnectionPolicy
+  /** See setConnectionRules() */
+  connectionRules?: ConnectionRule[]
+  /** Tap records kept for getTapLog() and the inspector (default: 1000) */
+  tapLimit?: number
+}
+
+/** Time main waits for a draining process to report back after its own timeout (ms) */
+const SHUTDOWN_REPORT_GRACE = 1000
+
+/** Tap records kept by default */
+const DEFAULT_TAP_LIMIT = 1000
+
+/** Time tap records are batched for before they are pushed to the inspector (ms) */
+const INSPECTOR_UPDATE_INTERVAL = 100
+
+/**
+ * Electron's main-process modules DirectIpcMain uses
+ * The electron-direct-ipc/main entry passes them to _useElectron(); this module never imports
+ * Electron itself, so electron-direct-ipc/node can broker Node transports without it.
+ */
+export type DirectIpcElectronModules = Pick<
+  typeof Electron.CrossProcessExports,
+  'app' | 'BrowserWindow' | 'ipcMain' | 'webContents' | 'MessageChannelMain' | 'utilityProcess'
+>
+
+/** Default transport: Electron's MessageChannelMain and utilityProcess.fork() */
+function electronTransport(electron: DirectIpcElectronModules): DirectIpcTransport {
+  return {
+    createChannel: () => new electron.MessageChannelMain(),
+    fork: (modulePath, args, options) => electron.utilityProcess.fork(modulePath, args, options),
+  }
+}
+
+/**
+ * Dependencies of DirectIpcMain
+ * The Electron ones are absent when brokering without Electron.
+ */
+interface DirectIpcMainDependencies {
+  app?: Electron.App | undefined
+  BrowserWindow?: typeof Electron.BrowserWindow | undefined
+  ipcMain?: Electron.IpcMain | undefined
+  webContents?: typeof Electron.webContents | undefined
+  transport: DirectIpcTransport
+  log: DirectIpcLogger
+}
+
+/**
+ * A utility process spawned with spawnUtility() and the state of its restarts
+ */
+interface SupervisedUtility {
+  modulePath: string
+  options: SpawnUtilityOptions
+  backoff: Required<UtilityBackoffOptions>
+  proc: DirectIpcChildTransport
+  processId: number
+  startedAt: number
+  /** Consecutive restarts so far */
+  restarts: number
+  /** Pending restart, set while the utility process is down */
+  restartTimer?: NodeJS.Timeout
+  /** send() and invoke() calls from the main process waiting for the restart */
+  waiting: { resolve: () => void; reject: (error: Error) => void }[]
+}
+
+/**
+ * Main process DirectIpc coordinator
+ * Manages the registry of renderer and utility processes and facilitates MessagePort creation.
+ *
+ * The main process is also a DirectIpc participant in its own right: it registers itself
+ * under the reserved identifier `'main'` (ProcessType.MAIN) and can `send()`, `invoke()`
+ * and `handle()` with the same typed API as DirectIpcRenderer and DirectIpcUtility.
+ *
+ * @template TMessageMap - Map of message channels to their handler function signatures (WITHOUT sender)
+ * @template TInvokeMap - Map of invoke channels to their handler function signatures (WITHOUT sender)
+ * @template TIdentifierStrings - Union of allowed identifier strings for type-safe identifier usage
+ */
+export class DirectIpcMain<
+  TMessageMap extends EventMap = EventMap,
+  TInvokeMap extends InvokeMap = InvokeMap,
+  TIdentifierStrings extends string = string,
+> extends DirectIpcBase<TMessageMap, TInvokeMap, TIdentifierStrings, DirectIpcTransportPort> {
+  /** Singleton instance */
+  private static _instance: DirectIpcMain | null = null
+
+  /** Electron's modules, when loaded through the electron-direct-ipc/main entry */
+  private static electron: DirectIpcElectronModules | undefined
+
+  /**
+   * Provide Electron's modules (called by the electron-direct-ipc/main entry)
+   * @internal
+   */
+  public static _useElectron(electron: DirectIpcElectronModules): void {
+    DirectIpcMain.electron = electron
+  }
+
+  /**
+   * Check if running in main process
+   * Protected static method for easy mocking in tests
+   */
+  protected static isMainProcess(): boolean {
+    // In Electron, the main process does not have a 'window' object
+    return typeof window === 'undefined' && process && process.type === 'browser'
+  }
+
+  /**
+   * Get the singleton instance of DirectIpcMain
+   * @template TMessageMap - Map of message channels to their handler function signatures
+   * @template TInvokeMap - Map of invoke channels to their handler function signatures
+   * @template TProcessIdentifier - Union of allowed identifier strings for type-safe identifier usage
+   */
+  public static instance<
+    TMessageMap extends EventMap = EventMap,
+    TInvokeMap extends InvokeMap = InvokeMap,
+    TProcessIdentifier extends string = string,
+  >(
+    options: DirectIpcMainOptions<TMessageMap, TInvokeMap> = {}
+  ): DirectIpcMain<TMessageMap, TInvokeMap, TProcessIdentifier> {
+    if (!DirectIpcMain.isMainProcess() && !options.transport) {
+      throw new Error('DirectIpcMain.instance() can only be called from the main process')
+    }
+    if (!this._instance) {
+      this._instance = new DirectIpcMain(
+        {
+          ...(options.log ? { log: options.log } : {}),
+          ...(options.transport ? { transport: options.transport } : {}),
+        },
+        options.identifier
+      )
+    } else {
+      if (options.log) {
+        this._instance.d.log = options.log
+        this._instance.log = options.log
+      }
+    }
+    const instance = this._instance as DirectIpcMain<TMessageMap, TInvokeMap, TProcessIdentifier>
+    instance.configure(options)
+    return instance
+  }
+
+  /**
+   * Create a new instance of DirectIpcMain with injected dependencies (for testing purposes only)
+   * @internal
+   * @template TMessageMap - Map of message channels to their handler function signatures
+   * @template TInvokeMap - Map of invoke channels to their handler function signatures
+   * @template TProcessIdentifier - Union of allowed identifier strings for type-safe identifier usage
+   */
+  public static _createInstance<
+    TMessageMap extends EventMap = EventMap,
+    TInvokeMap extends InvokeMap = InvokeMap,
+    TProcessIdentifier extends string = string,
+  >(
+    options: DirectIpcMainOptions<TMessageMap, TInvokeMap> = {},
+    dependencies: Partial<DirectIpcMainDependencies> = {}
+  ): DirectIpcMain<TMessageMap, TInvokeMap, TProcessIdentifier> {
+    const instance = new DirectIpcMain(
+      {
+        ...dependencies,
+        ...(options.log ? { log: options.log } : {}),
+        ...(options.transport ? { transport: options.transport } : {}),
+      },
+      options.identifier
+    ) as DirectIpcMain<TMessageMap, TInvokeMap, TProcessIdentifier>
+    instance.configure(options)
+    return instance
+  }
+
+  public static init<
+    TMessageMap extends EventMap = EventMap,
+    TInvokeMap extends InvokeMap = InvokeMap,
+    TProcessIdentifier extends string = string,
+  >(
+    options: DirectIpcMainOptions<TMessageMap, TInvokeMap> = {}
+  ): DirectIpcMain<TMessageMap, TInvokeMap, TProcessIdentifier> {
+    return this.instance<TMessageMap, TInvokeMap, TProcessIdentifier>(options)
+  }
+
+  /** Dependencies */
+  private d: DirectIpcMainDependencies
+
+  /** Counter for generating unique process IDs */
+  private nextProcessId = 1
+
+  /** Hook deciding whether a port request is allowed (see setConnectionPolicy) */
+  private connectionPolicy: ConnectionPolicy | undefined
+
+  /** Declarative connection rules (see setConnectionRules) */
+  private connectionRules: ConnectionRule[] = []
+
+  /** Decision when no connection rule matches */
+  private defaultConnectionAllow = true
+
+  /** Map of process ID to DirectIpcTarget info (all process types) */
+  private registry = new Map<number, DirectIpcTarget>()
+
+  /** Map of webContentsId to process ID (for renderer lookups) */
+  private webContentsIdMap = new Map<number, number>()
+
+  /** Map of identifier to process ID (for quick lookup and conflict detection) */
+  private identifierMap = new Map<string, number>()
+
+  /** Map of process ID to utility process handle (for utility process references) */
+  private utilityProcessMap = new Map<number, DirectIpcChildTransport>()
+
+  /**
+   * Map to track existing MessageChannels between renderer pairs
+   * Key format: "${min(id1,id2)}-${max(id1,id2)}" ensures same key regardless of direction
+   */
+  private channelPairs = new Map<string, boolean>()
+
+  /** Process ID assigned to the main process itself */
+  private readonly mainProcessId: number
+
+  /** Ports owned by the main process to other processes, keyed by process ID */
+  private portCache = new Map<number, CachedPort<DirectIpcTransportPort>>()
+
+  /** Heartbeats posted to utility processes and not answered yet, keyed by process ID */
+  private utilityHeartbeats = new Map<number, { awaitingAck: boolean; missed: number }>()
+
+  /** Utility processes spawned with spawnUtility(), keyed by identifier */
+  private supervisedUtilities = new Map<string, SupervisedUtility>()
+
+  /** Processes asked to drain, resolved when they report back or go away, keyed by process ID */
+  private pendingShutdowns = new Map<number, (reported: boolean) => void>()
+
+  /** Tap records reported by every process, oldest first */
+  private tapLog: DirectIpcTapRecord[] = []
+
+  /** Tap records kept in tapLog */
+  private tapLimit = DEFAULT_TAP_LIMIT
+
+  /** Listeners added with onTap() */
+  private tapListeners = new Set<(records: DirectIpcTapRecord[]) => void>()
+
+  /** Inspector window, while open */
+  private inspector: Electron.BrowserWindow | undefined
+
+  /** Recording in progress (see startRecording) */
+  private recorder: DirectIpcRecorder | undefined
+
+  /** What processes are asked to tap while recording */
+  private recordingTap: TapOptions | false = false
+
+  constructor(
+    dependencies = {} as Partial<DirectIpcMainDependencies>,
+    identifier: string = DIRECT_IPC_MAIN_IDENTIFIER
+  ) {
+    super()
+
+    // Merge dependencies with defaults
+    const electron = DirectIpcMain.electron
+    const transport = dependencies.transport ?? (electron && electronTransport(electron))
+    if (!transport) {
+      throw new Error(
+        'DirectIpcMain - Pass a transport from electron-direct-ipc/node when running without Electron'
+      )
+    }
+    this.d = {
+      app: electron?.app,
+      BrowserWindow: electron?.BrowserWindow,
+      ipcMain: electron?.ipcMain,
+      webContents: electron?.webContents,
+      log: consoleLogger,
+      ...dependencies,
+      transport,
+    }
+    this.log = this.d.log
+    this.defaultTimeout = 5000
+
+    this.mainProcessId = this.nextProcessId++
+    this.registerMainProcess(identifier)
+
+    // Renderers are only served when running in Electron
+    if (this.d.ipcMain) {
+      this.setupIpcHandlers(this.d.ipcMain)
+    }
+  }
+
+  /**
+   * Apply the options passed to instance() or _createInstance()
+   */
+  private configure(options: DirectIpcMainOptions<TMessageMap, TInvokeMap>): void {
+    if (options.defaultTimeout !== undefined) {
+      this.setDefaultTimeout(options.defaultTimeout)
+    }
+    this.configureValidation(options)
+    this.configureRetention(options)
+    this.configureCodecs(options)
+    this.configureHeartbeat(options)
+    this.configureChaos(options)
+    this.configureTap(options)
+    if (options.tapLimit !== undefined) {
+      this.tapLimit = options.tapLimit
+    }
+    if (options.connectionPolicy) {
+      this.setConnectionPolicy(options.connectionPolicy)
+    }
+    if (options.connectionRules) {
+      this.setConnectionRules(options.connectionRules)
+    }
+  }
+
+  /**
+   * Register the main process itself in the registry, reserving its identifier
+   */
+  private registerMainProcess(identifier: string): void {
+    if (!identifier) {
+      throw new Error('DirectIpcMain - The main process identifier must not be empty')
+    }
+    const targetInfo: DirectIpcTarget = {
+      id: this.mainProcessId,
+      identifier,
+      processType: ProcessType.MAIN,
+      pid: process.pid,
+      capabilities: [...DIRECT_IPC_CAPABILITIES],
+    }
+
+    this.registry.set(this.mainProcessId, targetInfo)
+    this.identifierMap.set(identifier, this.mainProcessId)
+    this.myIdentifier = identifier as TIdentifierStrings
+    this.map = this.getMapArray()
+  }
+
+  /**
+   * Truncate URL for logging (removes query params and limits length)
+   */
+  private truncatedUrl(rawUrl: string): string {
+    if (!rawUrl) return ''
+    const u = new URL(rawUrl)
+    const urlWithoutArgs = `${u.origin}${u.pathname}`
+    return urlWithoutArgs.length > 100 ? '...' + urlWithoutArgs.slice(-100) : urlWithoutArgs
+  }
+
+  /**
+   * Set up IPC handlers for renderer communication
+   */
+  private setupIpcHandlers(ipcMain: Electron.IpcMain): void {
+    // Handle subscription requests
+    ipcMain.handle(
+      DIRECT_IPC_CHANNELS.SUBSCRIBE,
+      (event, identifier?: string, capabilities?: unknown) => {
+        return this.handleSubscribe(event.sender, identifier, capabilities)
+      }
+    )
+
+    // Handle identifier update requests
+    ipcMain.handle(DIRECT_IPC_CHANNELS.UPDATE_IDENTIFIER, (event, identifier: string) => {
+      return this.handleUpdateIdentifier(event.sender, identifier)
+    })
+
+    // Handle port requests
+    ipcMain.handle(
+      DIRECT_IPC_CHANNELS.GET_PORT,
+      (
+        event,
+        target: {
+          webContentsId?: number
+          identifier?: string | RegExp
+          url?: string | RegExp
+        },
+        options?: DirectIpcGetPortOptions
+      ) => {
+        return this.handleGetPort(event.sender, target, options)
+      }
+    )
+
+    // Handle manual map refresh
+    ipcMain.handle(DIRECT_IPC_CHANNELS.REFRESH_MAP, () => {
+      return this.getMapArray()
+    })
+
+    // Handle renderers reporting that they drained (see shutdown())
+    ipcMain.handle(DIRECT_IPC_CHANNELS.SHUTDOWN_COMPLETE, (event) => {
+      const processId = this.webContentsIdMap.get(event.sender.id)
+      if (processId !== undefined) {
+        this.pendingShutdowns.get(processId)?.(true)
+      }
+    })
+
+    // Handle renderers reporting their traffic (see setTap())
+    ipcMain.handle(DIRECT_IPC_CHANNELS.TAP, (event, events: DirectIpcTapEvent[]) => {
+      const processId = this.webContentsIdMap.get(event.sender.id)
+      const source = processId !== undefined ? this.registry.get(processId) : undefined
+      if (source) this.recordTap(source, events)
+    })
+  }
+
+  /**
+   * Set up lifecycle listeners for a specific webContents
+   */
+  private setupWebContentsListeners(sender: WebContents): void {
+    const webContentsId = sender.id
+
+    // Listen for destruction
+    sender.on('destroyed', () => {
+      this.handleWebContentsDestroyed(webContentsId)
+    })
+
+    // Listen for URL changes (navigation)
+    sender.on('did-navigate', () => {
+      this.handleUrlChanged(webContentsId, sender.getURL())
+    })
+
+    // Listen for in-page navigation (same-document navigation)
+    sender.on('did-navigate-in-page', () => {
+      this.handleUrlChanged(webContentsId, sender.getURL())
+    })
+  }
+
+  /**
+   * Handle URL change for a registered webContents
+   */
+  private handleUrlChanged(webContentsId: number, newUrl: string): void {
+    const target = this.registry.get(webContentsId)
+    if (!target) return
+
+    // Only update and broadcast if URL actually changed
+    if (target.url !== newUrl) {
+      const identifier = target.identifier ? `"${target.identifier}"` : `#${webContentsId}`
+      this.d.log.silly?.(
+        `DirectIpcMain::handleUrlChanged - ${identifier}: ${target.url} -> ${newUrl}`
+      )
+      target.url = newUrl
+      this.broadcastMapUpdate()
+    }
+  }
+
+  /**
+   * Handle a subscription request from a renderer
+   */
+  private handleSubscribe(
+    sender: WebContents,
+    identifier?: string,
+    capabilities?: unknown
+  ): DirectIpcTarget[] {
+    const webContentsId = sender.id
+    const url = sender.getURL()
+
+    this.d.log.silly?.(
+      `DirectIpcMain::handleSubscribe - webContentsId: ${webContentsId}, identifier: ${identifier}, url: ${this.truncatedUrl(url)}`
+    )
+
+    // Get or assign process ID for this renderer
+    let processId = this.webContentsIdMap.get(webContentsId)
+    const wasAlreadyRegistered = processId !== undefined
+
+    if (!processId) {
+      processId = this.nextProcessId++
+      this.webContentsIdMap.set(webContentsId, processId)
+    }
+
+    // Check for identifier conflict
+    if (identifier) {
+      const existingId = this.identifierMap.get(identifier)
+      if (existingId !== undefined && existingId !== processId) {
+        throw new Error(
+          `DirectIpc identifier "${identifier}" is already in use by process ${existingId}`
+        )
+      }
+    }
+
+    // If this renderer is re-subscribing (e.g., after a reload), clear all channel pairs
+    // involving it, since the old MessagePorts are now invalid
+    if (wasAlreadyRegistered) {
+      const identifierStr = identifier ? `"${identifier}"` : `#${webContentsId}`
+      this.d.log.silly?.(
+        `DirectIpcMain::handleSubscribe - Renderer ${identifierStr} re-subscribing, clearing channel pairs`
+      )
+      this.clearChannelPairsForProcess(processId)
+    }
+
+    // Register this renderer
+    const announced = parseCapabilities(capabilities)
+    const targetInfo: DirectIpcTarget = {
+      id: processId,
+      webContentsId,
+      url,
+      processType: ProcessType.RENDERER,
+      ...(identifier ? { identifier } : {}),
+      ...(announced.length > 0 ? { capabilities: announced } : {}),
+    }
+
+    this.registry.set(processId, targetInfo)
+    if (identifier) {
+      this.identifierMap.set(identifier, processId)
+    }
+
+    // Set up lifecycle listeners for this webContents (only if not already registered)
+    if (!wasAlreadyRegistered) {
+      this.setupWebContentsListeners(sender)
+    }
+
+    // A renderer joining during a recording is recorded too
+    if (this.recorder) {
+      this.sendToProcess(targetInfo, DIRECT_IPC_CHANNELS.TAP, { tap: this.recordingTap })
+    }
+
+    // Broadcast update to all other renderers
+    this.broadcastMapUpdate()
+
+    // Return current map to the new subscriber
+    return this.getMapArray()
+  }
+
+  /**
+   * Handle an identifier update request
+   */
+  private handleUpdateIdentifier(sender: WebContents, newIdentifier: string): void {
+    const webContentsId = sender.id
+    const processId = this.webContentsIdMap.get(webContentsId)
+
+    if (!processId) {
+      throw new Error(
+        `DirectIpc: Cannot update identifier for unregistered webContents #${webContentsId} "${newIdentifier}" at ${this.truncatedUrl(sender.getURL())}`
+      )
+    }
+
+    const existing = this.registry.get(processId)
+    if (!existing) {
+      throw new Error(
+        `DirectIpc: Cannot find registry entry for process ${processId} (webContents #${webContentsId})`
+      )
+    }
+
+    // Check for identifier conflict
+    const conflictingProcessId = this.identifierMap.get(newIdentifier)
+    if (conflictingProcessId !== undefined && conflictingProcessId !== processId) {
+      const conflictingTarget = this.registry.get(conflictingProcessId)
+      const conflictingUrl = conflictingTarget?.url
+        ? this.truncatedUrl(conflictingTarget.url)
+        : 'unknown'
+      throw new Error(
+        `DirectIpc identifier "${newIdentifier}" (requested by "${this.truncatedUrl(sender.getURL())}") is already in use by process ${conflictingProcessId} at ${conflictingUrl}`
+      )
+    }
+
+    const oldIdentifier = existing.identifier ? `"${existing.identifier}"` : '(none)'
+    const urlStr = existing.url ? this.truncatedUrl(existing.url) : '(no url)'
+    this.d.log.silly?.(
+      `DirectIpcMain::handleUpdateIdentifier - process ${processId} (webContents #${webContentsId}) at ${urlStr}: ${oldIdentifier} -> "${newIdentifier}"`
+    )
+
+    // Remove old identifier mapping
+    if (existing.identifier) {
+      this.identifierMap.delete(existing.identifier)
+    }
+
+    // Update to new identifier
+    existing.identifier = newIdentifier
+    this.identifierMap.set(newIdentifier, processId)
+
+    // Broadcast update
+    this.broadcastMapUpdate()
+  }
+
+  /**
+   * Handle a port request - create MessageChannel and distribute ports
+   * Supports both renderer-to-renderer and renderer-to-utility communication
+   */
+  private handleGetPort(
+    sender: WebContents,
+    target: {
+      webContentsId?: number
+      identifier?: string | RegExp
+      url?: string | RegExp
+    },
+    options: DirectIpcGetPortOptions = {}
+  ): boolean | DirectIpcPortDeniedMessage | Promise<boolean | DirectIpcPortDeniedMessage> {
+    // Get sender process ID
+    const senderProcessId = this.webContentsIdMap.get(sender.id)
+    if (!senderProcessId) {
+      this.d.log.error?.(`DirectIpcMain::handleGetPort - Sender not registered: #${sender.id}`)
+      return false
+    }
+
+    const senderInfo = this.registry.get(senderProcessId)
+    if (!senderInfo) {
+      this.d.log.error?.(
+        `DirectIpcMain::handleGetPort - Sender info not found for process ${senderProcessId}`
+      )
+      return false
+    }
+
+    // Find target process (renderer or utility)
+    const targetProcessId = this.findProcess(target)
+    if (!targetProcessId) {
+      const senderStr = senderInfo.identifier ? `"${senderInfo.identifier}"` : `#${sender.id}`
+      this.d.log.error?.(
+        `DirectIpcMain::handleGetPort - Could not find target from ${senderStr}:`,
+        target
+      )
+      return false
+    }
+
+    const targetInfo = this.registry.get(targetProcessId)
+    if (!targetInfo) {
+      this.d.log.error?.(
+        `DirectIpcMain::handleGetPort - Target info not found for process ${targetProcessId}`
+      )
+      return false
+    }
+
+    return this.withConnectionPolicy<boolean | DirectIpcPortDeniedMessage>(
+      senderInfo,
+      targetInfo,
+      false,
+      (allowed) => {
+        if (!allowed) {
+          return this.denyPortRequest(senderInfo, targetInfo, target)
+        }
+
+        // Create normalized pair key
+        const pairKey = this.getChannelPairKey(senderProcessId, targetProcessId)
+
+        // Logging strings
+        const senderStr = senderInfo.identifier ? `"${senderInfo.identifier}"` : `#${sender.id}`
+        const targetStr = targetInfo.identifier
+          ? `"${targetInfo.identifier}"`
+          : `#${targetProcessId}`
+
+        // Check if channel already exists (unless the sender asked to replace it)
+        if (!options.fresh && this.channelPairs.has(pairKey)) {
+          this.d.log.silly?.(
+            `DirectIpcMain::handleGetPort - Channel already exists between ${senderStr} and ${targetStr}`
+          )
+          return true
+        }
+
+        this.d.log.silly?.(
+          `DirectIpcMain::handleGetPort - Creating channel between ${senderStr} and ${targetStr}`
+        )
+
+        this.createChannel(senderInfo, targetInfo)
+
+        return true
+      }
+    )
+  }
+
+  /**
+   * Run the connection rules and policy hook for a port request, then continue with the result
+   * Stays synchronous unless the policy hook returns a Promise. If either process unregisters
+   * while an async policy is pending, `proceed` is skipped and `gone` is returned.
+   */
+  private withConnectionPolicy<R>(
+    from: DirectIpcTarget,
+    to: DirectIpcTarget,
+    gone: R,
+    proceed: (allowed: boolean) => R
+  ): R | Promise<R> {
+    const allowed = this.checkConnection(from, to)
+    if (!(allowed instanceof Promise)) {
+      return proceed(allowed)
+    }
+
+    return allowed.then((result) => {
+      if (!this.registry.has(from.id) || !this.registry.has(to.id)) {
+        this.d.log.warn?.(
+          'DirectIpcMain::withConnectionPolicy - Process unregistered during policy check'
+        )
+        return gone
+      }
+      return proceed(result)
+    })
+  }
+
+  /**
+   * Decide whether `from` may open a port to `to`
+   * The first matching rule decides (no match uses the default), then the policy hook must
+   * also allow it. A throwing or rejecting hook denies the connection.
+   */
+  private checkConnection(from: DirectIpcTarget, to: DirectIpcTarget): boolean | Promise<boolean> {
+    const ruleDecision =
+      evaluateConnectionRules(this.connectionRules, from, to) ?? this.defaultConnectionAllow
+    const policy = this.connectionPolicy
+    if (!ruleDecision || !policy) {
+      return ruleDecision
+    }
+
+    const onError = (error: unknown) => {
+      this.d.log.error?.('DirectIpcMain::checkConnection - Connection policy threw:', error)
+      return false
+    }
+
+    try {
+      const result = policy(from, to)
+      return result instanceof Promise ? result.then((value) => value === true, onError) : result
+    } catch (error) {
+      return onError(error)
+    }
+  }
+
+  /**
+   * Build the denial reported to a process whose port request was refused
+   */
+  private denyPortRequest(
+    from: DirectIpcTarget,
+    to: DirectIpcTarget,
+    target: DirectIpcPortDeniedMessage['target']
+  ): DirectIpcPortDeniedMessage {
+    const error = new ConnectionDeniedError(from, to)
+    this.d.log.warn?.(`DirectIpcMain::denyPortRequest - ${error.message}`)
+    return { target, error: serializeError(error) }
+  }
+
+  /**
+   * Set a hook that decides whether a process may open a port to another process
+   * Called after the connection rules allow a request. Pass undefined to remove it.
+   */
+  public setConnectionPolicy(policy: ConnectionPolicy | undefined): void {
+    this.connectionPolicy = policy
+  }
+
+  /**
+   * Set declarative connection rules, checked in order (first match wins)
+   * @param rules - Rules matching processes by identifier, URL origin and process type
+   * @param options.defaultAllow - Decision when no rule matches (default true)
+   */
+  public setConnectionRules(
+    rules: ConnectionRule[],
+    options: { defaultAllow?: boolean } = {}
+  ): void {
+    this.connectionRules = [...rules]
+    this.defaultConnectionAllow = options.defaultAllow ?? true
+  }
+
+  /**
+   * Find a process ID by various criteria (works for both renderers and utilities)
+   */
+  private findProcess(target: {
+    webContentsId?: number
+    identifier?: string | RegExp
+    url?: string | RegExp
+  }): number | undefined {
+    // Direct webContentsId lookup (renderers only)
+    if (target.webContentsId !== undefined) {
+      return this.webContentsIdMap.get(target.webContentsId)
+    }
+
+    // Identifier lookup (works for both renderers and utilities)
+    if (target.identifier !== undefined) {
+      // Prefer an exact match so e.g. 'main' does not collide with 'main-window'
+      if (typeof target.identifier === 'string') {
+        const exactId = this.identifierMap.get(target.identifier)
+        if (exactId !== undefined) {
+          return exactId
+        }
+      }
+      const matches = this.findByIdentifier(target.identifier)
+      if (matches.length > 1) {
+        throw new Error(
+          `DirectIpc: Multiple matches found for identifier pattern. Use sendToAll* method instead.`
+        )
+      }
+      if (matches.length === 1 && matches[0]) {
+        return matches[0].id
+      }
+    }
+
+    // URL lookup (renderers only)
+    if (target.url !== undefined) {
+      const matches = this.findByUrl(target.url)
+      if (matches.length > 1) {
+        throw new Error(
+          `DirectIpc: Multiple matches found for URL pattern. Use sendToAll* method instead.`
+        )
+      }
+      if (matches.length === 1 && matches[0]) {
+        return matches[0].id
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * Record the capabilities a utility process announced once it started
+   */
+  private handleUtilityRegister(processId: number, data: object): void {
+    const info = this.registry.get(processId)
+    const announced = parseCapabilities((data as { capabilities?: unknown }).capabilities)
+    if (!info || announced.length === 0) return
+
+    this.registry.set(processId, { ...info, capabilities: announced })
+    this.broadcastMapUpdate()
+  }
+
+  /**
+   * Handle messages from utility processes
+   */
+  private handleUtilityProcessMessage(utilityProcessId: number, data: unknown): void {
+    if (
+      typeof data === 'object' &&
+      data !== null &&
+      'channel' in data &&
+      data.channel === DIRECT_IPC_CHANNELS.UTILITY_HEARTBEAT
+    ) {
+      this.handleUtilityHeartbeat(utilityProcessId)
+      return
+    }
+    if (
+      typeof data === 'object' &&
+      data !== null &&
+      'channel' in data &&
+      data.channel === DIRECT_IPC_CHANNELS.SHUTDOWN_COMPLETE
+    ) {
+      this.pendingShutdowns.get(utilityProcessId)?.(true)
+      return
+    }
+    if (
+      typeof data === 'object' &&
+      data !== null &&
+      'channel' in data &&
+      data.channel === DIRECT_IPC_CHANNELS.UTILITY_REGISTER
+    ) {
+      this.handleUtilityRegister(utilityProcessId, data)
+      return
+    }
+    if (
+      typeof data === 'object' &&
+      data !== null &&
+      'channel' in data &&
+      data.channel === DIRECT_IPC_CHANNELS.TAP &&
+      'events' in data
+    ) {
+      const source = this.registry.get(utilityProcessId)
+      if (source) this.recordTap(source, data.events as DirectIpcTapEvent[])
+      return
+    }
+
+    this.d.log.debug?.(
+      `DirectIpcMain::handleUtilityProcessMessage - Received message from utility ${utilityProcessId}:`,
+      data
+    )
+
+    // Handle GET_PORT requests from utility process
+    if (
+      typeof data === 'object' &&
+      data !== null &&
+      'channel' in data &&
+      data.channel === DIRECT_IPC_CHANNELS.GET_PORT &&
+      'target' in data
+    ) {
+      const utilityProcess = this.utilityProcessMap.get(utilityProcessId)
+      if (!utilityProcess) {
+        this.d.log.error?.(
+          `DirectIpcMain::handleUtilityProcessMessage - Utility process ${utilityProcessId} not found`
+        )
+        return
+      }
+
+      const utilityInfo = this.registry.get(utilityProcessId)
+      if (!utilityInfo) {
+        this.d.log.error?.(
+          `DirectIpcMain::handleUtilityProcessMessage - Utility process info not found for ${utilityProcessId}`
+        )
+        return
+      }
+
+      const target = data.target as {
+        webContentsId?: number
+        identifier?: string | RegExp
+        url?: string | RegExp
+      }
+
+      // Find target process (renderer or utility)
+      const targetProcessId = this.findProcess(target)
+      if (!targetProcessId) {
+        this.d.log.error?.(
+          `DirectIpcMain::handleUtilityProcessMessage - Could not find target from utility "${utilityInfo.identifier}":`,
+          target
+        )
+        return
+      }
+
+      const targetInfo = this.registry.get(targetProcessId)
+      if (!targetInfo) {
+        this.d.log.error?.(
+          `DirectIpcMain::handleUtilityProcessMessage - Target info not found for process ${targetProcessId}`
+        )
+        return
+      }
+
+      void this.withConnectionPolicy(utilityInfo, targetInfo, undefined, (allowed) => {
+        if (!allowed) {
+          utilityProcess.postMessage({
+            channel: DIRECT_IPC_CHANNELS.PORT_DENIED,
+            ...this.denyPortRequest(utilityInfo, targetInfo, target),
+          })
+          return
+        }
+
+        // Create normalized pair key
+        const pairKey = this.getChannelPairKey(utilityProcessId, targetProcessId)
+
+        // Check if channel already exists (unless the utility asked to replace it)
+        const { fresh } = data as DirectIpcGetPortOptions
+        if (!fresh && this.channelPairs.has(pairKey)) {
+          this.d.log.silly?.(
+            `DirectIpcMain::handleUtilityProcessMessage - Channel already exists between "${utilityInfo.identifier}" and process ${targetProcessId}`
+          )
+          return
+        }
+
+        this.d.log.info?.(
+          `DirectIpcMain::handleUtilityProcessMessage - Creating channel between utility "${utilityInfo.identifier}" (id:${utilityProcessId}) and process ${targetProcessId} (${targetInfo.identifier || targetInfo.processType})`
+        )
+
+        this.createChannel(utilityInfo, targetInfo)
+      })
+    }
+  }
+
+  /**
+   * Create a MessageChannel between two processes and hand one port to each side
+   */
+  private createChannel(requesterInfo: DirectIpcTarget, targetInfo: DirectIpcTarget): void {
+    const { port1, port2 } = this.d.transport.createChannel()
+
+    // Send port2 to target, port1 back to the requester
+    this.deliverPort(targetInfo, port2, requesterInfo)
+    this.deliverPort(requesterInfo, port1, targetInfo)
+
+    // Mark pair as having a channel
+    this.channelPairs.set(this.getChannelPairKey(requesterInfo.id, targetInfo.id), true)
+  }
+
+  /**
+   * Deliver one end of a MessageChannel to a process
+   * @param recipient - Process receiving the port
+   * @param port - The port to deliver
+   * @param peer - Process at the other end of the port
+   */
+  private deliverPort(
+    recipient: DirectIpcTarget,
+    port: DirectIpcTransportPort,
+    peer: DirectIpcTarget
+  ): void {
+    const portMessage: DirectIpcPortMessage = { sender: peer }
+
+    if (recipient.processType === ProcessType.RENDERER && recipient.webContentsId) {
+      const recipientWebContents = this.d.webContents?.fromId(recipient.webContentsId)
+      if (recipientWebContents) {
+        // Renderers are only registered in Electron, where ports are MessagePortMain
+        recipientWebContents.postMessage(DIRECT_IPC_CHANNELS.PORT_MESSAGE, portMessage, [
+          port as Electron.MessagePortMain,
+        ])
+      }
+    } else if (recipient.processType === ProcessType.UTILITY) {
+      const utilityProcess = this.utilityProcessMap.get(recipient.id)
+      if (utilityProcess) {
+        utilityProcess.postMessage(
+          {
+            channel: DIRECT_IPC_CHANNELS.PORT_MESSAGE,
+            ...portMessage,
+          },
+          [port]
+        )
+      }
+    } else if (recipient.processType === ProcessType.MAIN) {
+      this.handleNewPort(port, peer)
+    }
+  }
+
+  /**
+   * Find all DirectIpcTarget entries matching an identifier pattern
+   */
+  private findByIdentifier(pattern: string | RegExp): DirectIpcTarget[] {
+    const matches: DirectIpcTarget[] = []
+    const regex = typeof pattern === 'string' ? new RegExp(pattern) : pattern
+
+    for (const target of this.registry.values()) {
+      if (target.identifier && regex.test(target.identifier)) {
+        matches.push(target)
+      }
+    }
+
+    return matches
+  }
+
+  /**
+   * Find all DirectIpcTarget entries matching a URL pattern
+   */
+  private findByUrl(pattern: string | RegExp): DirectIpcTarget[] {
+    const matches: DirectIpcTarget[] = []
+    const regex = typeof pattern === 'string' ? new RegExp(pattern) : pattern
+
+    for (const target of this.registry.values()) {
+      if (target.url && regex.test(target.url)) {
+        matches.push(target)
+      }
+    }
+
+    return matches
+  }
+
+  /**
+   * Generate a normalized key for a renderer pair
+   * Uses min/max to ensure same key regardless of direction
+   */
+  private getChannelPairKey(id1: number, id2: number): string {
+    const min = Math.min(id1, id2)
+    const max = Math.max(id1, id2)
+    return `${min}-${max}`
+  }
+
+  /**
+   * Clear all channel pairs involving a specific webContents
+   * This is necessary when a renderer reloads or is destroyed
+   */
+  private clearChannelPairsForProcess(processId: number): void {
+    const keysToDelete: string[] = []
+    for (const pairKey of this.channelPairs.keys()) {
+      const [id1Str, id2Str] = pairKey.split('-')
+      const id1 = typeof id1Str === 'string' ? parseInt(id1Str, 10) : NaN
+      const id2 = typeof id2Str === 'string' ? parseInt(id2Str, 10) : NaN
+      if (id1 === processId || id2 === processId) {
+        keysToDelete.push(pairKey)
+        // The main process's own end of this channel is now stale
+        if (
+          (id1 === this.mainProcessId || id2 === this.mainProcessId) &&
+          processId !== this.mainProcessId
+        ) {
+          this.closeMainPort(processId)
+        }
+      }
+    }
+    for (const key of keysToDelete) {
+      this.channelPairs.delete(key)
+    }
+  }
+
+  /**
+   * Handle webContents destruction
+   */
+  private handleWebContentsDestroyed(webContentsId: number): void {
+    // Get process ID from webContentsId
+    const processId = this.webContentsIdMap.get(webContentsId)
+    if (!processId) return
+
+    const target = this.registry.get(processId)
+    if (!target) return
+
+    const identifier = target.identifier ? `"${target.identifier}"` : `#${webContentsId}`
+    this.d.log.silly?.(`DirectIpcMain::handleWebContentsDestroyed - ${identifier}`)
+
+    // Remove from registry
+    this.registry.delete(processId)
+
+    // Remove webContentsId mapping
+    this.webContentsIdMap.delete(webContentsId)
+
+    // Remove identifier mapping
+    if (target.identifier) {
+      this.identifierMap.delete(target.identifier)
+    }
+
+    // Remove all channelPairs entries involving this process
+    this.clearChannelPairsForProcess(processId)
+
+    // Broadcast update
+    this.broadcastMapUpdate()
+
+    this.pendingShutdowns.get(processId)?.(false)
+  }
+
+  /**
+   * Broadcast map update to all registered renderers and utility processes
+   */
+  private broadcastMapUpdate(): void {
+    const map = this.getMapArray()
+
+    // Keep the main process's own view of the map in sync (emits target-added/removed)
+    this.handleMapUpdate(map)
+
+    const delay = this.chaos?.options.mapUpdateDelay
+    if (delay) {
+      setTimeout(() => this.sendMapUpdate(map), delay)
+    } else {
+      this.sendMapUpdate(map)
+    }
+  }
+
+  /**
+   * Send a map to every registered renderer and utility process
+   */
+  private sendMapUpdate(map: DirectIpcTarget[]): void {
+    const message: DirectIpcMapUpdateMessage = { map }
+
+    // Send to all renderers
+    for (const target of this.registry.values()) {
+      if (target.processType === ProcessType.RENDERER && target.webContentsId) {
+        try {
+          const wc = this.d.webContents?.fromId(target.webContentsId)
+          if (wc && !wc.isDestroyed()) {
+            wc.send(DIRECT_IPC_CHANNELS.MAP_UPDATE, message)
+          }
+        } catch (error) {
+          const identifier = target.identifier
+            ? `"${target.identifier}"`
+            : `#${target.webContentsId}`
+          this.d.log.warn?.(
+            `DirectIpcMain::broadcastMapUpdate - Failed to send to renderer ${identifier}:`,
+            error
+          )
+        }
+      }
+    }
+
+    // Send to all utility processes
+    for (const [processId, utilityProcess] of this.utilityProcessMap.entries()) {
+      const target = this.registry.get(processId)
+      const identifier = target?.identifier || `process-${processId}`
+      try {
+        this.d.log.debug?.(
+          `DirectIpcMain::broadcastMapUpdate - Sending map to utility "${identifier}" with ${map.length} processes`
+        )
+        utilityProcess.postMessage({
+          channel: DIRECT_IPC_CHANNELS.MAP_UPDATE,
+          map,
+        })
+      } catch (error) {
+        this.d.log.warn?.(
+          `DirectIpcMain::broadcastMapUpdate - Failed to send to utility process "${identifier}":`,
+          error
+        )
+      }
+    }
+  }
+
+  /**
+   * Get the current map as an array (includes both renderers and utility processes)
+   */
+  private getMapArray(): DirectIpcTarget[] {
+    return Array.from(this.registry.values())
+  }
+
+  /**
+   * Get the current registry (for testing/debugging)
+   */
+  public getRegistry(): Map<number, DirectIpcTarget> {
+    return new Map(this.registry)
+  }
+
+  /**
+   * Get the identifier map (for testing/debugging)
+   */
+  public getIdentifierMap(): Map<string, number> {
+    return new Map(this.identifierMap)
+  }
+
+  /**
+   * Register a utility process with DirectIpcMain
+   * @param identifier - Unique identifier for the utility process
+   * @param proc - Electron UtilityProcess, or a Node worker or child process adapted with
+   *   fromWorker() or fromChildProcess() from electron-direct-ipc/node
+   * @param options.pool - Pool the utility process joins (see spawnPool)
+   * @throws {IdentifierConflictError} If identifier already in use
+   * @throws {Error} If process is null or already exited
+   */
+  public registerUtilityProcess(
+    identifier: string,
+    proc: DirectIpcChildTransport,
+    options: { pool?: string } = {}
+  ): void {
+    if (!identifier) {
+      throw new Error('DirectIpc: Utility process identifier is required')
+    }
+
+    if (!proc) {
+      throw new Error('DirectIpc: Utility process instance is required')
+    }
+
+    // Check for identifier conflict
+    const existingProcessId = this.identifierMap.get(identifier)
+    if (existingProcessId !== undefined) {
+      const existingProcess = this.registry.get(existingProcessId)
+      throw new IdentifierConflictError(
+        identifier,
+        existingProcess?.processType || ProcessType.RENDERER
+      )
+    }
+
+    this.d.log.silly?.(
+      `DirectIpcMain::registerUtilityProcess - Registering utility process "${identifier}"`
+    )
+
+    // Assign new process ID
+    const processId = this.nextProcessId++
+
+    // Create target info for the utility process
+    const targetInfo: DirectIpcTarget = {
+      id: processId,
+      identifier,
+      processType: ProcessType.UTILITY,
+      ...(proc.pid ? { pid: proc.pid } : {}),
+      ...(options.pool ? { pool: options.pool } : {}),
+    }
+
+    // Store in registry
+    this.registry.set(processId, targetInfo)
+
+    // Store utility process reference
+    this.utilityProcessMap.set(processId, proc)
+
+    // Store identifier mapping
+    this.identifierMap.set(identifier, processId)
+
+    // Set up message listener for GET_PORT requests
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Utility process messages are untyped, validated at runtime
+    proc.on('message', (data: any) => {
+      this.handleUtilityProcessMessage(processId, data)
+    })
+
+    // Set up lifecycle listener
+    proc.on('exit', (code) => {
+      this.handleUtilityProcessExit(processId, code)
+    })
+
+    // A utility process joining during a recording is recorded too
+    if (this.recorder) {
+      this.sendToProcess(targetInfo, DIRECT_IPC_CHANNELS.TAP, { tap: this.recordingTap })
+    }
+
+    // Broadcast map update to all renderers and utility processes
+    this.broadcastMapUpdate()
+  }
+
+  /**
+   * Unregister a utility process (cleanup before manual termination)
+   * @param identifier - Identifier of utility process to unregister
+   * @returns {boolean} True if process was unregistered, false if not found
+   */
+  public unregisterUtilityProcess(identifier: string): boolean {
+    const supervised = this.stopSupervising(identifier)
+    const processId = this.identifierMap.get(identifier)
+    if (!processId) {
+      return supervised
+    }
+
+    const target = this.registry.get(processId)
+    if (!target || target.processType !== ProcessType.UTILITY) {
+      return false
+    }
+
+    this.d.log.silly?.(
+      `DirectIpcMain::unregisterUtilityProcess - Unregister utility process "${identifier}"`
+    )
+
+    // Remove from all maps
+    this.registry.delete(processId)
+    this.utilityProcessMap.delete(processId)
+    this.utilityHeartbeats.delete(processId)
+    this.identifierMap.delete(identifier)
+    this.clearChannelPairsForProcess(processId)
+
+    // Broadcast map update
+    this.broadcastMapUpdate()
+
+    return true
+  }
+
+  /**
+   * Get all registered utility process identifiers
+   * @returns Array of utility process identifiers
+   */
+  public getUtilityProcesses(): string[] {
+    const identifiers: string[] = []
+    for (const target of this.registry.values()) {
+      if (target.processType === ProcessType.UTILITY && target.identifier) {
+        identifiers.push(target.identifier)
+      }
+    }
+    return identifiers
+  }
+
+  /**
+   * Get the identifiers of the utility processes in a pool
+   * @returns Array of member identifiers
+   */
+  public getPoolMembers(pool: string): string[] {
+    const identifiers: string[] = []
+    for (const target of this.registry.values()) {
+      if (target.pool === pool && target.identifier) {
+        identifiers.push(target.identifier)
+      }
+    }
+    return identifiers
+  }
+
+  /**
+   * Handle utility process exit
+   */
+  private handleUtilityProcessExit(processId: number, code: number): void {
+    const target = this.registry.get(processId)
+    if (!target) return
+
+    this.d.log.silly?.(
+      `DirectIpcMain::handleUtilityProcessExit - Utility process "${target.identifier}" exited with code ${code}`
+    )
+
+    // Remove from all maps
+    this.registry.delete(processId)
+    this.utilityProcessMap.delete(processId)
+    this.utilityHeartbeats.delete(processId)
+    if (target.identifier) {
+      this.identifierMap.delete(target.identifier)
+    }
+    this.clearChannelPairsForProcess(processId)
+
+    // Broadcast update
+    this.broadcastMapUpdate()
+
+    this.pendingShutdowns.get(processId)?.(false)
+    this.superviseExit(target, processId, code)
+  }
+
+  // ===== SUPERVISED UTILITY PROCESSES =====
+
+  /**
+   * Kill a utility process and handle its exit as a crash with `code`, for resilience tests
+   * Other processes see it leave the map and spawned processes are restarted per their
+   * restart policy, as after a real crash.
+   * @returns False if no utility process is registered under the identifier
+   */
+  public crashUtility(identifier: string, code = 1): boolean {
+    const processId = this.identifierMap.get(identifier)
+    const proc = processId !== undefined ? this.utilityProcessMap.get(processId) : undefined
+    if (processId === undefined || !proc) return false
+
+    this.d.log.warn?.(
+      `DirectIpcMain::crashUtility - Crashing utility process "${identifier}" with code ${code}`
+    )
+    proc.kill()
+    // The real exit that follows is ignored: the process is no longer registered
+    this.handleUtilityProcessExit(processId, code)
+    return true
+  }
+
+  /**
+   * Fork a utility process, register it and restart it under the same identifier when it exits
+   * A restarted process gets a new process ID: other processes see the identifier leave and
+   * rejoin the map, and their invokes made with `retryOnReconnect` are re-issued on the new
+   * process. Must be called once the app is ready.
+   *
+   * @example
+   * directIpcMain.spawnUtility('compute-worker', path.join(__dirname, 'worker.js'), {
+   *   restart: 'on-failure',
+   *   maxRestarts: 3,
+   *   backoff: { initialDelay: 1000 },
+   * })
+   *
+   * @param identifier - Unique identifier for the utility process
+   * @param modulePath - Entry point of the utility process
+   * @returns The forked process (restarts fork new instances)
+   * @throws {IdentifierConflictError} If identifier already in use
+   */
+  public spawnUtility(
+    identifier: string,
+    modulePath: string,
+    options: SpawnUtilityOptions = {}
+  ): DirectIpcChildTransport {
+    if (this.supervisedUtilities.has(identifier)) {
+      throw new IdentifierConflictError(identifier, ProcessType.UTILITY)
+    }
+
+    const { proc, processId } = this.forkUtility(identifier, modulePath, options)
+    this.supervisedUtilities.set(identifier, {
+      modulePath,
+      options,
+      backoff: resolveBackoff(options.backoff),
+      proc,
+      processId,
+      startedAt: Date.now(),
+      restarts: 0,
+      waiting: [],
+    })
+    this.localEvents.emit('utility-started', this.registry.get(processId)!)
+    return proc
+  }
+
+  /**
+   * Spawn identical utility processes that other processes address as one pool
+   * Members are registered as `${pool}-1` to `${pool}-${size}` and are supervised like
+   * spawnUtility() processes. Address the pool with `{ pool }` in invoke(), send() and
+   * invokeAll() from any process.
+   *
+   * @example
+   * directIpcMain.spawnPool('compute-worker', path.join(__dirname, 'worker.js'), 4)
+   *
+   * // In a renderer
+   * const result = await directIpc.invoke({ pool: 'compute-worker' }, 'heavy-computation', nums)
+   *
+   * @returns The forked process of each member
+   * @throws {IdentifierConflictError} If a member identifier is already in use
+   */
+  public spawnPool(
+    pool: string,
+    modulePath: string,
+    size: number,
+    options: Omit<SpawnUtilityOptions, 'pool'> = {}
+  ): DirectIpcChildTransport[] {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error('DirectIpc: Pool size must be a positive integer')
+    }
+
+    return Array.from({ length: size }, (_, index) =>
+      this.spawnUtility(`${pool}-${index + 1}`, modulePath, { ...options, pool })
+    )
+  }
+
+  /**
+   * Stop a utility process spawned with spawnUtility() without restarting it
+   * @returns True if the identifier belonged to a spawned utility process
+   */
+  public stopUtility(identifier: string): boolean {
+    const supervised = this.supervisedUtilities.get(identifier)
+    if (!supervised) {
+      return false
+    }
+
+    this.unregisterUtilityProcess(identifier)
+    supervised.proc.kill()
+    return true
+  }
+
+  /**
+   * Fork and register a utility process
+   */
+  private forkUtility(
+    identifier: string,
+    modulePath: string,
+    options: SpawnUtilityOptions
+  ): { proc: DirectIpcChildTransport; processId: number } {
+    const { fork } = this.d.transport
+    if (!fork) {
+      throw new Error('DirectIpcMain::spawnUtility - The transport cannot fork processes')
+    }
+    const proc = fork(modulePath, options.args, options.forkOptions)
+    this.registerUtilityProcess(identifier, proc, options.pool ? { pool: options.pool } : {})
+    return { proc, processId: this.identifierMap.get(identifier)! }
+  }
+
+  /**
+   * Restart a spawned utility process that exited, or let it go
+   */
+  private superviseExit(target: DirectIpcTarget, processId: number, code: number): void {
+    const identifier = target.identifier
+    const supervised = identifier ? this.supervisedUtilities.get(identifier) : undefined
+    if (!identifier || !supervised || supervised.processId !== processId) return
+
+    if (code !== 0) {
+      this.localEvents.emit('utility-crashed', target, code)
+    }
+    if (!shouldRestart(supervised.options.restart ?? 'on-failure', code)) {
+      this.stopSupervising(identifier)
+      return
+    }
+
+    // A process that stayed up long enough starts a new series of restarts
+    if (Date.now() - supervised.startedAt >= supervised.backoff.resetAfter) {
+      supervised.restarts = 0
+    }
+    this.scheduleRestart(identifier, target, supervised)
+  }
+
+  /**
+   * Restart a spawned utility process after its backoff delay, or give up on it
+   */
+  private scheduleRestart(
+    identifier: string,
+    target: DirectIpcTarget,
+    supervised: SupervisedUtility
+  ): void {
+    const maxRestarts = supervised.options.maxRestarts ?? 5
+    if (supervised.restarts >= maxRestarts) {
+      this.d.log.error?.(
+        `DirectIpcMain::scheduleRestart - Giving up on "${identifier}" after ${supervised.restarts} restart(s)`
+      )
+      this.stopSupervising(identifier)
+      this.localEvents.emit('utility-gave-up', target, supervised.restarts)
+      return
+    }
+
+    const delay = restartDelay(supervised.backoff, supervised.restarts)
+    supervised.restarts++
+    this.d.log.warn?.(`DirectIpcMain::scheduleRestart - Restarting "${identifier}" in ${delay}ms`)
+    supervised.restartTimer = setTimeout(
+      () => this.restartUtility(identifier, target, supervised),
+      delay
+    )
+  }
+
+  /**
+   * Fork a spawned utility process again and release traffic waiting for it
+   */
+  private restartUtility(
+    identifier: string,
+    previous: DirectIpcTarget,
+    supervised: SupervisedUtility
+  ): void {
+    delete supervised.restartTimer
+
+    let forked: { proc: DirectIpcChildTransport; processId: number }
+    try {
+      forked = this.forkUtility(identifier, supervised.modulePath, supervised.options)
+    } catch (error) {
+      this.d.log.error?.(`DirectIpcMain::restartUtility - Failed to restart "${identifier}"`, error)
+      this.scheduleRestart(identifier, previous, supervised)
+      return
+    }
+
+    supervised.proc = forked.proc
+    supervised.processId = forked.processId
+    supervised.startedAt = Date.now()
+
+    const target = this.registry.get(forked.processId)!
+    this.localEvents.emit('utility-started', target)
+    this.localEvents.emit('utility-restarted', target, supervised.restarts)
+    this.releaseWaiting(supervised)
+  }
+
+  /**
+   * Forget a spawned utility process so it is not restarted again
+   * @returns True if the identifier belonged to a spawned utility process
+   */
+  private stopSupervising(identifier: string): boolean {
+    const supervised = this.supervisedUtilities.get(identifier)
+    if (!supervised) {
+      return false
+    }
+
+    this.supervisedUtilities.delete(identifier)
+    clearTimeout(supervised.restartTimer)
+    this.releaseWaiting(supervised, new UtilityProcessTerminatedError(identifier))
+    return true
+  }
+
+  /**
+   * Resume (or fail, with `error`) main process traffic waiting for a restart
+   */
+  private releaseWaiting(supervised: SupervisedUtility, error?: Error): void {
+    for (const waiting of supervised.waiting.splice(0)) {
+      if (error) {
+        waiting.reject(error)
+      } else {
+        waiting.resolve()
+      }
+    }
+  }
+
+  /**
+   * Wait until a restarting utility process is back, for main process traffic to it
+   * @returns undefined if the selector does not name a restarting utility process
+   * @throws {UtilityProcessTerminatedError} (rejects) with `mainWhileRestarting: 'fail'`, or when
+   * the utility process is given up on or stopped while traffic waits for it
+   */
+  private whenRestarted(selector: TargetSelector<TIdentifierStrings>): Promise<void> | undefined {
+    if (!('identifier' in selector) || typeof selector.identifier !== 'string') return undefined
+    const supervised = this.supervisedUtilities.get(selector.identifier)
+    if (!supervised?.restartTimer) return undefined
+
+    if (supervised.options.mainWhileRestarting === 'fail') {
+      return Promise.reject(new UtilityProcessTerminatedError(selector.identifier))
+    }
+    return new Promise((resolve, reject) => {
+      supervised.waiting.push({ resolve, reject })
+    })
+  }
+
+  /**
+   * Start, reconfigure or stop (with `false`) heartbeats
+   * Stopping them removes the health of utility processes from the map.
+   */
+  public setHeartbeat(options: HeartbeatOptions | false): void {
+    super.setHeartbeat(options)
+    if (options) return
+
+    this.utilityHeartbeats.clear()
+    let changed = false
+    for (const [processId, target] of this.registry) {
+      if (target.health === undefined) continue
+      const { health: _health, ...rest } = target
+      this.registry.set(processId, rest)
+      changed = true
+    }
+    if (changed) this.broadcastMapUpdate()
+  }
+
+  /**
+   * Ping every cached port and every registered utility process that supports heartbeats
+   * Utility processes are pinged over their parent port, so a hung utility process shows up
+   * as `unresponsive` in everyone's map even if nothing holds a port to it.
+   */
+  protected sendHeartbeats(): void {
+    super.sendHeartbeats()
+
+    const threshold = this.heartbeatOptions?.missThreshold
+    for (const [processId, proc] of this.utilityProcessMap) {
+      const info = this.registry.get(processId)
+      if (!info || !this.supports(info, 'heartbeat')) continue
+      let state = this.utilityHeartbeats.get(processId)
+      if (!state) {
+        state = { awaitingAck: false, missed: 0 }
+        this.utilityHeartbeats.set(processId, state)
+      }
+      if (state.awaitingAck && threshold !== undefined && ++state.missed >= threshold) {
+        this.setUtilityHealth(processId, 'unresponsive')
+      }
+      state.awaitingAck = true
+      try {
+        proc.postMessage({ channel: DIRECT_IPC_CHANNELS.UTILITY_HEARTBEAT })
+      } catch (error) {
+        this.d.log.debug?.('DirectIpcMain::sendHeartbeats - Failed to ping utility process', error)
+      }
+    }
+  }
+
+  /**
+   * Record that a utility process answered a heartbeat
+   */
+  private handleUtilityHeartbeat(processId: number): void {
+    const state = this.utilityHeartbeats.get(processId)
+    if (state) {
+      state.awaitingAck = false
+      state.missed = 0
+    }
+    this.setUtilityHealth(processId, 'alive')
+  }
+
+  /**
+   * Update the health of a utility process in the registry and broadcast the change
+   */
+  private setUtilityHealth(processId: number, health: TargetHealth): void {
+    const target = this.registry.get(processId)
+    if (!target || !this.heartbeatOptions || target.health === health) return
+
+    this.registry.set(processId, { ...target, health })
+    this.setTargetHealth(target, health)
+    this.broadcastMapUpdate()
+  }
+
+  // ===== SHUTDOWN =====
+
+  /**
+   * Drain every process, then terminate utility processes
+   * Each renderer and utility process stops accepting invokes (callers get a
+   * ShuttingDownError), lets running handlers settle for up to `timeout` ms, posts its pending
+   * throttled sends and reports back. The main process drains the same way. Utility processes
+   * are then unregistered and killed without being restarted; closing windows is left to the
+   * app.
+   *
+   * @example
+   * let drained = false
+   * app.on('before-quit', (event) => {
+   *   if (drained) return
+   *   event.preventDefault()
+   *   void directIpcMain.shutdown({ timeout: 3000 }).finally(() => {
+   *     drained = true
+   *     app.quit()
+   *   })
+   * })
+   */
+  public async shutdown(options: { timeout?: number } = {}): Promise<void> {
+    const timeout = options.timeout ?? DEFAULT_SHUTDOWN_TIMEOUT
+
+    // Utility processes that crash from here on stay down
+    for (const identifier of [...this.supervisedUtilities.keys()]) {
+      this.stopSupervising(identifier)
+    }
+
+    const others = [...this.registry.values()].filter((t) => t.id !== this.mainProcessId)
+    await Promise.all([
+      this.drain({ timeout }),
+      ...others.map((target) => this.requestShutdown(target, timeout)),
+    ])
+
+    for (const target of others) {
+      if (target.processType === ProcessType.UTILITY && target.identifier) {
+        this.terminateUtility(target.identifier)
+      }
+    }
+  }
+
+  /**
+   * Drain one utility process, then unregister and kill it
+   * @returns False if no utility process is registered under the identifier
+   */
+  public async shutdownUtility(
+    identifier: string,
+    options: { timeout?: number } = {}
+  ): Promise<boolean> {
+    const processId = this.identifierMap.get(identifier)
+    const target = processId !== undefined ? this.registry.get(processId) : undefined
+    if (!target || target.processType !== ProcessType.UTILITY) {
+      return false
+    }
+
+    this.stopSupervising(identifier)
+    await this.requestShutdown(target, options.timeout ?? DEFAULT_SHUTDOWN_TIMEOUT)
+    this.terminateUtility(identifier)
+    return true
+  }
+
+  /**
+   * Ask a process to drain and wait until it reports back, goes away or runs out of time
+   * @returns True if the process reported that it drained
+   */
+  private requestShutdown(target: DirectIpcTarget, timeout: number): Promise<boolean> {
+    const targetStr = target.identifier ? `"${target.identifier}"` : `#${target.id}`
+    const message: DirectIpcShutdownMessage = { timeout }
+
+    return new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        this.d.log.warn?.(
+          `DirectIpcMain::requestShutdown - ${targetStr} did not finish draining in time`
+        )
+        finish(false)
+      }, timeout + SHUTDOWN_REPORT_GRACE)
+      const finish = (reported: boolean) => {
+        clearTimeout(timer)
+        this.pendingShutdowns.delete(target.id)
+        resolve(reported)
+      }
+      this.pendingShutdowns.set(target.id, finish)
+
+      try {
+        if (target.processType === ProcessType.UTILITY) {
+          const proc = this.utilityProcessMap.get(target.id)
+          if (!proc) return finish(false)
+          proc.postMessage({ channel: DIRECT_IPC_CHANNELS.SHUTDOWN, ...message })
+        } else {
+          const wc =
+            target.webContentsId !== undefined
+              ? this.d.webContents?.fromId(target.webContentsId)
+              : undefined
+          if (!wc || wc.isDestroyed()) return finish(false)
+          wc.send(DIRECT_IPC_CHANNELS.SHUTDOWN, message)
+        }
+      } catch (error) {
+        this.d.log.warn?.(
+          `DirectIpcMain::requestShutdown - Failed to ask ${targetStr} to drain:`,
+          error
+        )
+        finish(false)
+      }
+    })
+  }
+
+  /**
+   * Unregister and kill a utility process
+   */
+  private terminateUtility(identifier: string): void {
+    const processId = this.identifierMap.get(identifier)
+    const proc = processId !== undefined ? this.utilityProcessMap.get(processId) : undefined
+    this.unregisterUtilityProcess(identifier)
+    proc?.kill()
+  }
+
+  // ===== TAP AND INSPECTOR =====
+
+  /**
+   * Record the main process's own tap events
+   */
+  protected reportTap(events: DirectIpcTapEvent[]): void {
+    this.recordTap(this.getMainTarget(), events)
+  }
+
+  /**
+   * Keep tap events reported by a process and pass them to onTap() listeners
+   * Events involving the inspector window are dropped, so it never shows its own traffic.
+   */
+  private recordTap(source: DirectIpcTarget, events: DirectIpcTapEvent[]): void {
+    const inspectorId = this.inspector?.webContents.id
+    const records = events
+      .filter(
+        ({ peer }) =>
+          inspectorId === undefined ||
+          (source.webContentsId !== inspectorId && peer.webContentsId !== inspectorId)
+      )
+      .map((event): DirectIpcTapRecord => ({ ...event, process: source }))
+    if (records.length === 0) return
+
+    this.tapLog.push(...records)
+    if (this.tapLog.length > this.tapLimit) {
+      this.tapLog.splice(0, this.tapLog.length - this.tapLimit)
+    }
+    for (const listener of [...this.tapListeners]) {
+      listener(records)
+    }
+  }
+
+  /**
+   * Get the most recent tap records from every tapping process, oldest first
+   * Processes report with `tap: true` or setTap(true); main keeps the last `tapLimit` records.
+   */
+  public getTapLog(): DirectIpcTapRecord[] {
+    return [...this.tapLog]
+  }
+
+  /**
+   * Listen for tap records as processes report them
+   * @returns A function that removes the listener
+   *
+   * @example
+   * directIpcMain.onTap((records) => {
+   *   for (const r of records) console.log(r.process.identifier, r.direction, r.channel)
+   * })
+   */
+  public onTap(listener: (records: DirectIpcTapRecord[]) => void): () => void {
+    this.tapListeners.add(listener)
+    return () => {
+      this.tapListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Get the pairs of processes main created a channel for, by process ID
+   */
+  public getConnections(): [number, number][] {
+    return [...this.channelPairs.keys()].map((pairKey) => {
+      const [id1, id2] = pairKey.split('-').map((id) => parseInt(id, 10))
+      return [id1!, id2!]
+    })
+  }
+
+  /**
+   * Open a window showing the live process map, the connections between processes and a
+   * filterable timeline of tap records
+   * Only processes with `tap: true` (or setTap(true)) show up in the timeline. The window is
+   * a plain page fed by main, not a DirectIpc participant, so it never shows its own traffic.
+   * Calling it again while the window is open focuses it.
+   *
+   * @example
+   * if (!app.isPackaged) directIpcMain.openInspector()
+   */
+  public openInspector(options: InspectorOptions = {}): Electron.BrowserWindow {
+    if (this.inspector && !this.inspector.isDestroyed()) {
+      this.inspector.focus()
+      return this.inspector
+    }
+
+    if (!this.d.BrowserWindow) {
+      throw new Error('DirectIpcMain::openInspector - The inspector needs Electron')
+    }
+    const win = new this.d.BrowserWindow({
+      width: options.width ?? 1200,
+      height: options.height ?? 800,
+      title: 'DirectIpc Inspector',
+      webPreferences: { contextIsolation: true, sandbox: true, nodeIntegration: false },
+    })
+    this.inspector = win
+
+    let ready = false
+    let pending: DirectIpcTapRecord[] = []
+    let timer: NodeJS.Timeout | undefined
+
+    const push = (reset: boolean) => {
+      clearTimeout(timer)
+      timer = undefined
+      if (!ready || win.isDestroyed()) return
+      const update: InspectorUpdate = {
+        map: this.getMapArray(),
+        connections: this.getConnections(),
+        records: reset ? this.getTapLog() : pending,
+        ...(reset ? { reset } : {}),
+      }
+      pending = []
+      win.webContents
+        .executeJavaScript(`window.directIpcInspector.update(${JSON.stringify(update)})`)
+        .catch((error: unknown) => {
+          this.d.log.warn?.('DirectIpcMain::openInspector - Failed to update inspector', error)
+        })
+    }
+    const schedule = () => {
+      timer ??= setTimeout(() => push(false), INSPECTOR_UPDATE_INTERVAL)
+    }
+
+    const removeTapListener = this.onTap((records) => {
+      pending.push(...records)
+      schedule()
+    })
+    this.localEvents.on('map-updated', schedule)
+
+    win.webContents.on('did-finish-load', () => {
+      ready = true
+      push(true)
+    })
+    win.on('closed', () => {
+      clearTimeout(timer)
+      removeTapListener()
+      this.localEvents.off('map-updated', schedule)
+      if (this.inspector === win) this.inspector = undefined
+    })
+
+    void win.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(createInspectorHtml())}`)
+    return win
+  }
+
+  // ===== RECORD AND REPLAY =====
+
+  /**
+   * Record the traffic of every process to a JSONL file
+   * Every registered process, and any that registers later, is asked to tap its traffic with
+   * payloads until the recording stops; the file gets map updates and what the processes
+   * report (see DirectIpcTapEvent). Payloads matching `redact` rules are replaced before they
+   * are written, so recordings can be shared.
+   *
+   * @throws Error if a recording is already in progress
+   *
+   * @example
+   * const recorder = directIpcMain.startRecording('session.jsonl', {
+   *   redact: [{ channel: 'login', paths: ['args.0.password'] }, { channel: /^secrets:/ }],
+   * })
+   * // ... reproduce the bug
+   * await recorder.stop()
+   */
+  public startRecording(path: string, options: RecordingOptions = {}): DirectIpcRecorder {
+    if (this.recorder) {
+      throw new Error('DirectIpcMain::startRecording - A recording is already in progress')
+    }
+
+    const onMapUpdated = (map: DirectIpcTarget[]) => {
+      recorder.write({ kind: 'map-update', time: Date.now(), map })
+    }
+    const removeTapListener = this.onTap((records) => {
+      for (const record of records) recorder.write(record)
+    })
+    const recorder = new DirectIpcRecorder(
+      path,
+      {
+        kind: 'recording',
+        version: DIRECT_IPC_RECORDING_VERSION,
+        time: Date.now(),
+        process: this.getMainTarget(),
+      },
+      options.redact ?? [],
+      this.d.log,
+      () => {
+        removeTapListener()
+        this.localEvents.off('map-updated', onMapUpdated)
+        this.recorder = undefined
+        this.requestTap(false)
+      }
+    )
+    this.recorder = recorder
+
+    onMapUpdated(this.getMapArray())
+    this.localEvents.on('map-updated', onMapUpdated)
+    this.requestTap({ payloads: options.payloads ?? true })
+    return recorder
+  }
+
+  /**
+   * Replay a recording against the running app
+   * Each registered process replays the part of the recording made by the process with the
+   * same identifier (see replay()): it receives the recorded messages again and its invokes
+   * are answered from the recorded responses. Processes without an identifier are skipped,
+   * since nothing ties them to a recorded process.
+   *
+   * @returns A function that stops the replay in every process
+   */
+  public replayRecording(
+    recording: DirectIpcRecordingEntry[],
+    options: Omit<ReplayOptions, 'process'> = {}
+  ): () => void {
+    let own: DirectIpcReplay | undefined
+    const replaying: DirectIpcTarget[] = []
+
+    for (const target of this.registry.values()) {
+      if (target.identifier === undefined) continue
+      const entries = recording.filter(
+        (entry) => entry.kind !== 'map-update' && entry.process.identifier === target.identifier
+      )
+      if (entries.length === 0) continue
+      if (target.id === this.mainProcessId) {
+        own = this.replay(entries, { ...options, process: {} })
+        continue
+      }
+      const message: DirectIpcReplayMessage = { entries, options: { ...options, process: {} } }
+      this.sendToProcess(target, DIRECT_IPC_CHANNELS.REPLAY, message)
+      replaying.push(target)
+    }
+
+    return () => {
+      own?.stop()
+      for (const target of replaying) {
+        this.sendToProcess(target, DIRECT_IPC_CHANNELS.REPLAY, { stop: true })
+      }
+    }
+  }
+
+  /**
+   * Ask every process, main included, to tap or stop tapping for a recording
+   */
+  private requestTap(request: TapOptions | false): void {
+    this.recordingTap = request
+    this.handleTapRequest(request)
+    const message: DirectIpcTapRequest = { tap: request }
+    for (const target of this.registry.values()) {
+      if (target.id !== this.mainProcessId) {
+        this.sendToProcess(target, DIRECT_IPC_CHANNELS.TAP, message)
+      }
+    }
+  }
+
+  /**
+   * Send a control message to a renderer or utility process
+   */
+  private sendToProcess(target: DirectIpcTarget, channel: string, message: object): void {
+    try {
+      if (target.processType === ProcessType.UTILITY) {
+        this.utilityProcessMap.get(target.id)?.postMessage({ channel, ...message })
+      } else if (target.webContentsId !== undefined) {
+        const wc = this.d.webContents?.fromId(target.webContentsId)
+        if (wc && !wc.isDestroyed()) wc.send(channel, message)
+      }
+    } catch (error) {
+      const targetStr = target.identifier ? `"${target.identifier}"` : `#${target.id}`
+      this.d.log.warn?.(`DirectIpcMain::sendToProcess - Failed to send to ${targetStr}:`, error)
+    }
+  }
+
+  // ===== MAIN PROCESS AS A DIRECTIPC PARTICIPANT =====
+
+  /**
+   * Get the main process's own registry entry
+   */
+  public getMainTarget(): DirectIpcTarget {
+    return { ...this.registry.get(this.mainProcessId)! }
+  }
+
+  /**
+   * Get unique key for caching a port (uses process ID)
+   */
+  protected getPortCacheKey(target: DirectIpcTarget): number {
+    return target.id
+  }
+
+  /**
+   * Send message via a MessagePortMain
+   */
+  protected postMessageToPort(
+    port: DirectIpcTransportPort,
+    message: unknown,
+    transfer: DirectIpcTransferable[] = []
+  ): void {
+    // MessagePortMain can only transfer ports; other transferables are copied
+    const ports = transfer.filter(isPortLike) as DirectIpcTransportPort[]
+    if (ports.length > 0) {
+      port.postMessage(message, ports)
+    } else {
+      port.postMessage(message)
+    }
+  }
+
+  /**
+   * Set up message listener on a MessagePortMain
+   */
+  protected setupPortListener(
+    port: DirectIpcTransportPort,
+    handler: (data: unknown, ports: readonly unknown[]) => void
+  ): void {
+    port.on('message', (event) => handler(event.data, event.ports))
+  }
+
+  /**
+   * Clean up the main process's port to a removed target
+   */
+  protected cleanupPort(target: DirectIpcTarget): void {
+    this.closeMainPort(target.id)
+  }
+
+  /**
+   * Close and forget the main process's port to a specific process
+   */
+  private closeMainPort(processId: number): void {
+    const cached = this.portCache.get(processId)
+    if (cached) {
+      cached.port.close()
+      this.portCache.delete(processId)
+      this.portLost(cached.info, cached.port)
+    }
+  }
+
+  /**
+   * Close all ports owned by the main process
+   */
+  public closeAllPorts(): void {
+    for (const [processId, cached] of this.portCache) {
+      cached.port.close()
+      this.channelPairs.delete(this.getChannelPairKey(this.mainProcessId, processId))
+    }
+    this.portCache.clear()
+    this.connectedPorts.clear()
+  }
+
+  /**
+   * Find targets matching a selector (never includes the main process itself)
+   */
+  protected findTargets(selector: TargetSelector<TIdentifierStrings>): DirectIpcTarget[] {
+    const others = this.map.filter((t) => t.id !== this.mainProcessId)
+
+    if ('allIdentifiers' in selector) {
+      const pattern = selector.allIdentifiers
+      const regex = typeof pattern === 'string' ? new RegExp(pattern) : pattern
+      return others.filter((t) => t.identifier && regex.test(t.identifier))
+    }
+
+    if ('allUrls' in selector) {
+      const pattern = selector.allUrls
+      const regex = typeof pattern === 'string' ? new RegExp(pattern) : pattern
+      return others.filter((t) => t.url && regex.test(t.url))
+    }
+
+    if ('webContentsId' in selector) {
+      return others.filter((t) => t.webContentsId === selector.webContentsId)
+    }
+
+    if ('identifier' in selector) {
+      const pattern = selector.identifier
+      if (typeof pattern === 'string') {
+        return others.filter((t) => t.identifier === pattern)
+      }
+      const matches = others.filter((t) => t.identifier && pattern.test(t.identifier))
+      if (matches.length > 1) {
+        throw new Error('DirectIpcMain::Multiple matches found for identifier regex')
+      }
+      return matches
+    }
+
+    if ('url' in selector) {
+      const pattern = selector.url
+      if (typeof pattern === 'string') {
+        return others.filter((t) => t.url === pattern)
+      }
+      const matches = others.filter((t) => t.url && pattern.test(t.url))
+      if (matches.length > 1) {
+        throw new Error('DirectIpcMain::Multiple matches found for URL regex')
+      }
+      return matches
+    }
+
+    return []
+  }
+
+  /**
+   * Get or create a port from the main process to a target
+   * Ports are created synchronously since the main process owns the registry
+   */
+  protected async getPort(target: {
+    webContentsId?: number
+    identifier?: TIdentifierStrings | RegExp
+    url?: string | RegExp
+  }): Promise<DirectIpcTransportPort> {
+    const targetProcessId = this.findProcess(target)
+    const targetInfo =
+      targetProcessId !== undefined ? this.registry.get(targetProcessId) : undefined
+    if (!targetInfo) {
+      throw new Error('DirectIpcMain::getPort - No target found')
+    }
+    return this.getPortForTarget(targetInfo)
+  }
+
+  /**
+   * Get or create a port from the main process to a resolved target
+   */
+  private getPortForTarget(targetInfo: DirectIpcTarget): DirectIpcTransportPort {
+    if (targetInfo.id === this.mainProcessId) {
+      throw new Error('DirectIpcMain::getPort - Cannot open a port to the main process itself')
+    }
+
+    const cached = this.portCache.get(targetInfo.id)
+    if (cached) {
+      return cached.port
+    }
+
+    const mainInfo = this.registry.get(this.mainProcessId)!
+    this.d.log.silly?.(
+      `DirectIpcMain::getPort - Creating channel between main and ${targetInfo.identifier ? `"${targetInfo.identifier}"` : `#${targetInfo.id}`}`
+    )
+    this.createChannel(mainInfo, targetInfo)
+
+    const created = this.portCache.get(targetInfo.id)
+    if (!created) {
+      throw new Error('DirectIpc: Failed to get port for target')
+    }
+    return created.port
+  }
+
+  /**
+   * Handle a port delivered to the main process (main is one end of the channel)
+   */
+  private handleNewPort(port: DirectIpcTransportPort, peer: DirectIpcTarget): void {
+    this.setupPortListener(port, (data, ports) => this.handlePortData(port, data, peer, ports))
+
+    port.on('close', () => {
+      this.d.log.silly?.(
+        `DirectIpcMain::port.close - port closed for ${peer.identifier || `process-${peer.id}`}`
+      )
+      if (this.portCache.get(peer.id)?.port === port) {
+        this.portCache.delete(peer.id)
+        this.channelPairs.delete(this.getChannelPairKey(this.mainProcessId, peer.id))
+        this.portLost(peer, port)
+      }
+    })
+
+    port.start()
+
+    this.portCache.set(peer.id, { port, info: peer })
+    this.portEstablished(peer, port)
+    this.localEvents.emit('message-port-added', peer)
+  }
+
+  /**
+   * Send a message from the main process to target process(es)
+   *
+   * @example
+   * directIpcMain.send({ identifier: 'output' }, 'theme-changed', 'dark')
+   * directIpcMain.send({ allIdentifiers: /^editor/ }, 'save-all')
+   * directIpcMain.send({ pool: 'compute-worker', broadcast: true }, 'clear-cache')
+   */
+  async send<T extends keyof TMessageMap>(
+    target: TargetSelector<TIdentifierStrings> | PoolSelector,
+    message: T,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- 'any' used in conditional type for parameter extraction
+    ...args: TMessageMap[T] extends (...args: infer P) => any ? P : never
+  ): Promise<void> {
+    return this.runOutgoing('message', target, String(message), args, (middlewareArgs) =>
+      this.dispatchSend(target, message, middlewareArgs)
+    )
+  }
+
+  /**
+   * Send a message once it has passed through the middleware
+   */
+  private async dispatchSend(
+    target: TargetSelector<TIdentifierStrings> | PoolSelector,
+    message: keyof TMessageMap,
+    args: unknown[]
+  ): Promise<void> {
+    if ('pool' in target) {
+      return this.sendToPool(target, String(message), args)
+    }
+
+    let targets = this.findTargets(target)
+    const restarted = targets.length === 0 ? this.whenRestarted(target) : undefined
+    if (restarted) {
+      await restarted
+      targets = this.findTargets(target)
+    }
+    if (targets.length === 0) {
+      this.d.log.warn?.(`DirectIpcMain::send - No targets found for message "${String(message)}"`)
+      this.retainMessage(target, String(message), args)
+      return
+    }
+
+    this.assertTransferTargets(targets.length, args)
+    for (const t of targets) {
+      const port = this.getPortForTarget(t)
+      this.postArgs(port, { message, args })
+    }
+    this.retainMessage(target, String(message), args)
+  }
+
+  /**
+   * Invoke a handler on a renderer or utility process from the main process
+   * Note: Only single-target selectors are supported (use invokeAll() for allIdentifiers/allUrls)
+   *
+   * @example
+   * const result = await directIpcMain.invoke({ identifier: 'compute-worker' }, 'heavy-computation', nums)
+   */
+  async invoke<T extends keyof TInvokeMap>(
+    target: Omit<TargetSelector<TIdentifierStrings>, 'allIdentifiers' | 'allUrls'> | PoolSelector,
+    channel: T,
+    ...args: [
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      ...params: TInvokeMap[T] extends (...args: infer P) => any ? P : never,
+      options?: InvokeOptionsArgument,
+    ]
+  ): Promise<
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    TInvokeMap[T] extends (...args: any[]) => infer R ? Awaited<R> : unknown
+  > {
+    const { options, invokeArgs } = this.extractInvokeOptions(args)
+    return this.runOutgoing(
+      'invoke',
+      target as TargetSelector<TIdentifierStrings> | PoolSelector,
+      String(channel),
+      invokeArgs,
+      (middlewareArgs) => this.dispatchInvoke(target, String(channel), options, middlewareArgs)
+    )
+  }
+
+  /**
+   * Invoke a handler once the call has passed through the middleware
+   */
+  private async dispatchInvoke<T>(
+    target: Omit<TargetSelector<TIdentifierStrings>, 'allIdentifiers' | 'allUrls'> | PoolSelector,
+    channel: string,
+    options: InvokeOptions | undefined,
+    args: unknown[]
+  ): Promise<T> {
+    if ('pool' in target) {
+      return this.invokePool(target, channel, options, args)
+    }
+
+    const selector = target as TargetSelector<TIdentifierStrings>
+    let targets = this.findTargets(selector)
+    const restarted = targets.length === 0 ? this.whenRestarted(selector) : undefined
+    if (restarted) {
+      await restarted
+      targets = this.findTargets(selector)
+    }
+    if (targets.length === 0) {
+      throw new Error('DirectIpcMain::invoke - No target found')
+    }
+
+    const port = this.getPortForTarget(targets[0]!)
+    return this.invokeOnPort(port, channel, options, ...args)
+  }
+
+  /**
+   * Get (or create) the main process's port to a known target
+   */
+  protected async getTargetPort(
+    target: DirectIpcTarget,
+    fresh = false
+  ): Promise<DirectIpcTransportPort> {
+    if (fresh) {
+      this.closeMainPort(target.id)
+    }
+    return this.getPortForTarget(target)
+  }
+
+  /**
+   * Invoke a handler on a known target from the registry
+   */
+  protected async invokeTarget<T>(
+    target: DirectIpcTarget,
+    channel: string,
+    options: InvokeOptions | undefined,
+    args: unknown[]
+  ): Promise<T> {
+    return this.invokeOnPort<T>(this.getPortForTarget(target), channel, options, ...args)
+  }
+
+  /**
+   * Invoke a handler on a specific port
+   */
+  private async invokeOnPort<T>(
+    port: DirectIpcTransportPort,
+    channel: string,
+    options?: InvokeOptions,
+    ...args: unknown[]
+  ): Promise<T> {
+    return this.postInvoke<T>(port, channel, options, args)
+  }
+}
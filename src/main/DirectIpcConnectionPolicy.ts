@@ -0,0 +1,46 @@
+/**
+ * Connection policy for DirectIpcMain
+ * Decides whether a process may open a MessagePort to another process.
+ */
+
+import { DirectIpcTarget } from '../common/DirectIpcCommunication.js'
+import { ProcessMatcher, matchesProcess } from '../common/DirectIpcPermissions.js'
+
+/**
+ * Policy hook called for every port request
+ * Return false to refuse the connection.
+ */
+export type ConnectionPolicy = (
+  from: DirectIpcTarget,
+  to: DirectIpcTarget
+) => boolean | Promise<boolean>
+
+/**
+ * Matches a process by identifier, URL origin and/or process type
+ */
+export type ConnectionMatcher = ProcessMatcher
+
+/**
+ * Declarative connection rule
+ * Rules are checked in order and the first rule whose `from` and `to` both match decides.
+ */
+export type ConnectionRule = {
+  from?: ConnectionMatcher
+  to?: ConnectionMatcher
+  allow: boolean
+}
+
+/**
+ * Evaluate connection rules for a port request
+ * @returns The `allow` value of the first matching rule, or undefined if none matched
+ */
+export function evaluateConnectionRules(
+  rules: readonly ConnectionRule[],
+  from: DirectIpcTarget,
+  to: DirectIpcTarget
+): boolean | undefined {
+  const rule = rules.find(
+    (candidate) => matchesProcess(candidate.from, from) && matchesProcess(candidate.to, to)
+  )
+  return rule?.allow
+}
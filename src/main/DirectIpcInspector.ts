@@ -0,0 +1,204 @@
+/**
+ * Inspector window for DirectIpcMain (see openInspector())
+ * A self-contained page showing the process map, the connections main brokered and a
+ * filterable timeline of tap records. Main pushes InspectorUpdates into it with
+ * executeJavaScript(), so the page needs no preload and never takes part in DirectIpc itself.
+ */
+
+import { DirectIpcTarget } from '../common/DirectIpcCommunication.js'
+import { DirectIpcTapRecord } from '../common/DirectIpcTap.js'
+
+/**
+ * Options for openInspector()
+ */
+export interface InspectorOptions {
+  /** Window width (default: 1200) */
+  width?: number
+  /** Window height (default: 800) */
+  height?: number
+}
+
+/**
+ * State pushed to the inspector page
+ */
+export interface InspectorUpdate {
+  /** Every registered process */
+  map: DirectIpcTarget[]
+  /** Process IDs of each pair of processes main created a channel for */
+  connections: [number, number][]
+  /** Tap records since the previous update */
+  records: DirectIpcTapRecord[]
+  /** Drop the records the page already shows before adding these (sent after a reload) */
+  reset?: boolean
+}
+
+/** Timeline rows the page keeps */
+const INSPECTOR_MAX_ROWS = 2000
+
+const styles = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 12px/1.4 system-ui, sans-serif; color: #1f2328; background: #fff;
+    display: grid; grid-template-columns: 320px 1fr; height: 100vh; }
+  aside { border-right: 1px solid #d0d7de; overflow: auto; padding: 8px; background: #f6f8fa; }
+  main { display: flex; flex-direction: column; min-width: 0; }
+  h2 { font-size: 11px; text-transform: uppercase; color: #59636e; margin: 12px 0 4px; }
+  table { border-collapse: collapse; width: 100%; }
+  td, th { padding: 2px 6px; text-align: left; white-space: nowrap; }
+  th { position: sticky; top: 0; background: #f6f8fa; border-bottom: 1px solid #d0d7de; }
+  tr:nth-child(even) td { background: #f6f8fa; }
+  .toolbar { display: flex; gap: 8px; align-items: center; padding: 8px;
+    border-bottom: 1px solid #d0d7de; }
+  .toolbar input[type=search] { flex: 1; }
+  .timeline { overflow: auto; flex: 1; font-family: ui-monospace, monospace; }
+  .muted { color: #59636e; }
+  .error { color: #cf222e; }
+  ul { list-style: none; margin: 0; padding: 0; }
+  li { padding: 2px 0; }
+`
+
+const script = `
+  const MAX_ROWS = ${INSPECTOR_MAX_ROWS}
+  const records = []
+  let map = []
+  let paused = false
+  const $ = (id) => document.getElementById(id)
+
+  const nameOf = (target) => {
+    if (!target) return '?'
+    if (target.identifier) return target.identifier
+    if (target.webContentsId !== undefined) return 'window #' + target.webContentsId
+    return '#' + target.id
+  }
+
+  const cell = (row, text, className) => {
+    const td = row.insertCell()
+    td.textContent = text === undefined ? '' : String(text)
+    if (className) td.className = className
+  }
+
+  const renderProcesses = () => {
+    const body = $('processes')
+    body.replaceChildren()
+    for (const target of map) {
+      const row = body.insertRow()
+      cell(row, target.id, 'muted')
+      cell(row, nameOf(target))
+      cell(row, target.processType)
+      cell(row, target.url || target.pid || '', 'muted')
+    }
+  }
+
+  const renderConnections = (connections) => {
+    const list = $('connections')
+    list.replaceChildren()
+    for (const [a, b] of connections) {
+      const item = document.createElement('li')
+      item.textContent =
+        nameOf(map.find((t) => t.id === a)) + ' \\u21c4 ' + nameOf(map.find((t) => t.id === b))
+      list.append(item)
+    }
+    if (connections.length === 0) list.innerHTML = '<li class="muted">None</li>'
+  }
+
+  const describe = (record) =>
+    [nameOf(record.process), nameOf(record.peer), record.kind, record.direction, record.channel,
+      record.error].join(' ').toLowerCase()
+
+  const matches = (record) => {
+    const kind = $('kind').value
+    if (kind && !record.kind.startsWith(kind)) return false
+    const text = $('filter').value.trim().toLowerCase()
+    return !text || describe(record).includes(text)
+  }
+
+  const renderTimeline = () => {
+    if (paused) return
+    const body = $('timeline')
+    body.replaceChildren()
+    const shown = records.filter(matches)
+    for (let i = shown.length - 1; i >= 0; i--) {
+      const record = shown[i]
+      const row = body.insertRow()
+      cell(row, new Date(record.time).toISOString().slice(11, 23), 'muted')
+      cell(row, nameOf(record.process))
+      cell(row, record.direction === 'sent' ? '\\u2192' : record.direction ? '\\u2190' : '\\u2022')
+      cell(row, nameOf(record.peer))
+      cell(row, record.kind)
+      cell(row, record.channel)
+      cell(row, record.duration === undefined ? '' : record.duration + ' ms')
+      cell(row, record.error, 'error')
+    }
+    $('count').textContent = shown.length + ' / ' + records.length
+  }
+
+  window.directIpcInspector = {
+    update(update) {
+      map = update.map
+      if (update.reset) records.length = 0
+      records.push(...update.records)
+      if (records.length > MAX_ROWS) records.splice(0, records.length - MAX_ROWS)
+      renderProcesses()
+      renderConnections(update.connections)
+      renderTimeline()
+    },
+  }
+
+  $('filter').addEventListener('input', renderTimeline)
+  $('kind').addEventListener('change', renderTimeline)
+  $('pause').addEventListener('change', (event) => {
+    paused = event.target.checked
+    renderTimeline()
+  })
+  $('clear').addEventListener('click', () => {
+    records.length = 0
+    renderTimeline()
+  })
+`
+
+/**
+ * Build the inspector page
+ */
+export function createInspectorHtml(): string {
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline'">
+<title>DirectIpc Inspector</title>
+<style>${styles}</style>
+</head>
+<body>
+<aside>
+  <h2>Processes</h2>
+  <table>
+    <thead><tr><th>ID</th><th>Name</th><th>Type</th><th>URL / PID</th></tr></thead>
+    <tbody id="processes"></tbody>
+  </table>
+  <h2>Connections</h2>
+  <ul id="connections"></ul>
+</aside>
+<main>
+  <div class="toolbar">
+    <input id="filter" type="search" placeholder="Filter by process, channel or error">
+    <select id="kind">
+      <option value="">Everything</option>
+      <option value="message">Messages</option>
+      <option value="invoke">Invokes</option>
+      <option value="port">Ports</option>
+    </select>
+    <label><input id="pause" type="checkbox"> Pause</label>
+    <button id="clear">Clear</button>
+    <span id="count" class="muted"></span>
+  </div>
+  <div class="timeline">
+    <table>
+      <thead><tr><th>Time</th><th>Process</th><th></th><th>Peer</th><th>Kind</th><th>Channel</th><th>Duration</th><th>Error</th></tr></thead>
+      <tbody id="timeline"></tbody>
+    </table>
+  </div>
+</main>
+<script>${script}</script>
+</body>
+</html>
+`
+}
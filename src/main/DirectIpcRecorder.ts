@@ -0,0 +1,70 @@
+/**
+ * Writes recordings of DirectIpc traffic to JSONL files (see startRecording())
+ */
+
+import { createWriteStream, WriteStream } from 'fs'
+import { readFile } from 'fs/promises'
+import { DirectIpcLogger } from '../common/DirectIpcLogger.js'
+import {
+  DirectIpcRecordingEntry,
+  DirectIpcRecordingHeader,
+  RedactionRule,
+  parseRecording,
+  redactEntry,
+} from '../common/DirectIpcRecording.js'
+
+/**
+ * A recording in progress
+ * Entries are redacted and appended to the file as they come in.
+ */
+export class DirectIpcRecorder {
+  private stream: WriteStream
+  private stopped: Promise<void> | undefined
+
+  /**
+   * @param onStop - Called once when stop() is first called, before the file is closed
+   */
+  constructor(
+    readonly path: string,
+    header: DirectIpcRecordingHeader,
+    private readonly redact: readonly RedactionRule[],
+    log: DirectIpcLogger,
+    private readonly onStop: () => void
+  ) {
+    this.stream = createWriteStream(path)
+    this.stream.on('error', (error) => {
+      log.error?.(`DirectIpcRecorder - Failed to write ${path}:`, error)
+    })
+    this.writeLine(header)
+  }
+
+  /** Append an entry, unless the recording was stopped */
+  write(entry: DirectIpcRecordingEntry): void {
+    if (this.stopped) return
+    this.writeLine(redactEntry(entry, this.redact))
+  }
+
+  /**
+   * Stop recording and close the file
+   * @returns Resolves once everything recorded is written
+   */
+  stop(): Promise<void> {
+    this.stopped ??= new Promise<void>((resolve) => {
+      this.onStop()
+      this.stream.end(() => resolve())
+    })
+    return this.stopped
+  }
+
+  private writeLine(value: object): void {
+    this.stream.write(`${JSON.stringify(value)}\n`)
+  }
+}
+
+/**
+ * Read a recording written by startRecording()
+ * @throws Error if the file is not a recording
+ */
+export async function readRecording(path: string): Promise<DirectIpcRecordingEntry[]> {
+  return parseRecording(await readFile(path, 'utf8'))
+}
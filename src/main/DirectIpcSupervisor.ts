@@ -0,0 +1,86 @@
+/**
+ * Restart policy for utility processes spawned by DirectIpcMain.spawnUtility()
+ */
+
+/**
+ * When a spawned utility process is restarted after it exits
+ * - `on-failure`: only after a non-zero exit code
+ * - `always`: after any exit that was not requested with stopUtility()
+ * - `never`: the utility process is only unregistered, as with registerUtilityProcess()
+ */
+export type UtilityRestartPolicy = 'on-failure' | 'always' | 'never'
+
+/**
+ * Exponential backoff between consecutive restarts
+ */
+export interface UtilityBackoffOptions {
+  /** Delay before the first restart (ms, default 500) */
+  initialDelay?: number
+  /** Longest delay between restarts (ms, default 30000) */
+  maxDelay?: number
+  /** Multiplier applied to the delay after each consecutive restart (default 2) */
+  factor?: number
+  /** Uptime after which a restarted process no longer counts towards maxRestarts (ms, default 60000) */
+  resetAfter?: number
+}
+
+/**
+ * Options for DirectIpcMain.spawnUtility()
+ */
+export interface SpawnUtilityOptions {
+  /** When to restart the utility process after it exits (default 'on-failure') */
+  restart?: UtilityRestartPolicy
+  /** Consecutive restarts before giving up (default 5) */
+  maxRestarts?: number
+  /** Delay between consecutive restarts */
+  backoff?: UtilityBackoffOptions
+  /**
+   * What happens to send() and invoke() calls from the main process while the utility process
+   * restarts: `queue` waits for the new process, `fail` rejects with
+   * UtilityProcessTerminatedError (default 'queue'). Renderers and other utility processes are
+   * not affected: they see the identifier leave the map, so their calls fail with
+   * "No target found" until it rejoins.
+   */
+  mainWhileRestarting?: 'queue' | 'fail'
+  /** Arguments passed to the module */
+  args?: string[]
+  /** Options passed to utilityProcess.fork() */
+  forkOptions?: Electron.ForkOptions
+  /** Pool the utility process joins (see DirectIpcMain.spawnPool) */
+  pool?: string
+}
+
+/** Defaults applied to UtilityBackoffOptions */
+const DEFAULT_BACKOFF: Required<UtilityBackoffOptions> = {
+  initialDelay: 500,
+  maxDelay: 30_000,
+  factor: 2,
+  resetAfter: 60_000,
+}
+
+/**
+ * Resolve backoff options against their defaults
+ */
+export function resolveBackoff(
+  backoff: UtilityBackoffOptions = {}
+): Required<UtilityBackoffOptions> {
+  return { ...DEFAULT_BACKOFF, ...backoff }
+}
+
+/**
+ * Delay before a restart
+ * @param backoff - Resolved backoff options
+ * @param restarts - Consecutive restarts already made
+ */
+export function restartDelay(backoff: Required<UtilityBackoffOptions>, restarts: number): number {
+  return Math.min(backoff.initialDelay * backoff.factor ** restarts, backoff.maxDelay)
+}
+
+/**
+ * Whether a utility process that exited with `code` should be restarted
+ */
+export function shouldRestart(policy: UtilityRestartPolicy, code: number): boolean {
+  if (policy === 'always') return true
+  if (policy === 'on-failure') return code !== 0
+  return false
+}
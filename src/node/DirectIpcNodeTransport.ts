@@ -0,0 +1,396 @@
+/**
+ * DirectIpc transports for Node's worker_threads and child_process
+ * They let DirectIpcMain broker DirectIpcUtility instances running in worker threads or
+ * forked Node processes, e.g. on a server or in tests, without starting Electron.
+ */
+
+import { fork as forkChildProcess, ChildProcess } from 'child_process'
+import { MessageChannel, MessagePort, Worker, parentPort } from 'worker_threads'
+import type {
+  DirectIpcChildTransport,
+  DirectIpcParentTransport,
+  DirectIpcTransport,
+  DirectIpcTransportEvent,
+  DirectIpcTransportPort,
+} from '../common/DirectIpcTransport.js'
+
+/**
+ * Frames DirectIpc posts over a worker or child process link
+ * The marker keeps them apart from other traffic on the same link; child processes can't
+ * transfer ports, so ports handed to them are relayed over the IPC channel by id.
+ */
+type NodeEnvelope =
+  | { __directIpc: 'message'; data: unknown; ports?: MessagePort[]; relayPorts?: number[] }
+  | { __directIpc: 'relay'; id: number; data: unknown }
+  | { __directIpc: 'relay-close'; id: number }
+
+type ParentListener = (event: DirectIpcTransportEvent<DirectIpcTransportPort>) => void
+
+function isEnvelope(value: unknown): value is NodeEnvelope {
+  return typeof value === 'object' && value !== null && '__directIpc' in value
+}
+
+/**
+ * A worker_threads MessagePort adapted to DirectIpcTransportPort
+ * Frames travel unwrapped, so the other end may be a plain MessagePort.
+ */
+class NodeTransportPort implements DirectIpcTransportPort {
+  constructor(readonly port: MessagePort) {}
+
+  postMessage(message: unknown, transfer: DirectIpcTransportPort[] = []): void {
+    this.port.postMessage(message, transfer.map(toNodePort))
+  }
+
+  on(event: 'message', listener: (event: DirectIpcTransportEvent) => void): this
+  on(event: 'close', listener: () => void): this
+  on(event: 'message' | 'close', listener: (event: DirectIpcTransportEvent) => void): this {
+    if (event === 'close') {
+      this.port.on('close', () => listener({ data: undefined, ports: [] }))
+      return this
+    }
+    // Ports transferred by the application stay raw worker_threads ports
+    this.port.addEventListener('message', (message) => {
+      const { data, ports } = message as MessageEvent
+      listener({ data, ports: [...ports] })
+    })
+    return this
+  }
+
+  start(): void {
+    this.port.start()
+  }
+
+  close(): void {
+    this.port.close()
+  }
+}
+
+function toNodePort(port: DirectIpcTransportPort | MessagePort): MessagePort {
+  return port instanceof NodeTransportPort ? port.port : (port as MessagePort)
+}
+
+/**
+ * Create a pair of connected ports backed by a worker_threads MessageChannel
+ */
+export function createNodeChannel(): {
+  port1: DirectIpcTransportPort
+  port2: DirectIpcTransportPort
+} {
+  const { port1, port2 } = new MessageChannel()
+  return { port1: new NodeTransportPort(port1), port2: new NodeTransportPort(port2) }
+}
+
+/**
+ * DirectIpcMain's handle on a worker thread
+ */
+class WorkerChildTransport implements DirectIpcChildTransport {
+  constructor(private readonly worker: Worker) {}
+
+  postMessage(message: unknown, transfer: DirectIpcTransportPort[] = []): void {
+    const ports = transfer.map(toNodePort)
+    this.worker.postMessage({ __directIpc: 'message', data: message, ports }, ports)
+  }
+
+  on(event: 'message', listener: (message: unknown) => void): this
+  on(event: 'exit', listener: (code: number) => void): this
+  on(event: 'message' | 'exit', listener: (value: never) => void): this {
+    const emit = listener as (value: unknown) => void
+    if (event === 'exit') {
+      this.worker.on('exit', (code: number) => emit(code))
+      return this
+    }
+    this.worker.on('message', (value: unknown) => {
+      if (isEnvelope(value) && value.__directIpc === 'message') emit(value.data)
+    })
+    return this
+  }
+
+  kill(): boolean {
+    void this.worker.terminate()
+    return true
+  }
+}
+
+/**
+ * Adapt a worker thread for DirectIpcMain.registerUtilityProcess()
+ * The worker creates its DirectIpcUtility with `transport: workerParentTransport()`.
+ */
+export function fromWorker(worker: Worker): DirectIpcChildTransport {
+  return new WorkerChildTransport(worker)
+}
+
+/**
+ * A worker thread's link to DirectIpcMain
+ */
+class WorkerParentTransport implements DirectIpcParentTransport {
+  private listeners = new Set<ParentListener>()
+
+  constructor(private readonly port: MessagePort) {
+    port.on('message', (value: unknown) => {
+      if (!isEnvelope(value) || value.__directIpc !== 'message') return
+      const event = {
+        data: value.data,
+        ports: (value.ports ?? []).map((port) => new NodeTransportPort(port)),
+      }
+      for (const listener of [...this.listeners]) listener(event)
+    })
+  }
+
+  postMessage(message: unknown): void {
+    this.port.postMessage({ __directIpc: 'message', data: message, ports: [] })
+  }
+
+  on(_event: 'message', listener: ParentListener): this {
+    this.listeners.add(listener)
+    return this
+  }
+
+  removeListener(_event: 'message', listener: ParentListener): this {
+    this.listeners.delete(listener)
+    return this
+  }
+}
+
+/**
+ * Transport for a DirectIpcUtility running in a worker thread
+ * @param port - Port to DirectIpcMain (defaults to worker_threads.parentPort)
+ */
+export function workerParentTransport(
+  port: MessagePort | null = parentPort
+): DirectIpcParentTransport {
+  if (!port) {
+    throw new Error('workerParentTransport() must be called inside a worker thread')
+  }
+  return new WorkerParentTransport(port)
+}
+
+/**
+ * DirectIpcMain's handle on a forked Node process
+ * Ports are relayed over the IPC channel: frames posted on a relayed port travel as
+ * `relay` envelopes tagged with the port's id.
+ */
+class ChildProcessChildTransport implements DirectIpcChildTransport {
+  private relays = new Map<number, DirectIpcTransportPort>()
+  private nextRelayId = 1
+
+  constructor(private readonly child: ChildProcess) {
+    child.on('message', (value: unknown) => this.handleRelay(value))
+    child.on('exit', () => {
+      const ports = [...this.relays.values()]
+      this.relays.clear()
+      for (const port of ports) port.close()
+    })
+  }
+
+  get pid(): number | undefined {
+    return this.child.pid
+  }
+
+  postMessage(message: unknown, transfer: DirectIpcTransportPort[] = []): void {
+    const relayPorts = transfer.map((port) => this.relay(port))
+    this.send({ __directIpc: 'message', data: message, relayPorts })
+  }
+
+  on(event: 'message', listener: (message: unknown) => void): this
+  on(event: 'exit', listener: (code: number) => void): this
+  on(event: 'message' | 'exit', listener: (value: never) => void): this {
+    const emit = listener as (value: unknown) => void
+    if (event === 'exit') {
+      this.child.on('exit', (code: number | null) => emit(code ?? 1))
+      return this
+    }
+    this.child.on('message', (value: unknown) => {
+      if (isEnvelope(value) && value.__directIpc === 'message') emit(value.data)
+    })
+    return this
+  }
+
+  kill(): boolean {
+    return this.child.kill()
+  }
+
+  private relay(port: DirectIpcTransportPort): number {
+    const id = this.nextRelayId++
+    this.relays.set(id, port)
+    port.on('message', (event) => this.send({ __directIpc: 'relay', id, data: event.data }))
+    port.on('close', () => {
+      if (this.relays.delete(id)) this.send({ __directIpc: 'relay-close', id })
+    })
+    port.start()
+    return id
+  }
+
+  private handleRelay(value: unknown): void {
+    if (!isEnvelope(value)) return
+    if (value.__directIpc === 'relay') {
+      this.relays.get(value.id)?.postMessage(value.data)
+    } else if (value.__directIpc === 'relay-close') {
+      const port = this.relays.get(value.id)
+      this.relays.delete(value.id)
+      port?.close()
+    }
+  }
+
+  private send(envelope: NodeEnvelope): void {
+    if (this.child.connected) this.child.send(envelope)
+  }
+}
+
+/**
+ * Adapt a forked Node process for DirectIpcMain.registerUtilityProcess()
+ * The child must be forked with an IPC channel and create its DirectIpcUtility with
+ * `transport: childProcessParentTransport()`. Ports sent with transfer() can't cross
+ * the IPC channel.
+ */
+export function fromChildProcess(child: ChildProcess): DirectIpcChildTransport {
+  return new ChildProcessChildTransport(child)
+}
+
+/**
+ * The child's end of a port relayed over the IPC channel
+ */
+class RelayPort implements DirectIpcTransportPort {
+  private messageListeners: ((event: DirectIpcTransportEvent) => void)[] = []
+  private closeListeners: (() => void)[] = []
+  private closed = false
+
+  constructor(
+    private readonly id: number,
+    private readonly send: (envelope: NodeEnvelope) => void,
+    private readonly onClosed: () => void
+  ) {}
+
+  postMessage(message: unknown): void {
+    if (!this.closed) this.send({ __directIpc: 'relay', id: this.id, data: message })
+  }
+
+  on(event: 'message', listener: (event: DirectIpcTransportEvent) => void): this
+  on(event: 'close', listener: () => void): this
+  on(event: 'message' | 'close', listener: (event: DirectIpcTransportEvent) => void): this {
+    if (event === 'close') this.closeListeners.push(() => listener({ data: undefined, ports: [] }))
+    else this.messageListeners.push(listener)
+    return this
+  }
+
+  start(): void {}
+
+  close(): void {
+    if (this.closed) return
+    this.send({ __directIpc: 'relay-close', id: this.id })
+    this.remoteClosed()
+  }
+
+  /** @internal */
+  receive(data: unknown): void {
+    for (const listener of [...this.messageListeners]) listener({ data, ports: [] })
+  }
+
+  /** @internal */
+  remoteClosed(): void {
+    if (this.closed) return
+    this.closed = true
+    this.onClosed()
+    for (const listener of [...this.closeListeners]) listener()
+  }
+}
+
+/**
+ * A forked Node process's link to DirectIpcMain
+ */
+class ChildProcessParentTransport implements DirectIpcParentTransport {
+  private listeners = new Set<ParentListener>()
+  private relays = new Map<number, RelayPort>()
+
+  constructor(private readonly proc: NodeJS.Process) {
+    proc.on('message', (value: unknown) => {
+      if (!isEnvelope(value)) return
+      if (value.__directIpc === 'relay') {
+        this.relays.get(value.id)?.receive(value.data)
+      } else if (value.__directIpc === 'relay-close') {
+        this.relays.get(value.id)?.remoteClosed()
+      } else {
+        const event = {
+          data: value.data,
+          ports: (value.relayPorts ?? []).map((id) => this.openRelay(id)),
+        }
+        for (const listener of [...this.listeners]) listener(event)
+      }
+    })
+  }
+
+  postMessage(message: unknown): void {
+    this.send({ __directIpc: 'message', data: message })
+  }
+
+  on(_event: 'message', listener: ParentListener): this {
+    this.listeners.add(listener)
+    return this
+  }
+
+  removeListener(_event: 'message', listener: ParentListener): this {
+    this.listeners.delete(listener)
+    return this
+  }
+
+  private openRelay(id: number): RelayPort {
+    const port = new RelayPort(
+      id,
+      (envelope) => this.send(envelope),
+      () => this.relays.delete(id)
+    )
+    this.relays.set(id, port)
+    return port
+  }
+
+  private send(envelope: NodeEnvelope): void {
+    if (this.proc.connected) this.proc.send?.(envelope)
+  }
+}
+
+/**
+ * Transport for a DirectIpcUtility running in a forked Node process
+ * @param proc - Process with an IPC channel to DirectIpcMain (defaults to `process`)
+ */
+export function childProcessParentTransport(
+  proc: NodeJS.Process = process
+): DirectIpcParentTransport {
+  if (!proc.send) {
+    throw new Error('childProcessParentTransport() requires a process forked with an IPC channel')
+  }
+  return new ChildProcessParentTransport(proc)
+}
+
+/**
+ * DirectIpcMain transport whose spawnUtility() starts worker threads
+ */
+export function workerThreadsTransport(): DirectIpcTransport {
+  return {
+    createChannel: createNodeChannel,
+    fork: (modulePath, args, options) =>
+      fromWorker(
+        new Worker(modulePath, {
+          argv: args ?? [],
+          ...(options?.env && { env: options.env as NodeJS.ProcessEnv }),
+          ...(options?.execArgv && { execArgv: options.execArgv }),
+        })
+      ),
+  }
+}
+
+/**
+ * DirectIpcMain transport whose spawnUtility() forks Node processes
+ */
+export function childProcessTransport(): DirectIpcTransport {
+  return {
+    createChannel: createNodeChannel,
+    fork: (modulePath, args, options) =>
+      fromChildProcess(
+        forkChildProcess(modulePath, args ?? [], {
+          serialization: 'advanced',
+          ...(options?.cwd && { cwd: options.cwd }),
+          ...(options?.env && { env: options.env as NodeJS.ProcessEnv }),
+          ...(options?.execArgv && { execArgv: options.execArgv }),
+        })
+      ),
+  }
+}
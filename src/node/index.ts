@@ -0,0 +1,27 @@
+/**
+ * electron-direct-ipc/node
+ *
+ * Transports for running DirectIpcMain and DirectIpcUtility on Node's worker_threads and
+ * child_process instead of Electron. DirectIpcMain is exported here too: imported from this
+ * entry it never loads Electron, so it runs where the electron package is missing.
+ */
+
+export { DirectIpcMain } from '../main/DirectIpcBroker.js'
+export type { DirectIpcMainOptions } from '../main/DirectIpcBroker.js'
+export {
+  childProcessParentTransport,
+  childProcessTransport,
+  createNodeChannel,
+  fromChildProcess,
+  fromWorker,
+  workerParentTransport,
+  workerThreadsTransport,
+} from './DirectIpcNodeTransport.js'
+
+export type {
+  DirectIpcChildTransport,
+  DirectIpcParentTransport,
+  DirectIpcTransport,
+  DirectIpcTransportEvent,
+  DirectIpcTransportPort,
+} from '../common/DirectIpcTransport.js'
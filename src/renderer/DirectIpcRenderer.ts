@@ -1,29 +1,127 @@
-import { ipcRenderer } from 'electron'
+// A namespace import keeps this module loadable in plain Node, where 'electron' has no exports
+import * as electron from 'electron'
 import {
+  DIRECT_IPC_CAPABILITIES,
   DIRECT_IPC_CHANNELS,
+  DirectIpcGetPortOptions,
   DirectIpcMapUpdateMessage,
   DirectIpcPortMessage,
+  DirectIpcShutdownMessage,
   DirectIpcTarget,
   EventMap,
   InvokeMap,
-  Prettify,
   InvokeOptions,
   TargetSelector,
-  DirectIpcMessage,
-  InvokeMessage,
-  InvokeResponse,
-  WithSender,
+  PoolSelector,
   DirectIpcBase,
   CachedPort,
+  deserializeError,
+  isPortDenied,
 } from '../common/index.js'
+import { DirectIpcChaosOptions } from '../common/DirectIpcChaos.js'
+import {
+  DirectIpcTapEvent,
+  DirectIpcTapOptions,
+  DirectIpcTapRequest,
+} from '../common/DirectIpcTap.js'
+import { DirectIpcReplayMessage } from '../common/DirectIpcRecording.js'
 import { DirectIpcLogger, consoleLogger } from '../common/DirectIpcLogger.js'
 import { DirectIpcThrottled } from './DirectIpcThrottled.js'
+import { DirectIpcValidationOptions } from '../common/DirectIpcValidation.js'
+import { DirectIpcHeartbeatOptions, DirectIpcRetentionOptions } from '../common/DirectIpcTypes.js'
+import { DirectIpcTransferable } from '../common/DirectIpcTransfer.js'
+import { InvokeOptionsArgument } from '../common/DirectIpcOptions.js'
+import { DirectIpcCodecOptions } from '../common/DirectIpcCodec.js'
+
+export {
+  ConnectionDeniedError,
+  DeliveryTimeoutError,
+  PayloadValidationError,
+  PermissionDeniedError,
+  PortLostError,
+  RemoteInvokeError,
+  ShuttingDownError,
+  registerErrorClass,
+  unregisterErrorClass,
+} from '../common/DirectIpcErrors.js'
+export type { SerializedError } from '../common/DirectIpcErrors.js'
+export { fromStandardSchema } from '../common/DirectIpcValidation.js'
+export { DirectIpcStore } from '../common/DirectIpcStore.js'
+export { transfer } from '../common/DirectIpcTransfer.js'
+export type { DirectIpcTransferable } from '../common/DirectIpcTransfer.js'
+export { withOptions } from '../common/DirectIpcOptions.js'
+export type { DirectIpcCallOptions, InvokeOptionsArgument } from '../common/DirectIpcOptions.js'
+export {
+  createClassCodec,
+  createMessagePackCodec,
+  identityCodec,
+  jsonCodec,
+} from '../common/DirectIpcCodec.js'
+export type {
+  DirectIpcClass,
+  DirectIpcCodec,
+  DirectIpcCodecOptions,
+  MessagePackLike,
+} from '../common/DirectIpcCodec.js'
+export type {
+  DirectIpcStoreListener,
+  DirectIpcStoreOperation,
+  DirectIpcStoreOptions,
+  DirectIpcStoreOwnerOptions,
+  DirectIpcStoreSubscriberOptions,
+} from '../common/DirectIpcStore.js'
+export type {
+  ChannelPermission,
+  HandleOptions,
+  ProcessMatcher,
+} from '../common/DirectIpcPermissions.js'
+export type {
+  DirectIpcMiddleware,
+  DirectIpcMiddlewareContext,
+} from '../common/DirectIpcMiddleware.js'
+export type {
+  ChaosEffects,
+  ChaosOptions,
+  ChaosRule,
+  DirectIpcChaosOptions,
+} from '../common/DirectIpcChaos.js'
+export type {
+  DirectIpcTapEvent,
+  DirectIpcTapOptions,
+  DirectIpcTapRecord,
+  TapOptions,
+} from '../common/DirectIpcTap.js'
+export { parseRecording } from '../common/DirectIpcRecording.js'
+export type {
+  DirectIpcMapSnapshot,
+  DirectIpcRecordingEntry,
+  DirectIpcReplay,
+  ReplayOptions,
+} from '../common/DirectIpcRecording.js'
+export type {
+  DirectIpcSchemas,
+  PayloadSchema,
+  PayloadValidator,
+  StandardSchemaV1,
+  ValidationPolicy,
+} from '../common/DirectIpcValidation.js'
 
 /**
  * Options for DirectIpcRenderer
  * @template TIdentifierStrings - Union of allowed identifier strings
  */
-export interface DirectIpcRendererOptions<TIdentifierStrings extends string = string> {
+export interface DirectIpcRendererOptions<
+  TIdentifierStrings extends string = string,
+  TMessageMap extends EventMap = EventMap,
+  TInvokeMap extends InvokeMap = InvokeMap,
+>
+  extends
+    DirectIpcValidationOptions<TMessageMap, TInvokeMap>,
+    DirectIpcRetentionOptions<TMessageMap>,
+    DirectIpcCodecOptions,
+    DirectIpcHeartbeatOptions,
+    DirectIpcChaosOptions,
+    DirectIpcTapOptions {
   log?: DirectIpcLogger
   identifier?: TIdentifierStrings
   defaultTimeout?: number
@@ -33,7 +131,7 @@ export interface DirectIpcRendererOptions<TIdentifierStrings extends string = st
  * Dependencies for DirectIpcRenderer (for testing/injection)
  */
 export interface DirectIpcRendererDependencies {
-  ipcRenderer?: typeof ipcRenderer
+  ipcRenderer?: typeof electron.ipcRenderer
 }
 
 /**
@@ -74,13 +172,15 @@ export class DirectIpcRenderer<
     TInvokeMap extends InvokeMap = InvokeMap,
     TProcessIdentifier extends string = string,
   >(
-    options?: DirectIpcRendererOptions<TProcessIdentifier>
+    options?: DirectIpcRendererOptions<TProcessIdentifier, TMessageMap, TInvokeMap>
   ): DirectIpcRenderer<TMessageMap, TInvokeMap, TProcessIdentifier> {
     if (!DirectIpcRenderer.isRendererProcess()) {
       throw new Error('DirectIpcRenderer.instance() can only be called from the renderer process')
     }
     if (!DirectIpcRenderer._instance) {
-      DirectIpcRenderer._instance = DirectIpcRenderer._createInstance(options)
+      DirectIpcRenderer._instance = DirectIpcRenderer._createInstance(
+        options as DirectIpcRendererOptions
+      )
     }
     if (options) {
       const { identifier, log, defaultTimeout } = options
@@ -98,6 +198,17 @@ export class DirectIpcRenderer<
       if (defaultTimeout !== undefined) {
         DirectIpcRenderer._instance.setDefaultTimeout(defaultTimeout)
       }
+      const instance = DirectIpcRenderer._instance as DirectIpcRenderer<
+        TMessageMap,
+        TInvokeMap,
+        TProcessIdentifier
+      >
+      instance.configureValidation(options)
+      instance.configureRetention(options)
+      instance.configureCodecs(options)
+      instance.configureHeartbeat(options)
+      instance.configureChaos(options)
+      instance.configureTap(options)
     }
     return DirectIpcRenderer._instance as DirectIpcRenderer<
       TMessageMap,
@@ -118,7 +229,7 @@ export class DirectIpcRenderer<
     TInvokeMap extends InvokeMap = InvokeMap,
     TProcessIdentifier extends string = string,
   >(
-    options?: DirectIpcRendererOptions<TProcessIdentifier>,
+    options?: DirectIpcRendererOptions<TProcessIdentifier, TMessageMap, TInvokeMap>,
     dependencies?: DirectIpcRendererDependencies
   ): DirectIpcRenderer<TMessageMap, TInvokeMap, TProcessIdentifier> {
     return new DirectIpcRenderer(options, dependencies) as DirectIpcRenderer<
@@ -152,19 +263,25 @@ export class DirectIpcRenderer<
   >
 
   private constructor(
-    options: DirectIpcRendererOptions<TIdentifierStrings> = {},
+    options: DirectIpcRendererOptions<TIdentifierStrings, TMessageMap, TInvokeMap> = {},
     dependencies: DirectIpcRendererDependencies = {}
   ) {
     super()
 
     this.d = {
-      ipcRenderer: dependencies.ipcRenderer ?? ipcRenderer,
+      ipcRenderer: dependencies.ipcRenderer ?? electron.ipcRenderer,
     }
 
     this.log = options.log ?? consoleLogger
 
     // Set default timeout from options if provided
     this.defaultTimeout = options.defaultTimeout ?? 5000
+    this.configureValidation(options)
+    this.configureRetention(options)
+    this.configureCodecs(options)
+    this.configureHeartbeat(options)
+    this.configureChaos(options)
+    this.configureTap(options)
 
     this.setupIpcListeners()
     this.subscribe(options.identifier)
@@ -185,15 +302,26 @@ export class DirectIpcRenderer<
   /**
    * Send message via a MessagePort
    */
-  protected postMessageToPort(port: MessagePort, message: unknown): void {
-    port.postMessage(message)
+  protected postMessageToPort(
+    port: MessagePort,
+    message: unknown,
+    transfer: DirectIpcTransferable[] = []
+  ): void {
+    if (transfer.length > 0) {
+      port.postMessage(message, transfer as Transferable[])
+    } else {
+      port.postMessage(message)
+    }
   }
 
   /**
    * Set up message listener on a MessagePort
    */
-  protected setupPortListener(port: MessagePort, handler: (data: unknown) => void): void {
-    port.onmessage = (e: MessageEvent) => handler(e.data)
+  protected setupPortListener(
+    port: MessagePort,
+    handler: (data: unknown, ports: readonly unknown[]) => void
+  ): void {
+    port.onmessage = (e: MessageEvent) => handler(e.data, e.ports)
   }
 
   /**
@@ -204,6 +332,7 @@ export class DirectIpcRenderer<
     if (cached) {
       cached.port.close()
       this.portCache.delete(target.id)
+      this.portLost(cached.info, cached.port)
     }
   }
 
@@ -215,6 +344,7 @@ export class DirectIpcRenderer<
       cached.port.close()
     }
     this.portCache.clear()
+    this.connectedPorts.clear()
   }
 
   /**
@@ -273,12 +403,16 @@ export class DirectIpcRenderer<
 
   /**
    * Get or create a port to a target renderer or utility process
+   * @param fresh - Ask main to replace an existing channel (the cached port must be dropped first)
    */
-  protected async getPort(target: {
-    webContentsId?: number
-    identifier?: TIdentifierStrings | RegExp
-    url?: string | RegExp
-  }): Promise<MessagePort> {
+  protected async getPort(
+    target: {
+      webContentsId?: number
+      identifier?: TIdentifierStrings | RegExp
+      url?: string | RegExp
+    },
+    fresh = false
+  ): Promise<MessagePort> {
     // Try to resolve the target to a process ID using our local map
     // This allows us to check the cache even when searching by identifier/URL
     const processId = this.resolveTargetToProcessId(target)
@@ -293,6 +427,7 @@ export class DirectIpcRenderer<
     }
 
     // Set up promise to wait for port before invoking
+    let stopWaiting = () => {}
     const portPromise = new Promise<MessagePort>((resolve, reject) => {
       const messagePortAddedListener = (addedTarget: DirectIpcTarget) => {
         // Check if this is the target we're waiting for
@@ -336,12 +471,29 @@ export class DirectIpcRenderer<
 
       // Listen for the message-port-added event
       this.localEvents.on('message-port-added', messagePortAddedListener)
+
+      stopWaiting = () => {
+        clearTimeout(timeout)
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Type assertion needed due to EventEmitter type limitations with locally scoped listeners
+        this.localEvents.off('message-port-added', messagePortAddedListener as any)
+      }
     })
 
     // Request port from main process
-    const success = await this.d.ipcRenderer.invoke(DIRECT_IPC_CHANNELS.GET_PORT, target)
+    const getPortOptions: DirectIpcGetPortOptions = { fresh }
+    const success = await this.d.ipcRenderer.invoke(
+      DIRECT_IPC_CHANNELS.GET_PORT,
+      target,
+      ...(fresh ? [getPortOptions] : [])
+    )
+
+    if (isPortDenied(success)) {
+      stopWaiting()
+      throw deserializeError(success.error)
+    }
 
     if (!success) {
+      stopWaiting()
       throw new Error('DirectIpc: Failed to get port for target')
     }
 
@@ -376,6 +528,50 @@ export class DirectIpcRenderer<
         this.handlePortMessage(port, message.sender)
       }
     )
+
+    // Tap while main records, replay what main hands over
+    this.d.ipcRenderer.on(DIRECT_IPC_CHANNELS.TAP, (_event, message: DirectIpcTapRequest) => {
+      this.handleTapRequest(message.tap)
+    })
+    this.d.ipcRenderer.on(DIRECT_IPC_CHANNELS.REPLAY, (_event, message: DirectIpcReplayMessage) => {
+      this.handleReplayRequest(message)
+    })
+
+    // Drain when main shuts down, then report back
+    this.d.ipcRenderer.on(
+      DIRECT_IPC_CHANNELS.SHUTDOWN,
+      (_event, message: DirectIpcShutdownMessage) => {
+        void this.handleShutdownRequest(message)
+      }
+    )
+  }
+
+  /**
+   * Drain and tell main the renderer is ready to shut down
+   */
+  private async handleShutdownRequest(message: DirectIpcShutdownMessage): Promise<void> {
+    await this.drain({ timeout: message.timeout })
+    try {
+      await this.d.ipcRenderer.invoke(DIRECT_IPC_CHANNELS.SHUTDOWN_COMPLETE)
+    } catch (error) {
+      this.log.warn?.('DirectIpcRenderer::handleShutdownRequest - Failed to report shutdown', error)
+    }
+  }
+
+  /**
+   * Send tap events to main
+   */
+  protected reportTap(events: DirectIpcTapEvent[]): void {
+    this.d.ipcRenderer.invoke(DIRECT_IPC_CHANNELS.TAP, events).catch((error: unknown) => {
+      this.log.warn?.('DirectIpcRenderer::reportTap - Failed to report tap events', error)
+    })
+  }
+
+  /**
+   * Post throttled sends before shutting down
+   */
+  protected flushThrottled(): Promise<void> {
+    return this.throttled.flush()
   }
 
   /**
@@ -383,7 +579,11 @@ export class DirectIpcRenderer<
    */
   private async subscribe(identifier?: TIdentifierStrings): Promise<void> {
     try {
-      const map = await this.d.ipcRenderer.invoke(DIRECT_IPC_CHANNELS.SUBSCRIBE, identifier)
+      const map = await this.d.ipcRenderer.invoke(
+        DIRECT_IPC_CHANNELS.SUBSCRIBE,
+        identifier,
+        DIRECT_IPC_CAPABILITIES
+      )
       this.handleMapUpdate(map)
       if (identifier) {
         this.myIdentifier = identifier
@@ -422,30 +622,8 @@ export class DirectIpcRenderer<
     )
 
     // Set up port message handler
-    port.onmessage = (
-      e: MessageEvent<DirectIpcMessage<TMessageMap> | InvokeMessage | InvokeResponse>
-    ) => {
-      const data = e.data
-
-      // Handle invoke responses
-      if (data && typeof data === 'object' && 'type' in data) {
-        if (data.type === 'invoke-response') {
-          this.handleInvokeResponse(data as InvokeResponse)
-          return
-        } else if (data.type === 'invoke') {
-          this.handleInvokeRequest(port, data as InvokeMessage)
-          return
-        }
-      }
-
-      // Handle regular DirectIPC messages
-      const m = data as Prettify<DirectIpcMessage<TMessageMap>>
-      this.localEvents.emit('message', senderInfo, m)
-      // Also emit the specific message type
-      this.emit(
-        m.message,
-        ...([senderInfo, ...m.args] as Parameters<WithSender<TMessageMap>[keyof TMessageMap]>)
-      )
+    port.onmessage = (e: MessageEvent) => {
+      this.handlePortData(port, e.data, senderInfo, e.ports)
     }
 
     // Set up port close handler
@@ -453,7 +631,11 @@ export class DirectIpcRenderer<
       this.log.silly?.(
         `DirectIpcRenderer::port.close - port closed for ${senderInfo.identifier || `process-${senderInfo.id}` || 'unknown'}`
       )
-      this.portCache.delete(senderInfo.id)
+      // A replacement port may already be cached for this process
+      if (this.portCache.get(senderInfo.id)?.port === port) {
+        this.portCache.delete(senderInfo.id)
+        this.portLost(senderInfo, port)
+      }
     })
 
     port.start()
@@ -464,6 +646,8 @@ export class DirectIpcRenderer<
       info: senderInfo,
     })
 
+    this.portEstablished(senderInfo, port)
+
     // Emit message-port-added event so getPort() promises can resolve
     this.localEvents.emit('message-port-added', senderInfo)
   }
@@ -604,22 +788,45 @@ export class DirectIpcRenderer<
    *
    * // Send to all matching URLs
    * await directIpc.send({ allUrls: 'https://example.com' }, 'my-message', arg1, arg2)
+   *
+   * // Send to one member of a utility process pool, or to all of them
+   * await directIpc.send({ pool: 'compute-worker' }, 'my-message', arg1, arg2)
+   * await directIpc.send({ pool: 'compute-worker', broadcast: true }, 'my-message', arg1, arg2)
    */
   async send<T extends keyof TMessageMap>(
-    target: TargetSelector<TIdentifierStrings>,
+    target: TargetSelector<TIdentifierStrings> | PoolSelector,
     message: T,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any -- 'any' used in conditional type for parameter extraction
     ...args: TMessageMap[T] extends (...args: infer P) => any ? P : never
   ): Promise<void> {
+    return this.runOutgoing('message', target, String(message), args, (middlewareArgs) =>
+      this.dispatchSend(target, message, middlewareArgs)
+    )
+  }
+
+  /**
+   * Send a message once it has passed through the middleware
+   */
+  private async dispatchSend(
+    target: TargetSelector<TIdentifierStrings> | PoolSelector,
+    message: keyof TMessageMap,
+    args: unknown[]
+  ): Promise<void> {
+    if ('pool' in target) {
+      return this.sendToPool(target, String(message), args)
+    }
+
     // Handle "all" patterns - these require targets to exist in the map
     if ('allIdentifiers' in target || 'allUrls' in target) {
       const targets = this.findTargets(target)
 
       if (targets.length === 0) {
         this.log.warn?.(`DirectIpcRenderer::send - No targets found for pattern`)
+        this.retainMessage(target, String(message), args)
         return
       }
 
+      this.assertTransferTargets(targets.length, args)
       this.log.silly?.(
         `DirectIpcRenderer::send - Sending to ${targets.length} target(s) with message "${message as string}"`
       )
@@ -629,11 +836,12 @@ export class DirectIpcRenderer<
           if (t.webContentsId !== undefined) {
             const port = await this.getPort({ webContentsId: t.webContentsId })
             if (port) {
-              port.postMessage({ message, args })
+              this.postArgs(port, { message, args })
             }
           }
         })
       )
+      this.retainMessage(target, String(message), args)
       return
     }
 
@@ -656,13 +864,14 @@ export class DirectIpcRenderer<
 
     const port = await this.getPort(selector)
     if (port) {
-      port.postMessage({ message, args })
+      this.postArgs(port, { message, args })
     }
+    this.retainMessage(target, String(message), args)
   }
 
   /**
    * Invoke a handler on a remote renderer using a TargetSelector
-   * Note: Only single-target selectors are supported (not allIdentifiers/allUrls)
+   * Note: Only single-target selectors are supported (use invokeAll() for allIdentifiers/allUrls)
    *
    * @example
    * // Invoke on specific webContentsId
@@ -676,19 +885,46 @@ export class DirectIpcRenderer<
    *
    * // With timeout option
    * const result = await directIpc.invoke({ identifier: 'output' }, 'get-data', arg1, { timeout: 5000 })
+   *
+   * // On the least busy member of a utility process pool
+   * const result = await directIpc.invoke({ pool: 'compute-worker', balance: 'least-pending' }, 'get-data')
    */
   async invoke<T extends keyof TInvokeMap>(
-    target: Omit<TargetSelector<TIdentifierStrings>, 'allIdentifiers' | 'allUrls'>,
+    target: Omit<TargetSelector<TIdentifierStrings>, 'allIdentifiers' | 'allUrls'> | PoolSelector,
     channel: T,
     ...args: [
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       ...params: TInvokeMap[T] extends (...args: infer P) => any ? P : never,
-      options?: InvokeOptions,
+      options?: InvokeOptionsArgument,
     ]
   ): Promise<
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     TInvokeMap[T] extends (...args: any[]) => infer R ? Awaited<R> : unknown
   > {
+    // Extract options from the last argument if it's an InvokeOptions object
+    const { options, invokeArgs } = this.extractInvokeOptions(args)
+    return this.runOutgoing(
+      'invoke',
+      target as TargetSelector<TIdentifierStrings> | PoolSelector,
+      String(channel),
+      invokeArgs,
+      (middlewareArgs) => this.dispatchInvoke(target, String(channel), options, middlewareArgs)
+    )
+  }
+
+  /**
+   * Invoke a handler once the call has passed through the middleware
+   */
+  private async dispatchInvoke<T>(
+    target: Omit<TargetSelector<TIdentifierStrings>, 'allIdentifiers' | 'allUrls'> | PoolSelector,
+    channel: string,
+    options: InvokeOptions | undefined,
+    args: unknown[]
+  ): Promise<T> {
+    if ('pool' in target) {
+      return this.invokePool(target, channel, options, args)
+    }
+
     // Build selector for getPort based on target type
     let selector: {
       webContentsId?: number
@@ -707,10 +943,35 @@ export class DirectIpcRenderer<
     }
 
     const port = await this.getPort(selector)
+    return this.invokeOnPort(port, channel, options, ...args)
+  }
 
-    // Extract options from the last argument if it's an InvokeOptions object
-    const { options, invokeArgs } = this.extractInvokeOptions(args)
-    return this.invokeOnPort(port, channel as string, options, ...invokeArgs)
+  /**
+   * Get the port to a known target from the map
+   */
+  protected getTargetPort(target: DirectIpcTarget, fresh = false): Promise<MessagePort> {
+    if (fresh) {
+      this.cleanupPort(target)
+    }
+    return this.getPort(
+      target.webContentsId !== undefined
+        ? { webContentsId: target.webContentsId }
+        : { identifier: target.identifier as TIdentifierStrings },
+      fresh
+    )
+  }
+
+  /**
+   * Invoke a handler on a known target from the map
+   */
+  protected async invokeTarget<T>(
+    target: DirectIpcTarget,
+    channel: string,
+    options: InvokeOptions | undefined,
+    args: unknown[]
+  ): Promise<T> {
+    const port = await this.getTargetPort(target)
+    return this.invokeOnPort<T>(port, channel, options, ...args)
   }
 
   /**
@@ -722,67 +983,8 @@ export class DirectIpcRenderer<
     options?: InvokeOptions,
     ...args: unknown[]
   ): Promise<T> {
-    const requestId = this.createInvokeRequestId()
-    const timeoutMs = options?.timeout ?? this.defaultTimeout
-
     this.log.silly?.('DirectIpcRenderer::invoke - invoking channel')
-
-    const promise = this.createInvokePromise<T>(requestId, timeoutMs, channel)
-
-    // Send invoke message
-    const message: InvokeMessage = {
-      type: 'invoke',
-      channel,
-      requestId,
-      args,
-    }
-    port.postMessage(message)
-
-    return promise
-  }
-
-  /**
-   * Handle an incoming invoke request
-   */
-  private async handleInvokeRequest(port: MessagePort, message: InvokeMessage): Promise<void> {
-    const { channel, requestId, args } = message
-
-    this.log.silly?.('DirectIpcRenderer::handleInvokeRequest - handling invoke')
-
-    const handler = this.handlers.get(channel)
-    if (!handler) {
-      this.log.error?.('DirectIpcRenderer::handleInvokeRequest - No handler for channel')
-      const response: InvokeResponse = {
-        type: 'invoke-response',
-        requestId,
-        success: false,
-        error: 'No handler registered for channel',
-      }
-      port.postMessage(response)
-      return
-    }
-
-    try {
-      // get the cached port info for the sender
-      const senderInfo = Array.from(this.portCache.values()).find((c) => c.port === port)?.info
-      const result = await handler(senderInfo, ...args)
-      const response: InvokeResponse = {
-        type: 'invoke-response',
-        requestId,
-        success: true,
-        data: result,
-      }
-      port.postMessage(response)
-    } catch (error) {
-      this.log.error?.('DirectIpcRenderer::handleInvokeRequest - Handler error', error)
-      const response: InvokeResponse = {
-        type: 'invoke-response',
-        requestId,
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-      }
-      port.postMessage(response)
-    }
+    return this.postInvoke<T>(port, channel, options, args)
   }
 
   /**
@@ -183,6 +183,24 @@ export class DirectIpcThrottled<
     TIdentifierStrings
   >['removeHandler']
   public readonly invoke: DirectIpcRenderer<TMessageMap, TInvokeMap, TIdentifierStrings>['invoke']
+  public readonly invokeStream: DirectIpcRenderer<
+    TMessageMap,
+    TInvokeMap,
+    TIdentifierStrings
+  >['invokeStream']
+  public readonly invokeAll: DirectIpcRenderer<
+    TMessageMap,
+    TInvokeMap,
+    TIdentifierStrings
+  >['invokeAll']
+  public readonly sendReliable: DirectIpcRenderer<
+    TMessageMap,
+    TInvokeMap,
+    TIdentifierStrings
+  >['sendReliable']
+  public readonly proxy: DirectIpcRenderer<TMessageMap, TInvokeMap, TIdentifierStrings>['proxy']
+  public readonly expose: DirectIpcRenderer<TMessageMap, TInvokeMap, TIdentifierStrings>['expose']
+  public readonly use: DirectIpcRenderer<TMessageMap, TInvokeMap, TIdentifierStrings>['use']
   public readonly getMap: DirectIpcRenderer<TMessageMap, TInvokeMap, TIdentifierStrings>['getMap']
   public readonly getMyIdentifier: DirectIpcRenderer<
     TMessageMap,
@@ -239,6 +257,12 @@ export class DirectIpcThrottled<
     this.handle = directIpc.handle.bind(directIpc)
     this.removeHandler = directIpc.removeHandler.bind(directIpc)
     this.invoke = directIpc.invoke.bind(directIpc)
+    this.invokeStream = directIpc.invokeStream.bind(directIpc)
+    this.invokeAll = directIpc.invokeAll.bind(directIpc)
+    this.sendReliable = directIpc.sendReliable.bind(directIpc)
+    this.proxy = directIpc.proxy.bind(directIpc)
+    this.expose = directIpc.expose.bind(directIpc)
+    this.use = directIpc.use.bind(directIpc)
     this.getMap = directIpc.getMap.bind(directIpc)
     this.getMyIdentifier = directIpc.getMyIdentifier.bind(directIpc)
     this.setIdentifier = directIpc.setIdentifier.bind(directIpc)
@@ -349,6 +373,14 @@ export class DirectIpcThrottled<
     })
   }
 
+  /**
+   * Post pending sends now instead of on the next microtask
+   * Resolves once they were handed to their ports (used when draining before shutdown).
+   */
+  public async flush(): Promise<void> {
+    await this.flushSends()
+  }
+
   /**
    * Flush all pending sends in parallel
    */
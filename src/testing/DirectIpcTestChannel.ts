@@ -0,0 +1,175 @@
+/**
+ * In-memory MessageChannel used by createTestNetwork()
+ * Every frame, IPC message and invoke in a test network goes through one TestScheduler queue
+ * and is delivered in the order it was posted, so a network behaves the same on every run.
+ */
+
+import type {
+  DirectIpcTransportEvent,
+  DirectIpcTransportPort,
+} from '../common/DirectIpcTransport.js'
+
+// Captured before tests can install fake timers, so flush() keeps working under them
+const realSetImmediate = setImmediate
+
+/** Event-loop turns the queue has to stay empty before flush() resolves */
+const FLUSH_IDLE_TURNS = 2
+
+type PortListener = (event: DirectIpcTransportEvent<TestMessagePort>) => void
+
+/**
+ * FIFO delivery queue shared by everything in a test network
+ * Like Electron's event loop, each delivery runs in its own turn, after the promise work
+ * of the previous one has settled. Turns don't use timers, so fake timers don't stall it.
+ */
+export class TestScheduler {
+  private queue: (() => void)[] = []
+  private scheduled = false
+  private closed = false
+
+  /** Queue a delivery */
+  post(task: () => void): void {
+    if (this.closed) return
+    this.queue.push(task)
+    if (!this.scheduled) {
+      this.scheduled = true
+      realSetImmediate(() => this.run())
+    }
+  }
+
+  /**
+   * Resolve once the queue is empty and stays empty: every delivery, and the promise work
+   * and deliveries it triggers, has run. Work waiting on timers is not awaited.
+   */
+  async flush(): Promise<void> {
+    for (let idle = 0; idle < FLUSH_IDLE_TURNS; ) {
+      await new Promise<void>((resolve) => realSetImmediate(resolve))
+      idle = this.queue.length === 0 ? idle + 1 : 0
+    }
+  }
+
+  /** Drop queued deliveries and ignore new ones */
+  close(): void {
+    this.closed = true
+    this.queue = []
+  }
+
+  private run(): void {
+    const task = this.queue.shift()
+    if (this.queue.length > 0) {
+      realSetImmediate(() => this.run())
+    } else {
+      this.scheduled = false
+    }
+    // Listener errors surface as uncaught, like they would in a real process
+    task?.()
+  }
+}
+
+/**
+ * One end of a TestMessageChannel
+ * Speaks both the DOM MessagePort API used by renderers (`onmessage`, `addEventListener`)
+ * and the MessagePortMain API used by main and utility processes (`on`). Messages are
+ * structured-cloned when posted and held until the port is started.
+ */
+export class TestMessagePort implements DirectIpcTransportPort {
+  /** @internal */
+  peer: TestMessagePort | undefined
+
+  private handler: PortListener | null = null
+  private messageListeners: PortListener[] = []
+  private closeListeners: (() => void)[] = []
+  private pending: DirectIpcTransportEvent<TestMessagePort>[] = []
+  private started = false
+  private closed = false
+
+  constructor(private readonly scheduler: TestScheduler) {}
+
+  get onmessage(): PortListener | null {
+    return this.handler
+  }
+
+  /** Assigning a handler starts the port, as with a DOM MessagePort */
+  set onmessage(handler: PortListener | null) {
+    this.handler = handler
+    if (handler) this.start()
+  }
+
+  postMessage(message: unknown, transfer: unknown[] = []): void {
+    if (this.closed) return
+    const ports = transfer.filter((item) => item instanceof TestMessagePort)
+    const transferables = transfer.filter((item) => !(item instanceof TestMessagePort))
+    const data = structuredClone(message, { transfer: transferables as Transferable[] })
+    const peer = this.peer
+    this.scheduler.post(() => peer?.receive({ data, ports }))
+  }
+
+  on(event: 'message', listener: PortListener): this
+  on(event: 'close', listener: () => void): this
+  on(event: 'message' | 'close', listener: PortListener): this {
+    this.addEventListener(event, listener)
+    if (event === 'message') this.start()
+    return this
+  }
+
+  addEventListener(event: 'message' | 'close', listener: PortListener): void {
+    if (event === 'close') {
+      this.closeListeners.push(() => listener({ data: undefined, ports: [] }))
+    } else {
+      this.messageListeners.push(listener)
+    }
+  }
+
+  start(): void {
+    if (this.started) return
+    this.started = true
+    const pending = this.pending
+    this.pending = []
+    for (const event of pending) this.scheduler.post(() => this.dispatch(event))
+  }
+
+  /** Close both ends; the other end emits 'close' */
+  close(): void {
+    if (this.closed) return
+    this.closed = true
+    const peer = this.peer
+    this.peer = undefined
+    if (peer) {
+      peer.peer = undefined
+      this.scheduler.post(() => peer.remoteClosed())
+    }
+  }
+
+  private receive(event: DirectIpcTransportEvent<TestMessagePort>): void {
+    if (this.closed) return
+    if (this.started) this.dispatch(event)
+    else this.pending.push(event)
+  }
+
+  private dispatch(event: DirectIpcTransportEvent<TestMessagePort>): void {
+    if (this.closed) return
+    this.handler?.(event)
+    for (const listener of [...this.messageListeners]) listener(event)
+  }
+
+  private remoteClosed(): void {
+    if (this.closed) return
+    this.closed = true
+    for (const listener of [...this.closeListeners]) listener()
+  }
+}
+
+/**
+ * A pair of entangled TestMessagePorts
+ */
+export class TestMessageChannel {
+  readonly port1: TestMessagePort
+  readonly port2: TestMessagePort
+
+  constructor(scheduler: TestScheduler) {
+    this.port1 = new TestMessagePort(scheduler)
+    this.port2 = new TestMessagePort(scheduler)
+    this.port1.peer = this.port2
+    this.port2.peer = this.port1
+  }
+}
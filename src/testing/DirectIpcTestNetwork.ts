@@ -0,0 +1,447 @@
+/**
+ * In-memory DirectIpc network for testing application code without Electron
+ * A real DirectIpcMain brokers real DirectIpcRenderer and DirectIpcUtility instances; only
+ * ipcMain, webContents, utility processes and MessageChannels are replaced by in-process
+ * stand-ins that deliver through one deterministic queue.
+ */
+
+import { EventEmitter } from 'events'
+import { DirectIpcMain, DirectIpcMainOptions } from '../main/DirectIpcMain.js'
+import { DirectIpcRenderer, DirectIpcRendererOptions } from '../renderer/DirectIpcRenderer.js'
+import { DirectIpcUtility, DirectIpcUtilityOptions } from '../utility/DirectIpcUtility.js'
+import { DirectIpcLogger } from '../common/DirectIpcLogger.js'
+import { EventMap, InvokeMap } from '../common/DirectIpcTypes.js'
+import type {
+  DirectIpcChildTransport,
+  DirectIpcParentTransport,
+  DirectIpcTransportEvent,
+  DirectIpcTransportPort,
+} from '../common/DirectIpcTransport.js'
+import { TestMessageChannel, TestMessagePort, TestScheduler } from './DirectIpcTestChannel.js'
+
+/** First process id handed to test utility processes */
+const FIRST_UTILITY_PID = 1000
+
+const silentLogger: DirectIpcLogger = {}
+
+type IpcMainHandler = (event: { sender: TestWebContents }, ...args: unknown[]) => unknown
+type IpcRendererListener = (
+  event: { sender: TestIpcRenderer; ports: TestMessagePort[] },
+  ...args: unknown[]
+) => void
+type ParentListener = (event: DirectIpcTransportEvent<DirectIpcTransportPort>) => void
+
+/**
+ * Options for createTestNetwork()
+ */
+export interface TestNetworkOptions<
+  TMessageMap extends EventMap = EventMap,
+  TInvokeMap extends InvokeMap = InvokeMap,
+  TIdentifierStrings extends string = string,
+> {
+  /** Renderers to create, by identifier */
+  renderers?: TIdentifierStrings[]
+  /** Utility processes to create and register, by identifier */
+  utilities?: TIdentifierStrings[]
+  /** Options for DirectIpcMain (the transport is always the in-memory one) */
+  main?: Omit<DirectIpcMainOptions<TMessageMap, TInvokeMap>, 'transport'>
+  /** Logger for every process (default: silent) */
+  log?: DirectIpcLogger
+}
+
+/**
+ * Options for a renderer added to a test network
+ */
+export type TestRendererOptions<
+  TMessageMap extends EventMap = EventMap,
+  TInvokeMap extends InvokeMap = InvokeMap,
+  TIdentifierStrings extends string = string,
+> = Omit<DirectIpcRendererOptions<TIdentifierStrings, TMessageMap, TInvokeMap>, 'identifier'> & {
+  /** URL the renderer's webContents reports (default: `app://<identifier>/`) */
+  url?: string
+}
+
+/**
+ * Options for a utility process added to a test network
+ */
+export type TestUtilityOptions<
+  TMessageMap extends EventMap = EventMap,
+  TInvokeMap extends InvokeMap = InvokeMap,
+  TIdentifierStrings extends string = string,
+> = Omit<
+  DirectIpcUtilityOptions<TIdentifierStrings, TMessageMap, TInvokeMap>,
+  'identifier' | 'transport'
+> & {
+  /** Pool the utility process joins (see spawnPool) */
+  pool?: string
+}
+
+/**
+ * A DirectIpcMain with renderers and utility processes wired in memory
+ */
+export interface TestNetwork<
+  TMessageMap extends EventMap = EventMap,
+  TInvokeMap extends InvokeMap = InvokeMap,
+  TIdentifierStrings extends string = string,
+> {
+  readonly main: DirectIpcMain<TMessageMap, TInvokeMap, TIdentifierStrings>
+  readonly renderers: Record<
+    TIdentifierStrings,
+    DirectIpcRenderer<TMessageMap, TInvokeMap, TIdentifierStrings>
+  >
+  readonly utilities: Record<
+    TIdentifierStrings,
+    DirectIpcUtility<TMessageMap, TInvokeMap, TIdentifierStrings>
+  >
+  /** Open a renderer; it registers with main on the next flush() */
+  addRenderer(
+    identifier: TIdentifierStrings,
+    options?: TestRendererOptions<TMessageMap, TInvokeMap, TIdentifierStrings>
+  ): DirectIpcRenderer<TMessageMap, TInvokeMap, TIdentifierStrings>
+  /** Start a utility process and register it with main */
+  addUtility(
+    identifier: TIdentifierStrings,
+    options?: TestUtilityOptions<TMessageMap, TInvokeMap, TIdentifierStrings>
+  ): DirectIpcUtility<TMessageMap, TInvokeMap, TIdentifierStrings>
+  /** Close a renderer's window: its ports close and main unregisters it */
+  destroyRenderer(identifier: TIdentifierStrings): void
+  /** Make a utility process exit with `code`: its ports close and main sees the exit */
+  exitUtility(identifier: TIdentifierStrings, code?: number): void
+  /** Resolve once every queued message, invoke and port has been delivered */
+  flush(): Promise<void>
+  /** Close every port, reject pending invokes and stop delivering */
+  close(): void
+}
+
+/**
+ * Stand-in for ipcMain: keeps the handlers DirectIpcMain registers
+ */
+class TestIpcMain {
+  /** @internal */
+  readonly handlers = new Map<string, IpcMainHandler>()
+
+  handle(channel: string, handler: IpcMainHandler): void {
+    this.handlers.set(channel, handler)
+  }
+
+  removeHandler(channel: string): void {
+    this.handlers.delete(channel)
+  }
+}
+
+/**
+ * Stand-in for a renderer's ipcRenderer
+ */
+class TestIpcRenderer {
+  private listeners = new Map<string, IpcRendererListener[]>()
+
+  constructor(
+    private readonly webContents: TestWebContents,
+    private readonly ipcMain: TestIpcMain,
+    private readonly scheduler: TestScheduler
+  ) {}
+
+  on(channel: string, listener: IpcRendererListener): this {
+    this.listeners.set(channel, [...(this.listeners.get(channel) ?? []), listener])
+    return this
+  }
+
+  /** Invoke a main handler, with arguments and result cloned like Electron does */
+  invoke(channel: string, ...args: unknown[]): Promise<unknown> {
+    const cloned = structuredClone(args)
+    return new Promise((resolve, reject) => {
+      this.scheduler.post(() => {
+        const handler = this.ipcMain.handlers.get(channel)
+        const fail = (error: unknown) =>
+          this.scheduler.post(() =>
+            reject(new Error(`Error invoking remote method '${channel}': ${String(error)}`))
+          )
+        const reply = (result: unknown) => {
+          const value = structuredClone(result)
+          this.scheduler.post(() => resolve(value))
+        }
+        if (!handler) {
+          fail(new Error(`No handler registered for '${channel}'`))
+          return
+        }
+        // Like Electron, a synchronous handler's reply is queued before anything sent later
+        let result: unknown
+        try {
+          result = handler({ sender: this.webContents }, ...cloned)
+        } catch (error) {
+          fail(error)
+          return
+        }
+        if (result instanceof Promise) result.then(reply, fail)
+        else reply(result)
+      })
+    })
+  }
+
+  /** @internal */
+  deliver(channel: string, ports: TestMessagePort[], args: unknown[]): void {
+    for (const listener of this.listeners.get(channel) ?? []) {
+      listener({ sender: this, ports }, ...args)
+    }
+  }
+}
+
+/**
+ * Stand-in for a renderer's webContents as DirectIpcMain sees it
+ */
+class TestWebContents extends EventEmitter {
+  readonly ipcRenderer: TestIpcRenderer
+  private destroyed = false
+
+  constructor(
+    readonly id: number,
+    private readonly url: string,
+    ipcMain: TestIpcMain,
+    private readonly scheduler: TestScheduler
+  ) {
+    super()
+    this.ipcRenderer = new TestIpcRenderer(this, ipcMain, scheduler)
+  }
+
+  getURL(): string {
+    return this.url
+  }
+
+  isDestroyed(): boolean {
+    return this.destroyed
+  }
+
+  send(channel: string, ...args: unknown[]): void {
+    if (this.destroyed) return
+    const cloned = structuredClone(args)
+    this.scheduler.post(() => this.ipcRenderer.deliver(channel, [], cloned))
+  }
+
+  postMessage(channel: string, message: unknown, transfer: TestMessagePort[] = []): void {
+    if (this.destroyed) return
+    const cloned = structuredClone(message)
+    this.scheduler.post(() => this.ipcRenderer.deliver(channel, transfer, [cloned]))
+  }
+
+  /** @internal */
+  destroy(): void {
+    if (this.destroyed) return
+    this.destroyed = true
+    this.emit('destroyed')
+  }
+}
+
+/**
+ * Stand-in for a utility process as DirectIpcMain sees it
+ */
+class TestUtilityProcess extends EventEmitter implements DirectIpcChildTransport {
+  readonly parentPort: TestParentPort
+  /** @internal */
+  utility: DirectIpcUtility | undefined
+  private exited = false
+
+  constructor(
+    readonly pid: number,
+    private readonly scheduler: TestScheduler
+  ) {
+    super()
+    this.parentPort = new TestParentPort(this, scheduler)
+  }
+
+  get isExited(): boolean {
+    return this.exited
+  }
+
+  postMessage(message: unknown, transfer: DirectIpcTransportPort[] = []): void {
+    if (this.exited) return
+    const data = structuredClone(message)
+    this.scheduler.post(() => this.parentPort.receive({ data, ports: transfer }))
+  }
+
+  kill(): boolean {
+    this.exit(0)
+    return true
+  }
+
+  /** @internal */
+  exit(code: number): void {
+    if (this.exited) return
+    this.exited = true
+    this.utility?.clearPendingInvokes()
+    this.utility?.closeAllPorts()
+    this.scheduler.post(() => this.emit('exit', code))
+  }
+
+  /** @internal */
+  receive(data: unknown): void {
+    if (!this.exited) this.emit('message', data)
+  }
+}
+
+/**
+ * Stand-in for process.parentPort inside a test utility process
+ */
+class TestParentPort implements DirectIpcParentTransport {
+  private listeners = new Set<ParentListener>()
+
+  constructor(
+    private readonly proc: TestUtilityProcess,
+    private readonly scheduler: TestScheduler
+  ) {}
+
+  postMessage(message: unknown): void {
+    if (this.proc.isExited) return
+    const data = structuredClone(message)
+    this.scheduler.post(() => this.proc.receive(data))
+  }
+
+  on(_event: 'message', listener: ParentListener): this {
+    this.listeners.add(listener)
+    return this
+  }
+
+  removeListener(_event: 'message', listener: ParentListener): this {
+    this.listeners.delete(listener)
+    return this
+  }
+
+  /** @internal */
+  receive(event: DirectIpcTransportEvent<DirectIpcTransportPort>): void {
+    if (this.proc.isExited) return
+    for (const listener of [...this.listeners]) listener(event)
+  }
+}
+
+/**
+ * Create an in-memory network of a DirectIpcMain, renderers and utility processes
+ * Registration, map updates and port brokering run through the real DirectIpcMain. Await
+ * flush() after creating the network (and after adding processes) before using it.
+ *
+ * @example
+ * const network = createTestNetwork<Messages, Invokes, 'editor' | 'worker'>({
+ *   renderers: ['editor'],
+ *   utilities: ['worker'],
+ * })
+ * network.utilities.worker.handle('add', (_sender, a, b) => a + b)
+ * await network.flush()
+ * expect(await network.renderers.editor.invoke({ identifier: 'worker' }, 'add', 1, 2)).toBe(3)
+ * network.close()
+ */
+export function createTestNetwork<
+  TMessageMap extends EventMap = EventMap,
+  TInvokeMap extends InvokeMap = InvokeMap,
+  TIdentifierStrings extends string = string,
+>(
+  options: TestNetworkOptions<TMessageMap, TInvokeMap, TIdentifierStrings> = {}
+): TestNetwork<TMessageMap, TInvokeMap, TIdentifierStrings> {
+  type Renderer = DirectIpcRenderer<TMessageMap, TInvokeMap, TIdentifierStrings>
+  type Utility = DirectIpcUtility<TMessageMap, TInvokeMap, TIdentifierStrings>
+
+  const log = options.log ?? silentLogger
+  const scheduler = new TestScheduler()
+  const ipcMain = new TestIpcMain()
+  const webContents = new Map<number, TestWebContents>()
+  const processes = new Map<string, TestUtilityProcess>()
+  const rendererContents = new Map<string, TestWebContents>()
+  let nextWebContentsId = 1
+  let nextPid = FIRST_UTILITY_PID
+
+  const main = DirectIpcMain._createInstance<TMessageMap, TInvokeMap, TIdentifierStrings>(
+    { log, ...options.main },
+    {
+      ipcMain: ipcMain as unknown as Electron.IpcMain,
+      webContents: {
+        fromId: (id: number) => webContents.get(id),
+      } as unknown as typeof Electron.webContents,
+      transport: { createChannel: () => new TestMessageChannel(scheduler) },
+    }
+  )
+
+  const renderers = {} as Record<TIdentifierStrings, Renderer>
+  const utilities = {} as Record<TIdentifierStrings, Utility>
+
+  const lookup = <T>(map: Map<string, T>, identifier: string, kind: string): T => {
+    const value = map.get(identifier)
+    if (!value) throw new Error(`createTestNetwork - No ${kind} "${identifier}"`)
+    return value
+  }
+
+  const network: TestNetwork<TMessageMap, TInvokeMap, TIdentifierStrings> = {
+    main,
+    renderers,
+    utilities,
+
+    addRenderer(identifier, { url, ...rendererOptions } = {}) {
+      const contents = new TestWebContents(
+        nextWebContentsId++,
+        url ?? `app://${identifier}/`,
+        ipcMain,
+        scheduler
+      )
+      webContents.set(contents.id, contents)
+      rendererContents.set(identifier, contents)
+      const renderer = DirectIpcRenderer._createInstance<
+        TMessageMap,
+        TInvokeMap,
+        TIdentifierStrings
+      >(
+        { log, ...rendererOptions, identifier },
+        { ipcRenderer: contents.ipcRenderer as unknown as Electron.IpcRenderer }
+      )
+      renderers[identifier] = renderer
+      return renderer
+    },
+
+    addUtility(identifier, { pool, ...utilityOptions } = {}) {
+      const proc = new TestUtilityProcess(nextPid++, scheduler)
+      processes.set(identifier, proc)
+      const utility = new DirectIpcUtility<TMessageMap, TInvokeMap, TIdentifierStrings>({
+        log,
+        ...utilityOptions,
+        identifier,
+        transport: proc.parentPort,
+      })
+      proc.utility = utility as unknown as DirectIpcUtility
+      utilities[identifier] = utility
+      main.registerUtilityProcess(identifier, proc, pool ? { pool } : {})
+      return utility
+    },
+
+    destroyRenderer(identifier) {
+      const contents = lookup(rendererContents, identifier, 'renderer')
+      const renderer = renderers[identifier]
+      renderer.clearPendingInvokes()
+      renderer.closeAllPorts()
+      contents.destroy()
+      webContents.delete(contents.id)
+      rendererContents.delete(identifier)
+      delete renderers[identifier]
+    },
+
+    exitUtility(identifier, code = 0) {
+      lookup(processes, identifier, 'utility process').exit(code)
+      processes.delete(identifier)
+      delete utilities[identifier]
+    },
+
+    flush: () => scheduler.flush(),
+
+    close() {
+      const participants = [
+        main,
+        ...(Object.values(renderers) as Renderer[]),
+        ...(Object.values(utilities) as Utility[]),
+      ]
+      for (const participant of participants) {
+        participant.setHeartbeat(false)
+        participant.clearPendingInvokes()
+        participant.closeAllPorts()
+      }
+      scheduler.close()
+    },
+  }
+
+  for (const identifier of options.renderers ?? []) network.addRenderer(identifier)
+  for (const identifier of options.utilities ?? []) network.addUtility(identifier)
+  return network
+}
@@ -0,0 +1,14 @@
+/**
+ * electron-direct-ipc/testing
+ *
+ * In-memory DirectIpc network for unit-testing application code without Electron
+ */
+
+export { createTestNetwork } from './DirectIpcTestNetwork.js'
+export type {
+  TestNetwork,
+  TestNetworkOptions,
+  TestRendererOptions,
+  TestUtilityOptions,
+} from './DirectIpcTestNetwork.js'
+export { TestMessageChannel, TestMessagePort, TestScheduler } from './DirectIpcTestChannel.js'
@@ -4,24 +4,37 @@
  */
 
 import {
+  DIRECT_IPC_CAPABILITIES,
   DIRECT_IPC_CHANNELS,
   DirectIpcMapUpdateMessage,
+  DirectIpcPortDeniedMessage,
   DirectIpcPortMessage,
+  DirectIpcShutdownMessage,
   DirectIpcTarget,
   EventMap,
   InvokeMap,
   TargetSelector,
-  DirectIpcMessage,
-  InvokeMessage,
-  InvokeResponse,
+  PoolSelector,
+  InvokeOptions,
   DirectIpcBase,
   CachedPort,
+  deserializeError,
+  DirectIpcRetentionOptions,
+  DirectIpcHeartbeatOptions,
 } from '../common/index.js'
+import { DirectIpcTransferable, isPortLike } from '../common/DirectIpcTransfer.js'
+import { DirectIpcCodecOptions } from '../common/DirectIpcCodec.js'
+import { DirectIpcChaosOptions } from '../common/DirectIpcChaos.js'
+import {
+  DirectIpcTapEvent,
+  DirectIpcTapOptions,
+  DirectIpcTapRequest,
+} from '../common/DirectIpcTap.js'
+import { DirectIpcReplayMessage } from '../common/DirectIpcRecording.js'
 import { DirectIpcLogger, consoleLogger } from '../common/DirectIpcLogger.js'
 import { DirectIpcUtilityThrottled } from './DirectIpcUtilityThrottled.js'
-
-// Electron provides process.parentPort in utility processes
-// The type is available via @types/node
+import { DirectIpcValidationOptions } from '../common/DirectIpcValidation.js'
+import { DirectIpcParentTransport, DirectIpcTransportPort } from '../common/DirectIpcTransport.js'
 
 /**
  * Registration state for utility process during initialization
@@ -41,7 +54,7 @@ export enum RegistrationState {
  * Queued message structure for messages sent before registration completes
  */
 export interface QueuedMessage {
-  target: TargetSelector
+  target: TargetSelector | PoolSelector
   message: string
   args: unknown[]
   throttled: boolean
@@ -51,11 +64,28 @@ export interface QueuedMessage {
 /**
  * Options for DirectIpcUtility
  */
-export interface DirectIpcUtilityOptions<TIdentifierStrings extends string = string> {
+export interface DirectIpcUtilityOptions<
+  TIdentifierStrings extends string = string,
+  TMessageMap extends EventMap = EventMap,
+  TInvokeMap extends InvokeMap = InvokeMap,
+>
+  extends
+    DirectIpcValidationOptions<TMessageMap, TInvokeMap>,
+    DirectIpcRetentionOptions<TMessageMap>,
+    DirectIpcCodecOptions,
+    DirectIpcHeartbeatOptions,
+    DirectIpcChaosOptions,
+    DirectIpcTapOptions {
   log?: DirectIpcLogger
   identifier?: TIdentifierStrings
   defaultTimeout?: number
   registrationTimeout?: number
+  /**
+   * Link to the process running DirectIpcMain (defaults to Electron's process.parentPort)
+   * Pass workerParentTransport() or childProcessParentTransport() from
+   * electron-direct-ipc/node to run in a Node worker thread or child process instead.
+   */
+  transport?: DirectIpcParentTransport
 }
 
 /**
@@ -70,7 +100,7 @@ export class DirectIpcUtility<
   TMessageMap extends EventMap = EventMap,
   TInvokeMap extends InvokeMap = InvokeMap,
   TIdentifierStrings extends string = string,
-> extends DirectIpcBase<TMessageMap, TInvokeMap, TIdentifierStrings, Electron.MessagePortMain> {
+> extends DirectIpcBase<TMessageMap, TInvokeMap, TIdentifierStrings, DirectIpcTransportPort> {
   // Singleton
   private static _instance: DirectIpcUtility | null = null
 
@@ -90,13 +120,13 @@ export class DirectIpcUtility<
     TInvokeMap extends InvokeMap = InvokeMap,
     TProcessIdentifier extends string = string,
   >(
-    options?: DirectIpcUtilityOptions<TProcessIdentifier>
+    options?: DirectIpcUtilityOptions<TProcessIdentifier, TMessageMap, TInvokeMap>
   ): DirectIpcUtility<TMessageMap, TInvokeMap, TProcessIdentifier> {
-    if (!DirectIpcUtility.isUtilityProcess()) {
+    if (!DirectIpcUtility.isUtilityProcess() && !options?.transport) {
       throw new Error('DirectIpcUtility.instance() can only be called from a utility process')
     }
     if (!DirectIpcUtility._instance) {
-      DirectIpcUtility._instance = new DirectIpcUtility(options)
+      DirectIpcUtility._instance = new DirectIpcUtility(options as DirectIpcUtilityOptions)
     }
     if (options) {
       const { identifier, log, defaultTimeout, registrationTimeout } = options
@@ -112,6 +142,17 @@ export class DirectIpcUtility<
       if (registrationTimeout !== undefined) {
         DirectIpcUtility._instance.registrationTimeout = registrationTimeout
       }
+      const instance = DirectIpcUtility._instance as DirectIpcUtility<
+        TMessageMap,
+        TInvokeMap,
+        TProcessIdentifier
+      >
+      instance.configureValidation(options)
+      instance.configureRetention(options)
+      instance.configureCodecs(options)
+      instance.configureHeartbeat(options)
+      instance.configureChaos(options)
+      instance.configureTap(options)
     }
     return DirectIpcUtility._instance as DirectIpcUtility<
       TMessageMap,
@@ -121,11 +162,14 @@ export class DirectIpcUtility<
   }
 
   /** Cached ports to other processes, keyed by identifier */
-  private portCache = new Map<string, CachedPort<Electron.MessagePortMain>>()
+  private portCache = new Map<string, CachedPort<DirectIpcTransportPort>>()
 
   /** Registration timeout (ms) */
   private registrationTimeout = 5000
 
+  /** Link to DirectIpcMain set in the options; falls back to process.parentPort */
+  private transport: DirectIpcParentTransport | undefined
+
   /** Current registration state */
   private registrationState: RegistrationState = RegistrationState.UNINITIALIZED
 
@@ -145,7 +189,7 @@ export class DirectIpcUtility<
    */
   public readonly throttled: DirectIpcUtilityThrottled<TMessageMap, TInvokeMap, TIdentifierStrings>
 
-  constructor(options?: DirectIpcUtilityOptions<TIdentifierStrings>) {
+  constructor(options?: DirectIpcUtilityOptions<TIdentifierStrings, TMessageMap, TInvokeMap>) {
     super()
 
     this.log = options?.log || consoleLogger
@@ -154,6 +198,15 @@ export class DirectIpcUtility<
     }
     this.defaultTimeout = options?.defaultTimeout ?? 30000
     this.registrationTimeout = options?.registrationTimeout ?? 5000
+    this.transport = options?.transport
+    if (options) {
+      this.configureValidation(options)
+      this.configureRetention(options)
+      this.configureCodecs(options)
+      this.configureHeartbeat(options)
+      this.configureChaos(options)
+      this.configureTap(options)
+    }
 
     // Initialize throttled wrapper
     this.throttled = new DirectIpcUtilityThrottled(this, { log: this.log })
@@ -174,25 +227,55 @@ export class DirectIpcUtility<
   /**
    * Send message via a MessagePortMain
    */
-  protected postMessageToPort(port: Electron.MessagePortMain, message: unknown): void {
-    port.postMessage(message)
+  protected postMessageToPort(
+    port: DirectIpcTransportPort,
+    message: unknown,
+    transfer: DirectIpcTransferable[] = []
+  ): void {
+    // MessagePortMain can only transfer ports; other transferables are copied
+    const ports = transfer.filter(isPortLike) as DirectIpcTransportPort[]
+    if (ports.length > 0) {
+      port.postMessage(message, ports)
+    } else {
+      port.postMessage(message)
+    }
   }
 
   /**
    * Set up message listener on a MessagePortMain
    */
   protected setupPortListener(
-    port: Electron.MessagePortMain,
-    handler: (data: unknown) => void
+    port: DirectIpcTransportPort,
+    handler: (data: unknown, ports: readonly unknown[]) => void
   ): void {
-    port.on('message', (event) => handler(event.data))
+    port.on('message', (event) => handler(event.data, event.ports))
+  }
+
+  /**
+   * Send tap events to main over the parent port
+   */
+  protected reportTap(events: DirectIpcTapEvent[]): void {
+    this.parentPort?.postMessage({ channel: DIRECT_IPC_CHANNELS.TAP, events })
+  }
+
+  /**
+   * Post throttled sends before shutting down
+   */
+  protected flushThrottled(): Promise<void> {
+    return this.throttled.flush()
   }
 
   /**
    * Clean up a port when target is removed
    */
   protected cleanupPort(target: DirectIpcTarget): void {
-    this.portCache.delete(this.getPortCacheKey(target))
+    const key = this.getPortCacheKey(target)
+    const cached = this.portCache.get(key)
+    if (cached) {
+      cached.port.close()
+      this.portCache.delete(key)
+      this.portLost(cached.info, cached.port)
+    }
   }
 
   /**
@@ -203,6 +286,7 @@ export class DirectIpcUtility<
       cached.port.close()
     }
     this.portCache.clear()
+    this.connectedPorts.clear()
   }
 
   /**
@@ -269,7 +353,7 @@ export class DirectIpcUtility<
     webContentsId?: number
     identifier?: TIdentifierStrings | RegExp
     url?: string | RegExp
-  }): Promise<Electron.MessagePortMain> {
+  }): Promise<DirectIpcTransportPort> {
     // Find the target
     const targets = this.findTargets(target as TargetSelector<TIdentifierStrings>)
     if (targets.length === 0) {
@@ -312,11 +396,18 @@ export class DirectIpcUtility<
 
   // ===== UTILITY-SPECIFIC METHODS =====
 
+  /**
+   * Link to the process running DirectIpcMain
+   */
+  private get parentPort(): DirectIpcParentTransport | undefined {
+    return this.transport ?? process.parentPort
+  }
+
   /**
    * Initialize registration with main process
    */
   private initializeRegistration(): void {
-    const parentPort = process.parentPort
+    const parentPort = this.parentPort
     if (!parentPort) {
       const error = new Error(
         'DirectIpcUtility can only be used in a utility process with process.parentPort available'
@@ -349,6 +440,7 @@ export class DirectIpcUtility<
     parentPort.postMessage({
       channel: DIRECT_IPC_CHANNELS.UTILITY_REGISTER,
       identifier: this.myIdentifier,
+      capabilities: DIRECT_IPC_CAPABILITIES,
     })
 
     // Set registration timeout
@@ -373,7 +465,7 @@ export class DirectIpcUtility<
    * Handle messages from parent port (main process)
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private handleParentPortMessage(data: any, ports?: Electron.MessagePortMain[]): void {
+  private handleParentPortMessage(data: any, ports?: DirectIpcTransportPort[]): void {
     // Handle MAP_UPDATE
     if (data.channel === DIRECT_IPC_CHANNELS.MAP_UPDATE) {
       const mapData = data as DirectIpcMapUpdateMessage
@@ -381,6 +473,31 @@ export class DirectIpcUtility<
       return
     }
 
+    // Answer liveness pings from main (see HeartbeatOptions)
+    if (data.channel === DIRECT_IPC_CHANNELS.UTILITY_HEARTBEAT) {
+      this.parentPort?.postMessage({ channel: DIRECT_IPC_CHANNELS.UTILITY_HEARTBEAT })
+      return
+    }
+
+    // Tap while main records, replay what main hands over
+    if (data.channel === DIRECT_IPC_CHANNELS.TAP) {
+      this.handleTapRequest((data as DirectIpcTapRequest).tap)
+      return
+    }
+    if (data.channel === DIRECT_IPC_CHANNELS.REPLAY) {
+      this.handleReplayRequest(data as DirectIpcReplayMessage)
+      return
+    }
+
+    // Drain when main shuts us down, then report back
+    if (data.channel === DIRECT_IPC_CHANNELS.SHUTDOWN) {
+      const { timeout } = data as DirectIpcShutdownMessage
+      void this.drain({ timeout }).then(() => {
+        this.parentPort?.postMessage({ channel: DIRECT_IPC_CHANNELS.SHUTDOWN_COMPLETE })
+      })
+      return
+    }
+
     // Handle PORT_MESSAGE (when main sends us a MessagePort to communicate with a renderer/utility)
     if (data.channel === DIRECT_IPC_CHANNELS.PORT_MESSAGE) {
       const portData = data as DirectIpcPortMessage
@@ -395,17 +512,26 @@ export class DirectIpcUtility<
   /**
    * Handle new MessagePort from main process
    */
-  private handleNewPort(port: Electron.MessagePortMain, sender: DirectIpcTarget): void {
+  private handleNewPort(port: DirectIpcTransportPort, sender: DirectIpcTarget): void {
     const targetId = this.getPortCacheKey(sender)
 
     // Cache the port
     this.portCache.set(targetId, { port, info: sender })
+    this.portEstablished(sender, port)
     this.localEvents.emit('message-port-added', sender)
 
     // Set up port message handler
     port.on('message', (event) => {
       const data = event.data
-      this.handlePortMessage(data, sender)
+      this.handlePortMessage(data, sender, event.ports)
+    })
+
+    // The other end went away (e.g. the target reloaded or exited)
+    port.on('close', () => {
+      if (this.portCache.get(targetId)?.port === port) {
+        this.portCache.delete(targetId)
+        this.portLost(sender, port)
+      }
     })
 
     port.start()
@@ -414,82 +540,20 @@ export class DirectIpcUtility<
   /**
    * Handle messages from MessagePort
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private handlePortMessage(data: any, sender: DirectIpcTarget): void {
-    // Handle invoke requests
-    if (data.type === 'invoke') {
-      this.handleInvokeRequest(data as InvokeMessage, sender)
-      return
-    }
-
-    // Handle invoke responses
-    if (data.type === 'invoke-response') {
-      this.handleInvokeResponse(data as InvokeResponse)
-      return
-    }
-
-    // Handle regular messages
-    if (data.message) {
-      const { message, args } = data as DirectIpcMessage
+  private handlePortMessage(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    data: any,
+    sender: DirectIpcTarget,
+    ports: readonly unknown[] = []
+  ): void {
+    if (data?.message) {
       this.log.debug?.(
-        `DirectIpcUtility::handlePortMessage - Received message "${String(message)}" from ${sender.identifier || sender.id}`
+        `DirectIpcUtility::handlePortMessage - Received message "${String(data.message)}" from ${sender.identifier || sender.id}`
       )
-      // Type assertion needed due to complex generic type manipulation
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      ;(super.emit as any)(message, sender, ...(args || []))
-      this.localEvents.emit('message', sender, data)
     }
-  }
 
-  /**
-   * Handle invoke request from another process
-   */
-  private async handleInvokeRequest(
-    request: InvokeMessage,
-    sender: DirectIpcTarget
-  ): Promise<void> {
-    const { channel, requestId, args } = request
-    const handler = this.handlers.get(channel)
-
-    if (!handler) {
-      // Send error response
-      const targetId = this.getPortCacheKey(sender)
-      const cachedPort = this.portCache.get(targetId)
-      if (cachedPort) {
-        cachedPort.port.postMessage({
-          type: 'invoke-response',
-          requestId,
-          success: false,
-          error: `No handler registered for channel: ${channel}`,
-        } as InvokeResponse)
-      }
-      return
-    }
-
-    try {
-      const result = await handler(sender, ...args)
-      const targetId = this.getPortCacheKey(sender)
-      const cachedPort = this.portCache.get(targetId)
-      if (cachedPort) {
-        cachedPort.port.postMessage({
-          type: 'invoke-response',
-          requestId,
-          success: true,
-          data: result,
-        } as InvokeResponse)
-      }
-    } catch (error) {
-      const targetId = this.getPortCacheKey(sender)
-      const cachedPort = this.portCache.get(targetId)
-      if (cachedPort) {
-        cachedPort.port.postMessage({
-          type: 'invoke-response',
-          requestId,
-          success: false,
-          error: error instanceof Error ? error.message : String(error),
-        } as InvokeResponse)
-      }
-    }
+    const cachedPort = this.portCache.get(this.getPortCacheKey(sender))
+    this.handlePortData(cachedPort?.port, data, sender, ports)
   }
 
   /**
@@ -507,8 +571,12 @@ export class DirectIpcUtility<
 
     for (const queuedMsg of queue) {
       try {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await (this.send as any)(queuedMsg.target, queuedMsg.message, ...queuedMsg.args)
+        // Queued messages already passed through the middleware
+        await this.dispatchSend(
+          queuedMsg.target as TargetSelector<TIdentifierStrings> | PoolSelector,
+          queuedMsg.message,
+          queuedMsg.args
+        )
       } catch (error) {
         this.log.error?.(
           `DirectIpcUtility::flushMessageQueue - Error flushing message "${queuedMsg.message}":`,
@@ -522,18 +590,31 @@ export class DirectIpcUtility<
    * Send a message to another process
    */
   public async send<K extends keyof TMessageMap>(
-    target: TargetSelector<TIdentifierStrings>,
+    target: TargetSelector<TIdentifierStrings> | PoolSelector,
     message: K,
     ...args: Parameters<TMessageMap[K]>
+  ): Promise<void> {
+    return this.runOutgoing('message', target, String(message), args, (middlewareArgs) =>
+      this.dispatchSend(target, String(message), middlewareArgs)
+    )
+  }
+
+  /**
+   * Send a message once it has passed through the middleware
+   */
+  private async dispatchSend(
+    target: TargetSelector<TIdentifierStrings> | PoolSelector,
+    message: string,
+    args: unknown[]
   ): Promise<void> {
     // Queue message if not registered yet
     if (this.registrationState !== RegistrationState.REGISTERED) {
       this.log.debug?.(
-        `DirectIpcUtility::send - Queuing message "${String(message)}" (state: ${this.registrationState})`
+        `DirectIpcUtility::send - Queuing message "${message}" (state: ${this.registrationState})`
       )
       this.messageQueue.push({
         target,
-        message: String(message),
+        message,
         args,
         throttled: false,
         timestamp: Date.now(),
@@ -541,27 +622,35 @@ export class DirectIpcUtility<
       return
     }
 
+    if ('pool' in target) {
+      return this.sendToPool(target, String(message), args)
+    }
+
     // Find target processes
     const targets = this.findTargets(target)
     if (targets.length === 0) {
       this.log.warn?.(`DirectIpcUtility::send - No targets found for message "${String(message)}"`)
+      this.retainMessage(target, String(message), args)
       return
     }
 
+    this.assertTransferTargets(targets.length, args)
+
     // Send to each target
     for (const t of targets) {
       this.log.debug?.(`DirectIpcUtility::send - Calling sendToTarget for ${t.identifier || t.id}`)
       await this.sendToTarget(t, message, args)
     }
+    this.retainMessage(target, String(message), args)
   }
 
   /**
    * Send message to a specific target
    */
-  private async sendToTarget<K extends keyof TMessageMap>(
+  private async sendToTarget(
     target: DirectIpcTarget,
-    message: K,
-    args: Parameters<TMessageMap[K]>
+    message: string,
+    args: unknown[]
   ): Promise<void> {
     const targetId = this.getPortCacheKey(target)
 
@@ -591,25 +680,17 @@ export class DirectIpcUtility<
       `DirectIpcUtility::sendToTarget - Sending message "${String(message)}" to ${targetId}`
     )
 
-    cachedPort.port.postMessage(messageData)
+    this.postArgs(cachedPort.port, messageData)
   }
 
   /**
    * Request a MessagePort for a target process
    */
-  private async requestPort(target: DirectIpcTarget): Promise<Electron.MessagePortMain> {
-    const parentPort = (process as NodeJS.Process & { parentPort?: unknown })
-      .parentPort as unknown as
-      | {
-          postMessage: (value: unknown, transfer?: unknown[]) => void
-          on: (
-            event: string,
-            listener: (event: { data: unknown; ports?: Electron.MessagePortMain[] }) => void
-          ) => void
-          removeListener: (event: string, listener: (...args: unknown[]) => void) => void
-        }
-      | undefined
-
+  private async requestPort(
+    target: DirectIpcTarget,
+    fresh = false
+  ): Promise<DirectIpcTransportPort> {
+    const parentPort = this.parentPort
     if (!parentPort) {
       throw new Error('DirectIpcUtility::requestPort - process.parentPort not available')
     }
@@ -622,10 +703,25 @@ export class DirectIpcUtility<
         reject(new Error('Timeout waiting for MessagePort'))
       }, this.defaultTimeout)
 
-      // Listen for PORT_MESSAGE response
-      const portMessageHandler = (event: { data: unknown; ports?: Electron.MessagePortMain[] }) => {
+      // Listen for PORT_MESSAGE (or PORT_DENIED) response
+      const portMessageHandler = (event: { data: unknown; ports?: DirectIpcTransportPort[] }) => {
         const data = event.data as { channel?: string }
 
+        if (data.channel === DIRECT_IPC_CHANNELS.PORT_DENIED) {
+          const denied = data as DirectIpcPortDeniedMessage
+          const deniedTarget =
+            (target.identifier && denied.target.identifier === target.identifier) ||
+            (target.webContentsId && denied.target.webContentsId === target.webContentsId)
+          if (!deniedTarget) {
+            return
+          }
+
+          clearTimeout(timeout)
+          parentPort.removeListener('message', portMessageHandler as (...args: unknown[]) => void)
+          reject(deserializeError(denied.error))
+          return
+        }
+
         if (data.channel !== DIRECT_IPC_CHANNELS.PORT_MESSAGE) {
           return
         }
@@ -660,6 +756,7 @@ export class DirectIpcUtility<
       parentPort.postMessage({
         channel: DIRECT_IPC_CHANNELS.GET_PORT,
         target,
+        ...(fresh ? { fresh } : {}),
       })
     })
   }
@@ -668,13 +765,42 @@ export class DirectIpcUtility<
    * Invoke a handler on another process
    */
   public async invoke<K extends keyof TInvokeMap>(
-    target: Omit<TargetSelector<TIdentifierStrings>, 'allIdentifiers' | 'allUrls'>,
+    target: Omit<TargetSelector<TIdentifierStrings>, 'allIdentifiers' | 'allUrls'> | PoolSelector,
     channel: K,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     ...argsWithOptions: any[]
   ): Promise<Awaited<ReturnType<TInvokeMap[K]>>> {
     // Extract options from args
     const { options, invokeArgs } = this.extractInvokeOptions(argsWithOptions)
+    options?.signal?.throwIfAborted()
+
+    return this.runOutgoing(
+      'invoke',
+      target as TargetSelector<TIdentifierStrings> | PoolSelector,
+      String(channel),
+      invokeArgs,
+      (middlewareArgs) =>
+        this.dispatchInvoke<Awaited<ReturnType<TInvokeMap[K]>>>(
+          target,
+          String(channel),
+          options,
+          middlewareArgs
+        )
+    )
+  }
+
+  /**
+   * Invoke a handler once the call has passed through the middleware
+   */
+  private async dispatchInvoke<T>(
+    target: Omit<TargetSelector<TIdentifierStrings>, 'allIdentifiers' | 'allUrls'> | PoolSelector,
+    channel: string,
+    options: InvokeOptions | undefined,
+    args: unknown[]
+  ): Promise<T> {
+    if ('pool' in target) {
+      return this.invokePool<T>(target, channel, options, args)
+    }
 
     // Find single target
     const targets = this.findTargets(target as TargetSelector<TIdentifierStrings>)
@@ -685,8 +811,21 @@ export class DirectIpcUtility<
       throw new Error('Multiple targets found for invoke (use single target selector)')
     }
 
-    const targetProcess = targets[0]!
+    return this.invokeTarget<T>(targets[0]!, channel, options, args)
+  }
+
+  /**
+   * Get the port to a known target, requesting one if none is cached
+   */
+  protected async getTargetPort(
+    targetProcess: DirectIpcTarget,
+    fresh = false
+  ): Promise<DirectIpcTransportPort> {
     const targetId = this.getPortCacheKey(targetProcess)
+    if (fresh) {
+      this.cleanupPort(targetProcess)
+      return this.requestPort(targetProcess, true)
+    }
 
     // Get or request port
     let cachedPort = this.portCache.get(targetId)
@@ -698,28 +837,20 @@ export class DirectIpcUtility<
     if (!cachedPort) {
       throw new Error(`No port available for ${targetId}`)
     }
+    return cachedPort.port
+  }
 
-    // Generate request ID and create promise
-    const requestId = this.createInvokeRequestId()
-    const timeoutMs = options?.timeout || this.defaultTimeout
-
-    const promise = this.createInvokePromise<Awaited<ReturnType<TInvokeMap[K]>>>(
-      requestId,
-      timeoutMs,
-      String(channel)
-    )
-
-    // Send invoke message
-    const invokeMessage: InvokeMessage = {
-      type: 'invoke',
-      channel: String(channel),
-      requestId,
-      args: invokeArgs,
-    }
-
-    cachedPort.port.postMessage(invokeMessage)
-
-    return promise
+  /**
+   * Invoke a handler on a known target, requesting a port if needed
+   */
+  protected async invokeTarget<T>(
+    targetProcess: DirectIpcTarget,
+    channel: string,
+    options: InvokeOptions | undefined,
+    args: unknown[]
+  ): Promise<T> {
+    const port = await this.getTargetPort(targetProcess)
+    return this.postInvoke<T>(port, channel, options, args)
   }
 
   /**
@@ -135,6 +135,24 @@ export class DirectIpcUtilityThrottled<
     TIdentifierStrings
   >['removeHandler']
   public readonly invoke: DirectIpcUtility<TMessageMap, TInvokeMap, TIdentifierStrings>['invoke']
+  public readonly invokeStream: DirectIpcUtility<
+    TMessageMap,
+    TInvokeMap,
+    TIdentifierStrings
+  >['invokeStream']
+  public readonly invokeAll: DirectIpcUtility<
+    TMessageMap,
+    TInvokeMap,
+    TIdentifierStrings
+  >['invokeAll']
+  public readonly sendReliable: DirectIpcUtility<
+    TMessageMap,
+    TInvokeMap,
+    TIdentifierStrings
+  >['sendReliable']
+  public readonly proxy: DirectIpcUtility<TMessageMap, TInvokeMap, TIdentifierStrings>['proxy']
+  public readonly expose: DirectIpcUtility<TMessageMap, TInvokeMap, TIdentifierStrings>['expose']
+  public readonly use: DirectIpcUtility<TMessageMap, TInvokeMap, TIdentifierStrings>['use']
   public readonly getMap: DirectIpcUtility<TMessageMap, TInvokeMap, TIdentifierStrings>['getMap']
   public readonly getMyIdentifier: DirectIpcUtility<
     TMessageMap,
@@ -181,6 +199,12 @@ export class DirectIpcUtilityThrottled<
     this.handle = directIpc.handle.bind(directIpc)
     this.removeHandler = directIpc.removeHandler.bind(directIpc)
     this.invoke = directIpc.invoke.bind(directIpc)
+    this.invokeStream = directIpc.invokeStream.bind(directIpc)
+    this.invokeAll = directIpc.invokeAll.bind(directIpc)
+    this.sendReliable = directIpc.sendReliable.bind(directIpc)
+    this.proxy = directIpc.proxy.bind(directIpc)
+    this.expose = directIpc.expose.bind(directIpc)
+    this.use = directIpc.use.bind(directIpc)
     this.getMap = directIpc.getMap.bind(directIpc)
     this.getMyIdentifier = directIpc.getMyIdentifier.bind(directIpc)
     this.setDefaultTimeout = directIpc.setDefaultTimeout.bind(directIpc)
@@ -289,6 +313,14 @@ export class DirectIpcUtilityThrottled<
     })
   }
 
+  /**
+   * Post pending sends now instead of on the next microtask
+   * Resolves once they were handed to their ports (used when draining before shutdown).
+   */
+  public async flush(): Promise<void> {
+    await this.flushSends()
+  }
+
   /**
    * Flush all pending sends in parallel
    */
@@ -17,7 +17,22 @@ export type {
   EventMap,
   InvokeMap,
   InvokeOptions,
+  InvokeAllMode,
+  InvokeAllOptions,
+  InvokeAllResult,
+  InvokeProxy,
+  InvokeImplementation,
+  ProxyNaming,
+  ProxyOptions,
+  ExposeOptions,
   TargetSelector,
+  MultiTargetSelector,
+  PoolSelector,
+  ReliableSendOptions,
+  DirectIpcRetentionOptions,
+  DirectIpcHeartbeatOptions,
+  HeartbeatOptions,
+  TargetHealth,
   DirectIpcEventMap,
 } from '../common/index.js'
 
@@ -27,3 +42,83 @@ export {
   UtilityProcessTerminatedError,
   RegistrationTimeoutError,
 } from './errors.js'
+
+export {
+  ConnectionDeniedError,
+  DeliveryTimeoutError,
+  PayloadValidationError,
+  PermissionDeniedError,
+  PortLostError,
+  RemoteInvokeError,
+  ShuttingDownError,
+  registerErrorClass,
+  unregisterErrorClass,
+} from '../common/DirectIpcErrors.js'
+export type { SerializedError } from '../common/DirectIpcErrors.js'
+export { fromStandardSchema } from '../common/DirectIpcValidation.js'
+export { DirectIpcStore } from '../common/DirectIpcStore.js'
+export { transfer } from '../common/DirectIpcTransfer.js'
+export type { DirectIpcTransferable } from '../common/DirectIpcTransfer.js'
+export { withOptions } from '../common/DirectIpcOptions.js'
+export type { DirectIpcCallOptions, InvokeOptionsArgument } from '../common/DirectIpcOptions.js'
+export {
+  createClassCodec,
+  createMessagePackCodec,
+  identityCodec,
+  jsonCodec,
+} from '../common/DirectIpcCodec.js'
+export type {
+  DirectIpcClass,
+  DirectIpcCodec,
+  DirectIpcCodecOptions,
+  MessagePackLike,
+} from '../common/DirectIpcCodec.js'
+export type {
+  DirectIpcStoreListener,
+  DirectIpcStoreOperation,
+  DirectIpcStoreOptions,
+  DirectIpcStoreOwnerOptions,
+  DirectIpcStoreSubscriberOptions,
+} from '../common/DirectIpcStore.js'
+export type {
+  ChannelPermission,
+  HandleOptions,
+  ProcessMatcher,
+} from '../common/DirectIpcPermissions.js'
+export type {
+  DirectIpcMiddleware,
+  DirectIpcMiddlewareContext,
+} from '../common/DirectIpcMiddleware.js'
+export type {
+  ChaosEffects,
+  ChaosOptions,
+  ChaosRule,
+  DirectIpcChaosOptions,
+} from '../common/DirectIpcChaos.js'
+export type {
+  DirectIpcTapEvent,
+  DirectIpcTapOptions,
+  DirectIpcTapRecord,
+  TapOptions,
+} from '../common/DirectIpcTap.js'
+export { parseRecording } from '../common/DirectIpcRecording.js'
+export type {
+  DirectIpcMapSnapshot,
+  DirectIpcRecordingEntry,
+  DirectIpcReplay,
+  ReplayOptions,
+} from '../common/DirectIpcRecording.js'
+export type {
+  DirectIpcChildTransport,
+  DirectIpcParentTransport,
+  DirectIpcTransport,
+  DirectIpcTransportEvent,
+  DirectIpcTransportPort,
+} from '../common/DirectIpcTransport.js'
+export type {
+  DirectIpcSchemas,
+  PayloadSchema,
+  PayloadValidator,
+  StandardSchemaV1,
+  ValidationPolicy,
+} from '../common/DirectIpcValidation.js'
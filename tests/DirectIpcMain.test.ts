@@ -1,8 +1,26 @@
 /* eslint-disable @typescript-eslint/no-unsafe-member-access */
 /* eslint-disable @typescript-eslint/no-unsafe-function-type */
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
-import { ProcessType } from '../src/common/DirectIpcCommunication'
-import { IdentifierConflictError } from '../src/utility/errors'
+import { DIRECT_IPC_CHANNELS, ProcessType } from '../src/common/DirectIpcCommunication'
+import { IdentifierConflictError, UtilityProcessTerminatedError } from '../src/utility/errors'
+
+// Mock MessagePortMain with an EventEmitter-style API
+const { createMockPortMain } = vi.hoisted(() => ({
+  createMockPortMain: () => {
+    const listeners = new Map<string, Function[]>()
+    return {
+      postMessage: vi.fn(),
+      start: vi.fn(),
+      close: vi.fn(),
+      on: vi.fn((event: string, listener: Function) => {
+        listeners.set(event, [...(listeners.get(event) ?? []), listener])
+      }),
+      emit: (event: string, ...args: unknown[]) => {
+        listeners.get(event)?.forEach((listener) => listener(...args))
+      },
+    }
+  },
+}))
 
 // Mock electron before importing DirectIpcMain
 const mockUtilityProcess = {
@@ -25,8 +43,8 @@ vi.mock('electron', () => ({
     getAllWebContents: vi.fn().mockReturnValue([]),
   },
   MessageChannelMain: vi.fn(() => ({
-    port1: { start: vi.fn(), postMessage: vi.fn() },
-    port2: { start: vi.fn(), postMessage: vi.fn() },
+    port1: createMockPortMain(),
+    port2: createMockPortMain(),
   })),
   utilityProcess: {
     fork: vi.fn(() => mockUtilityProcess),
@@ -34,7 +52,8 @@ vi.mock('electron', () => ({
 }))
 
 // Import DirectIpcMain after mocking electron
-import { DirectIpcMain } from '../src/main/DirectIpcMain'
+import { utilityProcess } from 'electron'
+import { DirectIpcMain, transfer } from '../src/main/DirectIpcMain'
 
 describe('DirectIpcMain - Utility Process Support', () => {
   let directIpcMain: DirectIpcMain
@@ -274,5 +293,419 @@ describe('DirectIpcMain - Utility Process Support', () => {
       // Verify process was automatically unregistered
       expect(directIpcMain.getUtilityProcesses()).not.toContain('worker-1')
     })
+
+    it('should record the capabilities a utility process announces', () => {
+      directIpcMain.registerUtilityProcess('worker-1', mockUtilityProcess as any)
+      const workerCapabilities = () =>
+        directIpcMain.getMap().find((t) => t.identifier === 'worker-1')?.capabilities
+
+      expect(workerCapabilities()).toBeUndefined()
+
+      const messageHandler = mockUtilityProcess.on.mock.calls.find(
+        (call: any[]) => call[0] === 'message'
+      )?.[1]
+      messageHandler({
+        channel: DIRECT_IPC_CHANNELS.UTILITY_REGISTER,
+        identifier: 'worker-1',
+        capabilities: ['codecs', 'from-a-newer-version'],
+      })
+
+      expect(workerCapabilities()).toEqual(['codecs'])
+    })
+
+    it('should mark utility processes that stop answering heartbeats as unresponsive', () => {
+      directIpcMain.registerUtilityProcess('worker-1', mockUtilityProcess as any)
+      const messageHandler = mockUtilityProcess.on.mock.calls.find(
+        (call: any[]) => call[0] === 'message'
+      )?.[1]
+      messageHandler({
+        channel: DIRECT_IPC_CHANNELS.UTILITY_REGISTER,
+        identifier: 'worker-1',
+        capabilities: ['heartbeat'],
+      })
+      directIpcMain.setHeartbeat({ interval: 60_000, missThreshold: 2 })
+      const unresponsive = vi.fn()
+      directIpcMain.localEvents.on('target-unresponsive', unresponsive)
+      const workerHealth = () =>
+        directIpcMain.getMap().find((t) => t.identifier === 'worker-1')?.health
+
+      for (let i = 0; i < 3; i++) (directIpcMain as any).sendHeartbeats()
+
+      expect(mockUtilityProcess.postMessage).toHaveBeenCalledWith({
+        channel: DIRECT_IPC_CHANNELS.UTILITY_HEARTBEAT,
+      })
+      expect(workerHealth()).toBe('unresponsive')
+      expect(unresponsive).toHaveBeenCalledWith(expect.objectContaining({ identifier: 'worker-1' }))
+
+      messageHandler({ channel: DIRECT_IPC_CHANNELS.UTILITY_HEARTBEAT })
+      expect(workerHealth()).toBe('alive')
+
+      directIpcMain.setHeartbeat(false)
+      expect(workerHealth()).toBeUndefined()
+    })
+
+    it('should not ping utility processes that did not announce heartbeat support', () => {
+      directIpcMain.registerUtilityProcess('worker-1', mockUtilityProcess as any)
+      directIpcMain.setHeartbeat({ interval: 60_000, missThreshold: 2 })
+      const unresponsive = vi.fn()
+      directIpcMain.localEvents.on('target-unresponsive', unresponsive)
+
+      for (let i = 0; i < 3; i++) (directIpcMain as any).sendHeartbeats()
+
+      expect(mockUtilityProcess.postMessage).not.toHaveBeenCalledWith({
+        channel: DIRECT_IPC_CHANNELS.UTILITY_HEARTBEAT,
+      })
+      expect(unresponsive).not.toHaveBeenCalled()
+      directIpcMain.setHeartbeat(false)
+    })
+  })
+
+  describe('spawnUtility()', () => {
+    // Each fork returns a new process whose exit can be triggered by the test
+    const createProcess = (pid: number) => {
+      const listeners = new Map<string, Function>()
+      return {
+        pid,
+        postMessage: vi.fn(),
+        kill: vi.fn(),
+        on: vi.fn((event: string, listener: Function) => listeners.set(event, listener)),
+        exit: (code: number) => listeners.get('exit')?.(code),
+      }
+    }
+    let forked: ReturnType<typeof createProcess>[]
+    const workerId = () => directIpcMain.getMap().find((t) => t.identifier === 'worker-1')?.id
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+      forked = []
+      vi.mocked(utilityProcess.fork).mockImplementation(() => {
+        const proc = createProcess(1000 + forked.length)
+        forked.push(proc)
+        return proc as any
+      })
+    })
+
+    afterEach(() => {
+      vi.mocked(utilityProcess.fork).mockImplementation(() => mockUtilityProcess as any)
+      vi.useRealTimers()
+    })
+
+    it('should fork, register and announce the utility process', () => {
+      const started = vi.fn()
+      directIpcMain.localEvents.on('utility-started', started)
+
+      directIpcMain.spawnUtility('worker-1', '/app/worker.js', { args: ['--verbose'] })
+
+      expect(utilityProcess.fork).toHaveBeenCalledWith('/app/worker.js', ['--verbose'], undefined)
+      expect(directIpcMain.getUtilityProcesses()).toContain('worker-1')
+      expect(started).toHaveBeenCalledWith(expect.objectContaining({ identifier: 'worker-1' }))
+    })
+
+    it('should restart a crashed utility process under the same identifier after the backoff', () => {
+      const crashed = vi.fn()
+      const restarted = vi.fn()
+      directIpcMain.localEvents.on('utility-crashed', crashed)
+      directIpcMain.localEvents.on('utility-restarted', restarted)
+      directIpcMain.spawnUtility('worker-1', '/app/worker.js', {
+        backoff: { initialDelay: 100 },
+      })
+      const firstId = workerId()
+
+      forked[0]!.exit(1)
+      expect(crashed).toHaveBeenCalledWith(expect.objectContaining({ identifier: 'worker-1' }), 1)
+      expect(workerId()).toBeUndefined()
+
+      vi.advanceTimersByTime(99)
+      expect(forked).toHaveLength(1)
+      vi.advanceTimersByTime(1)
+
+      expect(forked).toHaveLength(2)
+      expect(workerId()).toBeDefined()
+      expect(workerId()).not.toBe(firstId)
+      expect(restarted).toHaveBeenCalledWith(expect.objectContaining({ identifier: 'worker-1' }), 1)
+    })
+
+    it('should only restart after a clean exit with the always policy', () => {
+      directIpcMain.spawnUtility('worker-1', '/app/worker.js')
+      directIpcMain.spawnUtility('worker-2', '/app/worker.js', { restart: 'always' })
+
+      forked[0]!.exit(0)
+      forked[1]!.exit(0)
+      vi.runAllTimers()
+
+      expect(forked).toHaveLength(3)
+      expect(directIpcMain.getUtilityProcesses()).toEqual(['worker-2'])
+    })
+
+    it('should back off exponentially and give up after maxRestarts', () => {
+      const gaveUp = vi.fn()
+      directIpcMain.localEvents.on('utility-gave-up', gaveUp)
+      directIpcMain.spawnUtility('worker-1', '/app/worker.js', {
+        maxRestarts: 2,
+        backoff: { initialDelay: 100, factor: 3 },
+      })
+
+      forked[0]!.exit(1)
+      vi.advanceTimersByTime(100)
+      forked[1]!.exit(1)
+      vi.advanceTimersByTime(299)
+      expect(forked).toHaveLength(2)
+      vi.advanceTimersByTime(1)
+      forked[2]!.exit(1)
+      vi.runAllTimers()
+
+      expect(forked).toHaveLength(3)
+      expect(gaveUp).toHaveBeenCalledWith(expect.objectContaining({ identifier: 'worker-1' }), 2)
+      expect(directIpcMain.getUtilityProcesses()).not.toContain('worker-1')
+    })
+
+    it('should queue main process traffic until the utility process is back', async () => {
+      directIpcMain.spawnUtility('worker-1', '/app/worker.js')
+      forked[0]!.exit(1)
+
+      const sent = directIpcMain.send({ identifier: 'worker-1' }, 'ping')
+      await vi.advanceTimersByTimeAsync(500)
+      await sent
+
+      expect(forked[1]!.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: DIRECT_IPC_CHANNELS.PORT_MESSAGE }),
+        expect.any(Array)
+      )
+    })
+
+    it('should fail main process traffic during a restart with mainWhileRestarting: fail', async () => {
+      directIpcMain.spawnUtility('worker-1', '/app/worker.js', { mainWhileRestarting: 'fail' })
+      forked[0]!.exit(1)
+
+      await expect(directIpcMain.send({ identifier: 'worker-1' }, 'ping')).rejects.toBeInstanceOf(
+        UtilityProcessTerminatedError
+      )
+    })
+
+    it('should spawn pool members that keep their pool across restarts', () => {
+      directIpcMain.spawnPool('compute', '/app/worker.js', 2)
+
+      expect(directIpcMain.getPoolMembers('compute')).toEqual(['compute-1', 'compute-2'])
+      expect(directIpcMain.getMap().find((t) => t.identifier === 'compute-2')?.pool).toBe('compute')
+
+      forked[1]!.exit(1)
+      vi.runAllTimers()
+
+      expect(forked).toHaveLength(3)
+      expect(directIpcMain.getPoolMembers('compute')).toEqual(['compute-1', 'compute-2'])
+      expect(() => directIpcMain.spawnPool('render', '/app/render.js', 0)).toThrow('positive')
+    })
+
+    it('should stop a utility process without restarting it', async () => {
+      directIpcMain.spawnUtility('worker-1', '/app/worker.js')
+      forked[0]!.exit(1)
+      const queued = directIpcMain.send({ identifier: 'worker-1' }, 'ping')
+
+      expect(directIpcMain.stopUtility('worker-1')).toBe(true)
+      vi.runAllTimers()
+
+      await expect(queued).rejects.toBeInstanceOf(UtilityProcessTerminatedError)
+      expect(forked).toHaveLength(1)
+      expect(forked[0]!.kill).toHaveBeenCalled()
+      expect(directIpcMain.stopUtility('worker-1')).toBe(false)
+    })
+
+    it('should drain utility processes before killing them on shutdown()', async () => {
+      directIpcMain.spawnUtility('worker-1', '/app/worker.js')
+      const shuttingDown = vi.fn()
+      directIpcMain.localEvents.on('shutting-down', shuttingDown)
+
+      let done = false
+      const shutdown = directIpcMain.shutdown({ timeout: 2000 }).then(() => (done = true))
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(shuttingDown).toHaveBeenCalled()
+      expect(forked[0]!.postMessage).toHaveBeenCalledWith({
+        channel: DIRECT_IPC_CHANNELS.SHUTDOWN,
+        timeout: 2000,
+      })
+      expect(done).toBe(false)
+      expect(forked[0]!.kill).not.toHaveBeenCalled()
+
+      const messageHandler = forked[0]!.on.mock.calls.find((call) => call[0] === 'message')?.[1]
+      messageHandler!({ channel: DIRECT_IPC_CHANNELS.SHUTDOWN_COMPLETE })
+      await shutdown
+
+      expect(forked[0]!.kill).toHaveBeenCalled()
+      expect(directIpcMain.getUtilityProcesses()).toEqual([])
+      forked[0]!.exit(0)
+      vi.runAllTimers()
+      expect(forked).toHaveLength(1)
+    })
+
+    it('should kill a utility process that does not report back in time', async () => {
+      directIpcMain.spawnUtility('worker-1', '/app/worker.js')
+
+      const shutdown = directIpcMain.shutdownUtility('worker-1', { timeout: 100 })
+      await vi.advanceTimersByTimeAsync(1100)
+
+      await expect(shutdown).resolves.toBe(true)
+      expect(forked[0]!.kill).toHaveBeenCalled()
+      await expect(directIpcMain.shutdownUtility('worker-1')).resolves.toBe(false)
+    })
+  })
+
+  describe('main process as a DirectIpc participant', () => {
+    const getUtilityMessageHandler = () =>
+      mockUtilityProcess.on.mock.calls.find((call: any[]) => call[0] === 'message')?.[1]
+
+    it('should register itself under the reserved "main" identifier', () => {
+      const mainTarget = directIpcMain.getMainTarget()
+
+      expect(mainTarget.identifier).toBe('main')
+      expect(mainTarget.processType).toBe(ProcessType.MAIN)
+      expect(directIpcMain.getRegistry().get(mainTarget.id)).toEqual(mainTarget)
+      expect(directIpcMain.getMap()).toContainEqual(mainTarget)
+    })
+
+    it('should reject utility processes claiming the reserved identifier', () => {
+      expect(() => {
+        directIpcMain.registerUtilityProcess('main', mockUtilityProcess as any)
+      }).toThrow(IdentifierConflictError)
+    })
+
+    it('should register under a configured identifier and leave "main" free', () => {
+      ;(DirectIpcMain as any)._instance = null
+      directIpcMain = DirectIpcMain.instance({ identifier: 'app-main' })
+
+      expect(directIpcMain.getMainTarget().identifier).toBe('app-main')
+      expect(directIpcMain.getMyIdentifier()).toBe('app-main')
+      expect(() => {
+        directIpcMain.registerUtilityProcess('main', mockUtilityProcess as any)
+      }).not.toThrow()
+      expect(() => {
+        directIpcMain.registerUtilityProcess('app-main', mockUtilityProcess as any)
+      }).toThrow(IdentifierConflictError)
+    })
+
+    it('should send messages to a utility process over its own port', async () => {
+      directIpcMain.registerUtilityProcess('worker-1', mockUtilityProcess as any)
+
+      await directIpcMain.send({ identifier: 'worker-1' }, 'ping', 42)
+
+      // Utility receives the other end of the channel, with main as the sender
+      const portCall = mockUtilityProcess.postMessage.mock.calls.find(
+        (call: any[]) => call[0].channel === DIRECT_IPC_CHANNELS.PORT_MESSAGE
+      )
+      expect(portCall).toBeDefined()
+      expect(portCall![0].sender.processType).toBe(ProcessType.MAIN)
+
+      const mainPort = (directIpcMain as any).portCache.values().next().value.port
+      expect(mainPort.postMessage).toHaveBeenCalledWith({ message: 'ping', args: [42] })
+    })
+
+    it('should only list ports when transferring over MessagePortMain', async () => {
+      directIpcMain.registerUtilityProcess('worker-1', mockUtilityProcess as any)
+      const buffer = new ArrayBuffer(8)
+      const handoff = createMockPortMain()
+
+      await directIpcMain.send(
+        { identifier: 'worker-1' },
+        'frame',
+        transfer(buffer, [buffer]),
+        handoff
+      )
+
+      const mainPort = (directIpcMain as any).portCache.values().next().value.port
+      const [message, ports] = mainPort.postMessage.mock.calls[0]
+      expect(message.args[0]).toBe(buffer)
+      expect(message.args[1]).not.toBe(handoff)
+      expect(ports).toEqual([handoff])
+    })
+
+    it('should restore ports received next to a message', async () => {
+      directIpcMain.registerUtilityProcess('worker-1', mockUtilityProcess as any)
+      const listener = vi.fn()
+      directIpcMain.on('frame', listener)
+      await directIpcMain.send({ identifier: 'worker-1' }, 'ping')
+
+      const mainPort = (directIpcMain as any).portCache.values().next().value.port
+      const handoff = createMockPortMain()
+      mainPort.emit('message', {
+        data: { message: 'frame', args: ['meters', { __directIpcTransferredPort__: 0 }] },
+        ports: [handoff],
+      })
+
+      expect(listener).toHaveBeenCalledWith(expect.anything(), 'meters', handoff)
+    })
+
+    it('should answer invokes from a utility process that requested a port to main', async () => {
+      directIpcMain.registerUtilityProcess('worker-1', mockUtilityProcess as any)
+      directIpcMain.handle('get-config', (sender, key: string) => `${sender.identifier}:${key}`)
+
+      getUtilityMessageHandler()({
+        channel: DIRECT_IPC_CHANNELS.GET_PORT,
+        target: { identifier: 'main' },
+      })
+
+      const mainPort = (directIpcMain as any).portCache.values().next().value.port
+      mainPort.emit('message', {
+        data: { type: 'invoke', channel: 'get-config', requestId: 'req-1', args: ['theme'] },
+      })
+
+      await vi.waitFor(() => {
+        expect(mainPort.postMessage).toHaveBeenCalledWith({
+          type: 'invoke-response',
+          requestId: 'req-1',
+          success: true,
+          data: 'worker-1:theme',
+        })
+      })
+    })
+
+    it('should resolve invokes made from the main process', async () => {
+      directIpcMain.registerUtilityProcess('worker-1', mockUtilityProcess as any)
+
+      const resultPromise = directIpcMain.invoke({ identifier: 'worker-1' }, 'compute', 2, 3)
+
+      const mainPort = (directIpcMain as any).portCache.values().next().value.port
+      const request = mainPort.postMessage.mock.calls[0][0]
+      expect(request).toMatchObject({ type: 'invoke', channel: 'compute', args: [2, 3] })
+
+      mainPort.emit('message', {
+        data: { type: 'invoke-response', requestId: request.requestId, success: true, data: 5 },
+      })
+
+      await expect(resultPromise).resolves.toBe(5)
+    })
+
+    it('should only replace an existing channel when a fresh port is requested', () => {
+      directIpcMain.registerUtilityProcess('worker-1', mockUtilityProcess as any)
+      const request = (extra: object = {}) =>
+        getUtilityMessageHandler()({
+          channel: DIRECT_IPC_CHANNELS.GET_PORT,
+          target: { identifier: 'main' },
+          ...extra,
+        })
+      const portMessages = () =>
+        mockUtilityProcess.postMessage.mock.calls.filter(
+          (call: any[]) => call[0].channel === DIRECT_IPC_CHANNELS.PORT_MESSAGE
+        ).length
+
+      request()
+      request()
+      expect(portMessages()).toBe(1)
+
+      request({ fresh: true })
+      expect(portMessages()).toBe(2)
+    })
+
+    it('should drop its port when the utility process exits', async () => {
+      directIpcMain.registerUtilityProcess('worker-1', mockUtilityProcess as any)
+      await directIpcMain.send({ identifier: 'worker-1' }, 'ping')
+      expect((directIpcMain as any).portCache.size).toBe(1)
+
+      const exitHandler = mockUtilityProcess.on.mock.calls.find(
+        (call: any[]) => call[0] === 'exit'
+      )?.[1]
+      exitHandler(0)
+
+      expect((directIpcMain as any).portCache.size).toBe(0)
+    })
   })
 })
@@ -51,7 +51,7 @@ vi.mock('eventemitter', () => {
 })
 
 import { DirectIpcRenderer, DirectIpcLogger } from '../src/renderer/DirectIpcRenderer'
-import { DIRECT_IPC_CHANNELS } from '../src/common/DirectIpcCommunication'
+import { DIRECT_IPC_CAPABILITIES, DIRECT_IPC_CHANNELS } from '../src/common/DirectIpcCommunication'
 
 // Helper to create mock MessagePort with all required methods
 function createMockMessagePort(): MessagePort {
@@ -132,8 +132,12 @@ describe('DirectIpcRenderer', () => {
       )
     })
 
-    it('should auto-subscribe on construction', () => {
-      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith(DIRECT_IPC_CHANNELS.SUBSCRIBE, undefined)
+    it('should auto-subscribe on construction and announce its capabilities', () => {
+      expect(mockIpcRenderer.invoke).toHaveBeenCalledWith(
+        DIRECT_IPC_CHANNELS.SUBSCRIBE,
+        undefined,
+        DIRECT_IPC_CAPABILITIES
+      )
     })
   })
 
@@ -148,7 +152,8 @@ describe('DirectIpcRenderer', () => {
       await vi.waitFor(() => {
         expect(mockIpcRenderer.invoke).toHaveBeenCalledWith(
           DIRECT_IPC_CHANNELS.SUBSCRIBE,
-          'test-id'
+          'test-id',
+          DIRECT_IPC_CAPABILITIES
         )
       })
 
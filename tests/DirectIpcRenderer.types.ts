@@ -185,6 +185,92 @@ function testInvokeMapEvents(directIpc: TestDirectIpc) {
   // Note: Negative test cases omitted - method overloads allow fallback to `any` signature
 }
 
+// ============================================================================
+// Test proxy() and expose() (methods mirror TInvokeMap channels)
+// ============================================================================
+
+async function testProxyAndExpose(directIpc: TestDirectIpc) {
+  const output = directIpc.proxy({ identifier: 'output' })
+
+  // ✓ Should map 'get-user' to getUser() with the handler's parameters and result
+  const user = await output.getUser('42')
+  const _verifyName: string = user.name
+  void _verifyName
+
+  // ✓ Should accept InvokeOptions as an optional last argument
+  const sum: number = await output.calculate(1, 2, { timeout: 1000 })
+  void sum
+
+  // ✓ Should work through the throttled wrapper
+  const throttledOutput = directIpc.throttled.proxy({ identifier: 'output' })
+  const _verifySum: Promise<number> = throttledOutput.calculate(1, 2)
+  void _verifySum
+
+  // @ts-expect-error - Wrong argument type for 'get-user'
+  await output.getUser(42)
+
+  // @ts-expect-error - Channel names are not proxy methods
+  await output['get-user']('42')
+
+  // @ts-expect-error - Unknown method
+  await output.deleteUser('42')
+
+  // @ts-expect-error - Proxies address a single target
+  directIpc.proxy({ allIdentifiers: /output/ })
+
+  // ✓ Should accept an implementation for every channel
+  directIpc.expose({
+    getUser: async (id: string) => ({ id, name: 'John' }),
+    calculate: (a: number, b: number) => Promise.resolve(a + b),
+  })
+
+  directIpc.expose({
+    getUser: async (id: string) => ({ id, name: 'John' }),
+    // @ts-expect-error - Wrong return type for 'calculate'
+    calculate: async () => 'three',
+  })
+
+  // @ts-expect-error - Missing implementation for 'calculate'
+  directIpc.expose({ getUser: async (id: string) => ({ id, name: 'John' }) })
+}
+
+type ExactInvokeMap = {
+  getUser: (userId: string) => Promise<{ id: string; name: string }>
+  'get-status': () => string
+}
+
+async function testProxyAndExposeWithExactNaming(directIpc: TestDirectIpc) {
+  // @ts-expect-error - camelCase channels are not proxy methods with the default naming
+  await directIpc.proxy<ExactInvokeMap>({ identifier: 'output' }).getUser('42')
+
+  const output = directIpc.proxy<ExactInvokeMap>({ identifier: 'output' }, { naming: 'exact' })
+
+  // ✓ Should name every method like its channel
+  const user = await output.getUser('42')
+  const _verifyName: string = user.name
+  void _verifyName
+  const _verifyStatus: Promise<string> = output['get-status']()
+  void _verifyStatus
+
+  // @ts-expect-error - Kebab-case channels keep their name
+  await output.getStatus()
+
+  // ✓ Should accept an implementation named like the channels
+  directIpc.expose<ExactInvokeMap>(
+    {
+      getUser: async (id: string) => ({ id, name: 'John' }),
+      'get-status': () => 'idle',
+    },
+    { naming: 'exact', allow: { identifier: 'controller' } }
+  )
+
+  directIpc.expose<ExactInvokeMap>(
+    // @ts-expect-error - camelCase methods do not match with exact naming
+    { getUser: async (id: string) => ({ id, name: 'John' }), getStatus: () => 'idle' },
+    { naming: 'exact' }
+  )
+}
+
 // ============================================================================
 // Test off() method
 // ============================================================================
@@ -322,6 +408,8 @@ export {
   testDirectIpcEventMapEvents,
   testMessageMapEvents,
   testInvokeMapEvents,
+  testProxyAndExpose,
+  testProxyAndExposeWithExactNaming,
   testOffMethod,
   testEventNameConstraints,
   testEmptyEventMaps,
@@ -4,6 +4,7 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
 import { EventEmitter } from 'events'
 import { DirectIpcUtility, RegistrationState } from '../src/utility/DirectIpcUtility.js'
 import {
+  DIRECT_IPC_CAPABILITIES,
   DIRECT_IPC_CHANNELS,
   DirectIpcTarget,
   ProcessType,
@@ -54,6 +55,7 @@ describe('DirectIpcUtility', () => {
       expect(mockParentPort.postMessage).toHaveBeenCalledWith({
         channel: DIRECT_IPC_CHANNELS.UTILITY_REGISTER,
         identifier: 'test-worker',
+        capabilities: DIRECT_IPC_CAPABILITIES,
       })
 
       expect(utility.getRegistrationState()).toBe(RegistrationState.SUBSCRIBING)
@@ -0,0 +1,146 @@
+/**
+ * Tests for per-channel permissions (handle() allow option and setMessagePermission())
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+import { PermissionDeniedError, RemoteInvokeError } from '../src/common/DirectIpcErrors'
+
+type TestMessageMap = {
+  'set-title': (title: string) => void
+}
+
+type TestInvokeMap = {
+  'delete-project': (id: string) => boolean
+  'list-files': () => AsyncIterable<string>
+}
+
+type TestIdentifiers = 'window:main' | 'window:embed' | 'worker'
+
+describe('Channel permissions', () => {
+  const network = useRendererNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>([
+    'window:main',
+    'window:embed',
+    'worker',
+  ])
+
+  it('should only run handlers for allowed senders', async () => {
+    const { worker } = network.renderers
+    const mainWindow = network.renderers['window:main']
+    const embed = network.renderers['window:embed']
+    const handler = vi.fn(() => true)
+    const denied = vi.fn()
+
+    worker.handle('delete-project', handler, { allow: { identifier: /^window:main/ } })
+    worker.localEvents.on('permission-denied', denied)
+
+    await expect(mainWindow.invoke({ identifier: 'worker' }, 'delete-project', 'p1')).resolves.toBe(
+      true
+    )
+
+    const error = await embed
+      .invoke({ identifier: 'worker' }, 'delete-project', 'p1')
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(RemoteInvokeError)
+    expect(error.cause).toBeInstanceOf(PermissionDeniedError)
+    expect(error.cause.channel).toBe('delete-project')
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(denied).toHaveBeenCalledWith(
+      expect.objectContaining({ identifier: 'window:embed' }),
+      'delete-project',
+      'invoke'
+    )
+  })
+
+  it('should allow the same sender every time with a global pattern', async () => {
+    const { worker } = network.renderers
+    const mainWindow = network.renderers['window:main']
+    worker.handle('delete-project', () => true, { allow: { identifier: /^window:main/g } })
+
+    for (let i = 0; i < 3; i++) {
+      await expect(
+        mainWindow.invoke({ identifier: 'worker' }, 'delete-project', 'p1')
+      ).resolves.toBe(true)
+    }
+  })
+
+  it('should accept a predicate or a list of matchers', async () => {
+    const { worker } = network.renderers
+    const embed = network.renderers['window:embed']
+
+    worker.handle('delete-project', () => true, {
+      allow: [{ identifier: 'window:main' }, { origin: 'app://window:embed' }],
+    })
+    await expect(embed.invoke({ identifier: 'worker' }, 'delete-project', 'p1')).rejects.toThrow()
+
+    worker.handle('delete-project', () => true, {
+      allow: (sender) => sender.identifier === 'window:embed',
+    })
+    await expect(embed.invoke({ identifier: 'worker' }, 'delete-project', 'p1')).resolves.toBe(true)
+  })
+
+  it('should refuse streaming invokes from disallowed senders', async () => {
+    const { worker } = network.renderers
+    const embed = network.renderers['window:embed']
+
+    worker.handle(
+      'list-files',
+      async function* () {
+        yield 'secret.txt'
+      },
+      { allow: { identifier: 'window:main' } }
+    )
+
+    const received: string[] = []
+    await expect(async () => {
+      for await (const file of embed.invokeStream({ identifier: 'worker' }, 'list-files')) {
+        received.push(file)
+      }
+    }).rejects.toThrow('is not allowed to invoke list-files')
+    expect(received).toEqual([])
+  })
+
+  it('should drop the permission when the handler is removed or replaced', async () => {
+    const { worker } = network.renderers
+    const embed = network.renderers['window:embed']
+
+    worker.handle('delete-project', () => true, { allow: { identifier: 'window:main' } })
+    worker.handle('delete-project', () => true)
+
+    await expect(embed.invoke({ identifier: 'worker' }, 'delete-project', 'p1')).resolves.toBe(true)
+  })
+
+  it('should drop and report messages from disallowed senders', async () => {
+    const { worker } = network.renderers
+    const mainWindow = network.renderers['window:main']
+    const embed = network.renderers['window:embed']
+    const listener = vi.fn()
+    const denied = vi.fn()
+
+    worker.setMessagePermission('set-title', { identifier: 'window:main' })
+    worker.on('set-title', listener)
+    worker.localEvents.on('permission-denied', denied)
+
+    await embed.send({ identifier: 'worker' }, 'set-title', 'hacked')
+    await mainWindow.send({ identifier: 'worker' }, 'set-title', 'Project')
+    await vi.waitFor(() =>
+      expect(denied).toHaveBeenCalledWith(
+        expect.objectContaining({ identifier: 'window:embed' }),
+        'set-title',
+        'message'
+      )
+    )
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled())
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(expect.anything(), 'Project')
+
+    worker.setMessagePermission('set-title', undefined)
+    await embed.send({ identifier: 'worker' }, 'set-title', 'allowed now')
+
+    await vi.waitFor(() =>
+      expect(listener).toHaveBeenLastCalledWith(expect.anything(), 'allowed now')
+    )
+  })
+})
@@ -0,0 +1,158 @@
+/**
+ * Tests for fault injection: dropped, delayed and reordered frames, forced port closes,
+ * simulated utility crashes and delayed map updates
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+vi.mock('electron', () => ({
+  app: undefined,
+  BrowserWindow: undefined,
+  ipcMain: undefined,
+  ipcRenderer: undefined,
+  webContents: undefined,
+  MessageChannelMain: undefined,
+  utilityProcess: undefined,
+}))
+
+import { createTestNetwork, TestNetwork } from '../src/testing'
+
+type TestMessageMap = {
+  step: (value: number) => void
+  status: (value: string) => void
+}
+
+type TestInvokeMap = {
+  ping: () => string
+}
+
+type TestIdentifiers = 'editor' | 'preview' | 'worker' | 'late'
+
+describe('Chaos', () => {
+  let network: TestNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>
+  let steps: number[]
+
+  const createNetwork = async (chaos = {}) => {
+    const created = createTestNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>({
+      renderers: ['editor', 'preview'],
+      utilities: ['worker'],
+      main: { chaos },
+    })
+    await created.flush()
+    return created
+  }
+
+  const sendSteps = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      await network.renderers.editor.send({ identifier: 'preview' }, 'step', i)
+    }
+    await network.flush()
+  }
+
+  beforeEach(async () => {
+    network = await createNetwork()
+    steps = []
+    network.renderers.preview.on('step', (_sender, value) => steps.push(value))
+    // Establish the port first: chaos only touches frames on established ports
+    await network.renderers.editor.send({ identifier: 'preview' }, 'status', 'hello')
+    await network.flush()
+  })
+
+  afterEach(() => {
+    network.close()
+  })
+
+  it('should drop frames on matching channels only', async () => {
+    const status = vi.fn()
+    network.renderers.preview.on('status', status)
+    network.renderers.editor.setChaos({ rules: [{ channel: 'step', dropRate: 1 }] })
+
+    await sendSteps(3)
+    await network.renderers.editor.send({ identifier: 'preview' }, 'status', 'still here')
+    await network.flush()
+
+    expect(steps).toEqual([])
+    expect(status).toHaveBeenCalledWith(expect.anything(), 'still here')
+  })
+
+  it('should match every frame against a global channel pattern', async () => {
+    network.renderers.editor.setChaos({ rules: [{ channel: /^step$/g, dropRate: 1 }] })
+
+    await sendSteps(4)
+
+    expect(steps).toEqual([])
+  })
+
+  it('should drop the same frames for the same seed', async () => {
+    network.renderers.editor.setChaos({ seed: 42, dropRate: 0.5 })
+    await sendSteps(20)
+    const first = [...steps]
+
+    steps.length = 0
+    network.renderers.editor.setChaos({ seed: 42, dropRate: 0.5 })
+    await sendSteps(20)
+
+    expect(first.length).toBeGreaterThan(0)
+    expect(first.length).toBeLessThan(20)
+    expect(steps).toEqual(first)
+  })
+
+  it('should delay frames by the configured latency', async () => {
+    network.renderers.editor.setChaos({ latency: 30 })
+
+    await sendSteps(1)
+    expect(steps).toEqual([])
+
+    await vi.waitFor(() => expect(steps).toEqual([0]))
+  })
+
+  it('should reorder frames and stop once turned off', async () => {
+    network.renderers.editor.setChaos({ reorderRate: 1 })
+    await sendSteps(4)
+    expect(steps).toEqual([1, 0, 3, 2])
+
+    steps.length = 0
+    network.renderers.editor.setChaos(false)
+    await sendSteps(3)
+    expect(steps).toEqual([0, 1, 2])
+  })
+
+  it('should force-close ports and reconnect', async () => {
+    const lost = vi.fn()
+    network.renderers.preview.localEvents.on('port-lost', lost)
+
+    expect(network.renderers.editor.forceClosePorts({ identifier: 'preview' })).toBe(1)
+    await network.flush()
+    expect(lost).toHaveBeenCalledWith(expect.objectContaining({ identifier: 'editor' }))
+
+    await sendSteps(1)
+    expect(steps).toEqual([0])
+  })
+
+  it('should simulate a utility process crash from main', async () => {
+    const removed = vi.fn()
+    network.renderers.editor.localEvents.on('target-removed', removed)
+
+    expect(network.main.crashUtility('worker', 3)).toBe(true)
+    await network.flush()
+
+    expect(removed).toHaveBeenCalledWith(expect.objectContaining({ identifier: 'worker' }))
+    expect(network.main.getUtilityProcesses()).toEqual([])
+    expect(network.main.crashUtility('worker')).toBe(false)
+  })
+
+  it('should delay map updates from main', async () => {
+    network.close()
+    network = await createNetwork({ mapUpdateDelay: 30 })
+    const added = vi.fn()
+    network.renderers.editor.localEvents.on('target-added', added)
+
+    network.addRenderer('late')
+    await network.flush()
+    expect(added).not.toHaveBeenCalled()
+
+    await vi.waitFor(() =>
+      expect(added).toHaveBeenCalledWith(expect.objectContaining({ identifier: 'late' }))
+    )
+  })
+})
@@ -0,0 +1,263 @@
+/**
+ * Tests for payload codecs and their per-port negotiation
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+import {
+  createClassCodec,
+  createMessagePackCodec,
+  identityCodec,
+  jsonCodec,
+} from '../src/common/DirectIpcCodec'
+import { transfer } from '../src/common/DirectIpcTransfer'
+import { RemoteInvokeError } from '../src/common/DirectIpcErrors'
+
+class Point {
+  constructor(
+    public x: number,
+    public y: number
+  ) {}
+
+  length(): number {
+    return Math.hypot(this.x, this.y)
+  }
+}
+
+type TestMessageMap = {
+  ping: () => void
+  'clip-moved': (at: Date, positions: Map<string, bigint>) => void
+  'buffer-ready': (buffer: ArrayBuffer) => void
+}
+
+type TestInvokeMap = {
+  'get-origin': () => Point
+}
+
+type TestIdentifiers = 'controller' | 'worker'
+
+/** Announced as the JSON codec, but fails to decode anything */
+const brokenJsonCodec = {
+  name: 'json',
+  encode: jsonCodec.encode,
+  decode: () => {
+    throw new Error('garbage')
+  },
+}
+
+/** Stand-in for a MessagePack library: JSON bytes are enough to exercise the adapter */
+const fakeMsgpack = {
+  encode: (value: unknown) => new TextEncoder().encode(JSON.stringify(value)),
+  decode: (data: Uint8Array) => JSON.parse(new TextDecoder().decode(data)) as unknown,
+}
+
+describe('built-in codecs', () => {
+  it('should revive Date, Map, Set, BigInt and undefined with the JSON codec', () => {
+    const value = [
+      new Date(0),
+      new Map([['a', new Set([1n])]]),
+      undefined,
+      { nested: new Date(1000) },
+    ]
+
+    const encoded = jsonCodec.encode(value)
+
+    expect(typeof encoded).toBe('string')
+    expect(jsonCodec.decode(encoded)).toEqual(value)
+  })
+
+  it('should restore registered class instances, including shared references', () => {
+    const codec = createClassCodec({ Point })
+    const origin = new Point(3, 4)
+
+    const restored = codec.decode(structuredClone(codec.encode({ list: [origin, origin] }))) as {
+      list: Point[]
+    }
+
+    expect(restored.list[0]).toBeInstanceOf(Point)
+    expect(restored.list[0]!.length()).toBe(5)
+    expect(restored.list[1]).toBe(restored.list[0])
+  })
+
+  it('should leave classes the receiver does not know as plain objects', () => {
+    const encoded = createClassCodec({ Point }).encode(new Point(1, 2))
+    const decoded = createClassCodec({}).decode(structuredClone(encoded))
+
+    expect(decoded).toEqual({ x: 1, y: 2 })
+    expect(decoded).not.toBeInstanceOf(Point)
+  })
+
+  it('should adapt a MessagePack library and check what it decodes', () => {
+    const codec = createMessagePackCodec(fakeMsgpack)
+
+    expect(codec.name).toBe('msgpack')
+    expect(codec.decode(codec.encode({ a: [1, 2] }))).toEqual({ a: [1, 2] })
+    expect(() => codec.decode('not bytes')).toThrow(TypeError)
+  })
+})
+
+describe('codec negotiation', () => {
+  const network = useRendererNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>([
+    'controller',
+    'worker',
+  ])
+
+  /** Establish the port between controller and worker and wait for both ends' announcements */
+  const connect = async () => {
+    const { controller, worker } = network.renderers
+    const ends = [
+      { hello: vi.spyOn(controller as any, 'handleCodecHello'), peer: worker },
+      { hello: vi.spyOn(worker as any, 'handleCodecHello'), peer: controller },
+    ]
+    await controller.send({ identifier: 'worker' }, 'ping')
+    // Processes without codecs announce nothing
+    await vi.waitFor(() => {
+      for (const { hello, peer } of ends) {
+        if ((peer as any).codecs.length > 0) expect(hello).toHaveBeenCalled()
+      }
+    })
+  }
+
+  const spyFrames = (renderer: object) => vi.spyOn(renderer as any, 'postMessageToPort')
+
+  it('should encode payloads once both ends announced the same codec', async () => {
+    const { controller, worker } = network.renderers
+    controller.setCodecs([jsonCodec])
+    worker.setCodecs([jsonCodec])
+    await connect()
+    const frames = spyFrames(controller)
+    const listener = vi.fn()
+    worker.on('clip-moved', listener)
+
+    const positions = new Map([['clip-1', 2n ** 64n]])
+    await controller.send({ identifier: 'worker' }, 'clip-moved', new Date(42), positions)
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled())
+
+    expect(frames.mock.calls[0]![1]).toMatchObject({ codec: 'json', args: expect.any(String) })
+    expect(listener).toHaveBeenCalledWith(expect.anything(), new Date(42), positions)
+  })
+
+  it('should encode invoke results so class instances survive the hop', async () => {
+    const { controller, worker } = network.renderers
+    const codec = createClassCodec({ Point })
+    controller.setCodecs([codec])
+    worker.setCodecs([codec])
+    worker.handle('get-origin', () => new Point(3, 4))
+    await connect()
+
+    const origin = await controller.invoke({ identifier: 'worker' }, 'get-origin')
+
+    expect(origin).toBeInstanceOf(Point)
+    expect(origin.length()).toBe(5)
+  })
+
+  it('should prefer the sender’s first codec the receiver also announced', async () => {
+    const { controller, worker } = network.renderers
+    controller.setCodecs([createMessagePackCodec(fakeMsgpack), jsonCodec])
+    worker.setCodecs([jsonCodec])
+    await connect()
+    const frames = spyFrames(controller)
+
+    await controller.send({ identifier: 'worker' }, 'ping')
+
+    expect(frames.mock.calls[0]![1]).toMatchObject({ codec: 'json' })
+  })
+
+  it('should keep plain structured clone with processes that announce no codecs', async () => {
+    const { controller, worker } = network.renderers
+    controller.setCodecs([jsonCodec])
+    await connect()
+    const frames = spyFrames(controller)
+    const listener = vi.fn()
+    worker.on('clip-moved', listener)
+
+    await controller.send({ identifier: 'worker' }, 'clip-moved', new Date(1), new Map())
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled())
+
+    expect(frames.mock.calls[0]![1]).not.toHaveProperty('codec')
+    expect(listener).toHaveBeenCalledWith(expect.anything(), new Date(1), new Map())
+  })
+
+  it('should not encode when the identity codec comes first', async () => {
+    const { controller, worker } = network.renderers
+    controller.setCodecs([identityCodec, jsonCodec])
+    worker.setCodecs([identityCodec, jsonCodec])
+    await connect()
+    const frames = spyFrames(controller)
+
+    await controller.send({ identifier: 'worker' }, 'ping')
+
+    expect(frames.mock.calls[0]![1]).not.toHaveProperty('codec')
+  })
+
+  it('should post frames that transfer values without encoding them', async () => {
+    const { controller, worker } = network.renderers
+    controller.setCodecs([jsonCodec])
+    worker.setCodecs([jsonCodec])
+    await connect()
+    const frames = spyFrames(controller)
+    const listener = vi.fn()
+    worker.on('buffer-ready', listener)
+
+    const buffer = new ArrayBuffer(8)
+    await controller.send({ identifier: 'worker' }, 'buffer-ready', transfer(buffer, [buffer]))
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled())
+
+    expect(frames.mock.calls[0]![1]).not.toHaveProperty('codec')
+    expect(buffer.byteLength).toBe(0)
+    expect((listener.mock.calls[0]![1] as ArrayBuffer).byteLength).toBe(8)
+  })
+
+  it('should answer invokes whose payload cannot be decoded with an error', async () => {
+    const { controller, worker } = network.renderers
+    controller.setCodecs([jsonCodec])
+    worker.setCodecs([brokenJsonCodec])
+    const handler = vi.fn(() => new Point(0, 0))
+    worker.handle('get-origin', handler)
+    // The ping is dropped by the worker rather than thrown
+    await connect()
+
+    const error = await controller.invoke({ identifier: 'worker' }, 'get-origin').catch((e) => e)
+
+    expect(error).toBeInstanceOf(RemoteInvokeError)
+    expect(error.message).toContain('Codec "json" failed: garbage')
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should reject invokes whose result cannot be decoded', async () => {
+    const { controller, worker } = network.renderers
+    controller.setCodecs([brokenJsonCodec])
+    worker.setCodecs([jsonCodec])
+    worker.handle('get-origin', () => new Point(0, 0))
+    await connect()
+
+    await expect(controller.invoke({ identifier: 'worker' }, 'get-origin')).rejects.toThrow(
+      'Could not decode payload'
+    )
+  })
+})
+
+describe('codec negotiation with older versions', () => {
+  const network = useRendererNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>(
+    ['controller', 'worker'],
+    { legacy: ['worker'] }
+  )
+
+  it('should not announce codecs to processes that did not announce codec support', async () => {
+    const { controller, worker } = network.renderers
+    controller.setCodecs([jsonCodec])
+    const frames = vi.spyOn(controller as any, 'postMessageToPort')
+    const hello = vi.spyOn(worker as any, 'handleCodecHello')
+    const listener = vi.fn()
+    worker.on('clip-moved', listener)
+
+    await controller.send({ identifier: 'worker' }, 'clip-moved', new Date(1), new Map())
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled())
+
+    expect(frames.mock.calls.map(([, frame]) => (frame as { type?: string }).type)).not.toContain(
+      'codec-hello'
+    )
+    expect(frames.mock.calls[0]![1]).not.toHaveProperty('codec')
+    expect(hello).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,210 @@
+/**
+ * Tests for DirectIpcMain connection policy (who may open ports to whom)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+const { mockWebContents } = vi.hoisted(() => ({
+  mockWebContents: new Map<number, { postMessage: ReturnType<typeof vi.fn> }>(),
+}))
+
+vi.mock('electron', () => ({
+  app: { on: vi.fn() },
+  BrowserWindow: vi.fn(),
+  ipcMain: { handle: vi.fn(), on: vi.fn() },
+  ipcRenderer: { on: vi.fn(), invoke: vi.fn() },
+  webContents: {
+    getAllWebContents: vi.fn().mockReturnValue([]),
+    fromId: vi.fn((id: number) => mockWebContents.get(id)),
+  },
+  MessageChannelMain: vi.fn(() => ({
+    port1: { postMessage: vi.fn(), start: vi.fn(), close: vi.fn(), on: vi.fn() },
+    port2: { postMessage: vi.fn(), start: vi.fn(), close: vi.fn(), on: vi.fn() },
+  })),
+}))
+
+import { DirectIpcMain } from '../src/main/DirectIpcMain'
+import { DirectIpcRenderer } from '../src/renderer/DirectIpcRenderer'
+import { ConnectionRule, evaluateConnectionRules } from '../src/main/DirectIpcConnectionPolicy'
+import { matchesProcess } from '../src/common/DirectIpcPermissions'
+import {
+  DIRECT_IPC_CHANNELS,
+  DirectIpcTarget,
+  ProcessType,
+  isPortDenied,
+} from '../src/common/DirectIpcCommunication'
+import { ConnectionDeniedError, deserializeError } from '../src/common/DirectIpcErrors'
+
+const renderer = (id: number, identifier: string, url: string): DirectIpcTarget => ({
+  id,
+  webContentsId: id,
+  identifier,
+  url,
+  processType: ProcessType.RENDERER,
+})
+
+describe('connection rules', () => {
+  const app = renderer(1, 'controller', 'app://local/index.html')
+  const remote = renderer(2, 'embed', 'https://ads.example.com/frame')
+
+  it('should match by identifier, origin and process type', () => {
+    expect(matchesProcess({ identifier: 'controller' }, app)).toBe(true)
+    expect(matchesProcess({ identifier: /^emb/ }, remote)).toBe(true)
+    expect(matchesProcess({ origin: 'https://ads.example.com' }, remote)).toBe(true)
+    expect(matchesProcess({ origin: 'https://ads.example.com' }, app)).toBe(false)
+    expect(matchesProcess({ processType: ProcessType.UTILITY }, app)).toBe(false)
+    expect(matchesProcess(undefined, app)).toBe(true)
+  })
+
+  it('should use the first matching rule', () => {
+    const rules: ConnectionRule[] = [
+      { from: { origin: /example\.com$/ }, to: { identifier: 'controller' }, allow: false },
+      { from: { origin: /example\.com$/ }, allow: true },
+    ]
+
+    expect(evaluateConnectionRules(rules, remote, app)).toBe(false)
+    expect(evaluateConnectionRules(rules, remote, remote)).toBe(true)
+    expect(evaluateConnectionRules(rules, app, remote)).toBeUndefined()
+  })
+})
+
+describe('DirectIpcMain connection policy', () => {
+  let directIpcMain: DirectIpcMain
+
+  const subscribe = (id: number, identifier: string, url: string) => {
+    mockWebContents.set(id, { postMessage: vi.fn() })
+    ;(directIpcMain as any).handleSubscribe({ id, getURL: () => url, on: vi.fn() }, identifier)
+  }
+
+  const getPort = (fromWebContentsId: number, target: { identifier: string }) =>
+    (directIpcMain as any).handleGetPort({ id: fromWebContentsId }, target)
+
+  beforeEach(() => {
+    ;(DirectIpcMain as any)._instance = null
+    vi.spyOn(DirectIpcMain as any, 'isMainProcess').mockReturnValue(true)
+    directIpcMain = DirectIpcMain.instance({
+      log: { silly: vi.fn(), debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    })
+    mockWebContents.clear()
+
+    subscribe(1, 'controller', 'app://local/index.html')
+    subscribe(2, 'embed', 'https://ads.example.com/frame')
+  })
+
+  afterEach(() => {
+    ;(DirectIpcMain as any)._instance = null
+  })
+
+  it('should allow every connection by default', () => {
+    expect(getPort(2, { identifier: 'controller' })).toBe(true)
+    expect(mockWebContents.get(1)!.postMessage).toHaveBeenCalled()
+  })
+
+  it('should report denied requests with a ConnectionDeniedError', () => {
+    directIpcMain.setConnectionRules([
+      { from: { origin: 'https://ads.example.com' }, allow: false },
+    ])
+
+    const result = getPort(2, { identifier: 'controller' })
+
+    expect(isPortDenied(result)).toBe(true)
+    const error = deserializeError(result.error)
+    expect(error).toBeInstanceOf(ConnectionDeniedError)
+    expect((error as ConnectionDeniedError).from.identifier).toBe('embed')
+    expect((error as ConnectionDeniedError).to.identifier).toBe('controller')
+    expect(mockWebContents.get(1)!.postMessage).not.toHaveBeenCalled()
+
+    // Rules only match the requesting side given
+    expect(getPort(1, { identifier: 'embed' })).toBe(true)
+  })
+
+  it('should deny unmatched requests when defaultAllow is false', () => {
+    directIpcMain.setConnectionRules([{ to: { processType: ProcessType.MAIN }, allow: true }], {
+      defaultAllow: false,
+    })
+
+    expect(isPortDenied(getPort(1, { identifier: 'embed' }))).toBe(true)
+    expect(getPort(1, { identifier: 'main' })).toBe(true)
+  })
+
+  it('should consult an async policy hook', async () => {
+    const policy = vi.fn(async (from: DirectIpcTarget) => from.identifier === 'controller')
+    directIpcMain.setConnectionPolicy(policy)
+
+    await expect(getPort(1, { identifier: 'embed' })).resolves.toBe(true)
+    const denied = await getPort(2, { identifier: 'controller' })
+
+    expect(isPortDenied(denied)).toBe(true)
+    expect(policy).toHaveBeenCalledWith(
+      expect.objectContaining({ identifier: 'embed' }),
+      expect.objectContaining({ identifier: 'controller' })
+    )
+  })
+
+  it('should deny when the policy hook throws', () => {
+    directIpcMain.setConnectionPolicy(() => {
+      throw new Error('policy bug')
+    })
+
+    expect(isPortDenied(getPort(1, { identifier: 'embed' }))).toBe(true)
+  })
+
+  it('should post PORT_DENIED to a utility process whose request is refused', () => {
+    const proc = { pid: 42, postMessage: vi.fn(), on: vi.fn(), kill: vi.fn() }
+    directIpcMain.registerUtilityProcess('worker', proc as any)
+    directIpcMain.setConnectionRules([{ from: { identifier: 'worker' }, allow: false }])
+
+    const messageHandler = proc.on.mock.calls.find((call: any[]) => call[0] === 'message')?.[1]
+    messageHandler({ channel: DIRECT_IPC_CHANNELS.GET_PORT, target: { identifier: 'controller' } })
+
+    expect(proc.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: DIRECT_IPC_CHANNELS.PORT_DENIED,
+        target: { identifier: 'controller' },
+        error: expect.objectContaining({ name: 'ConnectionDeniedError' }),
+      })
+    )
+  })
+
+  it('should not call the policy hook when a rule denies', () => {
+    const policy = vi.fn(() => true)
+    directIpcMain.setConnectionPolicy(policy)
+    directIpcMain.setConnectionRules([{ from: { identifier: 'embed' }, allow: false }])
+
+    expect(isPortDenied(getPort(2, { identifier: 'controller' }))).toBe(true)
+    expect(policy).not.toHaveBeenCalled()
+  })
+})
+
+describe('DirectIpcRenderer port denial', () => {
+  it('should reject with the ConnectionDeniedError from main', async () => {
+    vi.useFakeTimers()
+    const ipcRenderer = {
+      on: vi.fn(),
+      invoke: vi.fn(async (channel: string) => {
+        if (channel === DIRECT_IPC_CHANNELS.SUBSCRIBE) return []
+        if (channel === DIRECT_IPC_CHANNELS.GET_PORT) {
+          return {
+            target: { identifier: 'controller' },
+            error: {
+              name: 'ConnectionDeniedError',
+              message: 'Connection from "embed" to "controller" denied by policy',
+            },
+          }
+        }
+        return undefined
+      }),
+    }
+    const directIpc = DirectIpcRenderer._createInstance(
+      { identifier: 'embed', log: { error: vi.fn() } },
+      { ipcRenderer: ipcRenderer as any }
+    )
+
+    await expect(directIpc.send({ identifier: 'controller' }, 'hello')).rejects.toBeInstanceOf(
+      ConnectionDeniedError
+    )
+    // The wait for the port is cancelled rather than left to time out
+    expect(vi.getTimerCount()).toBe(0)
+    vi.useRealTimers()
+  })
+})
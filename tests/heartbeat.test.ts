@@ -0,0 +1,120 @@
+/**
+ * Tests for heartbeats, target health in getMap() and target-unresponsive/target-responsive events
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+
+type TestMessageMap = {
+  ping: () => void
+}
+
+type TestIdentifiers = 'controller' | 'output'
+
+describe('Heartbeats', () => {
+  const network = useRendererNetwork<TestMessageMap, Record<string, never>, TestIdentifiers>([
+    'controller',
+    'output',
+  ])
+
+  const outputHealth = () =>
+    network.renderers.controller.getMap().find((t) => t.identifier === 'output')?.health
+
+  /** Establish the port between controller and output */
+  const connect = async () => {
+    const ping = vi.fn()
+    network.renderers.output.on('ping', ping)
+    await network.renderers.controller.send({ identifier: 'output' }, 'ping')
+    await vi.waitFor(() => expect(ping).toHaveBeenCalled())
+  }
+
+  afterEach(() => {
+    network.renderers.controller.setHeartbeat(false)
+  })
+
+  it('should not report health while heartbeats are off', async () => {
+    await connect()
+
+    expect(outputHealth()).toBeUndefined()
+  })
+
+  it('should mark connected targets alive while they answer', async () => {
+    const { controller, output } = network.renderers
+    controller.setHeartbeat({ interval: 10, missThreshold: 2 })
+    const unresponsive = vi.fn()
+    controller.localEvents.on('target-unresponsive', unresponsive)
+    const answered = vi.spyOn(output as any, 'handleHeartbeat')
+    await connect()
+
+    // More heartbeats than the threshold allows to miss
+    await vi.waitFor(() => expect(answered.mock.calls.length).toBeGreaterThan(3))
+
+    expect(outputHealth()).toBe('alive')
+    expect(unresponsive).not.toHaveBeenCalled()
+  })
+
+  it('should report targets that miss heartbeats and their recovery', async () => {
+    const { controller, output } = network.renderers
+    controller.setHeartbeat({ interval: 10, missThreshold: 2 })
+    const unresponsive = vi.fn()
+    const responsive = vi.fn()
+    controller.localEvents.on('target-unresponsive', unresponsive)
+    controller.localEvents.on('target-responsive', responsive)
+    await connect()
+
+    // A busy event loop looks the same as heartbeats that are never answered
+    const stall = vi.spyOn(output as any, 'handleHeartbeat').mockImplementation(() => {})
+    await vi.waitFor(() => expect(unresponsive).toHaveBeenCalled())
+
+    expect(outputHealth()).toBe('unresponsive')
+    expect(unresponsive).toHaveBeenCalledTimes(1)
+    expect(unresponsive).toHaveBeenCalledWith(expect.objectContaining({ identifier: 'output' }))
+
+    stall.mockRestore()
+    await vi.waitFor(() => expect(responsive).toHaveBeenCalled())
+
+    expect(outputHealth()).toBe('alive')
+    expect(responsive).toHaveBeenCalledWith(expect.objectContaining({ identifier: 'output' }))
+  })
+
+  it('should mark targets dead when their port is lost', async () => {
+    const { controller } = network.renderers
+    controller.setHeartbeat({ interval: 10 })
+    await connect()
+    ;(controller as any).cleanupPort(network.targets[1]!)
+
+    expect(outputHealth()).toBe('dead')
+  })
+})
+
+describe('Heartbeats with older versions', () => {
+  const network = useRendererNetwork<TestMessageMap, Record<string, never>, TestIdentifiers>(
+    ['controller', 'output'],
+    { legacy: ['output'] }
+  )
+
+  afterEach(() => {
+    network.renderers.controller.setHeartbeat(false)
+  })
+
+  it('should not ping or report targets that did not announce heartbeat support', async () => {
+    const { controller, output } = network.renderers
+    // Like a version that predates heartbeats, the output never acks
+    const received = vi.spyOn(output as any, 'handleHeartbeat').mockImplementation(() => {})
+    const unresponsive = vi.fn()
+    controller.localEvents.on('target-unresponsive', unresponsive)
+    const ping = vi.fn()
+    output.on('ping', ping)
+    await controller.send({ identifier: 'output' }, 'ping')
+    await vi.waitFor(() => expect(ping).toHaveBeenCalled())
+    const rounds = vi.spyOn(controller as any, 'sendHeartbeats')
+
+    controller.setHeartbeat({ interval: 10, missThreshold: 2 })
+    // Well past the number of missed heartbeats that makes a target unresponsive
+    await vi.waitFor(() => expect(rounds.mock.calls.length).toBeGreaterThan(4))
+
+    expect(received).not.toHaveBeenCalled()
+    expect(unresponsive).not.toHaveBeenCalled()
+    expect(controller.getMap().find((t) => t.identifier === 'output')?.health).toBeUndefined()
+  })
+})
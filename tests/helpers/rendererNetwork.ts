@@ -0,0 +1,208 @@
+/**
+ * Test helper: wires several DirectIpcRenderer instances together with real MessageChannels.
+ *
+ * Acts as a minimal stand-in for DirectIpcMain: answers SUBSCRIBE with a fixed map and
+ * answers GET_PORT by creating a MessageChannel and delivering one port to each renderer.
+ *
+ * Mocks 'electron' for the importing test file, so import this helper before anything that loads
+ * src/renderer.
+ */
+
+import { afterEach, beforeEach, vi } from 'vitest'
+
+vi.mock('electron', () => ({
+  ipcRenderer: {
+    on: vi.fn(),
+    invoke: vi.fn(),
+  },
+}))
+
+import { DirectIpcRenderer } from '../../src/renderer/DirectIpcRenderer'
+import {
+  DIRECT_IPC_CAPABILITIES,
+  DIRECT_IPC_CHANNELS,
+  DirectIpcTarget,
+  ProcessType,
+} from '../../src/common/DirectIpcCommunication'
+import { EventMap, InvokeMap } from '../../src/common/DirectIpcTypes'
+
+type PortSelector = {
+  webContentsId?: number
+  identifier?: string | RegExp
+  url?: string | RegExp
+}
+
+const silentLogger = {
+  silly: () => {},
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+}
+
+/**
+ * Mock ipcRenderer that forwards invoke() calls to the fake broker
+ */
+class MockIpcRenderer {
+  private listeners = new Map<string, (event: any, message: any) => void>()
+
+  constructor(private readonly broker: (channel: string, ...args: any[]) => unknown) {}
+
+  on(channel: string, listener: (event: any, message: any) => void): this {
+    this.listeners.set(channel, listener)
+    return this
+  }
+
+  async invoke(channel: string, ...args: any[]): Promise<unknown> {
+    return this.broker(channel, ...args)
+  }
+
+  deliver(channel: string, message: unknown, ports: MessagePort[] = []): void {
+    this.listeners.get(channel)?.({ ports }, message)
+  }
+}
+
+export interface RendererNetworkOptions<TId extends string> {
+  /** Pool to tag each renderer with in the map, as DirectIpcMain does for spawnPool() */
+  pools?: Partial<Record<TId, string>>
+  /** Renderers listed without capabilities, as versions that predate them are */
+  legacy?: TId[]
+}
+
+export function createRendererNetwork<
+  TMessageMap extends EventMap = EventMap,
+  TInvokeMap extends InvokeMap = InvokeMap,
+  TId extends string = string,
+>(identifiers: TId[], options: RendererNetworkOptions<TId> = {}) {
+  const targets: DirectIpcTarget[] = identifiers.map((identifier, i) => ({
+    id: i + 1,
+    webContentsId: i + 1,
+    url: `app://${identifier}`,
+    identifier,
+    processType: ProcessType.RENDERER,
+    ...(options.pools?.[identifier] !== undefined && { pool: options.pools[identifier] }),
+    ...(!options.legacy?.includes(identifier) && { capabilities: [...DIRECT_IPC_CAPABILITIES] }),
+  }))
+
+  const ipcs = new Map<number, MockIpcRenderer>()
+  const channels: MessageChannel[] = []
+  const pairs = new Set<string>()
+
+  const findTarget = (selector: PortSelector): DirectIpcTarget | undefined =>
+    targets.find((t) => {
+      if (selector.webContentsId !== undefined) return t.webContentsId === selector.webContentsId
+      if (selector.identifier !== undefined) {
+        return typeof selector.identifier === 'string'
+          ? t.identifier === selector.identifier
+          : selector.identifier.test(t.identifier!)
+      }
+      if (selector.url !== undefined) {
+        return typeof selector.url === 'string' ? t.url === selector.url : selector.url.test(t.url!)
+      }
+      return false
+    })
+
+  const renderers = {} as Record<TId, DirectIpcRenderer<TMessageMap, TInvokeMap, TId>>
+
+  for (const target of targets) {
+    const ipc = new MockIpcRenderer((channel, ...args) => {
+      if (channel === DIRECT_IPC_CHANNELS.SUBSCRIBE) return targets
+      if (channel === DIRECT_IPC_CHANNELS.REFRESH_MAP) return targets
+      if (channel === DIRECT_IPC_CHANNELS.UPDATE_IDENTIFIER) return undefined
+      if (channel === DIRECT_IPC_CHANNELS.GET_PORT) {
+        const other = findTarget(args[0] as PortSelector)
+        if (!other) return false
+        const key = [target.id, other.id].sort().join('-')
+        // Like DirectIpcMain, reuse the existing channel unless asked for a fresh one
+        if (pairs.has(key) && !args[1]?.fresh) return true
+        const channel = new MessageChannel()
+        channels.push(channel)
+        pairs.add(key)
+        ipcs
+          .get(other.id)!
+          .deliver(DIRECT_IPC_CHANNELS.PORT_MESSAGE, { sender: target }, [channel.port2])
+        ipcs
+          .get(target.id)!
+          .deliver(DIRECT_IPC_CHANNELS.PORT_MESSAGE, { sender: other }, [channel.port1])
+        return true
+      }
+      throw new Error(`Unexpected channel ${channel}`)
+    })
+    ipcs.set(target.id, ipc)
+
+    renderers[target.identifier as TId] = DirectIpcRenderer._createInstance<
+      TMessageMap,
+      TInvokeMap,
+      TId
+    >({ identifier: target.identifier as TId, log: silentLogger }, { ipcRenderer: ipc as any })
+  }
+
+  return {
+    renderers,
+    targets,
+    /** Wait for all renderers to finish subscribing */
+    ready: () =>
+      vi.waitFor(
+        () => {
+          for (const renderer of Object.values(renderers) as DirectIpcRenderer[]) {
+            if (renderer.getMap().length !== targets.length) throw new Error('Not subscribed yet')
+          }
+        },
+        { interval: 1 }
+      ),
+    /** Close all ports and reject pending invokes */
+    close: () => {
+      for (const renderer of Object.values(renderers) as DirectIpcRenderer[]) {
+        renderer.clearPendingInvokes()
+        renderer.closeAllPorts()
+      }
+      for (const channel of channels) {
+        channel.port1.close()
+        channel.port2.close()
+      }
+    },
+  }
+}
+
+export type RendererNetwork<
+  TMessageMap extends EventMap = EventMap,
+  TInvokeMap extends InvokeMap = InvokeMap,
+  TId extends string = string,
+> = ReturnType<typeof createRendererNetwork<TMessageMap, TInvokeMap, TId>>
+
+/**
+ * Create a ready network before each test of the calling suite and close it after each
+ * @returns The current test's network
+ */
+export function useRendererNetwork<
+  TMessageMap extends EventMap = EventMap,
+  TInvokeMap extends InvokeMap = InvokeMap,
+  TId extends string = string,
+>(
+  identifiers: TId[],
+  options?: RendererNetworkOptions<TId>
+): Pick<RendererNetwork<TMessageMap, TInvokeMap, TId>, 'renderers' | 'targets'> {
+  let network: RendererNetwork<TMessageMap, TInvokeMap, TId> | undefined
+
+  beforeEach(async () => {
+    network = createRendererNetwork<TMessageMap, TInvokeMap, TId>(identifiers, options)
+    await network.ready()
+  })
+
+  afterEach(() => {
+    network?.close()
+  })
+
+  const current = () => {
+    if (!network) throw new Error('useRendererNetwork - Only available once a test runs')
+    return network
+  }
+  return {
+    get renderers() {
+      return current().renderers
+    },
+    get targets() {
+      return current().targets
+    },
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Tests for broadcast invokes (invokeAll() over allIdentifiers/allUrls)
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+import { RemoteInvokeError } from '../src/common/DirectIpcErrors'
+import { withOptions } from '../src/common/DirectIpcOptions'
+
+type TestInvokeMap = {
+  'get-state': () => string
+  'set-theme': (theme: { mode: string }) => string
+}
+
+type TestIdentifiers = 'controller' | 'editor:1' | 'editor:2' | 'editor:3'
+
+describe('invokeAll', () => {
+  const network = useRendererNetwork<Record<string, never>, TestInvokeMap, TestIdentifiers>([
+    'controller',
+    'editor:1',
+    'editor:2',
+    'editor:3',
+  ])
+
+  const editors = () =>
+    (['editor:1', 'editor:2', 'editor:3'] as const).map((id) => network.renderers[id])
+
+  it('should collect a result for every matching target', async () => {
+    const [first, second, third] = editors()
+    first!.handle('get-state', () => 'one')
+    second!.handle('get-state', () => {
+      throw new Error('not ready')
+    })
+    third!.handle('get-state', () => 'three')
+
+    const results = await network.renderers.controller.invokeAll(
+      { allIdentifiers: /^editor:/ },
+      'get-state'
+    )
+
+    expect(results.map((r) => [r.target.identifier, r.status])).toEqual([
+      ['editor:1', 'fulfilled'],
+      ['editor:2', 'rejected'],
+      ['editor:3', 'fulfilled'],
+    ])
+    expect(results[0]).toMatchObject({ value: 'one' })
+    const rejected = results[1]!
+    expect(rejected.status === 'rejected' && rejected.reason).toBeInstanceOf(RemoteInvokeError)
+  })
+
+  it('should return an empty list when nothing matches', async () => {
+    await expect(
+      network.renderers.controller.invokeAll({ allUrls: /^https:/ }, 'get-state')
+    ).resolves.toEqual([])
+  })
+
+  it('should apply the timeout to each target', async () => {
+    const [first, second, third] = editors()
+    first!.handle('get-state', () => 'one')
+    second!.handle('get-state', () => new Promise<string>(() => {}))
+    third!.handle('get-state', () => 'three')
+
+    const results = await network.renderers.controller.invokeAll(
+      { allIdentifiers: /^editor:/ },
+      'get-state',
+      { timeout: 50 }
+    )
+
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled'])
+    expect(results[1]).toMatchObject({
+      reason: expect.objectContaining({ message: expect.stringContaining('timeout') }),
+    })
+  })
+
+  it('should limit how many targets are invoked at once', async () => {
+    let active = 0
+    let maxActive = 0
+    const release: Array<() => void> = []
+    for (const editor of editors()) {
+      editor.handle('get-state', async () => {
+        maxActive = Math.max(maxActive, ++active)
+        await new Promise<void>((resolve) => release.push(resolve))
+        active--
+        return 'ok'
+      })
+    }
+
+    const invoked = network.renderers.controller.invokeAll(
+      { allIdentifiers: /^editor:/ },
+      'get-state',
+      withOptions({ concurrency: 1 })
+    )
+    // Each handler must be the only one started before it is released
+    for (let started = 1; started <= 3; started++) {
+      await vi.waitFor(() => expect(release).toHaveLength(started))
+      release[started - 1]!()
+    }
+    const results = await invoked
+
+    expect(results.every((r) => r.status === 'fulfilled')).toBe(true)
+    expect(maxActive).toBe(1)
+  })
+
+  it('should stop at the first success and cancel the rest in first mode', async () => {
+    const [first, second, third] = editors()
+    const cancelled = vi.fn()
+    first!.handle('get-state', () => 'fast')
+    for (const slow of [second!, third!]) {
+      slow.handle('get-state', (sender) => {
+        sender.signal.addEventListener('abort', cancelled)
+        return new Promise<string>(() => {})
+      })
+    }
+
+    const results = await network.renderers.controller.invokeAll(
+      { allIdentifiers: /^editor:/ },
+      'get-state',
+      withOptions({ mode: 'first' })
+    )
+
+    expect(results[0]).toMatchObject({ status: 'fulfilled', value: 'fast' })
+    expect(results[1]).toMatchObject({ status: 'rejected', reason: { name: 'AbortError' } })
+    expect(results[2]).toMatchObject({ status: 'rejected', reason: { name: 'AbortError' } })
+    await vi.waitFor(() => expect(cancelled).toHaveBeenCalledTimes(2))
+  })
+
+  it('should not start remaining targets once a quorum is reached', async () => {
+    const started = vi.fn()
+    for (const editor of editors()) {
+      editor.handle('get-state', () => {
+        started()
+        return 'ok'
+      })
+    }
+
+    const results = await network.renderers.controller.invokeAll(
+      { allIdentifiers: /^editor:/ },
+      'get-state',
+      withOptions({ mode: 'quorum', quorum: 2, concurrency: 1 })
+    )
+
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'fulfilled', 'rejected'])
+    expect(started).toHaveBeenCalledTimes(2)
+  })
+
+  it('should give up once the quorum can no longer be reached', async () => {
+    const [first, second, third] = editors()
+    const failing = () => {
+      throw new Error('down')
+    }
+    first!.handle('get-state', failing)
+    second!.handle('get-state', failing)
+    third!.handle('get-state', () => 'ok')
+
+    const results = await network.renderers.controller.invokeAll(
+      { allIdentifiers: /^editor:/ },
+      'get-state',
+      withOptions({ mode: 'quorum', quorum: 2, concurrency: 1 })
+    )
+
+    expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected', 'rejected'])
+    expect(results[2]).toMatchObject({ reason: { name: 'AbortError' } })
+  })
+
+  it('should pass a payload with a mode key through as an argument', async () => {
+    for (const editor of editors()) {
+      editor.handle('set-theme', (_sender, theme) => theme.mode)
+    }
+
+    const results = await network.renderers.controller.invokeAll(
+      { allIdentifiers: /^editor:/ },
+      'set-theme',
+      { mode: 'dark' }
+    )
+
+    expect(results.map((r) => r.status === 'fulfilled' && r.value)).toEqual([
+      'dark',
+      'dark',
+      'dark',
+    ])
+  })
+
+  it('should reject invalid options before invoking anything', async () => {
+    const { controller } = network.renderers
+
+    await expect(
+      controller.invokeAll(
+        { allIdentifiers: /^editor:/ },
+        'get-state',
+        withOptions({ mode: 'quorum' })
+      )
+    ).rejects.toThrow('quorum')
+    await expect(
+      controller.invokeAll(
+        { allIdentifiers: /^editor:/ },
+        'get-state',
+        withOptions({ concurrency: 0 })
+      )
+    ).rejects.toThrow('concurrency')
+  })
+})
@@ -0,0 +1,198 @@
+/**
+ * Tests for cancellable invokes (InvokeOptions.signal + sender.signal in handlers)
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+import { withOptions } from '../src/common/DirectIpcOptions'
+
+type TestInvokeMap = {
+  'slow-query': (sql: string) => string
+  kill: (options: { signal: string }) => string
+  'tail-log': (file: string) => AsyncIterable<string>
+}
+
+type TestIdentifiers = 'controller' | 'worker'
+
+/**
+ * Resolves with the abort reason once the signal aborts
+ */
+function whenAborted(signal: AbortSignal): Promise<unknown> {
+  return new Promise((resolve) => {
+    signal.addEventListener('abort', () => resolve(signal.reason), { once: true })
+  })
+}
+
+describe('Cancellable invokes', () => {
+  const network = useRendererNetwork<Record<string, never>, TestInvokeMap, TestIdentifiers>([
+    'controller',
+    'worker',
+  ])
+
+  it('should reject with the abort reason and abort the handler signal', async () => {
+    const { controller, worker } = network.renderers
+    let handlerAborted: Promise<unknown> | undefined
+
+    worker.handle('slow-query', (sender) => {
+      handlerAborted = whenAborted(sender.signal)
+      return new Promise<string>(() => {})
+    })
+
+    const abortController = new AbortController()
+    const result = controller.invoke(
+      { identifier: 'worker' },
+      'slow-query',
+      'SELECT 1',
+      withOptions({
+        signal: abortController.signal,
+      })
+    )
+    await vi.waitFor(() => expect(handlerAborted).toBeDefined())
+
+    abortController.abort(new Error('user navigated away'))
+
+    await expect(result).rejects.toThrow('user navigated away')
+    await expect(handlerAborted).resolves.toBeInstanceOf(Error)
+    expect((controller as any).pendingInvokes.size).toBe(0)
+    expect((worker as any).activeHandlers.size).toBe(0)
+  })
+
+  it('should cancel the remote handler when the invoke times out', async () => {
+    const { controller, worker } = network.renderers
+    let handlerAborted: Promise<unknown> | undefined
+
+    worker.handle('slow-query', (sender) => {
+      handlerAborted = whenAborted(sender.signal)
+      return new Promise<string>(() => {})
+    })
+
+    await expect(
+      controller.invoke({ identifier: 'worker' }, 'slow-query', 'SELECT 1', { timeout: 20 })
+    ).rejects.toThrow('DirectIpc invoke timeout after 20ms: slow-query')
+
+    await expect(handlerAborted).resolves.toBeInstanceOf(Error)
+  })
+
+  it('should reject immediately when the signal is already aborted', async () => {
+    const { controller, worker } = network.renderers
+    const handler = vi.fn(() => 'never')
+    worker.handle('slow-query', handler)
+
+    await expect(
+      controller.invoke(
+        { identifier: 'worker' },
+        'slow-query',
+        'SELECT 1',
+        withOptions({
+          signal: AbortSignal.abort(new Error('too late')),
+        })
+      )
+    ).rejects.toThrow('too late')
+
+    // Invokes arrive in order, so the aborted one would have reached the handler first
+    await expect(
+      controller.invoke({ identifier: 'worker' }, 'slow-query', 'SELECT 2')
+    ).resolves.toBe('never')
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(handler).toHaveBeenCalledWith(expect.anything(), 'SELECT 2')
+  })
+
+  it('should not send a response once the handler has been cancelled', async () => {
+    const { controller, worker } = network.renderers
+    const abortController = new AbortController()
+    let finish: ((value: string) => void) | undefined
+    let handlerAborted: Promise<unknown> | undefined
+
+    worker.handle('slow-query', (sender) => {
+      handlerAborted = whenAborted(sender.signal)
+      return new Promise<string>((resolve) => (finish = resolve))
+    })
+
+    const result = controller.invoke(
+      { identifier: 'worker' },
+      'slow-query',
+      'SELECT 1',
+      withOptions({
+        signal: abortController.signal,
+      })
+    )
+    await vi.waitFor(() => expect(finish).toBeDefined())
+    abortController.abort()
+    await expect(result).rejects.toThrow()
+    // The cancel frame reached the worker
+    await handlerAborted
+
+    const postSpy = vi.spyOn(worker as any, 'postMessageToPort')
+    finish!('done')
+    // Let the settled handler's callbacks run
+    await new Promise((resolve) => setImmediate(resolve))
+
+    expect(postSpy).not.toHaveBeenCalled()
+  })
+
+  it('should stop the remote generator when the stream consumer breaks early', async () => {
+    const { controller, worker } = network.renderers
+    let handlerAborted: Promise<unknown> | undefined
+    let yielded = 0
+    let finished = false
+
+    worker.handle('tail-log', async function* (sender) {
+      handlerAborted = whenAborted(sender.signal)
+      try {
+        for (let i = 0; i < 1000; i++) {
+          yielded++
+          yield `line ${i}`
+          await new Promise((resolve) => setImmediate(resolve))
+        }
+      } finally {
+        finished = true
+      }
+    })
+
+    for await (const line of controller.invokeStream({ identifier: 'worker' }, 'tail-log', 'x')) {
+      expect(line).toBe('line 0')
+      break
+    }
+
+    await expect(handlerAborted).resolves.toBeInstanceOf(Error)
+    await vi.waitFor(() => expect(finished).toBe(true))
+    expect(yielded).toBeLessThan(1000)
+    expect((worker as any).activeHandlers.size).toBe(0)
+  })
+
+  it('should abort a stream with the signal reason', async () => {
+    const { controller, worker } = network.renderers
+    const abortController = new AbortController()
+
+    worker.handle('tail-log', async function* () {
+      yield 'first'
+      await new Promise(() => {})
+    })
+
+    const received: string[] = []
+    await expect(async () => {
+      for await (const line of controller.invokeStream(
+        { identifier: 'worker' },
+        'tail-log',
+        'x',
+        withOptions({
+          signal: abortController.signal,
+        })
+      )) {
+        received.push(line)
+        abortController.abort(new Error('stop tailing'))
+      }
+    }).rejects.toThrow('stop tailing')
+
+    expect(received).toEqual(['first'])
+    expect((controller as any).pendingStreams.size).toBe(0)
+  })
+  it('should pass a payload with a signal key through as an argument', async () => {
+    const { controller, worker } = network.renderers
+    worker.handle('kill', (_sender, options) => `killed with ${options.signal}`)
+
+    await expect(
+      controller.invoke({ identifier: 'worker' }, 'kill', { signal: 'SIGTERM' })
+    ).resolves.toBe('killed with SIGTERM')
+  })
+})
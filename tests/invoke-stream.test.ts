@@ -0,0 +1,165 @@
+/**
+ * Tests for streaming invokes (invokeStream() + async generator handlers)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+
+type TestInvokeMap = {
+  'tail-log': (file: string, lines: number) => AsyncIterable<string>
+  'search-hits': (query: string) => AsyncIterable<{ path: string }>
+  'get-count': () => number
+}
+
+type TestIdentifiers = 'controller' | 'worker'
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const values: T[] = []
+  for await (const value of iterable) {
+    values.push(value)
+  }
+  return values
+}
+
+describe('Streaming invokes', () => {
+  const network = useRendererNetwork<Record<string, never>, TestInvokeMap, TestIdentifiers>([
+    'controller',
+    'worker',
+  ])
+
+  it('should deliver each value yielded by an async generator handler', async () => {
+    const { controller, worker } = network.renderers
+
+    worker.handle('tail-log', async function* (_sender, file, lines) {
+      for (let i = 1; i <= lines; i++) {
+        yield `${file}:${i}`
+      }
+    })
+
+    const lines = await collect(
+      controller.invokeStream({ identifier: 'worker' }, 'tail-log', 'app.log', 3)
+    )
+
+    expect(lines).toEqual(['app.log:1', 'app.log:2', 'app.log:3'])
+  })
+
+  it('should pass the sender to streaming handlers', async () => {
+    const { controller, worker } = network.renderers
+    const senders: (string | undefined)[] = []
+
+    worker.handle('search-hits', async function* (sender, query) {
+      senders.push(sender.identifier)
+      yield { path: `/${query}` }
+    })
+
+    const hits = await collect(
+      controller.invokeStream({ identifier: 'worker' }, 'search-hits', 'a')
+    )
+
+    expect(hits).toEqual([{ path: '/a' }])
+    expect(senders).toEqual(['controller'])
+  })
+
+  it('should deliver chunks before rejecting when the handler throws mid-stream', async () => {
+    const { controller, worker } = network.renderers
+
+    worker.handle('tail-log', async function* () {
+      yield 'first'
+      throw new Error('disk unplugged')
+    })
+
+    const received: string[] = []
+    await expect(async () => {
+      for await (const line of controller.invokeStream(
+        { identifier: 'worker' },
+        'tail-log',
+        'x',
+        1
+      )) {
+        received.push(line)
+      }
+    }).rejects.toThrow('disk unplugged')
+    expect(received).toEqual(['first'])
+  })
+
+  it('should treat a plain return value as a single chunk', async () => {
+    const { controller, worker } = network.renderers
+
+    worker.handle('get-count', () => 7)
+
+    const values = await collect(controller.invokeStream({ identifier: 'worker' }, 'get-count'))
+
+    expect(values).toEqual([7])
+  })
+
+  it('should reject with a stream error when no handler is registered', async () => {
+    const { controller } = network.renderers
+
+    await expect(
+      collect(controller.invokeStream({ identifier: 'worker' }, 'tail-log', 'x', 1))
+    ).rejects.toThrow('No handler registered for channel: tail-log')
+  })
+
+  it('should reject regular invokes on streaming handlers', async () => {
+    const { controller, worker } = network.renderers
+
+    worker.handle('tail-log', async function* () {
+      yield 'never'
+    })
+
+    await expect(controller.invoke({ identifier: 'worker' }, 'tail-log', 'x', 1)).rejects.toThrow(
+      'use invokeStream()'
+    )
+  })
+
+  it('should stop tracking the stream when the consumer breaks early', async () => {
+    const { controller, worker } = network.renderers
+
+    worker.handle('tail-log', async function* () {
+      for (let i = 0; i < 100; i++) {
+        yield `line ${i}`
+      }
+    })
+
+    for await (const line of controller.invokeStream(
+      { identifier: 'worker' },
+      'tail-log',
+      'x',
+      1
+    )) {
+      expect(line).toBe('line 0')
+      break
+    }
+
+    expect((controller as any).pendingStreams.size).toBe(0)
+  })
+
+  it('should time out when no chunk arrives within the idle timeout', async () => {
+    const { controller, worker } = network.renderers
+
+    worker.handle('tail-log', async function* () {
+      await new Promise(() => {})
+      yield 'late'
+    })
+
+    await expect(
+      collect(
+        controller.invokeStream({ identifier: 'worker' }, 'tail-log', 'x', 1, { timeout: 20 })
+      )
+    ).rejects.toThrow('DirectIpc invokeStream timeout after 20ms: tail-log')
+  })
+
+  it('should be available through the throttled wrapper', async () => {
+    const { controller, worker } = network.renderers
+
+    worker.handle('tail-log', async function* () {
+      yield 'throttled'
+    })
+
+    const values = await collect(
+      controller.throttled.invokeStream({ identifier: 'worker' }, 'tail-log', 'x', 1)
+    )
+
+    expect(values).toEqual(['throttled'])
+  })
+})
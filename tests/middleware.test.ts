@@ -0,0 +1,226 @@
+/**
+ * Tests for use(): middleware around outgoing and incoming messages and invokes
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+import type { DirectIpcMiddlewareContext } from '../src/common/DirectIpcMiddleware'
+
+type TestMessageMap = {
+  position: (x: number) => void
+}
+
+type TestInvokeMap = {
+  add: (a: number, b: number) => number
+  count: (to: number) => AsyncIterable<number>
+}
+
+type TestIdentifiers = 'controller' | 'output'
+
+describe('Middleware', () => {
+  const network = useRendererNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>([
+    'controller',
+    'output',
+  ])
+
+  beforeEach(() => {
+    network.renderers.output.handle('add', (_sender, a, b) => a + b)
+    network.renderers.output.handle('count', async function* (_sender, to) {
+      for (let i = 1; i <= to; i++) yield i
+    })
+  })
+
+  it('should run middleware around both sides of an invoke, in order', async () => {
+    const { controller, output } = network.renderers
+    const calls: string[] = []
+    const trace =
+      (name: string) => async (ctx: DirectIpcMiddlewareContext, next: () => Promise<void>) => {
+        calls.push(`${name}:${ctx.direction}:${ctx.channel}:before`)
+        await next()
+        calls.push(`${name}:${ctx.direction}:${ctx.channel}:after:${String(ctx.result)}`)
+      }
+    controller.use(trace('first'))
+    controller.use(trace('second'))
+    output.use(trace('remote'))
+
+    await expect(controller.invoke({ identifier: 'output' }, 'add', 1, 2)).resolves.toBe(3)
+
+    expect(calls).toEqual([
+      'first:outgoing:add:before',
+      'second:outgoing:add:before',
+      'remote:incoming:add:before',
+      'remote:incoming:add:after:3',
+      'second:outgoing:add:after:3',
+      'first:outgoing:add:after:3',
+    ])
+  })
+
+  it('should let middleware replace arguments and results', async () => {
+    const { controller, output } = network.renderers
+    controller.use(async (ctx, next) => {
+      ctx.args = ctx.args.map((arg) => Number(arg) * 10)
+      await next()
+    })
+    output.use(async (ctx, next) => {
+      await next()
+      ctx.result = `sum=${String(ctx.result)}`
+    })
+
+    await expect(controller.invoke({ identifier: 'output' }, 'add', 1, 2)).resolves.toBe('sum=30')
+  })
+
+  it('should short-circuit invokes without reaching the other process', async () => {
+    const { controller, output } = network.renderers
+    const handler = vi.fn()
+    output.use((ctx, next) => {
+      handler()
+      return next()
+    })
+    controller.use((ctx) => {
+      ctx.result = 42
+    })
+
+    await expect(controller.invoke({ identifier: 'output' }, 'add', 1, 2)).resolves.toBe(42)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should return errors thrown by incoming middleware to the caller', async () => {
+    const { controller, output } = network.renderers
+    output.use((ctx, next) => {
+      if (ctx.sender?.identifier !== 'editor') throw new Error('Not allowed')
+      return next()
+    })
+
+    await expect(controller.invoke({ identifier: 'output' }, 'add', 1, 2)).rejects.toThrow(
+      'Not allowed'
+    )
+  })
+
+  it('should pass messages through middleware and drop those that do not call next()', async () => {
+    const { controller, output } = network.renderers
+    const listener = vi.fn()
+    output.on('position', listener)
+    output.use(async (ctx, next) => {
+      if ((ctx.args[0] as number) < 0) return
+      await next()
+    })
+    const seen: DirectIpcMiddlewareContext[] = []
+    controller.use(async (ctx, next) => {
+      seen.push({ ...ctx })
+      await next()
+    })
+
+    await controller.send({ identifier: 'output' }, 'position', -1)
+    await controller.send({ identifier: 'output' }, 'position', 5)
+    // Messages arrive in order, so the first one was dropped once the second is delivered
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled())
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ identifier: 'controller' }), 5)
+    expect(seen[0]).toMatchObject({
+      direction: 'outgoing',
+      kind: 'message',
+      channel: 'position',
+      target: { identifier: 'output' },
+    })
+  })
+
+  it('should see coalesced throttled sends once and stop after removal', async () => {
+    const { controller, output } = network.renderers
+    const listener = vi.fn()
+    output.on('position', listener)
+    const middleware = vi.fn((_ctx: DirectIpcMiddlewareContext, next: () => Promise<void>) =>
+      next()
+    )
+    const remove = controller.throttled.use(middleware)
+
+    controller.throttled.send({ identifier: 'output' }, 'position', 1)
+    controller.throttled.send({ identifier: 'output' }, 'position', 2)
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith(expect.anything(), 2))
+
+    expect(middleware).toHaveBeenCalledTimes(1)
+    expect(middleware.mock.calls[0]![0].args).toEqual([2])
+
+    remove()
+    await controller.send({ identifier: 'output' }, 'position', 3)
+    expect(middleware).toHaveBeenCalledTimes(1)
+  })
+  it('should run invokeAll() through outgoing middleware once for all targets', async () => {
+    const { controller } = network.renderers
+    const seen: DirectIpcMiddlewareContext[] = []
+    controller.use(async (ctx, next) => {
+      ctx.args = [10, 20]
+      await next()
+      seen.push({ ...ctx })
+    })
+
+    const results = await controller.invokeAll({ allIdentifiers: /^output/ }, 'add', 1, 2)
+
+    expect(results).toMatchObject([{ status: 'fulfilled', value: 30 }])
+    expect(seen).toHaveLength(1)
+    expect(seen[0]).toMatchObject({
+      direction: 'outgoing',
+      kind: 'invoke',
+      channel: 'add',
+      target: { allIdentifiers: /^output/ },
+      result: results,
+    })
+  })
+
+  it('should run invokeStream() through outgoing middleware', async () => {
+    const { controller, output } = network.renderers
+    controller.use(async (ctx, next) => {
+      ctx.args = [2]
+      await next()
+    })
+
+    const counted: number[] = []
+    for await (const value of controller.invokeStream({ identifier: 'output' }, 'count', 5)) {
+      counted.push(value)
+    }
+    expect(counted).toEqual([1, 2])
+
+    // Short-circuiting middleware supplies the chunks itself
+    const handler = vi.fn()
+    output.use((ctx, next) => {
+      handler()
+      return next()
+    })
+    controller.use((ctx) => {
+      ctx.result = [7, 8]
+    })
+    const cached: number[] = []
+    for await (const value of controller.invokeStream({ identifier: 'output' }, 'count', 5)) {
+      cached.push(value)
+    }
+    expect(cached).toEqual([7, 8])
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should run sendReliable() through outgoing middleware', async () => {
+    const { controller, output } = network.renderers
+    const listener = vi.fn()
+    output.on('position', listener)
+    const seen: DirectIpcMiddlewareContext[] = []
+    controller.use(async (ctx, next) => {
+      seen.push({ ...ctx })
+      if ((ctx.args[0] as number) < 0) return
+      ctx.args = [(ctx.args[0] as number) + 1]
+      await next()
+    })
+
+    await controller.sendReliable({ identifier: 'output' }, 'position', -1)
+    await controller.sendReliable({ identifier: 'output' }, 'position', 5)
+
+    // sendReliable() resolves once the message was acknowledged, so it has been delivered
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(expect.anything(), 6)
+    expect(seen).toHaveLength(2)
+    expect(seen[0]).toMatchObject({
+      direction: 'outgoing',
+      kind: 'message',
+      channel: 'position',
+      target: { identifier: 'output' },
+    })
+  })
+})
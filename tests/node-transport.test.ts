@@ -0,0 +1,136 @@
+/**
+ * Tests for running DirectIpcMain and DirectIpcUtility over Node transports without Electron
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { EventEmitter } from 'events'
+import { ChildProcess } from 'child_process'
+import { MessageChannel, MessagePort, Worker } from 'worker_threads'
+
+// No electron mock: nothing imported here may load Electron
+import { DirectIpcUtility } from '../src/utility/DirectIpcUtility'
+import {
+  DirectIpcMain,
+  childProcessParentTransport,
+  fromChildProcess,
+  fromWorker,
+  workerParentTransport,
+  workerThreadsTransport,
+} from '../src/node'
+
+type TestMessageMap = {
+  ping: (value: number) => void
+}
+
+type TestInvokeMap = {
+  add: (a: number, b: number) => number
+  whoami: () => string
+}
+
+type TestIdentifiers = 'worker-a' | 'worker-b'
+
+/** A worker thread simulated in-process over a worker_threads MessageChannel */
+function createWorkerLink() {
+  const { port1, port2 } = new MessageChannel()
+  const worker = Object.assign(port1, { terminate: vi.fn(async () => 0) })
+  return { worker: worker as unknown as Worker, parent: port2, ports: [port1, port2] }
+}
+
+/** A forked process simulated by two emitters exchanging structured clones */
+function createChildProcessLink() {
+  const child = new EventEmitter()
+  const proc = new EventEmitter()
+  const deliver = (to: EventEmitter, message: unknown) =>
+    setImmediate(() => to.emit('message', structuredClone(message)))
+  Object.assign(child, {
+    pid: 4242,
+    connected: true,
+    send: (message: unknown) => deliver(proc, message),
+    kill: () => {
+      setImmediate(() => child.emit('exit', null))
+      return true
+    },
+  })
+  Object.assign(proc, {
+    connected: true,
+    send: (message: unknown) => deliver(child, message),
+  })
+  return {
+    child: child as unknown as ChildProcess,
+    proc: proc as unknown as NodeJS.Process,
+  }
+}
+
+describe('Node transports', () => {
+  let main: DirectIpcMain<TestMessageMap, TestInvokeMap, TestIdentifiers>
+  let ports: MessagePort[]
+
+  beforeEach(() => {
+    ;(DirectIpcMain as any)._instance = null
+    ports = []
+    main = DirectIpcMain.instance<TestMessageMap, TestInvokeMap, TestIdentifiers>({
+      transport: workerThreadsTransport(),
+    })
+  })
+
+  afterEach(() => {
+    for (const port of ports) port.close()
+    ;(DirectIpcMain as any)._instance = null
+  })
+
+  function startWorker(identifier: TestIdentifiers) {
+    const link = createWorkerLink()
+    ports.push(...link.ports)
+    const utility = new DirectIpcUtility<TestMessageMap, TestInvokeMap, TestIdentifiers>({
+      identifier,
+      transport: workerParentTransport(link.parent),
+    })
+    main.registerUtilityProcess(identifier, fromWorker(link.worker))
+    return utility
+  }
+
+  it('should refuse to start outside Electron without a transport', () => {
+    ;(DirectIpcMain as any)._instance = null
+    expect(() => DirectIpcMain.instance()).toThrow(
+      'DirectIpcMain.instance() can only be called from the main process'
+    )
+    expect(() => DirectIpcMain._createInstance()).toThrow('Pass a transport')
+  })
+
+  it('should invoke between worker threads', async () => {
+    const a = startWorker('worker-a')
+    const b = startWorker('worker-b')
+    b.handle('add', (_sender, x, y) => x + y)
+    await vi.waitFor(() => expect((a as any).map).toHaveLength(3))
+
+    await expect(a.invoke({ identifier: 'worker-b' }, 'add', 2, 3)).resolves.toBe(5)
+  })
+
+  it('should send messages between a worker thread and main', async () => {
+    const a = startWorker('worker-a')
+    const received = new Promise<number>((resolve) =>
+      main.on('ping', (_sender, value) => resolve(value))
+    )
+    a.handle('whoami', () => 'worker-a')
+    await vi.waitFor(() => expect((a as any).map).toHaveLength(2))
+
+    await a.send({ identifier: 'main' as TestIdentifiers }, 'ping', 7)
+
+    await expect(received).resolves.toBe(7)
+    await expect(main.invoke({ identifier: 'worker-a' }, 'whoami')).resolves.toBe('worker-a')
+  })
+
+  it('should relay ports to a forked process', async () => {
+    const link = createChildProcessLink()
+    const utility = new DirectIpcUtility<TestMessageMap, TestInvokeMap, TestIdentifiers>({
+      identifier: 'worker-a',
+      transport: childProcessParentTransport(link.proc),
+    })
+    main.registerUtilityProcess('worker-a', fromChildProcess(link.child))
+    utility.handle('add', (_sender, x, y) => x + y)
+    await vi.waitFor(() => expect((utility as any).map).toHaveLength(2))
+
+    await expect(main.invoke({ identifier: 'worker-a' }, 'add', 4, 5)).resolves.toBe(9)
+    expect(main.getRegistry().get(2)?.pid).toBe(4242)
+  })
+})
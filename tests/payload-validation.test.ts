@@ -0,0 +1,175 @@
+/**
+ * Tests for runtime payload validation (schemas checked on receive)
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+import { PayloadValidationError, RemoteInvokeError } from '../src/common/DirectIpcErrors'
+import { StandardSchemaV1, fromStandardSchema } from '../src/common/DirectIpcValidation'
+
+type TestMessageMap = {
+  'set-volume': (level: number) => void
+}
+
+type TestInvokeMap = {
+  add: (a: number, b: number) => number
+  'count-up': (to: number) => AsyncIterable<number>
+}
+
+type TestIdentifiers = 'controller' | 'worker'
+
+const isNumberTuple = (value: unknown) =>
+  Array.isArray(value) && value.every((item) => typeof item === 'number')
+
+/**
+ * Hand-rolled Standard Schema accepting non-negative numbers
+ */
+const nonNegative: StandardSchemaV1 = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) =>
+      typeof value === 'number' && value >= 0
+        ? { value }
+        : { issues: [{ message: 'Expected a non-negative number', path: [0] }] },
+  },
+}
+
+describe('fromStandardSchema', () => {
+  it('should report issues with their path', () => {
+    const validator = fromStandardSchema(nonNegative)
+
+    expect(validator(3)).toBe(true)
+    expect(validator(-1)).toEqual(['0: Expected a non-negative number'])
+  })
+
+  it('should reject asynchronous schemas', () => {
+    const asyncSchema: StandardSchemaV1 = {
+      '~standard': { version: 1, vendor: 'test', validate: async (value) => ({ value }) },
+    }
+
+    expect(fromStandardSchema(asyncSchema)(1)).toEqual(['Asynchronous schemas are not supported'])
+  })
+})
+
+describe('Payload validation', () => {
+  const network = useRendererNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>([
+    'controller',
+    'worker',
+  ])
+
+  it('should drop messages that fail validation', async () => {
+    const { controller, worker } = network.renderers
+    const listener = vi.fn()
+    const throttledListener = vi.fn()
+
+    worker.setSchemas({ messages: { 'set-volume': isNumberTuple } })
+    worker.on('set-volume', listener)
+    worker.throttled.on('set-volume', throttledListener)
+
+    await controller.send({ identifier: 'worker' }, 'set-volume', 'loud' as unknown as number)
+    await controller.send({ identifier: 'worker' }, 'set-volume', 7)
+    // Messages arrive in order, so the invalid one was dropped once the valid one is delivered
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled())
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(expect.anything(), 7)
+    await vi.waitFor(() => expect(throttledListener).toHaveBeenCalledTimes(1))
+    expect(throttledListener).toHaveBeenCalledWith(expect.anything(), 7)
+  })
+
+  it("should deliver invalid messages with the 'log' policy", async () => {
+    const { controller, worker } = network.renderers
+    const listener = vi.fn()
+
+    worker.setSchemas({ messages: { 'set-volume': isNumberTuple } })
+    worker.setValidationPolicy('log')
+    worker.on('set-volume', listener)
+
+    await controller.send({ identifier: 'worker' }, 'set-volume', 'loud' as unknown as number)
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith(expect.anything(), 'loud'))
+  })
+
+  it('should reject invokes whose args fail validation', async () => {
+    const { controller, worker } = network.renderers
+    const handler = vi.fn((_sender, a: number, b: number) => a + b)
+
+    worker.setSchemas({ invokes: { add: { args: isNumberTuple } } })
+    worker.handle('add', handler)
+
+    const error = await controller
+      .invoke({ identifier: 'worker' }, 'add', 1, '2' as unknown as number)
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(RemoteInvokeError)
+    expect(error.cause).toBeInstanceOf(PayloadValidationError)
+    expect(error.cause.kind).toBe('args')
+    expect(handler).not.toHaveBeenCalled()
+
+    await expect(controller.invoke({ identifier: 'worker' }, 'add', 1, 2)).resolves.toBe(3)
+  })
+
+  it("should still answer invalid invokes with the 'drop' policy", async () => {
+    const { controller, worker } = network.renderers
+    const handler = vi.fn((_sender: unknown, a: number, b: number) => a + b)
+
+    worker.setSchemas({ invokes: { add: { args: isNumberTuple } } })
+    worker.setValidationPolicy('drop')
+    worker.handle('add', handler)
+
+    const error = await controller
+      .invoke({ identifier: 'worker' }, 'add', 1, '2' as unknown as number)
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(RemoteInvokeError)
+    expect(error.cause).toBeInstanceOf(PayloadValidationError)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should reject invoke results that fail validation', async () => {
+    const { controller, worker } = network.renderers
+
+    controller.setSchemas({ invokes: { add: { result: nonNegative } } })
+    worker.handle('add', (_sender, a, b) => a + b)
+
+    const error = await controller.invoke({ identifier: 'worker' }, 'add', 1, -5).catch((e) => e)
+
+    expect(error).toBeInstanceOf(PayloadValidationError)
+    expect(error.kind).toBe('result')
+  })
+
+  it("should reject invokes whose result fails validation with the 'drop' policy", async () => {
+    const { controller, worker } = network.renderers
+
+    controller.setSchemas({ invokes: { add: { result: nonNegative } } })
+    controller.setValidationPolicy('drop')
+    worker.handle('add', (_sender, a, b) => a + b)
+
+    const error = await controller.invoke({ identifier: 'worker' }, 'add', 1, -5).catch((e) => e)
+
+    expect(error).toBeInstanceOf(PayloadValidationError)
+    expect(error.kind).toBe('result')
+    await expect(controller.invoke({ identifier: 'worker' }, 'add', 1, 2)).resolves.toBe(3)
+  })
+
+  it('should validate each chunk of a stream', async () => {
+    const { controller, worker } = network.renderers
+
+    controller.setSchemas({ invokes: { 'count-up': { result: nonNegative } } })
+    worker.handle('count-up', async function* () {
+      yield 1
+      yield -1
+      yield 2
+    })
+
+    const received: number[] = []
+    await expect(async () => {
+      for await (const value of controller.invokeStream({ identifier: 'worker' }, 'count-up', 3)) {
+        received.push(value)
+      }
+    }).rejects.toThrow(PayloadValidationError)
+
+    expect(received).toEqual([1])
+  })
+})
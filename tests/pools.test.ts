@@ -0,0 +1,107 @@
+/**
+ * Tests for addressing a pool of processes with load-balanced invoke() and send()
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+
+type TestMessageMap = {
+  'clear-cache': () => void
+}
+
+type TestInvokeMap = {
+  whoami: () => string
+  'slow-task': () => string
+}
+
+type TestIdentifiers = 'controller' | 'editor' | 'worker-1' | 'worker-2' | 'worker-3'
+
+describe('Pools', () => {
+  const workers = ['worker-1', 'worker-2', 'worker-3'] as const
+  const network = useRendererNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>(
+    ['controller', 'editor', ...workers],
+    { pools: { 'worker-1': 'compute', 'worker-2': 'compute', 'worker-3': 'compute' } }
+  )
+
+  beforeEach(() => {
+    for (const id of workers) {
+      network.renderers[id].handle('whoami', () => id)
+    }
+  })
+
+  it('should take turns across members by default', async () => {
+    const { controller } = network.renderers
+
+    const answers: string[] = []
+    for (let i = 0; i < 4; i++) {
+      answers.push(await controller.invoke({ pool: 'compute' }, 'whoami'))
+    }
+
+    expect(answers).toEqual(['worker-1', 'worker-2', 'worker-3', 'worker-1'])
+  })
+
+  it('should pick the member with the fewest invokes in flight', async () => {
+    const { controller } = network.renderers
+    const slowTask = vi.fn(() => new Promise<string>(() => {}))
+    network.renderers['worker-1'].handle('slow-task', slowTask)
+    void controller
+      .invoke({ pool: 'compute' }, 'slow-task', { timeout: 1000 })
+      .catch(() => undefined)
+    await vi.waitFor(() => expect(slowTask).toHaveBeenCalled())
+
+    const answers: string[] = []
+    for (let i = 0; i < 3; i++) {
+      answers.push(await controller.invoke({ pool: 'compute', balance: 'least-pending' }, 'whoami'))
+    }
+
+    expect(answers).not.toContain('worker-1')
+  })
+
+  it('should send the same key to the same member from every process', async () => {
+    const { controller, editor } = network.renderers
+    const selector = { pool: 'compute', balance: 'sticky', key: 'project-42' } as const
+
+    const fromController = await controller.invoke(selector, 'whoami')
+    const again = await controller.invoke(selector, 'whoami')
+    const fromEditor = await editor.invoke(selector, 'whoami')
+
+    expect(again).toBe(fromController)
+    expect(fromEditor).toBe(fromController)
+  })
+
+  it('should send to one member, or to every member with broadcast', async () => {
+    const { controller } = network.renderers
+    const listeners = workers.map((id) => {
+      const listener = vi.fn()
+      network.renderers[id].on('clear-cache', listener)
+      return listener
+    })
+
+    const received = () => listeners.map((l) => l.mock.calls.length)
+
+    await controller.send({ pool: 'compute' }, 'clear-cache')
+    await vi.waitFor(() => expect(received()).toContain(1))
+
+    await controller.send({ pool: 'compute', broadcast: true }, 'clear-cache')
+    // The member that got the first message has it twice, the others once
+    await vi.waitFor(() => expect(received().sort()).toEqual([1, 1, 2]))
+  })
+
+  it('should fan invokeAll() out over every member', async () => {
+    const { controller } = network.renderers
+
+    const results = await controller.invokeAll({ pool: 'compute' }, 'whoami')
+
+    expect(results.map((r) => (r.status === 'fulfilled' ? r.value : undefined))).toEqual([
+      ...workers,
+    ])
+  })
+
+  it('should reject invokes to a pool without members', async () => {
+    const { controller } = network.renderers
+
+    await expect(controller.invoke({ pool: 'render' }, 'whoami')).rejects.toThrow(
+      'No members in pool "render"'
+    )
+  })
+})
@@ -0,0 +1,124 @@
+/**
+ * Tests for typed RPC proxies (proxy() and expose())
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+import { RemoteInvokeError } from '../src/common/DirectIpcErrors'
+
+type WorkerInvokes = {
+  'heavy-computation': (nums: number[]) => number
+  'get-status': () => Promise<string>
+}
+
+type ExactInvokes = {
+  getUser: (id: string) => { id: string }
+  'get-status': () => string
+}
+
+type TestIdentifiers = 'controller' | 'compute-worker'
+
+class ComputeService {
+  private calls = 0
+
+  heavyComputation(nums: number[]): number {
+    this.calls++
+    return nums.reduce((sum, n) => sum + n, 0)
+  }
+
+  async getStatus(): Promise<string> {
+    return `calls: ${this.calls}`
+  }
+}
+
+describe('proxy() and expose()', () => {
+  const network = useRendererNetwork<Record<string, never>, WorkerInvokes, TestIdentifiers>([
+    'controller',
+    'compute-worker',
+  ])
+
+  it('should invoke the kebab-case channel of each proxy method', async () => {
+    const { controller } = network.renderers
+    network.renderers['compute-worker'].handle('heavy-computation', (_sender, nums) =>
+      nums.reduce((sum, n) => sum + n, 0)
+    )
+
+    const worker = controller.proxy({ identifier: 'compute-worker' })
+
+    await expect(worker.heavyComputation([1, 2, 3])).resolves.toBe(6)
+  })
+
+  it('should pass per-call InvokeOptions through to invoke()', async () => {
+    const { controller } = network.renderers
+    network.renderers['compute-worker'].handle('get-status', () => new Promise<string>(() => {}))
+    const invoke = vi.spyOn(controller, 'invoke')
+
+    const worker = controller.proxy({ identifier: 'compute-worker' })
+
+    await expect(worker.getStatus({ timeout: 20 })).rejects.toThrow('timeout')
+    expect(invoke).toHaveBeenCalledWith({ identifier: 'compute-worker' }, 'get-status', {
+      timeout: 20,
+    })
+  })
+
+  it('should register every method of a class instance with expose()', async () => {
+    const { controller } = network.renderers
+    network.renderers['compute-worker'].expose(new ComputeService())
+
+    const worker = controller.proxy({ identifier: 'compute-worker' })
+
+    await expect(worker.heavyComputation([4, 5])).resolves.toBe(9)
+    await expect(worker.getStatus()).resolves.toBe('calls: 1')
+  })
+
+  it('should remove the handlers when the returned function is called', async () => {
+    const { controller } = network.renderers
+    const unexpose = network.renderers['compute-worker'].expose(new ComputeService())
+    unexpose()
+
+    const worker = controller.proxy({ identifier: 'compute-worker' })
+
+    await expect(worker.getStatus()).rejects.toThrow('No handler registered')
+  })
+
+  it('should apply handle() options to exposed methods', async () => {
+    const { controller } = network.renderers
+    network.renderers['compute-worker'].expose(new ComputeService(), {
+      allow: { identifier: 'someone-else' },
+    })
+
+    const worker = controller.proxy({ identifier: 'compute-worker' })
+
+    await expect(worker.heavyComputation([1])).rejects.toBeInstanceOf(RemoteInvokeError)
+  })
+
+  it('should keep method names as channels with exact naming', async () => {
+    const { controller } = network.renderers
+    const handle = vi.spyOn(network.renderers['compute-worker'], 'handle')
+    network.renderers['compute-worker'].expose<ExactInvokes>(
+      { getUser: (id) => ({ id }), 'get-status': () => 'idle' },
+      { naming: 'exact' }
+    )
+
+    const worker = controller.proxy<ExactInvokes>(
+      { identifier: 'compute-worker' },
+      { naming: 'exact' }
+    )
+
+    expect(handle.mock.calls.map(([channel]) => channel)).toEqual(['getUser', 'get-status'])
+    await expect(worker.getUser('42')).resolves.toEqual({ id: '42' })
+    await expect(worker['get-status']()).resolves.toBe('idle')
+  })
+
+  it('should work through the throttled wrapper and not look like a promise', async () => {
+    const { controller } = network.renderers
+    network.renderers['compute-worker'].throttled.expose(new ComputeService())
+
+    const worker = await Promise.resolve(
+      controller.throttled.proxy({ identifier: 'compute-worker' })
+    )
+
+    await expect(worker.heavyComputation([2, 2])).resolves.toBe(4)
+    expect(worker.heavyComputation).toBe(worker.heavyComputation)
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Tests for lost port detection, port-lost/port-reconnected events and invoke recovery
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+import { PortLostError } from '../src/common/DirectIpcErrors'
+import { withOptions } from '../src/common/DirectIpcOptions'
+
+type TestInvokeMap = {
+  'load-project': (name: string) => string
+  'tail-log': () => AsyncGenerator<string>
+}
+
+type TestIdentifiers = 'controller' | 'output'
+
+describe('Port reconnection', () => {
+  const network = useRendererNetwork<Record<string, never>, TestInvokeMap, TestIdentifiers>([
+    'controller',
+    'output',
+  ])
+
+  /** Drop the output's end of the channel, as a reload of the output window would */
+  const reloadOutput = () => {
+    const output = network.renderers.output
+    ;(output as any).cleanupPort(network.targets[0]!)
+  }
+
+  it('should reject in-flight invokes with PortLostError when the port closes', async () => {
+    const { controller, output } = network.renderers
+    const handler = vi.fn(() => new Promise<string>(() => {}))
+    output.handle('load-project', handler)
+    const lost = vi.fn()
+    controller.localEvents.on('port-lost', lost)
+
+    const result = controller.invoke({ identifier: 'output' }, 'load-project', 'demo')
+    await vi.waitFor(() => expect(handler).toHaveBeenCalled())
+    reloadOutput()
+
+    await expect(result).rejects.toBeInstanceOf(PortLostError)
+    expect(lost).toHaveBeenCalledWith(expect.objectContaining({ identifier: 'output' }))
+  })
+
+  it('should re-issue invokes made with retryOnReconnect on a new port', async () => {
+    const { controller, output } = network.renderers
+    let calls = 0
+    output.handle('load-project', (_sender, name) => {
+      calls++
+      // The first request is lost with the reload
+      return calls === 1 ? new Promise<string>(() => {}) : `loaded ${name}`
+    })
+    const reconnected = vi.fn()
+    controller.localEvents.on('port-reconnected', reconnected)
+
+    const result = controller.invoke(
+      { identifier: 'output' },
+      'load-project',
+      'demo',
+      withOptions({
+        retryOnReconnect: true,
+      })
+    )
+    await vi.waitFor(() => expect(calls).toBe(1))
+    reloadOutput()
+
+    await expect(result).resolves.toBe('loaded demo')
+    expect(calls).toBe(2)
+    expect(reconnected).toHaveBeenCalledWith(expect.objectContaining({ identifier: 'output' }))
+  })
+
+  it('should wait for the target to return to the map before re-issuing', async () => {
+    const { controller, output } = network.renderers
+    const handler = vi.fn(() => new Promise<string>(() => {}))
+    output.handle('load-project', handler)
+    const getPort = vi.spyOn(controller as any, 'getTargetPort')
+
+    const result = controller.invoke(
+      { identifier: 'output' },
+      'load-project',
+      'demo',
+      withOptions({
+        retryOnReconnect: true,
+        timeout: 200,
+      })
+    )
+    await vi.waitFor(() => expect(handler).toHaveBeenCalled())
+    ;(controller as any).handleMapUpdate([network.targets[0]!])
+    // Let the lost invoke's callbacks run
+    await new Promise((resolve) => setImmediate(resolve))
+    expect(getPort).not.toHaveBeenCalled()
+
+    output.removeHandler('load-project')
+    output.handle('load-project', (_sender, name) => `loaded ${name}`)
+    ;(controller as any).handleMapUpdate(network.targets)
+
+    await expect(result).resolves.toBe('loaded demo')
+    expect(getPort).toHaveBeenCalledWith(expect.objectContaining({ identifier: 'output' }), true)
+  })
+
+  it('should treat a new process ID for the same identifier as a lost port', async () => {
+    const { controller, output } = network.renderers
+    const handler = vi.fn(() => new Promise<string>(() => {}))
+    output.handle('load-project', handler)
+
+    const result = controller.invoke({ identifier: 'output' }, 'load-project', 'demo')
+    await vi.waitFor(() => expect(handler).toHaveBeenCalled())
+    const restarted = { ...network.targets[1]!, id: 99 }
+    ;(controller as any).handleMapUpdate([network.targets[0]!, restarted])
+
+    await expect(result).rejects.toThrow('lost while waiting for load-project')
+  })
+
+  it('should fail streams whose port is lost', async () => {
+    const { controller, output } = network.renderers
+    output.handle('tail-log', async function* () {
+      yield 'line 1'
+      await new Promise(() => {})
+    })
+
+    const stream = controller.invokeStream({ identifier: 'output' }, 'tail-log')
+    await expect(stream.next()).resolves.toEqual({ value: 'line 1', done: false })
+    reloadOutput()
+
+    await expect(stream.next()).rejects.toBeInstanceOf(PortLostError)
+  })
+})
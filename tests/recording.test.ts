@@ -0,0 +1,287 @@
+/**
+ * Tests for recording DirectIpc traffic to JSONL files and replaying it
+ */
+
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+vi.mock('electron', () => ({
+  app: undefined,
+  BrowserWindow: undefined,
+  ipcMain: undefined,
+  ipcRenderer: undefined,
+  webContents: undefined,
+  MessageChannelMain: undefined,
+  utilityProcess: undefined,
+}))
+
+import { createTestNetwork, TestNetwork } from '../src/testing'
+import { DirectIpcRenderer } from '../src/renderer/DirectIpcRenderer'
+import { readRecording, RemoteInvokeError } from '../src/main/DirectIpcMain'
+import { ProcessType } from '../src/common/DirectIpcCommunication'
+import { DirectIpcRecordingEntry, REDACTED, redactEntry } from '../src/common/DirectIpcRecording'
+
+type TestMessageMap = {
+  status: (value: string) => void
+  login: (credentials: { user: string; password: string }) => void
+}
+
+type TestInvokeMap = {
+  add: (a: number, b: number) => number
+  fail: () => void
+}
+
+type TestIdentifiers = 'editor' | 'preview' | 'worker'
+
+const createNetwork = async () => {
+  const network = createTestNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>({
+    renderers: ['editor', 'preview'],
+    utilities: ['worker'],
+  })
+  await network.flush()
+  return network
+}
+
+describe('Recording and replay', () => {
+  let network: TestNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>
+  let dir: string
+
+  beforeEach(async () => {
+    network = await createNetwork()
+    dir = await mkdtemp(join(tmpdir(), 'direct-ipc-recording-'))
+  })
+
+  afterEach(async () => {
+    network.close()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  /** Record some traffic between editor, preview and worker */
+  const record = async () => {
+    const path = join(dir, 'session.jsonl')
+    network.utilities.worker.handle('add', (_sender, a, b) => a + b)
+    network.utilities.worker.handle('fail', () => {
+      throw new Error('nope')
+    })
+
+    const recorder = network.main.startRecording(path, {
+      redact: [{ channel: 'login', paths: ['args.0.password'] }],
+    })
+    await network.flush()
+
+    await network.renderers.editor.send({ identifier: 'preview' }, 'status', 'saved')
+    await network.renderers.editor.send({ identifier: 'preview' }, 'login', {
+      user: 'ada',
+      password: 'hunter2',
+    })
+    await network.renderers.editor.invoke({ identifier: 'worker' }, 'add', 1, 2)
+    await expect(
+      network.renderers.editor.invoke({ identifier: 'worker' }, 'fail')
+    ).rejects.toThrow()
+    await network.flush()
+    await recorder.stop()
+    return path
+  }
+
+  it('should write traffic, payloads and map updates to a JSONL file', async () => {
+    const path = await record()
+
+    const [header] = (await readFile(path, 'utf8')).split('\n')
+    expect(JSON.parse(header!)).toMatchObject({ kind: 'recording', version: 1 })
+
+    const entries = await readRecording(path)
+    expect(entries[0]).toMatchObject({ kind: 'map-update' })
+    expect(entries).toContainEqual(
+      expect.objectContaining({
+        kind: 'message',
+        direction: 'received',
+        channel: 'status',
+        args: ['saved'],
+        process: expect.objectContaining({ identifier: 'preview' }),
+        peer: expect.objectContaining({ identifier: 'editor' }),
+      })
+    )
+    expect(entries).toContainEqual(
+      expect.objectContaining({
+        kind: 'invoke-response',
+        direction: 'received',
+        channel: 'add',
+        result: 3,
+        process: expect.objectContaining({ identifier: 'editor' }),
+      })
+    )
+  })
+
+  it('should redact payloads before writing them', async () => {
+    const path = await record()
+
+    const text = await readFile(path, 'utf8')
+    expect(text).not.toContain('hunter2')
+    expect(await readRecording(path)).toContainEqual(
+      expect.objectContaining({
+        channel: 'login',
+        direction: 'sent',
+        args: [{ user: 'ada', password: REDACTED }],
+      })
+    )
+  })
+
+  it('should redact responses to invokes sent before recording started', async () => {
+    const path = join(dir, 'session.jsonl')
+    let release!: () => void
+    const released = new Promise<void>((resolve) => (release = resolve))
+    network.utilities.worker.handle('add', async (_sender, a, b) => {
+      await released
+      return a + b
+    })
+    const result = network.renderers.editor.invoke({ identifier: 'worker' }, 'add', 20, 22)
+    await network.flush()
+
+    const recorder = network.main.startRecording(path, { redact: [{ channel: 'login' }] })
+    await network.flush()
+    release()
+    await expect(result).resolves.toBe(42)
+    await network.flush()
+    await recorder.stop()
+
+    const responses = (await readRecording(path)).filter(
+      (entry) => entry.kind === 'invoke-response'
+    )
+    expect(responses).toHaveLength(2)
+    for (const response of responses) {
+      expect(response).toMatchObject({ result: REDACTED })
+      expect(response).not.toHaveProperty('channel')
+    }
+  })
+
+  it('should stop asking processes to tap once stopped', async () => {
+    network.renderers.preview.setTap(true)
+    await record()
+    // Processes are asked to stop tapping like they were asked to start: asynchronously
+    await network.flush()
+    const recorded = network.main.getTapLog().length
+
+    await network.renderers.editor.send({ identifier: 'preview' }, 'status', 'after')
+    await network.flush()
+
+    // Only preview still taps, as it did before the recording
+    const after = network.main.getTapLog().slice(recorded)
+    expect(after.map((r) => r.process.identifier)).toEqual(['preview'])
+    expect(after[0]).not.toHaveProperty('args')
+  })
+
+  it('should refuse to start a second recording', () => {
+    network.main.startRecording(join(dir, 'a.jsonl'))
+    expect(() => network.main.startRecording(join(dir, 'b.jsonl'))).toThrow('already in progress')
+  })
+
+  describe('replay()', () => {
+    let recording: DirectIpcRecordingEntry[]
+
+    beforeEach(async () => {
+      recording = await readRecording(await record())
+      network.close()
+      network = await createNetwork()
+    })
+
+    it('should emit recorded messages with their recorded sender', async () => {
+      const status = vi.fn()
+      network.renderers.preview.on('status', status)
+
+      await network.renderers.preview.replay(recording, { speed: 0 }).done
+
+      expect(status).toHaveBeenCalledWith(
+        expect.objectContaining({ identifier: 'editor' }),
+        'saved'
+      )
+    })
+
+    it('should answer invokes from recorded responses, then go out as usual', async () => {
+      const handler = vi.fn((_sender: unknown, a: number, b: number) => a * b)
+      network.utilities.worker.handle('add', handler)
+      const replay = network.renderers.editor.replay(recording, { speed: 0 })
+
+      await expect(
+        network.renderers.editor.invoke({ identifier: 'worker' }, 'add', 5, 5)
+      ).resolves.toBe(3)
+      await expect(
+        network.renderers.editor.invoke({ identifier: 'worker' }, 'fail')
+      ).rejects.toBeInstanceOf(RemoteInvokeError)
+      expect(handler).not.toHaveBeenCalled()
+
+      await expect(
+        network.renderers.editor.invoke({ identifier: 'worker' }, 'add', 5, 5)
+      ).resolves.toBe(25)
+      replay.stop()
+    })
+
+    it('should keep the recorded timing, scaled by speed', async () => {
+      const base = recording.find((entry) => entry.kind === 'message')!.time
+      const entries = [0, 400].map(
+        (offset, i): DirectIpcRecordingEntry => ({
+          kind: 'message',
+          direction: 'received',
+          channel: 'status',
+          args: [`step ${i}`],
+          time: base + offset,
+          process: { id: 3, identifier: 'preview', processType: ProcessType.RENDERER },
+          peer: { id: 2, identifier: 'editor', processType: ProcessType.RENDERER },
+        })
+      )
+      const status = vi.fn()
+      network.renderers.preview.on('status', status)
+
+      const replay = network.renderers.preview.replay(entries, { speed: 2 })
+      await vi.waitFor(() => expect(status).toHaveBeenCalledTimes(1))
+      expect(status).toHaveBeenCalledTimes(1)
+      await replay.done
+      expect(status).toHaveBeenLastCalledWith(expect.anything(), 'step 1')
+    })
+
+    it('should need options.process in a process without an identifier', () => {
+      const anonymous = DirectIpcRenderer._createInstance<TestMessageMap, TestInvokeMap>(
+        { log: {} },
+        { ipcRenderer: { on: vi.fn(), invoke: vi.fn(async () => []) } as never }
+      )
+      const status = vi.fn()
+      anonymous.on('status', status)
+
+      expect(() => anonymous.replay(recording)).toThrow('Pass options.process')
+      anonymous.replay(recording, { process: { identifier: 'preview' }, speed: 0 }).stop()
+      expect(status).not.toHaveBeenCalled()
+    })
+
+    it('should replay each process its part against the running app', async () => {
+      const status = vi.fn()
+      network.renderers.preview.on('status', status)
+
+      network.main.replayRecording(recording, { speed: 0 })
+      await network.flush()
+
+      expect(status).toHaveBeenCalledWith(expect.anything(), 'saved')
+      await expect(
+        network.renderers.editor.invoke({ identifier: 'worker' }, 'add', 5, 5)
+      ).resolves.toBe(3)
+    })
+  })
+
+  it('should redact whole payloads or wildcard paths', () => {
+    const entry: DirectIpcRecordingEntry = {
+      kind: 'invoke-response',
+      direction: 'received',
+      channel: 'users',
+      result: { users: [{ name: 'ada', email: 'a@example.com' }] },
+      time: 0,
+      process: { id: 1, processType: ProcessType.MAIN },
+      peer: { id: 2, processType: ProcessType.UTILITY },
+    }
+
+    expect(redactEntry(entry, [{ channel: /^user/ }])).toMatchObject({ result: REDACTED })
+    expect(
+      redactEntry(entry, [{ channel: 'users', paths: ['result.users.*.email'] }])
+    ).toMatchObject({ result: { users: [{ name: 'ada', email: REDACTED }] } })
+    expect(redactEntry(entry, [{ channel: 'other' }])).toBe(entry)
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Tests for reliable delivery (sendReliable() with acknowledgements, retries and deduplication)
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+import { DeliveryTimeoutError } from '../src/common/DirectIpcErrors'
+import { withOptions } from '../src/common/DirectIpcOptions'
+
+type TestMessageMap = {
+  'save-settings': (settings: { theme: string }) => void
+  'schedule-report': (report: { deadline: string }) => void
+}
+
+type TestIdentifiers = 'controller' | 'output:1' | 'output:2'
+
+/**
+ * Drop frames of the given type posted by a renderer, `count` times
+ */
+function dropFrames(renderer: object, type: string, count = Infinity) {
+  let dropped = 0
+  const original = (renderer as any).postMessageToPort.bind(renderer)
+  return vi.spyOn(renderer as any, 'postMessageToPort').mockImplementation((port, message) => {
+    if ((message as { type?: string }).type === type && dropped < count) {
+      dropped++
+      return
+    }
+    original(port, message)
+  })
+}
+
+describe('sendReliable', () => {
+  const network = useRendererNetwork<TestMessageMap, Record<string, never>, TestIdentifiers>([
+    'controller',
+    'output:1',
+    'output:2',
+  ])
+
+  it('should resolve once the receiver acknowledges the message', async () => {
+    const { controller } = network.renderers
+    const listener = vi.fn()
+    network.renderers['output:1'].on('save-settings', listener)
+
+    await controller.sendReliable({ identifier: 'output:1' }, 'save-settings', { theme: 'dark' })
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(expect.anything(), { theme: 'dark' })
+  })
+
+  it('should retry over a fresh port when a message is lost', async () => {
+    const { controller } = network.renderers
+    const listener = vi.fn()
+    network.renderers['output:1'].on('save-settings', listener)
+    const post = dropFrames(controller, 'reliable-message', 1)
+    const getPort = vi.spyOn(controller as any, 'getPort')
+
+    await controller.sendReliable(
+      { identifier: 'output:1' },
+      'save-settings',
+      { theme: 'dark' },
+      withOptions({ retryInterval: 20 })
+    )
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(post).toHaveBeenCalledTimes(2)
+    expect(getPort).toHaveBeenLastCalledWith({ webContentsId: 2 }, true)
+  })
+
+  it('should run listeners once when a retried message was already delivered', async () => {
+    const { controller } = network.renderers
+    const output = network.renderers['output:1']
+    const listener = vi.fn()
+    output.on('save-settings', listener)
+    // The first ack is lost, so the sender retries a message the receiver already has
+    dropFrames(output, 'reliable-ack', 1)
+
+    await controller.sendReliable(
+      { identifier: 'output:1' },
+      'save-settings',
+      { theme: 'dark' },
+      withOptions({ retryInterval: 20 })
+    )
+
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reject with DeliveryTimeoutError when the deadline passes', async () => {
+    const { controller } = network.renderers
+    const listener = vi.fn()
+    network.renderers['output:1'].on('save-settings', listener)
+    dropFrames(controller, 'reliable-message')
+
+    const error = await controller
+      .sendReliable(
+        { identifier: 'output:1' },
+        'save-settings',
+        { theme: 'dark' },
+        withOptions({ deadline: 100, retryInterval: 20 })
+      )
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(DeliveryTimeoutError)
+    expect(error.channel).toBe('save-settings')
+    expect(error.attempts).toBeGreaterThan(1)
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should keep retrying while the target is missing from the map', async () => {
+    const { controller } = network.renderers
+
+    await expect(
+      controller.sendReliable(
+        { identifier: 'output:1' },
+        'save-settings',
+        { theme: 'dark' },
+        withOptions({ deadline: 50, retryInterval: 10 })
+      )
+    ).resolves.toBeUndefined()
+
+    const error = await controller
+      .sendReliable(
+        { identifier: 'output:3' as TestIdentifiers },
+        'save-settings',
+        {
+          theme: 'dark',
+        },
+        withOptions({ deadline: 50, retryInterval: 10 })
+      )
+      .catch((e) => e)
+    expect(error).toBeInstanceOf(DeliveryTimeoutError)
+    expect(error.attempts).toBe(0)
+  })
+
+  it('should deliver to every target matching allIdentifiers', async () => {
+    const { controller } = network.renderers
+    const first = vi.fn()
+    const second = vi.fn()
+    network.renderers['output:1'].on('save-settings', first)
+    network.renderers['output:2'].on('save-settings', second)
+
+    await controller.sendReliable({ allIdentifiers: /^output:/ }, 'save-settings', {
+      theme: 'light',
+    })
+
+    expect(first).toHaveBeenCalledTimes(1)
+    expect(second).toHaveBeenCalledTimes(1)
+  })
+
+  it('should pass a payload with a deadline key through as an argument', async () => {
+    const { controller } = network.renderers
+    const listener = vi.fn()
+    network.renderers['output:1'].on('schedule-report', listener)
+
+    await controller.sendReliable({ identifier: 'output:1' }, 'schedule-report', {
+      deadline: '2026-01-01',
+    })
+
+    expect(listener).toHaveBeenCalledWith(expect.anything(), { deadline: '2026-01-01' })
+  })
+})
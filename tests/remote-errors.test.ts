@@ -0,0 +1,155 @@
+/**
+ * Tests for structured remote errors (serialization, registry, RemoteInvokeError)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+import {
+  RemoteInvokeError,
+  deserializeError,
+  registerErrorClass,
+  serializeError,
+  unregisterErrorClass,
+} from '../src/common/DirectIpcErrors'
+import { UtilityProcessNotFoundError } from '../src/utility/errors'
+
+class QuotaExceededError extends Error {
+  public readonly limit: number
+
+  constructor(limit: number) {
+    super(`Quota of ${limit} exceeded`)
+    this.name = 'QuotaExceededError'
+    this.limit = limit
+  }
+
+  describe(): string {
+    return `limit=${this.limit}`
+  }
+}
+
+type TestInvokeMap = {
+  save: (name: string) => void
+  'tail-log': (file: string) => AsyncIterable<string>
+}
+
+type TestIdentifiers = 'controller' | 'worker'
+
+describe('serializeError / deserializeError', () => {
+  it('should round-trip name, message, stack, code and custom props', () => {
+    const error = Object.assign(new Error('disk full'), { code: 'ENOSPC', path: '/tmp' })
+
+    const serialized = structuredClone(serializeError(error))
+    const restored = deserializeError(serialized)
+
+    expect(restored).toBeInstanceOf(Error)
+    expect(restored.message).toBe('disk full')
+    expect(restored.stack).toBe(error.stack)
+    expect((restored as any).code).toBe('ENOSPC')
+    expect((restored as any).path).toBe('/tmp')
+  })
+
+  it('should serialize the cause chain', () => {
+    const root = new TypeError('bad input')
+    const error = new Error('wrapped')
+    ;(error as any).cause = root
+
+    const restored = deserializeError(serializeError(error))
+
+    expect((restored as any).cause).toBeInstanceOf(TypeError)
+    expect((restored as any).cause.message).toBe('bad input')
+  })
+
+  it('should drop props that cannot be cloned', () => {
+    const error = Object.assign(new Error('oops'), { retry: () => {}, attempt: 3 })
+
+    expect(serializeError(error).props).toEqual({ attempt: 3 })
+  })
+
+  it('should convert non-Error values', () => {
+    expect(serializeError('plain string')).toEqual({ name: 'Error', message: 'plain string' })
+  })
+
+  it('should rehydrate library error classes', () => {
+    const restored = deserializeError(serializeError(new UtilityProcessNotFoundError('worker')))
+
+    expect(restored).toBeInstanceOf(UtilityProcessNotFoundError)
+    expect((restored as UtilityProcessNotFoundError).identifier).toBe('worker')
+  })
+
+  it('should keep the name of unregistered error classes', () => {
+    const restored = deserializeError(serializeError(new QuotaExceededError(5)))
+
+    expect(restored).not.toBeInstanceOf(QuotaExceededError)
+    expect(restored.name).toBe('QuotaExceededError')
+    expect((restored as any).limit).toBe(5)
+  })
+
+  it('should accept plain string errors', () => {
+    expect(deserializeError('legacy').message).toBe('legacy')
+  })
+})
+
+describe('Remote invoke errors', () => {
+  const network = useRendererNetwork<Record<string, never>, TestInvokeMap, TestIdentifiers>([
+    'controller',
+    'worker',
+  ])
+
+  beforeEach(() => {
+    registerErrorClass(QuotaExceededError)
+  })
+
+  afterEach(() => {
+    unregisterErrorClass('QuotaExceededError')
+  })
+
+  it('should reject with a RemoteInvokeError wrapping the rehydrated error', async () => {
+    const { controller, worker } = network.renderers
+
+    worker.handle('save', () => {
+      throw new QuotaExceededError(10)
+    })
+
+    const error = await controller.invoke({ identifier: 'worker' }, 'save', 'a').catch((e) => e)
+
+    expect(error).toBeInstanceOf(RemoteInvokeError)
+    expect(error.message).toBe('Quota of 10 exceeded')
+    expect(error.channel).toBe('save')
+    expect(error.target.identifier).toBe('worker')
+    expect(error.cause).toBeInstanceOf(QuotaExceededError)
+    expect(error.cause.limit).toBe(10)
+    expect(error.cause.describe()).toBe('limit=10')
+  })
+
+  it('should rehydrate errors thrown by streaming handlers', async () => {
+    const { controller, worker } = network.renderers
+
+    worker.handle('tail-log', async function* () {
+      yield 'first'
+      throw new QuotaExceededError(1)
+    })
+
+    const error = await (async () => {
+      for await (const _line of controller.invokeStream(
+        { identifier: 'worker' },
+        'tail-log',
+        'x'
+      )) {
+        // drain
+      }
+    })().catch((e) => e)
+
+    expect(error).toBeInstanceOf(RemoteInvokeError)
+    expect(error.channel).toBe('tail-log')
+    expect(error.cause).toBeInstanceOf(QuotaExceededError)
+  })
+
+  it('should report a missing handler as a RemoteInvokeError', async () => {
+    const { controller } = network.renderers
+
+    const error = await controller.invoke({ identifier: 'worker' }, 'save', 'a').catch((e) => e)
+
+    expect(error).toBeInstanceOf(RemoteInvokeError)
+    expect(error.message).toBe('No handler registered for channel: save')
+  })
+})
@@ -0,0 +1,158 @@
+/**
+ * Tests for retained channels (last message replayed to late-joining targets)
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+import { DirectIpcThrottled } from '../src/renderer/DirectIpcThrottled'
+
+type TestMessageMap = {
+  'theme-changed': (theme: string) => void
+  'cursor-moved': (x: number) => void
+}
+
+type TestIdentifiers = 'controller' | 'output:1' | 'output:2'
+
+describe('Retained channels', () => {
+  const network = useRendererNetwork<TestMessageMap, Record<string, never>, TestIdentifiers>([
+    'controller',
+    'output:1',
+    'output:2',
+  ])
+
+  beforeEach(() => {
+    network.renderers.controller.setRetainedChannels(['theme-changed'])
+  })
+
+  /**
+   * Send a cursor-moved to an output and wait for it
+   * Messages arrive in order, so anything sent to the output before it has been delivered too.
+   */
+  const settle = async (output: 'output:1' | 'output:2') => {
+    const marker = vi.fn()
+    network.renderers[output].on('cursor-moved', marker)
+    await network.renderers.controller.send({ identifier: output }, 'cursor-moved', -1)
+    await vi.waitFor(() => expect(marker).toHaveBeenCalled())
+    network.renderers[output].off('cursor-moved', marker)
+  }
+
+  it('should replay the last value before newer messages', async () => {
+    const { controller } = network.renderers
+    const received: string[] = []
+    network.renderers['output:2'].on('theme-changed', (_sender, theme) => received.push(theme))
+    ;(controller as any).handleMapUpdate(network.targets.filter((t) => t.identifier !== 'output:2'))
+    await controller.send({ allIdentifiers: /^output:/ }, 'theme-changed', 'dark')
+    await controller.send({ allIdentifiers: /^output:/ }, 'theme-changed', 'light')
+    ;(controller as any).handleMapUpdate(network.targets)
+    await controller.send({ identifier: 'output:2' }, 'theme-changed', 'sepia')
+    await vi.waitFor(() => expect(received).toContain('sepia'))
+
+    expect(received).toEqual(['light', 'sepia'])
+  })
+
+  it('should replay to a target that joins the map later', async () => {
+    const { controller } = network.renderers
+    const listener = vi.fn()
+    network.renderers['output:2'].on('theme-changed', listener)
+
+    const withoutLateTarget = network.targets.filter((t) => t.identifier !== 'output:2')
+    ;(controller as any).handleMapUpdate(withoutLateTarget)
+    await controller.send({ allIdentifiers: /^output:/ }, 'theme-changed', 'dark')
+    expect(listener).not.toHaveBeenCalled()
+    ;(controller as any).handleMapUpdate(network.targets)
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled())
+    await settle('output:2')
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(expect.anything(), 'dark')
+  })
+
+  it('should only replay to targets the message was addressed to', async () => {
+    const { controller } = network.renderers
+    const listener = vi.fn()
+    network.renderers['output:2'].on('theme-changed', listener)
+
+    await controller.send({ identifier: 'output:1' }, 'theme-changed', 'dark')
+    await settle('output:2')
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should replay to each target the value last addressed to it', async () => {
+    const { controller } = network.renderers
+    const first = vi.fn()
+    const second = vi.fn()
+    network.renderers['output:1'].on('theme-changed', first)
+    network.renderers['output:2'].on('theme-changed', second)
+    ;(controller as any).handleMapUpdate(
+      network.targets.filter((t) => t.identifier === 'controller')
+    )
+    await controller.send({ allIdentifiers: 'output:1' }, 'theme-changed', 'dark')
+    await controller.send({ allIdentifiers: 'output:2' }, 'theme-changed', 'light')
+    ;(controller as any).handleMapUpdate(network.targets)
+    await settle('output:1')
+    await settle('output:2')
+
+    expect(first.mock.calls.map(([, theme]) => theme)).toEqual(['dark'])
+    expect(second.mock.calls.map(([, theme]) => theme)).toEqual(['light'])
+  })
+
+  it('should replay a newer value sent to all targets over an older targeted one', async () => {
+    const { controller } = network.renderers
+    const listener = vi.fn()
+    network.renderers['output:1'].on('theme-changed', listener)
+    ;(controller as any).handleMapUpdate(
+      network.targets.filter((t) => t.identifier === 'controller')
+    )
+    await controller.send({ allIdentifiers: 'output:1' }, 'theme-changed', 'dark')
+    await controller.send({ allIdentifiers: /^output:/ }, 'theme-changed', 'light')
+    ;(controller as any).handleMapUpdate(network.targets)
+    await settle('output:1')
+
+    expect(listener.mock.calls.map(([, theme]) => theme)).toEqual(['light'])
+  })
+
+  it('should not replay channels that are not retained', async () => {
+    const { controller } = network.renderers
+    const listener = vi.fn()
+    network.renderers['output:2'].on('cursor-moved', listener)
+    ;(controller as any).handleMapUpdate(network.targets.filter((t) => t.identifier !== 'output:2'))
+    await controller.send({ allIdentifiers: /^output:/ }, 'cursor-moved', 10)
+    ;(controller as any).handleMapUpdate(network.targets)
+    await settle('output:2')
+
+    // Only settle('output:2')'s own message, no replay
+    expect(listener.mock.calls.map((call) => call[1])).toEqual([-1])
+  })
+
+  it('should forget values cleared with clearRetained()', async () => {
+    const { controller } = network.renderers
+    const listener = vi.fn()
+    network.renderers['output:2'].on('theme-changed', listener)
+    ;(controller as any).handleMapUpdate(network.targets.filter((t) => t.identifier !== 'output:2'))
+    await controller.send({ allIdentifiers: /^output:/ }, 'theme-changed', 'dark')
+    controller.clearRetained('theme-changed')
+    ;(controller as any).handleMapUpdate(network.targets)
+    await settle('output:2')
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should retain the coalesced value of a throttled send', async () => {
+    const { controller } = network.renderers
+    const throttled = new DirectIpcThrottled(controller)
+    const listener = vi.fn()
+    const present = vi.fn()
+    network.renderers['output:2'].on('theme-changed', listener)
+    network.renderers['output:1'].on('theme-changed', present)
+    ;(controller as any).handleMapUpdate(network.targets.filter((t) => t.identifier !== 'output:2'))
+    throttled.send({ allIdentifiers: /^output:/ }, 'theme-changed', 'dark')
+    throttled.send({ allIdentifiers: /^output:/ }, 'theme-changed', 'light')
+    await vi.waitFor(() => expect(present).toHaveBeenCalledWith(expect.anything(), 'light'))
+    ;(controller as any).handleMapUpdate(network.targets)
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled())
+    await settle('output:2')
+
+    expect(listener.mock.calls.map((call) => call[1])).toEqual(['light'])
+  })
+})
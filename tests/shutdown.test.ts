@@ -0,0 +1,106 @@
+/**
+ * Tests for drain(): refusing new invokes, waiting for running handlers and flushing throttled sends
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+import { ShuttingDownError } from '../src/common/DirectIpcErrors'
+
+type TestMessageMap = {
+  position: (x: number) => void
+}
+
+type TestInvokeMap = {
+  save: () => string
+}
+
+type TestIdentifiers = 'controller' | 'output'
+
+describe('Graceful shutdown', () => {
+  const network = useRendererNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>([
+    'controller',
+    'output',
+  ])
+
+  it('should refuse invokes once draining', async () => {
+    const { controller, output } = network.renderers
+    output.handle('save', () => 'saved')
+    const shuttingDown = vi.fn()
+    output.localEvents.on('shutting-down', shuttingDown)
+
+    await expect(output.drain()).resolves.toBe(true)
+
+    expect(shuttingDown).toHaveBeenCalledTimes(1)
+    const error = await controller.invoke({ identifier: 'output' }, 'save').catch((e) => e)
+    expect(error.cause).toBeInstanceOf(ShuttingDownError)
+  })
+
+  it('should wait for running handlers to settle', async () => {
+    const { controller, output } = network.renderers
+    let finish: ((value: string) => void) | undefined
+    output.handle('save', () => new Promise<string>((resolve) => (finish = resolve)))
+
+    const result = controller.invoke({ identifier: 'output' }, 'save')
+    await vi.waitFor(() => expect(finish).toBeDefined())
+    let drained = false
+    const draining = output.drain({ timeout: 1000 }).then((settled) => {
+      drained = true
+      return settled
+    })
+    // Let drain() settle if it were not waiting for the handler
+    await new Promise((resolve) => setImmediate(resolve))
+    expect(drained).toBe(false)
+
+    finish!('saved')
+
+    await expect(result).resolves.toBe('saved')
+    await expect(draining).resolves.toBe(true)
+  })
+
+  it('should settle every concurrent drain() once handlers settle', async () => {
+    const { controller, output } = network.renderers
+    let finish: ((value: string) => void) | undefined
+    output.handle('save', () => new Promise<string>((resolve) => (finish = resolve)))
+
+    const result = controller.invoke({ identifier: 'output' }, 'save')
+    await vi.waitFor(() => expect(finish).toBeDefined())
+    const first = output.drain({ timeout: 1000 })
+    const second = output.drain({ timeout: 1000 })
+
+    finish!('saved')
+
+    await expect(result).resolves.toBe('saved')
+    await expect(Promise.all([first, second])).resolves.toEqual([true, true])
+  })
+
+  it('should abort handlers still running after the timeout', async () => {
+    const { controller, output } = network.renderers
+    let signal: AbortSignal | undefined
+    output.handle('save', (sender) => {
+      signal = sender.signal
+      return new Promise<string>(() => {})
+    })
+
+    void controller
+      .invoke({ identifier: 'output' }, 'save', { timeout: 1000 })
+      .catch(() => undefined)
+    await vi.waitFor(() => expect(signal).toBeDefined())
+
+    await expect(output.drain({ timeout: 20 })).resolves.toBe(false)
+    expect(signal?.aborted).toBe(true)
+  })
+
+  it('should flush pending throttled sends', async () => {
+    const { controller, output } = network.renderers
+    const listener = vi.fn()
+    output.on('position', listener)
+    // Connect first so the flush does not wait on port negotiation
+    await controller.send({ identifier: 'output' }, 'position', 0)
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled())
+
+    controller.throttled.send({ identifier: 'output' }, 'position', 42)
+    await controller.drain()
+
+    await vi.waitFor(() => expect(listener).toHaveBeenLastCalledWith(expect.anything(), 42))
+  })
+})
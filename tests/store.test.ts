@@ -0,0 +1,159 @@
+/**
+ * Tests for DirectIpcStore (replicated state with snapshots, deltas and proxied writes)
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+import { DirectIpcStore, applyPatch, diffState } from '../src/common/DirectIpcStore'
+
+type TestIdentifiers = 'controller' | 'output:1' | 'output:2'
+
+type Transport = {
+  playing: boolean
+  position: number
+  selection: { clipIds: string[]; track?: string }
+}
+
+const initialState: Transport = { playing: false, position: 0, selection: { clipIds: [] } }
+
+describe('diffState / applyPatch', () => {
+  it('should describe nested changes and reproduce the next state', () => {
+    const prev = { a: 1, nested: { b: 'x', 'c/d': true }, list: [1, 2] }
+    const next = { a: 1, nested: { b: 'y' }, list: [1, 2, 3], added: null }
+
+    const operations = diffState(prev, next)
+
+    expect(operations).toEqual([
+      { op: 'remove', path: '/nested/c~1d' },
+      { op: 'replace', path: '/nested/b', value: 'y' },
+      { op: 'replace', path: '/list', value: [1, 2, 3] },
+      { op: 'add', path: '/added', value: null },
+    ])
+    expect(applyPatch(prev, operations)).toEqual(next)
+  })
+
+  it('should not mutate the original state and share unchanged branches', () => {
+    const prev = { left: { value: 1 }, right: { value: 2 } }
+    const next = applyPatch(prev, [{ op: 'replace', path: '/left/value', value: 3 }])
+
+    expect(prev.left.value).toBe(1)
+    expect(next.left.value).toBe(3)
+    expect(next.right).toBe(prev.right)
+  })
+})
+
+describe('DirectIpcStore', () => {
+  const network = useRendererNetwork<Record<string, never>, Record<string, never>, TestIdentifiers>(
+    ['controller', 'output:1', 'output:2']
+  )
+  let owner: DirectIpcStore<Transport, TestIdentifiers>
+
+  const subscribe = (id: TestIdentifiers) =>
+    new DirectIpcStore<Transport, TestIdentifiers>(network.renderers[id], {
+      name: 'transport',
+      owner: { identifier: 'controller' },
+    })
+
+  beforeEach(() => {
+    owner = new DirectIpcStore<Transport, TestIdentifiers>(network.renderers.controller, {
+      name: 'transport',
+      initialState,
+    })
+  })
+
+  it('should give subscribers a snapshot when they connect', async () => {
+    await owner.set({ ...initialState, position: 42 })
+    const replica = subscribe('output:1')
+
+    await expect(replica.ready()).resolves.toEqual({ ...initialState, position: 42 })
+    expect(replica.getVersion()).toBe(1)
+  })
+
+  it('should send deltas to subscribers when the owner writes', async () => {
+    const replica = subscribe('output:1')
+    await replica.ready()
+    const listener = vi.fn()
+    replica.subscribe(listener)
+
+    await owner.update((state) => ({ ...state, playing: true }))
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled())
+
+    expect(replica.getState()).toEqual({ ...initialState, playing: true })
+    expect(listener).toHaveBeenCalledWith({ ...initialState, playing: true }, [
+      { op: 'replace', path: '/playing', value: true },
+    ])
+  })
+
+  it('should proxy subscriber writes through the owner to every replica', async () => {
+    const first = subscribe('output:1')
+    const second = subscribe('output:2')
+    await Promise.all([first.ready(), second.ready()])
+
+    await first.update((state) => ({ ...state, selection: { clipIds: ['a', 'b'] } }))
+    await vi.waitFor(() =>
+      expect([owner.getVersion(), first.getVersion(), second.getVersion()]).toEqual([1, 1, 1])
+    )
+
+    const expected = { ...initialState, selection: { clipIds: ['a', 'b'] } }
+    expect(owner.getState()).toEqual(expected)
+    expect(first.getState()).toEqual(expected)
+    expect(second.getState()).toEqual(expected)
+  })
+
+  it('should fetch a snapshot when a delta was missed', async () => {
+    const replica = subscribe('output:1')
+    await replica.ready()
+
+    // Lose the next delta on its way to the subscriber
+    const handlePatch = vi.spyOn(replica as any, 'handlePatch').mockImplementationOnce(() => {})
+    await owner.set({ ...initialState, position: 1 })
+    await vi.waitFor(() => expect(handlePatch).toHaveBeenCalled())
+    expect(replica.getState()?.position).toBe(0)
+
+    await owner.set({ ...initialState, position: 2 })
+    await vi.waitFor(() => expect(replica.getState()?.position).toBe(2))
+
+    expect(replica.getVersion()).toBe(2)
+  })
+
+  it('should resync when the port to the owner is re-established', async () => {
+    const replica = subscribe('output:1')
+    await replica.ready()
+    const output = network.renderers['output:1']
+    const invoke = vi.spyOn(output, 'invoke')
+
+    await owner.set({ ...initialState, position: 7 })
+    ;(replica as any).version = 0 // as if the delta was lost with the old port
+    output.localEvents.emit('message-port-added', network.targets[0]!)
+    await vi.waitFor(() => expect(replica.getVersion()).toBe(1))
+
+    expect(invoke).toHaveBeenCalledTimes(1)
+    expect(replica.getState()?.position).toBe(7)
+  })
+
+  it('should reject invalid writes on the owner', async () => {
+    const output = network.renderers['output:1']
+
+    await expect(
+      output.invoke(
+        { identifier: 'controller' },
+        '___DIRECT_IPC_MESSAGE___:store:transport:write',
+        [{ op: 'move', path: '/playing' }] as never
+      )
+    ).rejects.toThrow('Invalid operations')
+    expect(owner.getVersion()).toBe(0)
+  })
+
+  it('should stop sending deltas to subscribers that closed', async () => {
+    const replica = subscribe('output:1')
+    await replica.ready()
+    const send = vi.spyOn(network.renderers.controller, 'send')
+
+    replica.close()
+    await vi.waitFor(() => expect((owner as any).subscribers.size).toBe(0))
+    await owner.set({ ...initialState, playing: true })
+
+    expect(send).not.toHaveBeenCalled()
+    expect(replica.getState()?.playing).toBe(false)
+  })
+})
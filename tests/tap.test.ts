@@ -0,0 +1,220 @@
+/**
+ * Tests for the traffic tap: processes reporting messages, invokes and ports to DirectIpcMain,
+ * and the inspector window main feeds from it
+ */
+
+import { EventEmitter } from 'events'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+vi.mock('electron', () => ({
+  app: undefined,
+  BrowserWindow: undefined,
+  ipcMain: undefined,
+  ipcRenderer: undefined,
+  webContents: undefined,
+  MessageChannelMain: undefined,
+  utilityProcess: undefined,
+}))
+
+import { createTestNetwork, TestNetwork } from '../src/testing'
+
+type TestMessageMap = {
+  status: (value: string) => void
+}
+
+type TestInvokeMap = {
+  add: (a: number, b: number) => number
+  fail: () => void
+}
+
+type TestIdentifiers = 'editor' | 'preview' | 'worker'
+
+/** Stand-in for the inspector's BrowserWindow */
+class FakeInspectorWindow extends EventEmitter {
+  static created: FakeInspectorWindow[] = []
+  readonly webContents = Object.assign(new EventEmitter(), {
+    id: 99,
+    executeJavaScript: vi.fn(() => Promise.resolve()),
+  })
+  readonly loadURL = vi.fn(() => Promise.resolve())
+  readonly focus = vi.fn()
+  private destroyed = false
+
+  constructor(readonly options: unknown) {
+    super()
+    FakeInspectorWindow.created.push(this)
+  }
+
+  isDestroyed(): boolean {
+    return this.destroyed
+  }
+
+  close(): void {
+    this.destroyed = true
+    this.emit('closed')
+  }
+
+  /** Updates pushed into the page so far */
+  updates(): { map: { identifier?: string }[]; records: unknown[]; reset?: boolean }[] {
+    return this.webContents.executeJavaScript.mock.calls.map((call: unknown[]) =>
+      JSON.parse(/update\((.*)\)$/s.exec(call[0] as string)![1]!)
+    )
+  }
+}
+
+describe('Traffic tap', () => {
+  let network: TestNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>
+
+  beforeEach(async () => {
+    network = createTestNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>({
+      renderers: ['editor', 'preview'],
+      utilities: ['worker'],
+    })
+    await network.flush()
+  })
+
+  afterEach(() => {
+    network.close()
+    vi.useRealTimers()
+  })
+
+  it('should record messages on both ends once the port is established', async () => {
+    network.renderers.editor.setTap(true)
+    network.renderers.preview.setTap(true)
+
+    await network.renderers.editor.send({ identifier: 'preview' }, 'status', 'saved')
+    await network.flush()
+
+    const log = network.main.getTapLog()
+    expect(log).toContainEqual(
+      expect.objectContaining({
+        kind: 'port-established',
+        process: expect.objectContaining({ identifier: 'editor' }),
+        peer: expect.objectContaining({ identifier: 'preview' }),
+      })
+    )
+    expect(log.filter((r) => r.kind === 'message')).toEqual([
+      expect.objectContaining({
+        direction: 'sent',
+        channel: 'status',
+        process: expect.objectContaining({ identifier: 'editor' }),
+        peer: expect.objectContaining({ identifier: 'preview' }),
+      }),
+      expect.objectContaining({
+        direction: 'received',
+        channel: 'status',
+        process: expect.objectContaining({ identifier: 'preview' }),
+        peer: expect.objectContaining({ identifier: 'editor' }),
+      }),
+    ])
+  })
+
+  it('should time invokes and record their errors', async () => {
+    network.renderers.editor.setTap(true)
+    network.utilities.worker.setTap(true)
+    network.utilities.worker.handle('add', (_sender, a, b) => a + b)
+    network.utilities.worker.handle('fail', () => {
+      throw new Error('nope')
+    })
+
+    await network.renderers.editor.invoke({ identifier: 'worker' }, 'add', 1, 2)
+    await expect(
+      network.renderers.editor.invoke({ identifier: 'worker' }, 'fail')
+    ).rejects.toThrow()
+    await network.flush()
+
+    const responses = network.main.getTapLog().filter((r) => r.kind === 'invoke-response')
+    expect(responses).toHaveLength(4)
+    expect(responses).toContainEqual(
+      expect.objectContaining({
+        direction: 'received',
+        channel: 'add',
+        duration: expect.any(Number),
+        process: expect.objectContaining({ identifier: 'editor' }),
+      })
+    )
+    expect(responses).toContainEqual(
+      expect.objectContaining({
+        direction: 'sent',
+        channel: 'fail',
+        error: 'nope',
+        process: expect.objectContaining({ identifier: 'worker' }),
+      })
+    )
+  })
+
+  it('should report nothing while the tap is off', async () => {
+    const listener = vi.fn()
+    network.main.onTap(listener)
+
+    await network.renderers.editor.send({ identifier: 'preview' }, 'status', 'saved')
+    await network.flush()
+
+    expect(listener).not.toHaveBeenCalled()
+    expect(network.main.getTapLog()).toEqual([])
+  })
+
+  it('should list the connections main created', async () => {
+    await network.renderers.editor.send({ identifier: 'preview' }, 'status', 'saved')
+    await network.flush()
+
+    const registry = network.main.getRegistry()
+    const connections = network.main
+      .getConnections()
+      .map((pair) => pair.map((id) => registry.get(id)?.identifier).sort())
+    expect(connections).toContainEqual(['editor', 'preview'])
+  })
+
+  describe('openInspector()', () => {
+    beforeEach(() => {
+      FakeInspectorWindow.created = []
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      ;(network.main as any).d.BrowserWindow = FakeInspectorWindow
+    })
+
+    it('should load the page and push the map and tap log into it', async () => {
+      network.renderers.editor.setTap(true)
+      await network.renderers.editor.send({ identifier: 'preview' }, 'status', 'saved')
+      await network.flush()
+
+      network.main.openInspector()
+      const [win] = FakeInspectorWindow.created
+      expect(win!.loadURL).toHaveBeenCalledWith(expect.stringMatching(/^data:text\/html/))
+
+      win!.webContents.emit('did-finish-load')
+      const [update] = win!.updates()
+      expect(update!.reset).toBe(true)
+      expect(update!.map.map((t) => t.identifier)).toContain('editor')
+      expect(update!.records).toContainEqual(expect.objectContaining({ channel: 'status' }))
+    })
+
+    it('should push new records in batches', async () => {
+      vi.useFakeTimers()
+      network.renderers.editor.setTap(true)
+      network.main.openInspector()
+      const [win] = FakeInspectorWindow.created
+      win!.webContents.emit('did-finish-load')
+
+      await network.renderers.editor.send({ identifier: 'preview' }, 'status', 'one')
+      await network.renderers.editor.send({ identifier: 'preview' }, 'status', 'two')
+      await network.flush()
+      vi.advanceTimersByTime(100)
+
+      const updates = win!.updates()
+      expect(updates).toHaveLength(2)
+      expect(
+        updates[1]!.records.filter((r) => (r as { kind: string }).kind === 'message')
+      ).toHaveLength(2)
+    })
+
+    it('should reuse the open window and stop updating it once closed', () => {
+      const win = network.main.openInspector()
+      expect(network.main.openInspector()).toBe(win)
+      expect(FakeInspectorWindow.created[0]!.focus).toHaveBeenCalled()
+
+      win.close()
+      network.main.openInspector()
+      expect(FakeInspectorWindow.created).toHaveLength(2)
+    })
+  })
+})
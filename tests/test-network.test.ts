@@ -0,0 +1,111 @@
+/**
+ * Tests for createTestNetwork(): a real DirectIpcMain brokering renderers and utilities in memory
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+// Plain Node: the electron package resolves but has no APIs
+vi.mock('electron', () => ({
+  app: undefined,
+  BrowserWindow: undefined,
+  ipcMain: undefined,
+  ipcRenderer: undefined,
+  webContents: undefined,
+  MessageChannelMain: undefined,
+  utilityProcess: undefined,
+}))
+
+import { createTestNetwork, TestNetwork } from '../src/testing'
+
+type TestMessageMap = {
+  step: (value: number) => void
+}
+
+type TestInvokeMap = {
+  add: (a: number, b: number) => number
+  whoami: () => string
+}
+
+type TestIdentifiers = 'editor' | 'preview' | 'worker'
+
+describe('createTestNetwork', () => {
+  let network: TestNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>
+
+  beforeEach(async () => {
+    network = createTestNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>({
+      renderers: ['editor', 'preview'],
+      utilities: ['worker'],
+    })
+    await network.flush()
+  })
+
+  afterEach(() => {
+    network.close()
+    vi.useRealTimers()
+  })
+
+  it('should register every process with main', () => {
+    const identifiers = [...network.main.getRegistry().values()].map((t) => t.identifier)
+
+    // Utilities are registered by main directly, renderers once they subscribe
+    expect(identifiers).toEqual(['main', 'worker', 'editor', 'preview'])
+  })
+
+  it('should broker invokes between renderers, utilities and main', async () => {
+    const { editor, preview } = network.renderers
+    network.utilities.worker.handle('add', (_sender, a, b) => a + b)
+    preview.handle('whoami', () => 'preview')
+    editor.handle('whoami', () => 'editor')
+
+    await expect(editor.invoke({ identifier: 'worker' }, 'add', 2, 3)).resolves.toBe(5)
+    await expect(editor.invoke({ identifier: 'preview' }, 'whoami')).resolves.toBe('preview')
+    await expect(network.main.invoke({ identifier: 'editor' }, 'whoami')).resolves.toBe('editor')
+  })
+
+  it('should deliver every message by flush(), in order', async () => {
+    const received: number[] = []
+    network.renderers.preview.on('step', (_sender, value) => received.push(value))
+
+    for (let i = 0; i < 5; i++) {
+      await network.renderers.editor.send({ identifier: 'preview' }, 'step', i)
+    }
+    await network.flush()
+
+    expect(received).toEqual([0, 1, 2, 3, 4])
+  })
+
+  it('should keep delivering under fake timers', async () => {
+    vi.useFakeTimers()
+    network.utilities.worker.handle('whoami', () => 'worker')
+
+    const answer = network.renderers.editor.invoke({ identifier: 'worker' }, 'whoami')
+    await network.flush()
+
+    await expect(answer).resolves.toBe('worker')
+  })
+
+  it('should unregister destroyed renderers and exited utilities', async () => {
+    const removed = vi.fn()
+    network.renderers.editor.localEvents.on('target-removed', removed)
+
+    network.destroyRenderer('preview')
+    network.exitUtility('worker', 1)
+    await network.flush()
+
+    expect(removed.mock.calls.map(([target]) => target.identifier).sort()).toEqual([
+      'preview',
+      'worker',
+    ])
+    expect(network.main.getUtilityProcesses()).toEqual([])
+  })
+
+  it('should add processes after creation', async () => {
+    const late = network.addRenderer('preview-2' as TestIdentifiers)
+    late.handle('whoami', () => 'late')
+    await network.flush()
+
+    await expect(
+      network.renderers.editor.invoke({ identifier: 'preview-2' as TestIdentifiers }, 'whoami')
+    ).resolves.toBe('late')
+  })
+})
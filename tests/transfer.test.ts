@@ -0,0 +1,135 @@
+/**
+ * Tests for transferable arguments (transfer() and ports passed through send()/invoke())
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { useRendererNetwork } from './helpers/rendererNetwork'
+import { prepareTransfer, restoreTransferredPorts, transfer } from '../src/common/DirectIpcTransfer'
+
+type TestMessageMap = {
+  'audio-frame': (frame: Float32Array) => void
+  'open-channel': (label: string, port: MessagePort) => void
+}
+
+type TestInvokeMap = {
+  'render-tile': (tile: ArrayBuffer) => ArrayBuffer
+}
+
+type TestIdentifiers = 'controller' | 'mixer' | 'renderer'
+
+describe('prepareTransfer / restoreTransferredPorts', () => {
+  it('should collect marked transferables and replace ports with placeholders', () => {
+    const buffer = new ArrayBuffer(8)
+    const { port1 } = new MessageChannel()
+
+    const { values, transfer: list } = prepareTransfer(['label', port1, transfer(buffer, [buffer])])
+
+    expect(values[0]).toBe('label')
+    expect(values[1]).not.toBe(port1)
+    expect(values[2]).toBe(buffer)
+    expect(list).toEqual([port1, buffer])
+    expect(restoreTransferredPorts(values, [port1])).toEqual(['label', port1, buffer])
+    port1.close()
+  })
+
+  it('should only accept objects', () => {
+    expect(() => transfer(42 as unknown as object, [])).toThrow(TypeError)
+  })
+})
+
+describe('Transferable arguments', () => {
+  const network = useRendererNetwork<TestMessageMap, TestInvokeMap, TestIdentifiers>([
+    'controller',
+    'mixer',
+    'renderer',
+  ])
+
+  it('should move buffers marked with transfer() instead of copying them', async () => {
+    const { controller, mixer } = network.renderers
+    const listener = vi.fn()
+    mixer.on('audio-frame', listener)
+
+    const frame = new Float32Array([0.5, -0.5])
+    await controller.send({ identifier: 'mixer' }, 'audio-frame', transfer(frame, [frame.buffer]))
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled())
+
+    expect(frame.byteLength).toBe(0)
+    expect(Array.from(listener.mock.calls[0]![1] as Float32Array)).toEqual([0.5, -0.5])
+  })
+
+  it('should transfer invoke arguments and results', async () => {
+    const { controller, renderer } = network.renderers
+    let received: ArrayBuffer | undefined
+    renderer.handle('render-tile', (_sender, tile) => {
+      received = tile
+      const result = new Uint8Array([tile.byteLength]).buffer
+      return transfer(result, [result])
+    })
+
+    const tile = new ArrayBuffer(16)
+    const result = await controller.invoke(
+      { identifier: 'renderer' },
+      'render-tile',
+      transfer(tile, [tile])
+    )
+
+    expect(tile.byteLength).toBe(0)
+    expect(received?.byteLength).toBe(16)
+    expect(Array.from(new Uint8Array(result))).toEqual([16])
+  })
+
+  it('should hand a fresh MessagePort to another process', async () => {
+    const { controller, mixer } = network.renderers
+    let remote: MessagePort | undefined
+    mixer.on('open-channel', (_sender, _label, port) => {
+      remote = port
+    })
+
+    const channel = new MessageChannel()
+    await controller.send({ identifier: 'mixer' }, 'open-channel', 'meters', channel.port2)
+    await vi.waitFor(() => expect(remote).toBeDefined())
+
+    const echoed = new Promise((resolve) => {
+      channel.port1.onmessage = (event) => resolve(event.data)
+    })
+    remote!.postMessage('level: -6dB')
+    await expect(echoed).resolves.toBe('level: -6dB')
+    channel.port1.close()
+    remote!.close()
+  })
+
+  it('should transfer the coalesced value of a throttled send', async () => {
+    const { controller, mixer } = network.renderers
+    const listener = vi.fn()
+    mixer.on('audio-frame', listener)
+
+    const first = new Float32Array([1])
+    const last = new Float32Array([2])
+    controller.throttled.send(
+      { identifier: 'mixer' },
+      'audio-frame',
+      transfer(first, [first.buffer])
+    )
+    controller.throttled.send({ identifier: 'mixer' }, 'audio-frame', transfer(last, [last.buffer]))
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled())
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(Array.from(listener.mock.calls[0]![1] as Float32Array)).toEqual([2])
+    expect(first.byteLength).toBe(4)
+    expect(last.byteLength).toBe(0)
+  })
+
+  it('should refuse to transfer to several targets', async () => {
+    const { controller } = network.renderers
+    const frame = new Float32Array([1])
+
+    await expect(
+      controller.send(
+        { allIdentifiers: /^(mixer|renderer)$/ },
+        'audio-frame',
+        transfer(frame, [frame.buffer])
+      )
+    ).rejects.toThrow('single target')
+    expect(frame.byteLength).toBe(4)
+  })
+})
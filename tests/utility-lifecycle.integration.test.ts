@@ -21,6 +21,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { EventEmitter } from 'events'
 import { DirectIpcUtility, RegistrationState } from '../src/utility/DirectIpcUtility.js'
 import {
+  DIRECT_IPC_CAPABILITIES,
   DIRECT_IPC_CHANNELS,
   DirectIpcTarget,
   ProcessType,
@@ -311,6 +312,7 @@ describe('Utility Process Lifecycle Integration', () => {
       expect(mockParentPort.postMessage).toHaveBeenCalledWith({
         channel: DIRECT_IPC_CHANNELS.UTILITY_REGISTER,
         identifier: 'compute-worker',
+        capabilities: DIRECT_IPC_CAPABILITIES,
       })
 
       // Simulate MAP_UPDATE from main